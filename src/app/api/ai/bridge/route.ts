@@ -0,0 +1,266 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { checkCanGenerate, consumeCredit, getUserSubscription } from '@/lib/subscription'
+import { TIER_CONFIG } from '@/lib/stripe'
+import { rateLimits, checkRateLimit, getRateLimitHeaders } from '@/lib/rate-limit'
+import { bridgeTracksSchema, validateRequest } from '@/lib/validations'
+import { checkCSRF } from '@/lib/csrf'
+import { completeValidatedObject, aiBridgeSchema, type AITrack } from '@/lib/ai-schemas'
+import { verifyTracks } from '@/lib/track-verification'
+import { checkTrackRules } from '@/lib/constraint-compliance'
+import { planBridgeSteps, scoreBridge, beatsDirectTransition, describeBridgeStep, MAX_BRIDGE_TRACKS } from '@/lib/bridge-tracks'
+import { calculateTransitionScore } from '@/lib/camelot'
+import type { AIConstraints, AIProvider, BridgeProposal, Track } from '@/types'
+
+// Next.js route segment config - increase timeout for serverless functions
+export const maxDuration = 60
+
+const MAX_PROPOSALS = 5
+
+// Each constraint warning costs a proposal this many points
+const WARNING_PENALTY = 10
+
+const BRIDGE_SYSTEM_PROMPT = `You are a professional DJ fixing an awkward transition by inserting bridge tracks between two songs.
+Return ONLY valid JSON:
+{
+  "singles": [TRACK, TRACK, TRACK],
+  "pairs": [[TRACK, TRACK], [TRACK, TRACK]]
+}
+- "singles": three alternative tracks that each bridge the gap on their own.
+- "pairs": two alternative two-track sequences (played in order) that bridge it more gradually.
+TRACK is { "title", "artist", "bpm", "key", "genre", "energy", "aiReasoning" }:
+- real, existing songs only; never either neighbour's artist
+- key in standard notation (e.g. "Am", "F#", "Dbm"); energy 1-100 subjective intensity (NOT tempo)
+- aiReasoning: one sentence on how it connects the two neighbours
+Aim for the requested key, BPM and energy of each step: walk the key around the Camelot wheel, step the BPM, move the energy gradually.
+No markdown, no explanation, just the JSON object.`
+
+function describeTrack(track: Track): string {
+  return `${track.artist} - ${track.title} (${[
+    track.key && `key ${track.key}`,
+    track.bpm && `${track.bpm} BPM`,
+    track.energy !== undefined && `energy ${track.energy}`,
+    track.genre,
+  ].filter(Boolean).join(', ')})`
+}
+
+function describeConstraints(constraints: AIConstraints | undefined): string {
+  if (!constraints) return ''
+  const rules = [
+    constraints.energyRange && `energy between ${constraints.energyRange.min} and ${constraints.energyRange.max}`,
+    constraints.activeDecades?.length && `released in the ${constraints.activeDecades.join(', ')}`,
+    constraints.blacklist?.length && `avoid: ${constraints.blacklist.join(', ')}`,
+    constraints.avoidArtists?.length && `no tracks by: ${constraints.avoidArtists.join(', ')}`,
+    constraints.avoidGenres?.length && `no genres: ${constraints.avoidGenres.join(', ')}`,
+    constraints.avoidExplicit && 'no explicit tracks',
+  ].filter(Boolean)
+  return rules.length > 0 ? `\nSet constraints: ${rules.join('; ')}.` : ''
+}
+
+function buildBridgePrompt(previousTrack: Track, nextTrack: Track, constraints: AIConstraints | undefined): string {
+  const [single] = planBridgeSteps(previousTrack, nextTrack, 1)
+  const pair = planBridgeSteps(previousTrack, nextTrack, 2)
+
+  return `Outgoing track: ${describeTrack(previousTrack)}
+Incoming track: ${describeTrack(nextTrack)}
+
+Single bridge target: ${describeBridgeStep(single)}
+Two-track bridge targets: first ${describeBridgeStep(pair[0])}; then ${describeBridgeStep(pair[1])}
+Stay close to the neighbours' genres (${[previousTrack.genre, nextTrack.genre].filter(Boolean).join(' / ') || 'match their style'}).${describeConstraints(constraints)}
+
+Return only the JSON object.`
+}
+
+function toTrack(track: AITrack, index: number, enrichment?: { videoId: string; thumbnail: string; duration: number }): Track {
+  const timestamp = Date.now()
+  return {
+    id: `track-bridge-${timestamp}-${index}`,
+    youtubeId: enrichment?.videoId || '',
+    title: track.title,
+    artist: track.artist,
+    duration: enrichment?.duration || track.duration || 240,
+    bpm: track.bpm,
+    key: track.key,
+    genre: track.genre,
+    energy: track.energy,
+    releaseYear: track.year,
+    isExplicit: track.explicit,
+    thumbnail: enrichment?.thumbnail || `https://picsum.photos/seed/${timestamp + index}/200/200`,
+    aiReasoning: track.aiReasoning,
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // CSRF protection
+    const csrfError = checkCSRF(request)
+    if (csrfError) return csrfError
+
+    // Authentication check
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required', code: 'auth_required' },
+        { status: 401 }
+      )
+    }
+
+    const userEmail = session.user.email
+
+    // Rate limit check (bridges are swap-sized requests)
+    const rateLimit = await checkRateLimit(rateLimits.aiSwap, userEmail)
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Rate limit exceeded. Please wait before trying again.',
+          code: 'rate_limited',
+          retryAfter: Math.ceil((rateLimit.reset - Date.now()) / 1000),
+        },
+        {
+          status: 429,
+          headers: getRateLimitHeaders(rateLimit),
+        }
+      )
+    }
+
+    // Check if user can generate (has credits)
+    const canGenerate = await checkCanGenerate(userEmail)
+    if (!canGenerate.allowed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: canGenerate.reason || 'No credits remaining',
+          code: 'no_credits',
+          creditsRemaining: 0
+        },
+        { status: 402 }
+      )
+    }
+
+    // Parse and validate request body
+    const rawBody = await request.json()
+    const validation = validateRequest(bridgeTracksSchema, rawBody)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validation.error,
+          code: 'validation_error',
+          details: validation.details,
+        },
+        { status: 400 }
+      )
+    }
+
+    const constraints = validation.data.constraints as AIConstraints | undefined
+    const provider: AIProvider = validation.data.provider || 'openai'
+    const previousTrack = validation.data.previousTrack as Track
+    const nextTrack = validation.data.nextTrack as Track
+
+    // Check if user has access to the requested provider
+    const subscription = await getUserSubscription(userEmail)
+    const tierConfig = TIER_CONFIG[subscription.tier]
+    if (!(tierConfig.allowedProviders as readonly string[]).includes(provider)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `${provider} is not available on your plan. Upgrade to Pro for access to all AI providers.`,
+          code: 'provider_not_available'
+        },
+        { status: 403 }
+      )
+    }
+
+    console.log('[Bridge API] Request received:', {
+      user: userEmail,
+      provider,
+      from: `${previousTrack.artist} - ${previousTrack.title}`,
+      to: `${nextTrack.artist} - ${nextTrack.title}`,
+    })
+
+    // Consume credit before making AI request
+    await consumeCredit(userEmail)
+
+    const suggestions = await completeValidatedObject(provider, {
+      logLabel: 'Bridge',
+      system: BRIDGE_SYSTEM_PROMPT,
+      prompt: buildBridgePrompt(previousTrack, nextTrack, constraints),
+      temperature: 0.8,
+      maxTokens: 2000,
+      jsonObject: true,
+    }, aiBridgeSchema)
+
+    const candidates = [
+      ...suggestions.singles.map((track) => [track]),
+      ...suggestions.pairs,
+    ].filter((tracks) => tracks.length > 0 && tracks.length <= MAX_BRIDGE_TRACKS)
+
+    // Look every suggested track up once so proposals are playable
+    const flat = candidates.flat()
+    const verifications = flat.length > 0 ? await verifyTracks(flat) : []
+
+    const directScore = calculateTransitionScore(
+      previousTrack.bpm, nextTrack.bpm,
+      previousTrack.key, nextTrack.key,
+      previousTrack.energy, nextTrack.energy
+    )
+
+    let trackIndex = 0
+    const scored = candidates.flatMap((tracks) => {
+      const resolved = tracks.map((track) => {
+        const verification = verifications[trackIndex]
+        const resolvedTrack: Track = {
+          ...toTrack(track, trackIndex, verification?.enrichment ?? undefined),
+          verificationConfidence: verification?.confidence,
+          verificationStatus: verification ? (verification.verified ? 'verified' : 'unverified') : undefined,
+          releaseYear: verification?.releaseYear ?? track.year,
+          isExplicit: verification?.isExplicit ?? track.explicit,
+        }
+        trackIndex++
+        return resolvedTrack
+      })
+
+      // Hard constraint breaks rule a proposal out, warnings push it down
+      const violations = constraints
+        ? resolved.flatMap((track, index) => checkTrackRules(track, constraints, index > 0 ? resolved[index - 1] : previousTrack))
+        : []
+      if (violations.some((violation) => violation.severity === 'error')) return []
+
+      // A bridge only helps if none of its hops is worse than the transition it replaces
+      const { score, hopScores } = scoreBridge(previousTrack, resolved, nextTrack)
+      if (!beatsDirectTransition(hopScores, directScore)) return []
+
+      const proposal: BridgeProposal = {
+        tracks: resolved,
+        score: Math.max(0, score - violations.length * WARNING_PENALTY),
+        hopScores,
+      }
+      return [proposal]
+    })
+
+    const proposals = scored
+      .sort((a, b) => b.score - a.score || Math.min(...b.hopScores) - Math.min(...a.hopScores))
+      .slice(0, MAX_PROPOSALS)
+
+    console.log('[Bridge API] Returning', proposals.length, 'proposals; best', proposals[0]?.score, 'vs direct', directScore)
+
+    return NextResponse.json({
+      success: true,
+      proposals,
+      directScore,
+      metadata: {
+        provider,
+        generatedAt: new Date().toISOString()
+      }
+    })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[Bridge API] Error:', errorMessage)
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    )
+  }
+}
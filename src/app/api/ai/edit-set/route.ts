@@ -0,0 +1,256 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { checkCanGenerate, consumeCredit, getUserSubscription } from '@/lib/subscription'
+import { TIER_CONFIG } from '@/lib/stripe'
+import { rateLimits, checkRateLimit, getRateLimitHeaders } from '@/lib/rate-limit'
+import { editSetSchema, validateRequest, type EditSetInput } from '@/lib/validations'
+import { checkCSRF } from '@/lib/csrf'
+import { completeValidatedObject, aiEditPlanSchema, type AIEditOperation, type AITrack } from '@/lib/ai-schemas'
+import { verifyTracks } from '@/lib/track-verification'
+import { checkEditOperations } from '@/lib/set-edit-plan'
+import type { AIProvider, PlaylistNode, SetEditOperation, SetEditPlan, Track } from '@/types'
+
+// Next.js route segment config - increase timeout for serverless functions
+export const maxDuration = 60
+
+const EDIT_SYSTEM_PROMPT = `You are a professional DJ editing an existing DJ set on request.
+You receive the set as a numbered track list and an instruction. Answer with an edit plan.
+Return ONLY valid JSON:
+{
+  "summary": string (one or two sentences to the user describing what you changed and why),
+  "operations": [
+    { "type": "replace", "index": number, "track": TRACK, "reason": string },
+    { "type": "insert", "index": number, "track": TRACK, "reason": string },
+    { "type": "remove", "index": number, "reason": string },
+    { "type": "move", "from": number, "to": number, "reason": string },
+    { "type": "energy", "index": number, "energy": number, "reason": string }
+  ]
+}
+
+Rules:
+- Track numbers are 1-based and ALWAYS refer to the set as given, never to the set after earlier operations.
+- "insert" places the new track before track "index"; use (track count + 1) to append.
+- "move" moves track "from" so it ends up at position "to".
+- "energy" changes a track's target energy (1-100 subjective intensity, NOT tempo) without swapping it.
+- Tracks marked [LOCKED] must not be replaced, removed or moved, and stay at their position even when other edits shift the set. Tracks marked [ENERGY LOCKED] keep their energy.
+- Only touch the tracks the instruction is about. If nothing should change, return an empty operations list and explain why in summary.
+- TRACK is { "title", "artist", "energy", "bpm", "key", "genre", "aiReasoning" }: real, existing songs only, no artists already in the set unless asked.
+
+No markdown, no explanation outside the JSON.`
+
+function formatSet(playlist: EditSetInput['playlist']): string {
+  return playlist.map((track, index) => {
+    const details = [
+      `energy ${track.targetEnergy ?? track.energy ?? '?'}`,
+      track.bpm && `${track.bpm} BPM`,
+      track.key,
+      track.genre,
+    ].filter(Boolean).join(', ')
+    const locks = [track.isLocked && '[LOCKED]', track.isEnergyLocked && '[ENERGY LOCKED]'].filter(Boolean).join(' ')
+    return `${index + 1}. ${track.artist} - ${track.title} (${details})${locks ? ` ${locks}` : ''}`
+  }).join('\n')
+}
+
+function buildEditPrompt(input: Omit<EditSetInput, 'provider'>): string {
+  const history = (input.history || [])
+    .map((message) => `${message.role === 'user' ? 'User' : 'You'}: ${message.content}`)
+    .join('\n')
+
+  return `${input.prompt ? `The set was generated from: "${input.prompt}"\n\n` : ''}Current set (${input.playlist.length} tracks):
+${formatSet(input.playlist)}
+${history ? `\nConversation so far:\n${history}\n` : ''}
+Instruction: ${input.instruction}
+
+Return only the JSON object.`
+}
+
+function toTrack(track: AITrack, index: number, enrichment?: { videoId: string; thumbnail: string; duration: number }): Track {
+  const timestamp = Date.now()
+  return {
+    id: `track-edit-${timestamp}-${index}`,
+    youtubeId: enrichment?.videoId || '',
+    title: track.title,
+    artist: track.artist,
+    duration: enrichment?.duration || track.duration || 240,
+    bpm: track.bpm,
+    key: track.key,
+    genre: track.genre,
+    energy: track.energy,
+    releaseYear: track.year,
+    isExplicit: track.explicit,
+    thumbnail: enrichment?.thumbnail || `https://picsum.photos/seed/${timestamp + index}/200/200`,
+    aiReasoning: track.aiReasoning,
+  }
+}
+
+/**
+ * Turn the model's 1-based operations into plan operations, looking up the
+ * new tracks on iTunes/Invidious so they're playable in the preview
+ */
+async function resolveOperations(operations: AIEditOperation[]): Promise<SetEditOperation[]> {
+  const newTracks = operations.flatMap((operation) => (operation.track ? [operation.track] : []))
+  const verifications = newTracks.length > 0 ? await verifyTracks(newTracks) : []
+
+  let trackIndex = 0
+  return operations.map((operation): SetEditOperation => {
+    const reason = operation.reason
+    switch (operation.type) {
+      case 'replace':
+      case 'insert': {
+        const verification = verifications[trackIndex]
+        const track = {
+          ...toTrack(operation.track!, trackIndex, verification?.enrichment ?? undefined),
+          verificationConfidence: verification?.confidence,
+          verificationStatus: verification ? (verification.verified ? 'verified' as const : 'unverified' as const) : undefined,
+        }
+        trackIndex++
+        return { type: operation.type, index: operation.index! - 1, track, reason }
+      }
+      case 'remove':
+        return { type: 'remove', index: operation.index! - 1, reason }
+      case 'move':
+        return { type: 'move', from: operation.from! - 1, to: operation.to! - 1, reason }
+      case 'energy':
+        return { type: 'energy', index: operation.index! - 1, energy: operation.energy!, reason }
+    }
+  })
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // CSRF protection
+    const csrfError = checkCSRF(request)
+    if (csrfError) return csrfError
+
+    // Authentication check
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required', code: 'auth_required' },
+        { status: 401 }
+      )
+    }
+
+    const userEmail = session.user.email
+
+    // Rate limit check (edits are swap-sized requests)
+    const rateLimit = await checkRateLimit(rateLimits.aiSwap, userEmail)
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Rate limit exceeded. Please wait before trying again.',
+          code: 'rate_limited',
+          retryAfter: Math.ceil((rateLimit.reset - Date.now()) / 1000),
+        },
+        {
+          status: 429,
+          headers: getRateLimitHeaders(rateLimit),
+        }
+      )
+    }
+
+    // Check if user can generate (has credits)
+    const canGenerate = await checkCanGenerate(userEmail)
+    if (!canGenerate.allowed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: canGenerate.reason || 'No credits remaining',
+          code: 'no_credits',
+          creditsRemaining: 0
+        },
+        { status: 402 }
+      )
+    }
+
+    // Parse and validate request body
+    const rawBody = await request.json()
+    const validation = validateRequest(editSetSchema, rawBody)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validation.error,
+          code: 'validation_error',
+          details: validation.details,
+        },
+        { status: 400 }
+      )
+    }
+
+    const input = validation.data
+    const provider: AIProvider = input.provider || 'openai'
+
+    // Check if user has access to the requested provider
+    const subscription = await getUserSubscription(userEmail)
+    const tierConfig = TIER_CONFIG[subscription.tier]
+    if (!(tierConfig.allowedProviders as readonly string[]).includes(provider)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `${provider} is not available on your plan. Upgrade to Pro for access to all AI providers.`,
+          code: 'provider_not_available'
+        },
+        { status: 403 }
+      )
+    }
+
+    console.log('[Edit Set API] Request received:', {
+      user: userEmail,
+      provider,
+      tracks: input.playlist.length,
+      instruction: input.instruction.substring(0, 80),
+    })
+
+    // Consume credit before making AI request
+    await consumeCredit(userEmail)
+
+    const aiPlan = await completeValidatedObject(provider, {
+      logLabel: 'EditSet',
+      system: EDIT_SYSTEM_PROMPT,
+      prompt: buildEditPrompt(input),
+      temperature: 0.7,
+      maxTokens: 3000,
+      jsonObject: true,
+    }, aiEditPlanSchema)
+
+    const operations = await resolveOperations(aiPlan.operations)
+
+    // Locks are enforced here as well as in the prompt
+    const nodes = input.playlist.map((track, index): PlaylistNode => ({
+      id: `edit-check-${index}`,
+      track: { id: '', youtubeId: '', duration: 0, title: track.title, artist: track.artist },
+      position: index,
+      isLocked: track.isLocked,
+      isEnergyLocked: track.isEnergyLocked,
+    }))
+    const checked = checkEditOperations(nodes, operations)
+
+    const plan: SetEditPlan = {
+      summary: aiPlan.summary || (checked.operations.length > 0
+        ? `Planned ${checked.operations.length} change${checked.operations.length === 1 ? '' : 's'}.`
+        : 'No changes needed.'),
+      ...checked,
+    }
+
+    console.log('[Edit Set API] Plan:', plan.operations.length, 'operations,', plan.skipped.length, 'skipped')
+
+    return NextResponse.json({
+      success: true,
+      plan,
+      metadata: {
+        provider,
+        generatedAt: new Date().toISOString()
+      }
+    })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[Edit Set API] Error:', errorMessage)
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    )
+  }
+}
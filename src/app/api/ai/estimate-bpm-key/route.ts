@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
-import OpenAI from 'openai'
+import {
+  getBpmKeyCorrections,
+  getCorrectionConfidence,
+  type BpmKeyCorrection,
+} from '@/lib/bpm-key-corrections'
+import { completeLLM, extractJSON, getDefaultProvider } from '@/lib/llm-providers'
+import { aiBpmKeyEstimateSchema } from '@/lib/ai-schemas'
+import type { BpmKeySource } from '@/types'
 
 export const maxDuration = 30 // 30 second timeout
 
@@ -13,12 +20,35 @@ interface BpmKeyEstimate {
   bpm: number
   key: string
   confidence: number
+  source: BpmKeySource
+  verified: boolean
 }
 
-// OpenAI client (primary provider for estimation)
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
+/**
+ * Estimate built entirely from stored user corrections (null unless both fields are corrected)
+ */
+function estimateFromCorrection(correction: BpmKeyCorrection | null): BpmKeyEstimate | null {
+  if (!correction?.bpm || !correction.key) return null
+  return {
+    bpm: correction.bpm.value,
+    key: correction.key.value,
+    confidence: getCorrectionConfidence(Math.min(correction.bpm.votes, correction.key.votes)),
+    source: 'user',
+    verified: true,
+  }
+}
+
+/**
+ * Override AI-estimated fields with any partial user correction
+ */
+function applyCorrection(estimate: BpmKeyEstimate, correction: BpmKeyCorrection | null): BpmKeyEstimate {
+  if (!correction) return estimate
+  return {
+    ...estimate,
+    bpm: correction.bpm?.value ?? estimate.bpm,
+    key: correction.key?.value ?? estimate.key,
+  }
+}
 
 // System prompt for BPM/key estimation
 const SYSTEM_PROMPT = `You are a music metadata analyst specializing in electronic and dance music.
@@ -84,25 +114,48 @@ export async function POST(request: NextRequest) {
     // Limit batch size to 20 tracks
     const limitedTracks = tracks.slice(0, 20)
 
+    // User corrections win over the AI - only ask about tracks without a full correction
+    const corrections = await getBpmKeyCorrections(limitedTracks)
+    const corrected = corrections.map(estimateFromCorrection)
+    const aiIndices = limitedTracks
+      .map((_, index) => index)
+      .filter(index => corrected[index] === null)
+
+    if (aiIndices.length === 0) {
+      return NextResponse.json({
+        success: true,
+        estimates: corrected,
+      })
+    }
+
+    const aiTracks = aiIndices.map(index => limitedTracks[index])
+
     // Format tracks for prompt
-    const trackList = limitedTracks
+    const trackList = aiTracks
       .map((t, i) => `${i + 1}. "${t.artist} - ${t.title}"${t.genre ? ` [Genre: ${t.genre}]` : ''}`)
       .join('\n')
 
     const userPrompt = USER_PROMPT_TEMPLATE.replace('{{TRACKS}}', trackList)
 
-    // Call OpenAI
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content: userPrompt },
-      ],
+    // OpenAI is the primary provider for estimation; any configured one will do
+    const provider = getDefaultProvider('openai')
+    if (!provider) {
+      return NextResponse.json(
+        { success: false, error: 'No AI provider configured' },
+        { status: 503 }
+      )
+    }
+
+    const completion = await completeLLM(provider, {
+      logLabel: 'BPM/Key',
+      system: SYSTEM_PROMPT,
+      prompt: userPrompt,
       temperature: 0.3, // Lower temperature for more consistent estimates
-      max_tokens: 1000,
+      maxTokens: 1000,
+      timeoutMs: 25000,
     })
 
-    const responseText = completion.choices[0]?.message?.content?.trim()
+    const responseText = completion.text.trim()
 
     if (!responseText) {
       return NextResponse.json(
@@ -112,54 +165,45 @@ export async function POST(request: NextRequest) {
     }
 
     // Parse JSON response
-    let estimates: BpmKeyEstimate[]
-    try {
-      // Remove markdown code blocks if present
-      const cleanedResponse = responseText
-        .replace(/```json\n?/g, '')
-        .replace(/```\n?/g, '')
-        .trim()
-
-      estimates = JSON.parse(cleanedResponse)
-
-      if (!Array.isArray(estimates)) {
-        throw new Error('Response is not an array')
-      }
-    } catch (parseError) {
+    const extracted = extractJSON(responseText, 'array')
+    if (!extracted) {
       console.error('[BPM/Key] Failed to parse AI response:', responseText)
       return NextResponse.json(
         { success: false, error: 'Failed to parse AI response' },
         { status: 500 }
       )
     }
-
-    // Validate and normalize estimates
-    const validatedEstimates: BpmKeyEstimate[] = estimates.map((est, index) => {
-      // Ensure BPM is in valid range
-      const bpm = typeof est.bpm === 'number' ? Math.max(60, Math.min(200, Math.round(est.bpm))) : 120
-
-      // Ensure key is valid format
-      const key = normalizeKey(est.key) || 'Am'
-
-      // Ensure confidence is valid
-      const confidence =
-        typeof est.confidence === 'number' ? Math.max(0, Math.min(1, est.confidence)) : 0.5
-
-      return { bpm, key, confidence }
+    const estimates: unknown[] = Array.isArray(extracted.value) ? extracted.value : []
+
+    // Validate and normalize estimates (BPM clamped, key normalized, confidence 0-1)
+    const validatedEstimates: BpmKeyEstimate[] = estimates.slice(0, aiTracks.length).map((est) => {
+      const result = aiBpmKeyEstimateSchema.safeParse(est)
+      const { bpm, key, confidence } = result.success
+        ? result.data
+        : { bpm: 120, key: 'Am', confidence: 0.3 }
+      return { bpm, key, confidence, source: 'ai' as const, verified: false }
     })
 
     // If AI returned fewer estimates than tracks, pad with defaults
-    while (validatedEstimates.length < limitedTracks.length) {
+    while (validatedEstimates.length < aiTracks.length) {
       validatedEstimates.push({
         bpm: 120,
         key: 'Am',
         confidence: 0.3,
+        source: 'ai',
+        verified: false,
       })
     }
 
+    // Merge AI estimates back into the original track order
+    const mergedEstimates = corrected.slice()
+    aiIndices.forEach((trackIndex, aiIndex) => {
+      mergedEstimates[trackIndex] = applyCorrection(validatedEstimates[aiIndex], corrections[trackIndex])
+    })
+
     return NextResponse.json({
       success: true,
-      estimates: validatedEstimates,
+      estimates: mergedEstimates,
     })
   } catch (error) {
     console.error('[BPM/Key] Estimation error:', error)
@@ -172,71 +216,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
-/**
- * Normalize key to standard format
- */
-function normalizeKey(key: unknown): string | null {
-  if (typeof key !== 'string') return null
-
-  let cleaned = key.trim()
-
-  // Handle lowercase
-  if (cleaned.length > 0) {
-    cleaned = cleaned.charAt(0).toUpperCase() + cleaned.slice(1)
-  }
-
-  // Handle variations
-  cleaned = cleaned
-    .replace(/\s*sharp/i, '#')
-    .replace(/\s*flat/i, 'b')
-    .replace(/\s*minor/i, 'm')
-    .replace(/\s*min$/i, 'm')
-    .replace(/\s*maj$/i, '')
-    .replace(/\s*major/i, '')
-    .replace(/\s+/g, '')
-
-  // Validate format (basic check)
-  const validKeys = [
-    'C',
-    'C#',
-    'Db',
-    'D',
-    'D#',
-    'Eb',
-    'E',
-    'F',
-    'F#',
-    'Gb',
-    'G',
-    'G#',
-    'Ab',
-    'A',
-    'A#',
-    'Bb',
-    'B',
-    'Cm',
-    'C#m',
-    'Dbm',
-    'Dm',
-    'D#m',
-    'Ebm',
-    'Em',
-    'Fm',
-    'F#m',
-    'Gbm',
-    'Gm',
-    'G#m',
-    'Abm',
-    'Am',
-    'A#m',
-    'Bbm',
-    'Bm',
-  ]
-
-  if (validKeys.includes(cleaned)) {
-    return cleaned
-  }
-
-  return null
-}
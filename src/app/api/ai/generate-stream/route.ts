@@ -4,93 +4,26 @@ import { authOptions } from '@/lib/auth'
 import { checkCanGenerate, consumeCredit, getUserSubscription } from '@/lib/subscription'
 import { TIER_CONFIG } from '@/lib/stripe'
 import { rateLimits, checkRateLimit, getRateLimitHeaders } from '@/lib/rate-limit'
-import { batchSearchVideoData } from '@/lib/video-search'
+import { batchSearchVideoData, type EnrichedTrackData } from '@/lib/video-search'
 import { checkCSRF } from '@/lib/csrf'
 import { trackApiCall } from '@/lib/quota-tracker'
-import type { AIProvider, GeneratePlaylistRequest, PlaylistNode, Track, AlternativeTrack, StreamEvent, SegmentContext } from '@/types'
+import { getConfiguredProviders, type LLMRequest } from '@/lib/llm-providers'
+import { completeValidatedTracks, type AITrack, type ValidatedTrackList } from '@/lib/ai-schemas'
+import { verifyTrack, verifyAndReplaceTracks, buildReplacementPrompt, type VerifiedTrackList, type TrackVerification, type PrefetchedVerifications } from '@/lib/track-verification'
+import { enforceCompliance, mergeSegmentConstraints, buildComplianceRepairPrompt } from '@/lib/constraint-compliance'
+import { createGenerationJob, streamJobEvents, type GenerationJobHandle } from '@/lib/generation-jobs'
+import type { AIProvider, GeneratePlaylistRequest, PlaylistNode, Track, AlternativeTrack, SegmentContext, ConstraintViolation } from '@/types'
 
 // Next.js route segment config - increase timeout for serverless functions
 export const maxDuration = 60
 
-// Type for AI response with alternatives
-interface AITrackWithAlternatives {
-  title: string
-  artist: string
-  bpm?: number
-  key: string
-  genre: string
-  energy: number
-  duration: number
-  aiReasoning: string
-  alternatives?: {
-    title: string
-    artist: string
-    bpm?: number
-    key: string
-    genre: string
-    energy: number
-    duration: number
-    whyNotChosen: string
-    matchScore: number
-  }[]
-}
+// Netlify stops this function after ~26s (netlify.toml), job included
+const NETLIFY_SAFE_TIMEOUT = 25000
 
 // Track YouTube quota state
 let youtubeQuotaExhausted = false
 let quotaExhaustedAt = 0
 
-// Attempt to repair common JSON issues from AI responses
-function repairJSON(jsonStr: string): string {
-  let repaired = jsonStr
-
-  // Remove any trailing incomplete objects/arrays
-  // Find the last complete object by counting brackets
-  let bracketCount = 0
-  let lastValidEnd = -1
-  let inString = false
-  let escapeNext = false
-
-  for (let i = 0; i < repaired.length; i++) {
-    const char = repaired[i]
-
-    if (escapeNext) {
-      escapeNext = false
-      continue
-    }
-
-    if (char === '\\') {
-      escapeNext = true
-      continue
-    }
-
-    if (char === '"' && !escapeNext) {
-      inString = !inString
-      continue
-    }
-
-    if (!inString) {
-      if (char === '[' || char === '{') {
-        bracketCount++
-      } else if (char === ']' || char === '}') {
-        bracketCount--
-        if (bracketCount === 0) {
-          lastValidEnd = i
-        }
-      }
-    }
-  }
-
-  // If we found a valid end point and there's trailing garbage, trim it
-  if (lastValidEnd > 0 && lastValidEnd < repaired.length - 1) {
-    repaired = repaired.substring(0, lastValidEnd + 1)
-  }
-
-  // Fix common issues: trailing commas before ] or }
-  repaired = repaired.replace(/,(\s*[}\]])/g, '$1')
-
-  return repaired
-}
-
 function parseISO8601Duration(duration: string): number {
   const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/)
   if (!match) return 240
@@ -348,262 +281,103 @@ function buildSegmentInstructions(segment: SegmentContext): string {
     }
   }
 
-  return instructions.join('\n')
-}
-
-// Generate with OpenAI
-async function generateWithOpenAI(prompt: string, constraints: GeneratePlaylistRequest['constraints'], segment?: SegmentContext): Promise<AITrackWithAlternatives[]> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) throw new Error('OpenAI API key not configured')
-
-  const constraintInstructions = buildConstraintInstructions(constraints)
-  const segmentInstructions = segment ? buildSegmentInstructions(segment) : ''
-  console.log('[OpenAI] Starting request...', segment ? `(Segment: ${segment.name})` : '')
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    signal: AbortSignal.timeout(45000), // 45 second timeout
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: `You are a DJ curator. Generate a playlist as a JSON array. Each track object has:
-- title, artist, key (e.g. "Am"), genre, energy (1-100 intensity), duration (seconds)
-- aiReasoning: 1 sentence on why it fits
-- alternatives: array of 2 objects with title, artist, key, genre, energy, duration, whyNotChosen, matchScore (70-95)
-Return ONLY valid JSON array, no markdown.${constraintInstructions ? `\n\nConstraints:\n${constraintInstructions}` : ''}${segmentInstructions ? `\n${segmentInstructions}` : ''}`
-        },
-        {
-          role: 'user',
-          content: segment
-            ? `${segment.targetTrackCount} tracks for "${segment.name}" segment: ${prompt}. Energy: ${segment.constraints.energyRange?.min || constraints?.energyRange?.min || 40}-${segment.constraints.energyRange?.max || constraints?.energyRange?.max || 80}`
-            : `${constraints?.trackCount || 8} track set: ${prompt}. Energy: ${constraints?.energyRange?.min || 40}-${constraints?.energyRange?.max || 80}`
-        }
-      ],
-      temperature: 0.8,
-      max_tokens: 4000
-    })
-  })
-
-  console.log('[OpenAI] Response status:', response.status)
-  if (!response.ok) {
-    const errorText = await response.text()
-    console.error('[OpenAI] HTTP error response:', errorText.substring(0, 500))
-    throw new Error(`OpenAI HTTP ${response.status}: ${errorText.substring(0, 200)}`)
+  // Energy shape, one target per track
+  if (segment.energyTargets && segment.energyTargets.length > 0) {
+    instructions.push(`ENERGY SHAPE: Track-by-track energy targets for this segment: ${segment.energyTargets.join(' → ')}`)
   }
 
-  const data = await response.json()
-  if (data.error) throw new Error(`OpenAI API error: ${data.error.message}`)
-
-  if (data.choices?.[0]?.message?.content) {
-    let content = data.choices[0].message.content
-    console.log('[OpenAI] Raw response length:', content.length)
-    content = content.replace(/```json\s*/gi, '').replace(/```\s*/g, '')
-    const jsonMatch = content.match(/\[[\s\S]*\]/)
-    if (jsonMatch) {
-      try {
-        // Try direct parse first
-        const parsed = JSON.parse(jsonMatch[0])
-        if (!Array.isArray(parsed)) {
-          throw new Error('Parsed result is not an array')
-        }
-        console.log('[OpenAI] Parsed', parsed.length, 'tracks')
-        return parsed
-      } catch (parseErr) {
-        // Try to repair the JSON
-        console.log('[OpenAI] Initial parse failed, attempting repair...')
-        try {
-          const repaired = repairJSON(jsonMatch[0])
-          const parsed = JSON.parse(repaired)
-          if (!Array.isArray(parsed)) {
-            throw new Error('Repaired result is not an array')
-          }
-          console.log('[OpenAI] Repaired and parsed', parsed.length, 'tracks')
-          return parsed
-        } catch (repairErr) {
-          console.error('[OpenAI] JSON parse error after repair:', repairErr)
-          console.error('[OpenAI] Raw JSON (first 500 chars):', jsonMatch[0].substring(0, 500))
-          throw new Error(`OpenAI JSON parse failed: ${parseErr}`)
-        }
-      }
-    }
+  // Tracks already in the set
+  if (segment.excludeTracks && segment.excludeTracks.length > 0) {
+    const played = segment.excludeTracks.map(t => `"${t.title}" by ${t.artist}`).join(', ')
+    instructions.push(`ALREADY PLAYED - DO NOT REPEAT: ${played}`)
   }
-  console.error('[OpenAI] No valid content found in response')
-  throw new Error('OpenAI returned no valid content')
-}
 
-// Generate with Claude
-async function generateWithClaude(prompt: string, constraints: GeneratePlaylistRequest['constraints'], segment?: SegmentContext): Promise<AITrackWithAlternatives[]> {
-  const apiKey = process.env.ANTHROPIC_API_KEY
-  if (!apiKey) throw new Error('Anthropic API key not configured')
+  return instructions.join('\n')
+}
 
+// Build the playlist request (shared by generation and verification re-asks)
+function buildPlaylistRequest(
+  prompt: string,
+  constraints: GeneratePlaylistRequest['constraints'],
+  segment?: SegmentContext
+): LLMRequest {
   const constraintInstructions = buildConstraintInstructions(constraints)
   const segmentInstructions = segment ? buildSegmentInstructions(segment) : ''
-  console.log('[Claude] Starting request...', segment ? `(Segment: ${segment.name})` : '')
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    signal: AbortSignal.timeout(45000), // 45 second timeout
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 4000,
-      messages: [{
-        role: 'user',
-        content: segment
-          ? `You are a professional DJ. Generate tracks for the "${segment.name}" segment: "${prompt}"
-Requirements: ${segment.targetTrackCount} tracks, Energy ${segment.constraints.energyRange?.min || constraints?.energyRange?.min || 40}-${segment.constraints.energyRange?.max || constraints?.energyRange?.max || 80}
-${constraintInstructions ? `Constraints:\n${constraintInstructions}` : ''}${segmentInstructions ? `\n${segmentInstructions}` : ''}
-
-Return ONLY a JSON array with: title, artist, key, genre, energy (1-100), duration (seconds), aiReasoning, alternatives (2 objects with title, artist, key, genre, energy, duration, whyNotChosen, matchScore)`
-          : `You are a professional DJ. Generate a playlist for: "${prompt}"
-Requirements: ${constraints?.trackCount || 8} tracks, Energy ${constraints?.energyRange?.min || 40}-${constraints?.energyRange?.max || 80}
-${constraintInstructions ? `Constraints:\n${constraintInstructions}` : ''}
-
-Return ONLY a JSON array with: title, artist, key, genre, energy (1-100), duration (seconds), aiReasoning, alternatives (2 objects with title, artist, key, genre, energy, duration, whyNotChosen, matchScore)`
-      }]
-    })
-  })
 
-  console.log('[Claude] Response status:', response.status)
-  if (!response.ok) {
-    const errorText = await response.text()
-    console.error('[Claude] HTTP error response:', errorText.substring(0, 500))
-    throw new Error(`Claude HTTP ${response.status}: ${errorText.substring(0, 200)}`)
-  }
-
-  const data = await response.json()
-  if (data.error) throw new Error(`Claude API error: ${data.error.message}`)
-
-  if (data.content?.[0]?.text) {
-    let text = data.content[0].text
-    console.log('[Claude] Raw response length:', text.length)
-    text = text.replace(/```json\s*/gi, '').replace(/```\s*/g, '')
-    const jsonMatch = text.match(/\[[\s\S]*\]/)
-    if (jsonMatch) {
-      try {
-        const parsed = JSON.parse(jsonMatch[0])
-        if (!Array.isArray(parsed)) {
-          throw new Error('Parsed result is not an array')
-        }
-        console.log('[Claude] Parsed', parsed.length, 'tracks')
-        return parsed
-      } catch (parseErr) {
-        // Try to repair the JSON
-        console.log('[Claude] Initial parse failed, attempting repair...')
-        try {
-          const repaired = repairJSON(jsonMatch[0])
-          const parsed = JSON.parse(repaired)
-          if (!Array.isArray(parsed)) {
-            throw new Error('Repaired result is not an array')
-          }
-          console.log('[Claude] Repaired and parsed', parsed.length, 'tracks')
-          return parsed
-        } catch (repairErr) {
-          console.error('[Claude] JSON parse error after repair:', repairErr)
-          console.error('[Claude] Raw JSON (first 500 chars):', jsonMatch[0].substring(0, 500))
-          throw new Error(`Claude JSON parse failed: ${parseErr}`)
-        }
-      }
-    }
+  return {
+    logLabel: 'Stream',
+    system: `You are a DJ curator. Generate a playlist as a JSON array. Each track object has:
+- title, artist, key (e.g. "Am"), genre, energy (1-100 intensity), duration (seconds), year (release year), explicit (true/false)
+- aiReasoning: 1 sentence on why it fits
+- alternatives: array of 2 objects with title, artist, key, genre, energy, duration, year, explicit, whyNotChosen, matchScore (70-95)
+Return ONLY valid JSON array, no markdown.${constraintInstructions ? `\n\nConstraints:\n${constraintInstructions}` : ''}${segmentInstructions ? `\n${segmentInstructions}` : ''}`,
+    prompt: segment
+      ? `${segment.targetTrackCount} tracks for "${segment.name}" segment: ${prompt}. Energy: ${segment.constraints.energyRange?.min || constraints?.energyRange?.min || 40}-${segment.constraints.energyRange?.max || constraints?.energyRange?.max || 80}`
+      : `${constraints?.trackCount || 8} track set: ${prompt}. Energy: ${constraints?.energyRange?.min || 40}-${constraints?.energyRange?.max || 80}`,
+    temperature: 0.8,
+    maxTokens: 4000,
   }
-  console.error('[Claude] No valid content found in response')
-  throw new Error('Claude returned no valid content')
 }
 
-// Generate with Gemini
-async function generateWithGemini(prompt: string, constraints: GeneratePlaylistRequest['constraints'], segment?: SegmentContext): Promise<AITrackWithAlternatives[]> {
-  const apiKey = process.env.GOOGLE_AI_API_KEY
-  if (!apiKey) throw new Error('Google AI API key not configured')
-
-  const constraintInstructions = buildConstraintInstructions(constraints)
-  const segmentInstructions = segment ? buildSegmentInstructions(segment) : ''
-  console.log('[Gemini] Starting request...', segment ? `(Segment: ${segment.name})` : '')
-
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
-    {
-      signal: AbortSignal.timeout(45000), // 45 second timeout
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: segment
-              ? `You are a professional DJ. Generate tracks for the "${segment.name}" segment: "${prompt}"
-Requirements: ${segment.targetTrackCount} tracks, Energy ${segment.constraints.energyRange?.min || constraints?.energyRange?.min || 40}-${segment.constraints.energyRange?.max || constraints?.energyRange?.max || 80}
-${constraintInstructions ? `Constraints:\n${constraintInstructions}` : ''}${segmentInstructions ? `\n${segmentInstructions}` : ''}
-
-Return ONLY a JSON array with: title, artist, key, genre, energy (1-100), duration (seconds), aiReasoning, alternatives (2 objects with title, artist, key, genre, energy, duration, whyNotChosen, matchScore)`
-              : `You are a professional DJ. Generate a playlist for: "${prompt}"
-Requirements: ${constraints?.trackCount || 8} tracks, Energy ${constraints?.energyRange?.min || 40}-${constraints?.energyRange?.max || 80}
-${constraintInstructions ? `Constraints:\n${constraintInstructions}` : ''}
-
-Return ONLY a JSON array with: title, artist, key, genre, energy (1-100), duration (seconds), aiReasoning, alternatives (2 objects with title, artist, key, genre, energy, duration, whyNotChosen, matchScore)`
-          }]
-        }],
-        generationConfig: { temperature: 0.8, maxOutputTokens: 4000 }
-      })
-    }
-  )
-
-  console.log('[Gemini] Response status:', response.status)
-  if (!response.ok) {
-    const errorText = await response.text()
-    console.error('[Gemini] HTTP error response:', errorText.substring(0, 500))
-    throw new Error(`Gemini HTTP ${response.status}: ${errorText.substring(0, 200)}`)
-  }
+// Generate tracks with any registered provider, streaming each track as it validates
+async function generatePlaylistTracks(
+  provider: AIProvider,
+  prompt: string,
+  constraints: GeneratePlaylistRequest['constraints'],
+  segment: SegmentContext | undefined,
+  onTrack: (slot: number, track: AITrack) => void,
+  signal?: AbortSignal
+): Promise<ValidatedTrackList> {
+  const expectedCount = segment ? segment.targetTrackCount : constraints?.trackCount || 8
+  return completeValidatedTracks(provider, { ...buildPlaylistRequest(prompt, constraints, segment), signal }, expectedCount, { onTrack })
+}
 
-  const data = await response.json()
-  if (data.error) throw new Error(`Gemini API error: ${data.error.message}`)
+// Ask the provider for real replacements of tracks that failed verification
+async function requestReplacementTracks(
+  provider: AIProvider,
+  prompt: string,
+  constraints: GeneratePlaylistRequest['constraints'],
+  segment: SegmentContext | undefined,
+  rejected: AITrack[],
+  kept: AITrack[]
+): Promise<AITrack[]> {
+  const request = buildPlaylistRequest(prompt, constraints, segment)
+  const { tracks } = await completeValidatedTracks(provider, {
+    ...request,
+    logLabel: 'Stream-Verify',
+    prompt: buildReplacementPrompt(request.prompt, rejected, kept),
+    maxTokens: Math.min(4000, 600 * rejected.length + 200),
+  }, rejected.length, { maxRepairAttempts: 0 })
+  return tracks
+}
 
-  if (data.candidates?.[0]?.content?.parts?.[0]?.text) {
-    let text = data.candidates[0].content.parts[0].text
-    console.log('[Gemini] Raw response length:', text.length)
-    text = text.replace(/```json\s*/gi, '').replace(/```\s*/g, '')
-    const jsonMatch = text.match(/\[[\s\S]*\]/)
-    if (jsonMatch) {
-      try {
-        const parsed = JSON.parse(jsonMatch[0])
-        if (!Array.isArray(parsed)) {
-          throw new Error('Parsed result is not an array')
-        }
-        console.log('[Gemini] Parsed', parsed.length, 'tracks')
-        return parsed
-      } catch (parseErr) {
-        // Try to repair the JSON
-        console.log('[Gemini] Initial parse failed, attempting repair...')
-        try {
-          const repaired = repairJSON(jsonMatch[0])
-          const parsed = JSON.parse(repaired)
-          if (!Array.isArray(parsed)) {
-            throw new Error('Repaired result is not an array')
-          }
-          console.log('[Gemini] Repaired and parsed', parsed.length, 'tracks')
-          return parsed
-        } catch (repairErr) {
-          console.error('[Gemini] JSON parse error after repair:', repairErr)
-          console.error('[Gemini] Raw JSON (first 500 chars):', jsonMatch[0].substring(0, 500))
-          throw new Error(`Gemini JSON parse failed: ${parseErr}`)
-        }
-      }
-    }
-  }
-  console.error('[Gemini] No valid content found in response')
-  throw new Error('Gemini returned no valid content')
+// Ask the provider for compliant swaps at the positions that break the constraints
+async function requestComplianceSwaps(
+  provider: AIProvider,
+  prompt: string,
+  constraints: GeneratePlaylistRequest['constraints'],
+  segment: SegmentContext | undefined,
+  nodes: PlaylistNode[],
+  violations: ConstraintViolation[]
+): Promise<PlaylistNode[]> {
+  const positions = new Set(violations.map((v) => v.nodeIndex)).size
+  const request = buildPlaylistRequest(prompt, constraints, segment)
+  const { tracks } = await completeValidatedTracks(provider, {
+    ...request,
+    logLabel: 'Stream-Compliance',
+    prompt: buildComplianceRepairPrompt(request.prompt, nodes, violations),
+    maxTokens: Math.min(4000, 600 * positions + 200),
+  }, positions, { maxRepairAttempts: 0 })
+  return tracksToPlaylistNodes(tracks, provider, segment?.id)
 }
 
 // Convert AI tracks to PlaylistNodes with video enrichment (Invidious/Piped + iTunes)
-async function tracksToPlaylistNodes(tracks: AITrackWithAlternatives[], provider: AIProvider, segmentId?: string): Promise<PlaylistNode[]> {
+async function tracksToPlaylistNodes(
+  tracks: AITrack[],
+  provider: AIProvider,
+  segmentId?: string,
+  verified?: VerifiedTrackList
+): Promise<PlaylistNode[]> {
   // Validate tracks is an array
   if (!tracks || !Array.isArray(tracks)) {
     console.error(`[${provider}] Invalid tracks data:`, tracks)
@@ -616,65 +390,109 @@ async function tracksToPlaylistNodes(tracks: AITrackWithAlternatives[], provider
   }
 
   // Prepare tracks for batch video search (Invidious/Piped + iTunes - NO YouTube API)
-  const tracksToSearch = tracks.map(track => ({
-    title: track.title || 'Unknown Track',
-    artist: track.artist || 'Unknown Artist'
-  }))
+  // Tracks already looked up during verification are skipped
+  const tracksToSearch = tracks
+    .filter((_, index) => !verified?.verifications[index]?.enrichment?.videoId)
+    .map(track => ({
+      title: track.title || 'Unknown Track',
+      artist: track.artist || 'Unknown Artist'
+    }))
 
   console.log(`[${provider}] Enriching ${tracksToSearch.length} tracks via Invidious/Piped + iTunes...`)
 
   // Batch search for video data (uses free APIs, no YouTube quota)
-  const enrichedResults = await batchSearchVideoData(tracksToSearch, {
-    skipYouTube: true,  // Never use YouTube API during generation
-    preferAlbumArt: true  // Prefer iTunes album art
-  })
+  const enrichedResults = tracksToSearch.length > 0
+    ? await batchSearchVideoData(tracksToSearch, {
+        skipYouTube: true,  // Never use YouTube API during generation
+        preferAlbumArt: true  // Prefer iTunes album art
+      })
+    : new Map<string, EnrichedTrackData>()
 
   return tracks.map((track, index) => {
     // Key must match format used in batchSearchVideoData: `${artist}:${title}`
-    const artist = track.artist || 'Unknown Artist'
-    const title = track.title || 'Unknown Track'
-    const enriched = enrichedResults.get(`${artist}:${title}`)
-    const timestamp = Date.now()
+    const verification = verified?.verifications[index]
+    const enriched = verification?.enrichment?.videoId
+      ? verification.enrichment
+      : enrichedResults.get(`${track.artist || 'Unknown Artist'}:${track.title || 'Unknown Track'}`)
 
-    return {
-      id: `node-${provider}-${timestamp}-${index}`,
-      track: {
-        id: `track-${provider}-${timestamp}-${index}`,
-        youtubeId: enriched?.videoId || '',
-        title,
-        artist,
-        duration: enriched?.duration || track.duration || 240,
-        key: track.key,
-        genre: track.genre,
-        energy: track.energy,
-        thumbnail: enriched?.thumbnail || `https://picsum.photos/seed/${timestamp + index}/200/200`,
-        aiReasoning: track.aiReasoning
-      },
-      position: index,
-      sourceProvider: provider,
+    return trackToPlaylistNode(track, provider, index, {
       segmentId,
-      alternatives: (track.alternatives || []).map((alt, altIndex) => ({
-        id: `alt-${provider}-${timestamp}-${index}-${altIndex}`,
-        youtubeId: '',
-        title: alt.title,
-        artist: alt.artist,
-        duration: alt.duration || 240,
-        key: alt.key,
-        genre: alt.genre,
-        energy: alt.energy,
-        thumbnail: `https://picsum.photos/seed/${timestamp + index + altIndex + 100}/200/200`,
-        whyNotChosen: alt.whyNotChosen,
-        matchScore: alt.matchScore
-      })),
-      transitionToNext: index < tracks.length - 1 ? {
-        quality: 'good' as const,
-        type: 'blend' as const,
-        duration: 16
-      } : undefined
-    }
+      enriched,
+      verification,
+      replaced: verified?.replaced.has(index),
+      isLast: index === tracks.length - 1,
+    })
   })
 }
 
+interface PlaylistNodeOptions {
+  segmentId?: string
+  enriched?: EnrichedTrackData
+  verification?: TrackVerification
+  replaced?: boolean
+  isLast?: boolean
+}
+
+// Build a single PlaylistNode (also used for tracks streamed before enrichment)
+function trackToPlaylistNode(
+  track: AITrack,
+  provider: AIProvider,
+  index: number,
+  { segmentId, enriched, verification, replaced, isLast }: PlaylistNodeOptions = {}
+): PlaylistNode {
+  const artist = track.artist || 'Unknown Artist'
+  const title = track.title || 'Unknown Track'
+  const timestamp = Date.now()
+
+  return {
+    id: `node-${provider}-${timestamp}-${index}`,
+    track: {
+      id: `track-${provider}-${timestamp}-${index}`,
+      youtubeId: enriched?.videoId || '',
+      title,
+      artist,
+      duration: enriched?.duration || track.duration || 240,
+      key: track.key,
+      genre: track.genre,
+      energy: track.energy,
+      thumbnail: enriched?.thumbnail || `https://picsum.photos/seed/${timestamp + index}/200/200`,
+      aiReasoning: track.aiReasoning,
+      // Catalog facts beat the AI's own claims
+      releaseYear: verification?.releaseYear ?? track.year,
+      isExplicit: verification?.isExplicit ?? track.explicit,
+      ...(verification && {
+        verificationConfidence: verification.confidence,
+        verificationStatus: replaced
+          ? 'replaced' as const
+          : verification.verified ? 'verified' as const : 'unverified' as const,
+      }),
+    },
+    position: index,
+    sourceProvider: provider,
+    segmentId,
+    alternatives: (track.alternatives || []).map((alt, altIndex) => ({
+      id: `alt-${provider}-${timestamp}-${index}-${altIndex}`,
+      youtubeId: '',
+      title: alt.title,
+      artist: alt.artist,
+      duration: alt.duration || 240,
+      key: alt.key,
+      genre: alt.genre,
+      energy: alt.energy,
+      releaseYear: alt.year,
+      isExplicit: alt.explicit,
+      thumbnail: `https://picsum.photos/seed/${timestamp + index + altIndex + 100}/200/200`,
+      whyNotChosen: alt.whyNotChosen,
+      matchScore: alt.matchScore
+    })),
+    transitionToNext: !isLast ? {
+      quality: 'good' as const,
+      type: 'blend' as const,
+      duration: 16
+    } : undefined
+  }
+}
+
 // YouTube search with duration fetch
 async function enrichTrackWithYouTube(track: Partial<Track>, apiKey: string): Promise<Partial<Track>> {
   // Skip if quota exhausted (reset after 5 minutes)
@@ -730,28 +548,17 @@ async function enrichTrackWithYouTube(track: Partial<Track>, apiKey: string): Pr
   }
 }
 
-// Helper to create the streaming response
-function createStreamingResponse(
+// Run a generation job: every event goes to the job's log, which clients follow over SSE
+async function runGenerationJob(
+  job: GenerationJobHandle,
   prompt: string,
   constraints: GeneratePlaylistRequest['constraints'],
-  allowedProviders?: AIProvider[],
-  segment?: SegmentContext
-) {
-  const encoder = new TextEncoder()
-
-  // Determine which providers are available (both configured and allowed by tier)
-  // Check for non-empty strings to handle shell env vars that might be set to ''
-  const configuredProviders: AIProvider[] = []
-
-  // Check which providers are configured (without logging sensitive key data)
-  if (process.env.OPENAI_API_KEY && process.env.OPENAI_API_KEY.trim().length > 0) configuredProviders.push('openai')
-  if (process.env.ANTHROPIC_API_KEY && process.env.ANTHROPIC_API_KEY.trim().length > 0) configuredProviders.push('claude')
-  if (process.env.GOOGLE_AI_API_KEY && process.env.GOOGLE_AI_API_KEY.trim().length > 0) configuredProviders.push('gemini')
-
-  // Filter to only allowed providers if specified (subscription tier restriction)
-  const availableProviders: AIProvider[] = allowedProviders
-    ? configuredProviders.filter(p => allowedProviders.includes(p))
-    : configuredProviders
+  allowedProviders: AIProvider[] | undefined,
+  segment: SegmentContext | undefined,
+  deadline: number
+): Promise<void> {
+  // Providers that are both configured and allowed by the subscription tier
+  const availableProviders = getConfiguredProviders(allowedProviders)
 
   // Calculate per-provider track count to speed up generation when combining results
   // If 3 providers: each gets ~1/3 of tracks, combined = full count
@@ -774,140 +581,177 @@ function createStreamingResponse(
     trackCount: perProviderTrackCount
   }
 
-  const stream = new ReadableStream({
-    async start(controller) {
-      const sendEvent = (event: StreamEvent) => {
-        try {
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
-        } catch (e) {
-          console.error('[Stream API] Failed to send event:', e)
-        }
-      }
+  const sendEvent = job.emit
+  let succeeded = false
 
-      try {
-        // Signal start
-        sendEvent({ event: 'started', providers: availableProviders })
+  try {
+    // Signal start
+    sendEvent({ event: 'started', providers: availableProviders })
+
+    if (availableProviders.length === 0) {
+      sendEvent({ event: 'all-failed', errors: [{ provider: 'openai', error: 'No AI providers configured' }] })
+      await job.finish('failed')
+      return
+    }
+
+    let primaryProvider: AIProvider | null = null
+    const completedProviders: AIProvider[] = []
+    const failures: { provider: AIProvider; error: string }[] = []
+    const youtubeApiKey = process.env.YOUTUBE_API_KEY || process.env.GOOGLE_AI_API_KEY
 
-        if (availableProviders.length === 0) {
-          sendEvent({ event: 'all-failed', errors: [{ provider: 'openai', error: 'No AI providers configured' }] })
-          controller.close()
-          return
+    // Use Promise.race pattern to get first result quickly while others continue
+    const generateForProvider = async (provider: AIProvider): Promise<{
+      provider: AIProvider
+      tracks: PlaylistNode[]
+    } | null> => {
+      sendEvent({ event: 'provider-started', provider })
+
+      try {
+        console.log(`[Stream API] Starting ${provider} generation...`, segment ? `(Segment: ${segment.name})` : '')
+
+        // Each track is sent (and its lookup started) as soon as the model finishes writing it
+        const prefetched: PrefetchedVerifications = new Map()
+        const onTrack = (slot: number, track: AITrack) => {
+          sendEvent({ event: 'track-generated', provider, index: slot, track: trackToPlaylistNode(track, provider, slot, { segmentId: segment?.id }) })
+
+          const key = `${track.artist}:${track.title}`
+          if (prefetched.has(key)) return
+          const lookup = verifyTrack(track.artist, track.title)
+          prefetched.set(key, lookup)
+          lookup.then((verification) => {
+            const enrichment = verification.enrichment
+            if (!enrichment?.videoId) return
+            sendEvent({
+              event: 'track-enriched',
+              provider,
+              index: slot,
+              track: { youtubeId: enrichment.videoId, thumbnail: enrichment.thumbnail, duration: enrichment.duration },
+            })
+          }).catch((error) => {
+            console.warn(`[Stream API] ${provider} early lookup failed:`, error instanceof Error ? error.message : error)
+          })
         }
 
-        let primaryProvider: AIProvider | null = null
-        const completedProviders: AIProvider[] = []
-        const failures: { provider: AIProvider; error: string }[] = []
-        const youtubeApiKey = process.env.YOUTUBE_API_KEY || process.env.GOOGLE_AI_API_KEY
-
-        // Send heartbeat to keep connection alive (Netlify has 26s timeout)
-        let heartbeatActive = true
-        const heartbeatInterval = setInterval(() => {
-          if (heartbeatActive) {
-            try {
-              controller.enqueue(encoder.encode(`: heartbeat\n\n`))
-            } catch {
-              // Connection closed, stop heartbeat
-              heartbeatActive = false
-            }
-          }
-        }, 5000) // Send heartbeat every 5 seconds
-
-        // Use Promise.race pattern to get first result quickly while others continue
-        const generateForProvider = async (provider: AIProvider): Promise<{
-          provider: AIProvider
-          tracks: PlaylistNode[]
-        } | null> => {
-          sendEvent({ event: 'provider-started', provider })
-
-          try {
-            console.log(`[Stream API] Starting ${provider} generation...`, segment ? `(Segment: ${segment.name})` : '')
-            let tracks: AITrackWithAlternatives[]
-
-            switch (provider) {
-              case 'openai':
-                tracks = await generateWithOpenAI(prompt, perProviderConstraints, segment)
-                break
-              case 'claude':
-                tracks = await generateWithClaude(prompt, perProviderConstraints, segment)
-                break
-              case 'gemini':
-                tracks = await generateWithGemini(prompt, perProviderConstraints, segment)
-                break
-              default:
-                throw new Error(`Unknown provider: ${provider}`)
-            }
-
-            console.log(`[Stream API] ${provider} returned ${tracks.length} tracks`)
-            // Track AI provider usage
-            const providerMapping = { openai: 'ai:openai', claude: 'ai:anthropic', gemini: 'ai:google' } as const
-            trackApiCall(providerMapping[provider])
-
-            // Enrich all providers with Invidious/Piped + iTunes (no YouTube API used here)
-            const playlistNodes = await tracksToPlaylistNodes(tracks, provider, segment?.id)
-
-            // Determine if this is primary or alternative
-            if (primaryProvider === null) {
-              primaryProvider = provider
-              console.log(`[Stream API] ${provider} is primary, sending result...`)
-              sendEvent({ event: 'primary-result', provider, tracks: playlistNodes })
-            } else {
-              console.log(`[Stream API] ${provider} is alternative, sending result...`)
-              sendEvent({ event: 'alternative-result', provider, tracks: playlistNodes })
-            }
-
-            completedProviders.push(provider)
-            return { provider, tracks: playlistNodes }
-          } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-            console.error(`[Stream API] ${provider} failed:`, errorMessage)
-            failures.push({ provider, error: errorMessage })
-            sendEvent({ event: 'provider-failed', provider, error: errorMessage })
-            return null
-          }
+        const { tracks: generated, report } = await generatePlaylistTracks(provider, prompt, perProviderConstraints, segment, onTrack, job.signal)
+        if (report) {
+          sendEvent({ event: 'validation-repaired', provider, report })
         }
 
-        // Run all providers in parallel
-        console.log('[Stream API] Starting all providers in parallel...')
-        await Promise.allSettled(
-          availableProviders.map(provider => generateForProvider(provider))
+        console.log(`[Stream API] ${provider} returned ${generated.length} tracks`)
+
+        // Check the tracks exist, replacing hallucinated ones
+        const verified = await verifyAndReplaceTracks(
+          generated,
+          (rejected, kept) => requestReplacementTracks(provider, prompt, perProviderConstraints, segment, rejected, kept),
+          {
+            onVerified: (index, verification) => sendEvent({
+              event: 'track-verified',
+              provider,
+              index,
+              confidence: verification.confidence,
+              verified: verification.verified,
+            }),
+            onReplaced: (index, original, replacement, verification, source) => sendEvent({
+              event: 'track-replaced',
+              provider,
+              index,
+              original: { artist: original.artist, title: original.title },
+              replacement: { artist: replacement.artist, title: replacement.title },
+              confidence: verification.confidence,
+              source,
+            }),
+          },
+          prefetched,
+          deadline
         )
-        console.log('[Stream API] All providers completed. Successes:', completedProviders.length, 'Failures:', failures.length)
-
-        // Send completion event
-        if (completedProviders.length > 0) {
-          sendEvent({
-            event: 'complete',
-            summary: {
-              primary: primaryProvider,
-              alternatives: completedProviders.filter(p => p !== primaryProvider),
-              failed: failures.map(f => f.provider)
-            }
-          })
-          trackApiCall('generation:success')
+
+        // Enrich all providers with Invidious/Piped + iTunes (no YouTube API used here)
+        const enrichedNodes = await tracksToPlaylistNodes(verified.tracks, provider, segment?.id, verified)
+
+        // The prompt can't guarantee the constraints are obeyed - check and repair
+        const { nodes: playlistNodes, report: compliance } = await enforceCompliance(
+          enrichedNodes,
+          mergeSegmentConstraints(perProviderConstraints, segment),
+          (nodes, violations) => requestComplianceSwaps(provider, prompt, perProviderConstraints, segment, nodes, violations)
+        )
+        sendEvent({ event: 'compliance-checked', provider, report: compliance })
+
+        // A cancelled job stops before delivering anything
+        if (job.signal.aborted) throw new Error('Generation cancelled')
+
+        // Determine if this is primary or alternative
+        if (primaryProvider === null) {
+          primaryProvider = provider
+          console.log(`[Stream API] ${provider} is primary, sending result...`)
+          sendEvent({ event: 'primary-result', provider, tracks: playlistNodes })
         } else {
-          sendEvent({ event: 'all-failed', errors: failures })
-          trackApiCall('generation:failure')
+          console.log(`[Stream API] ${provider} is alternative, sending result...`)
+          sendEvent({ event: 'alternative-result', provider, tracks: playlistNodes })
         }
 
-        // Stop heartbeat
-        heartbeatActive = false
-        clearInterval(heartbeatInterval)
+        completedProviders.push(provider)
+        return { provider, tracks: playlistNodes }
       } catch (error) {
-        console.error('[Stream API] Fatal error:', error)
-        sendEvent({ event: 'all-failed', errors: [{ provider: 'openai', error: error instanceof Error ? error.message : 'Unknown fatal error' }] })
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        console.error(`[Stream API] ${provider} failed:`, errorMessage)
+        failures.push({ provider, error: errorMessage })
+        sendEvent({ event: 'provider-failed', provider, error: errorMessage })
+        return null
       }
-
-      controller.close()
     }
-  })
 
-  return new Response(stream, {
-    headers: {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive'
+    // Run all providers in parallel
+    console.log('[Stream API] Starting all providers in parallel...')
+    await Promise.allSettled(
+      availableProviders.map(provider => generateForProvider(provider))
+    )
+    console.log('[Stream API] All providers completed. Successes:', completedProviders.length, 'Failures:', failures.length)
+
+    // Send completion event
+    if (completedProviders.length > 0) {
+      sendEvent({
+        event: 'complete',
+        summary: {
+          primary: primaryProvider,
+          alternatives: completedProviders.filter(p => p !== primaryProvider),
+          failed: failures.map(f => f.provider)
+        }
+      })
+      trackApiCall('generation:success')
+      succeeded = true
+    } else {
+      sendEvent({ event: 'all-failed', errors: failures })
+      trackApiCall('generation:failure')
     }
+  } catch (error) {
+    console.error('[Stream API] Fatal error:', error)
+    sendEvent({ event: 'all-failed', errors: [{ provider: 'openai', error: error instanceof Error ? error.message : 'Unknown fatal error' }] })
+  }
+
+  await job.finish(succeeded ? 'completed' : 'failed')
+}
+
+// Start generation as a background job and follow it over SSE. The job keeps
+// running if this connection drops; clients reattach via /api/ai/jobs/[id]/stream.
+function startGenerationJob(
+  userEmail: string,
+  prompt: string,
+  constraints: GeneratePlaylistRequest['constraints'],
+  allowedProviders?: AIProvider[],
+  segment?: SegmentContext
+): Response {
+  const deadline = Date.now() + NETLIFY_SAFE_TIMEOUT
+  const trackCount = segment ? segment.targetTrackCount : constraints?.trackCount || 8
+  const job = createGenerationJob(userEmail, prompt, trackCount)
+  job.emit({ event: 'job-created', jobId: job.id })
+
+  runGenerationJob(job, prompt, constraints, allowedProviders, segment, deadline).catch((error) => {
+    console.error(`[Stream API] Job ${job.id} crashed:`, error)
+    job.emit({ event: 'all-failed', errors: [{ provider: 'openai', error: 'Generation failed unexpectedly' }] })
+    job.finish('failed')
   })
+
+  return streamJobEvents(job.id)
 }
 
 // GET handler - for EventSource which only supports GET
@@ -978,7 +822,7 @@ export async function GET(request: NextRequest) {
   await consumeCredit(session.user.email)
   trackApiCall('credits:consumed')
 
-  return createStreamingResponse(prompt, finalConstraints, tierConfig.allowedProviders as unknown as AIProvider[])
+  return startGenerationJob(session.user.email, prompt, finalConstraints, tierConfig.allowedProviders as unknown as AIProvider[])
 }
 
 // POST handler - for more complex constraint data
@@ -1041,5 +885,5 @@ export async function POST(request: NextRequest) {
   await consumeCredit(session.user.email)
   trackApiCall('credits:consumed')
 
-  return createStreamingResponse(prompt, constraints, tierConfig.allowedProviders as unknown as AIProvider[], segment)
+  return startGenerationJob(session.user.email, prompt, constraints, tierConfig.allowedProviders as unknown as AIProvider[], segment)
 }
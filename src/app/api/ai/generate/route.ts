@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
-import type { AIProvider, GeneratePlaylistRequest, PlaylistNode, Track, AlternativeTrack } from '@/types'
+import type { AIProvider, GeneratePlaylistRequest, PlaylistNode, Track, AlternativeTrack, ValidationRepairReport } from '@/types'
 import { batchSearchVideoData, type EnrichedTrackData } from '@/lib/video-search'
-import { keyToCamelot } from '@/lib/camelot'
+import { toCamelot } from '@/lib/music-key'
+import { completeValidatedTracks, type AITrack } from '@/lib/ai-schemas'
 
 // Next.js route segment config - increase timeout for serverless functions
 export const maxDuration = 60 // seconds (requires Netlify Pro or Vercel Pro)
@@ -19,45 +20,6 @@ function shouldSkipEnrichment(): boolean {
   return timeRemaining() < 8000
 }
 
-// Type for AI response with alternatives
-interface AITrackWithAlternatives {
-  title: string
-  artist: string
-  bpm?: number
-  key: string
-  genre: string
-  energy: number // 1-100 subjective intensity (NOT tempo)
-  duration: number
-  aiReasoning: string
-  alternatives?: {
-    title: string
-    artist: string
-    bpm?: number
-    key: string
-    genre: string
-    energy: number // 1-100 subjective intensity
-    duration: number
-    whyNotChosen: string
-    matchScore: number
-  }[]
-}
-
-// Fetch with timeout - abort if we're running out of time
-async function fetchWithTimeout(url: string, options?: RequestInit, timeoutMs?: number): Promise<Response> {
-  const timeout = timeoutMs || Math.min(timeRemaining(), 5000)
-  const controller = new AbortController()
-  const timeoutId = setTimeout(() => controller.abort(), timeout)
-
-  try {
-    const response = await fetch(url, { ...options, signal: controller.signal })
-    clearTimeout(timeoutId)
-    return response
-  } catch (error) {
-    clearTimeout(timeoutId)
-    throw error
-  }
-}
-
 /**
  * Enrich tracks using the new video search service
  * Uses Invidious/Piped + iTunes for album art - NO YouTube API calls
@@ -202,357 +164,55 @@ function buildConstraintInstructions(constraints: GeneratePlaylistRequest['const
   return instructions.join('\n')
 }
 
-async function generateWithOpenAI(prompt: string, constraints: GeneratePlaylistRequest['constraints']): Promise<PlaylistNode[]> {
-  const apiKey = process.env.OPENAI_API_KEY
-
-  if (!apiKey) {
-    console.error('[OpenAI] No API key configured')
-    throw new Error('OpenAI API key not configured')
-  }
-
-  const constraintInstructions = buildConstraintInstructions(constraints)
-
-  try {
-    // Use timeout-aware fetch for AI call (allow 12 seconds max for AI response)
-    const response = await fetchWithTimeout('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini', // Fast model for Netlify timeout constraints
-        messages: [
-          {
-            role: 'system',
-            content: `You are a DJ curator. Generate a playlist as a JSON array. Each track object has:
-- title, artist, bpm (estimated tempo 60-200), key (e.g. "Am"), genre, energy (1-100 intensity), duration (seconds)
-- aiReasoning: 1 sentence on why it fits the theme
-- alternatives: array of 2 objects with title, artist, bpm, key, genre, energy, duration, whyNotChosen (1 sentence), matchScore (70-95)
-
-Energy scale: 1-20 chill, 21-40 groovy, 41-60 moderate, 61-80 driving, 81-100 peak.
-BPM guide: house~125, techno~130, dnb~174, hip-hop~90, pop~110.
-Return ONLY valid JSON array, no markdown.${constraintInstructions ? `\n\nConstraints:\n${constraintInstructions}` : ''}`
-          },
-          {
-            role: 'user',
-            content: `${constraints?.trackCount || 8} track set: ${prompt}. Energy: ${constraints?.energyRange?.min || 40}-${constraints?.energyRange?.max || 80}`
-          }
-        ],
-        temperature: 0.8,
-        max_tokens: 4000
-      })
-    }, 60000) // 60 second timeout for OpenAI
-
-    const data = await response.json()
-
-    // Check for API errors first
-    if (data.error) {
-      console.error('[OpenAI] API Error:', data.error)
-      throw new Error(`OpenAI API error: ${data.error.message || JSON.stringify(data.error)}`)
-    }
-
-    if (data.choices?.[0]?.message?.content) {
-      let content = data.choices[0].message.content
-      console.log('[OpenAI] Raw response:', content.substring(0, 300))
-
-      // Remove markdown code blocks if present
-      content = content.replace(/```json\s*/gi, '').replace(/```\s*/g, '')
-
-      // Try to parse JSON, handle truncated responses
-      try {
-        const jsonMatch = content.match(/\[[\s\S]*\]/)
-        if (jsonMatch) {
-          const tracks = JSON.parse(jsonMatch[0])
-          console.log('[OpenAI] Parsed', tracks.length, 'tracks')
-          return await tracksToPlaylistNodes(tracks, constraints?.energyTolerance || 10, true, 'openai')
-        }
-      } catch (parseError) {
-        // Try to fix truncated JSON by finding last complete object
-        console.log('[OpenAI] JSON parse failed, attempting recovery...')
-        const lastCompleteArray = content.lastIndexOf('}]')
-        if (lastCompleteArray > 0) {
-          content = content.substring(0, lastCompleteArray + 2)
-          const jsonMatch = content.match(/\[[\s\S]*\]/)
-          if (jsonMatch) {
-            const tracks = JSON.parse(jsonMatch[0])
-            console.log('[OpenAI] Recovered', tracks.length, 'tracks from truncated response')
-            return await tracksToPlaylistNodes(tracks, constraints?.energyTolerance || 10, true, 'openai')
-          }
-        }
-        throw parseError
-      }
-    }
-
-    console.error('[OpenAI] No valid response content:', JSON.stringify(data).substring(0, 500))
-    throw new Error('OpenAI returned no valid content')
-  } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') {
-      console.error('[OpenAI] Request timed out')
-      throw new Error('OpenAI request timed out - try again or reduce track count')
-    }
-    console.error('[OpenAI] API error:', error)
-    throw error
-  }
-}
-
-async function generateWithClaude(prompt: string, constraints: GeneratePlaylistRequest['constraints']): Promise<PlaylistNode[]> {
-  const apiKey = process.env.ANTHROPIC_API_KEY
-
-  if (!apiKey) {
-    console.error('[Claude] No API key configured')
-    throw new Error('Anthropic API key not configured')
-  }
-
-  const constraintInstructions = buildConstraintInstructions(constraints)
-
-  try {
-    // Use timeout-aware fetch for AI call (allow 12 seconds max for AI response)
-    const response = await fetchWithTimeout('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 2000,
-        messages: [
-          {
-            role: 'user',
-            content: `You are a professional DJ and music curator. Generate a playlist based on this description: "${prompt}"
-
-            Requirements:
-            - Track count: ${constraints?.trackCount || 8}
-            - Energy range: ${constraints?.energyRange?.min || 40}-${constraints?.energyRange?.max || 80} (1-100 scale)
-            - Moods: ${constraints?.moods?.join(', ') || 'varied'}
-
-${constraintInstructions ? `CURATION CONSTRAINTS (follow these carefully):\n${constraintInstructions}` : ''}
-
-            Return ONLY a JSON array of track objects with these fields:
-            - title: string (track name)
-            - artist: string (artist name)
-            - bpm: number (estimated tempo 60-200, e.g. house~125, techno~130, dnb~174, hip-hop~90)
-            - key: string (musical key like "Am", "F#m", "C")
-            - genre: string (music genre)
-            - energy: number (1-100 subjective intensity scale, NOT tempo)
-              1-20: Ambient/chill - downtempo, atmospheric, relaxing
-              21-40: Relaxed, groovy - laid-back beats, smooth vibes
-              41-60: Moderate, steady - balanced energy, consistent drive
-              61-80: High energy, driving - uplifting, powerful, building
-              81-100: Peak intensity, aggressive - drops, maximum impact
-              Based on: aggression, rhythmic intensity, emotional intensity, builds/drops - NOT just tempo
-            - duration: number (in seconds)
-            - aiReasoning: string (IMPORTANT: 1-2 sentences explaining how this specific track fits the user's theme "${prompt}" AND how it transitions from the previous track. Reference the theme directly in your reasoning.)
-            - alternatives: array of 2 alternative track objects, each with:
-              - title, artist, bpm, key, genre, energy, duration (same fields as main track)
-              - whyNotChosen: string (1 sentence explaining why this wasn't the primary pick but is still a great alternative)
-              - matchScore: number (70-95, how well this alternative fits the slot)
-
-            Consider transitions - adjacent tracks should have compatible energy levels and keys.
-            Each track's aiReasoning MUST explicitly reference the user's theme to explain why it was selected.
-            The alternatives should be genuinely good options that almost made the cut - similar style, compatible energy/key.`
-          }
-        ]
-      })
-    }, 20000)
-
-    const data = await response.json()
-
-    // Check for API errors first
-    if (data.error) {
-      console.error('[Claude] API Error:', data.error)
-      throw new Error(`Claude API error: ${data.error.message || JSON.stringify(data.error)}`)
-    }
-
-    if (data.content?.[0]?.text) {
-      // Extract JSON from response
-      let text = data.content[0].text
-      console.log('[Claude] Raw response:', text.substring(0, 300))
-
-      // Remove markdown code blocks if present
-      text = text.replace(/```json\s*/gi, '').replace(/```\s*/g, '')
-
-      const jsonMatch = text.match(/\[[\s\S]*\]/)
-      if (jsonMatch) {
-        const tracks = JSON.parse(jsonMatch[0])
-        console.log('[Claude] Parsed', tracks.length, 'tracks')
-        return await tracksToPlaylistNodes(tracks, constraints?.energyTolerance || 10, true, 'claude')
-      }
-    }
-
-    console.error('[Claude] No valid response content:', JSON.stringify(data).substring(0, 500))
-    throw new Error('Claude returned no valid content')
-  } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') {
-      console.error('[Claude] Request timed out')
-      throw new Error('Claude request timed out - try again or reduce track count')
-    }
-    console.error('[Claude] API error:', error)
-    throw error
-  }
-}
-
-async function generateWithGemini(prompt: string, constraints: GeneratePlaylistRequest['constraints']): Promise<PlaylistNode[]> {
-  const apiKey = process.env.GOOGLE_AI_API_KEY
-
-  if (!apiKey) {
-    console.error('[Gemini] No API key configured')
-    throw new Error('Google AI API key not configured')
-  }
-
+async function generatePlaylist(
+  provider: AIProvider,
+  prompt: string,
+  constraints: GeneratePlaylistRequest['constraints']
+): Promise<{ playlist: PlaylistNode[]; validation: ValidationRepairReport | null }> {
   const constraintInstructions = buildConstraintInstructions(constraints)
 
-  try {
-    // Use timeout-aware fetch for AI call (allow 12 seconds max for AI response)
-    const response = await fetchWithTimeout(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts: [
-                {
-                  text: `You are a professional DJ and music curator. Generate a playlist based on this description: "${prompt}"
-
-                  Requirements:
-                  - Track count: ${constraints?.trackCount || 8}
-                  - Energy range: ${constraints?.energyRange?.min || 40}-${constraints?.energyRange?.max || 80} (1-100 scale)
-                  - Moods: ${constraints?.moods?.join(', ') || 'varied'}
-
-${constraintInstructions ? `CURATION CONSTRAINTS (follow these carefully):\n${constraintInstructions}` : ''}
-
-                  Return ONLY a JSON array of track objects with these fields:
-                  - title: string (track name)
-                  - artist: string (artist name)
-                  - bpm: number (estimated tempo 60-200, e.g. house~125, techno~130, dnb~174, hip-hop~90)
-                  - key: string (musical key like "Am", "F#m", "C")
-                  - genre: string (music genre)
-                  - energy: number (1-100 subjective intensity scale, NOT tempo)
-                    1-20: Ambient/chill - downtempo, atmospheric, relaxing
-                    21-40: Relaxed, groovy - laid-back beats, smooth vibes
-                    41-60: Moderate, steady - balanced energy, consistent drive
-                    61-80: High energy, driving - uplifting, powerful, building
-                    81-100: Peak intensity, aggressive - drops, maximum impact
-                    Based on: aggression, rhythmic intensity, emotional intensity, builds/drops - NOT just tempo
-                  - duration: number (in seconds)
-                  - aiReasoning: string (IMPORTANT: 1-2 sentences explaining how this specific track fits the user's theme "${prompt}" AND how it transitions from the previous track. Reference the theme directly in your reasoning.)
-                  - alternatives: array of 2 alternative track objects, each with:
-                    - title, artist, bpm, key, genre, energy, duration (same fields as main track)
-                    - whyNotChosen: string (1 sentence explaining why this wasn't the primary pick but is still a great alternative)
-                    - matchScore: number (70-95, how well this alternative fits the slot)
-
-                  Consider transitions - adjacent tracks should have compatible energy levels and keys.
-                  Each track's aiReasoning MUST explicitly reference the user's theme to explain why it was selected.
-                  The alternatives should be genuinely good options that almost made the cut - similar style, compatible energy/key.`
-                }
-              ]
-            }
-          ],
-          generationConfig: {
-            temperature: 0.8,
-            maxOutputTokens: 2000
-          }
-        })
-      },
-      20000
-    )
-
-    const data = await response.json()
-
-    // Check for API errors first
-    if (data.error) {
-      console.error('[Gemini] API Error:', data.error)
-      throw new Error(`Gemini API error: ${data.error.message || JSON.stringify(data.error)}`)
-    }
-
-    if (data.candidates?.[0]?.content?.parts?.[0]?.text) {
-      let text = data.candidates[0].content.parts[0].text
-      console.log('[Gemini] Raw response:', text.substring(0, 300))
-
-      // Remove markdown code blocks if present
-      text = text.replace(/```json\s*/gi, '').replace(/```\s*/g, '')
-
-      // Try to parse JSON, handle truncated responses
-      try {
-        const jsonMatch = text.match(/\[[\s\S]*\]/)
-        if (jsonMatch) {
-          const tracks = JSON.parse(jsonMatch[0])
-          console.log('[Gemini] Parsed', tracks.length, 'tracks')
-          return await tracksToPlaylistNodes(tracks, constraints?.energyTolerance || 10, true, 'gemini')
-        }
-      } catch (parseError) {
-        // Try to fix truncated JSON by finding last complete object
-        console.log('[Gemini] JSON parse failed, attempting recovery...')
-        const arrayStart = text.indexOf('[')
-        if (arrayStart >= 0) {
-          // Method 1: Find last complete object ending with },
-          const lastCompleteObject = text.lastIndexOf('},')
-          if (lastCompleteObject > arrayStart) {
-            const recovered = text.substring(arrayStart, lastCompleteObject + 1) + ']'
-            try {
-              const tracks = JSON.parse(recovered)
-              console.log('[Gemini] Recovered', tracks.length, 'tracks (method 1: last },)')
-              return await tracksToPlaylistNodes(tracks, constraints?.energyTolerance || 10, true, 'gemini')
-            } catch { /* continue to next method */ }
-          }
-
-          // Method 2: Find second-to-last complete object (in case last one is partial)
-          const secondLastObject = text.lastIndexOf('},', lastCompleteObject - 1)
-          if (secondLastObject > arrayStart) {
-            const recovered = text.substring(arrayStart, secondLastObject + 1) + ']'
-            try {
-              const tracks = JSON.parse(recovered)
-              console.log('[Gemini] Recovered', tracks.length, 'tracks (method 2: second-to-last)')
-              return await tracksToPlaylistNodes(tracks, constraints?.energyTolerance || 10, true, 'gemini')
-            } catch { /* continue to next method */ }
-          }
-
-          // Method 3: Find last }] pattern
-          const lastBracket = text.lastIndexOf('}]')
-          if (lastBracket > arrayStart) {
-            const recovered = text.substring(arrayStart, lastBracket + 2)
-            try {
-              const tracks = JSON.parse(recovered)
-              console.log('[Gemini] Recovered', tracks.length, 'tracks (method 3: }])')
-              return await tracksToPlaylistNodes(tracks, constraints?.energyTolerance || 10, true, 'gemini')
-            } catch { /* continue to next method */ }
-          }
-
-          // Method 4: Find all complete track objects using regex
-          const trackPattern = /\{[^{}]*"title"[^{}]*"artist"[^{}]*\}/g
-          const matches = text.match(trackPattern)
-          if (matches && matches.length > 0) {
-            const recovered = '[' + matches.join(',') + ']'
-            try {
-              const tracks = JSON.parse(recovered)
-              console.log('[Gemini] Recovered', tracks.length, 'tracks (method 4: regex extraction)')
-              return await tracksToPlaylistNodes(tracks, constraints?.energyTolerance || 10, true, 'gemini')
-            } catch { /* give up */ }
-          }
-        }
-        throw parseError
-      }
-    }
+  const { tracks, report } = await completeValidatedTracks(provider, {
+    logLabel: 'Generate',
+    system: `You are a professional DJ and music curator. Generate playlists as a JSON array of track objects with these fields:
+- title: string (track name)
+- artist: string (artist name)
+- bpm: number (estimated tempo 60-200, e.g. house~125, techno~130, dnb~174, hip-hop~90, pop~110)
+- key: string (musical key like "Am", "F#m", "C")
+- genre: string (music genre)
+- energy: number (1-100 subjective intensity scale, NOT tempo)
+  1-20: Ambient/chill - downtempo, atmospheric, relaxing
+  21-40: Relaxed, groovy - laid-back beats, smooth vibes
+  41-60: Moderate, steady - balanced energy, consistent drive
+  61-80: High energy, driving - uplifting, powerful, building
+  81-100: Peak intensity, aggressive - drops, maximum impact
+- duration: number (in seconds)
+- aiReasoning: string (1-2 sentences explaining how this track fits the user's theme AND how it transitions from the previous track. Reference the theme directly.)
+- alternatives: array of 2 alternative track objects, each with:
+  - title, artist, bpm, key, genre, energy, duration (same fields as main track)
+  - whyNotChosen: string (1 sentence explaining why this wasn't the primary pick)
+  - matchScore: number (70-95, how well this alternative fits the slot)
+
+Consider transitions - adjacent tracks should have compatible energy levels and keys.
+Return ONLY valid JSON array, no markdown.${constraintInstructions ? `\n\nCURATION CONSTRAINTS (follow these carefully):\n${constraintInstructions}` : ''}`,
+    prompt: `${constraints?.trackCount || 8} track set: "${prompt}"
+Energy range: ${constraints?.energyRange?.min || 40}-${constraints?.energyRange?.max || 80} (1-100 scale)
+Moods: ${constraints?.moods?.join(', ') || 'varied'}`,
+    temperature: 0.8,
+    maxTokens: 3000,
+    // Stay inside the Netlify budget; no time left for retries
+    timeoutMs: Math.max(timeRemaining(), 15000),
+    retries: 0,
+  }, constraints?.trackCount || 8, {
+    // Only re-prompt for bad slots if there's still time for a short request
+    canRepair: () => timeRemaining() > 12000,
+  })
 
-    console.error('[Gemini] No valid response content:', JSON.stringify(data).substring(0, 500))
-    throw new Error('Gemini returned no valid content')
-  } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') {
-      console.error('[Gemini] Request timed out')
-      throw new Error('Gemini request timed out - try again or reduce track count')
-    }
-    console.error('[Gemini] API error:', error)
-    throw error
-  }
+  console.log(`[Generate API] ${provider} parsed`, tracks.length, 'tracks')
+  const playlist = await tracksToPlaylistNodes(tracks, constraints?.energyTolerance || 10, true, provider)
+  return { playlist, validation: report }
 }
 
-async function tracksToPlaylistNodes(tracks: AITrackWithAlternatives[], energyTolerance: number = 10, skipYouTubeForAlternatives: boolean = true, provider: AIProvider = 'openai'): Promise<PlaylistNode[]> {
+async function tracksToPlaylistNodes(tracks: AITrack[], energyTolerance: number = 10, skipYouTubeForAlternatives: boolean = true, provider: AIProvider = 'openai'): Promise<PlaylistNode[]> {
   // Collect main tracks that need enrichment
   // Skip alternatives to save time on Netlify (can reduce from 24 searches to 8)
   const mainTracksToEnrich: Partial<Track>[] = tracks.map(track => ({
@@ -601,7 +261,7 @@ async function tracksToPlaylistNodes(tracks: AITrackWithAlternatives[], energyTo
       duration: track.duration || 240,
       bpm: tracks[index].bpm,
       key: track.key,
-      camelotCode: track.key ? keyToCamelot(track.key) || undefined : undefined,
+      camelotCode: track.key ? toCamelot(track.key) || undefined : undefined,
       genre: track.genre,
       energy: track.energy,
       thumbnail: track.thumbnail || `https://picsum.photos/seed/${Date.now() + index}/200/200`,
@@ -651,6 +311,7 @@ export async function POST(request: NextRequest) {
       openai: !!process.env.OPENAI_API_KEY,
       anthropic: !!process.env.ANTHROPIC_API_KEY,
       google: !!process.env.GOOGLE_AI_API_KEY,
+      openaiCompatible: !!process.env.OPENAI_COMPATIBLE_BASE_URL,
       youtube: !!process.env.YOUTUBE_API_KEY
     })
 
@@ -661,20 +322,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    let playlist: PlaylistNode[]
-
-    switch (provider) {
-      case 'claude':
-        playlist = await generateWithClaude(prompt, constraints)
-        break
-      case 'gemini':
-        playlist = await generateWithGemini(prompt, constraints)
-        break
-      case 'openai':
-      default:
-        playlist = await generateWithOpenAI(prompt, constraints)
-        break
-    }
+    const { playlist, validation } = await generatePlaylist(provider, prompt, constraints)
 
     console.log('[Generate API] Generated', playlist.length, 'tracks')
     console.log('[Generate API] First track:', playlist[0]?.track.title, '-', playlist[0]?.track.artist)
@@ -686,7 +334,8 @@ export async function POST(request: NextRequest) {
         provider,
         generatedAt: new Date().toISOString(),
         trackCount: playlist.length,
-        totalDuration: playlist.reduce((acc, node) => acc + node.track.duration, 0)
+        totalDuration: playlist.reduce((acc, node) => acc + node.track.duration, 0),
+        validation
       }
     })
   } catch (error) {
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { checkCSRF } from '@/lib/csrf'
+import { trackApiCall } from '@/lib/quota-tracker'
+import { cancelGenerationJob } from '@/lib/generation-jobs'
+
+// POST /api/ai/jobs/[id]/cancel - Stop a running generation job.
+// The credit is refunded if no result was delivered.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const csrfError = checkCSRF(req)
+  if (csrfError) return csrfError
+
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.email) {
+    return NextResponse.json(
+      { error: 'Authentication required', code: 'auth_required' },
+      { status: 401 }
+    )
+  }
+
+  const result = await cancelGenerationJob(params.id, session.user.email)
+  if (!result.cancelled) {
+    return NextResponse.json(
+      { success: false, error: result.error, refunded: result.refunded },
+      { status: result.error === 'Job not found' ? 404 : 409 }
+    )
+  }
+
+  if (result.refunded) trackApiCall('credits:refunded')
+  return NextResponse.json({ success: true, refunded: result.refunded })
+}
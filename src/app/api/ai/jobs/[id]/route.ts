@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getGenerationJob, toJobSummary } from '@/lib/generation-jobs'
+
+// GET /api/ai/jobs/[id] - Status of a generation job
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.email) {
+    return NextResponse.json(
+      { error: 'Authentication required', code: 'auth_required' },
+      { status: 401 }
+    )
+  }
+
+  const job = await getGenerationJob(params.id, session.user.email)
+  if (!job) {
+    return NextResponse.json(
+      { error: 'Job not found', code: 'not_found' },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json({ success: true, job: toJobSummary(job) })
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getGenerationJob, streamJobEvents, getLastEventId } from '@/lib/generation-jobs'
+
+export const maxDuration = 60
+
+// GET /api/ai/jobs/[id]/stream - Reattach to a generation job's SSE stream.
+// Replays events after Last-Event-ID (all of them without it), then follows
+// the job live until it finishes.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.email) {
+    return NextResponse.json(
+      { error: 'Authentication required', code: 'auth_required' },
+      { status: 401 }
+    )
+  }
+
+  const job = await getGenerationJob(params.id, session.user.email)
+  if (!job) {
+    return NextResponse.json(
+      { error: 'Job not found', code: 'not_found' },
+      { status: 404 }
+    )
+  }
+
+  return streamJobEvents(job.id, getLastEventId(req))
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
+import { getDefaultProvider } from '@/lib/llm-providers'
+import { completeValidatedObject, aiMixtapeMetaSchema, type AIMixtapeMeta } from '@/lib/ai-schemas'
 import type { GeneratedMixtapeMeta, CoverTemplateId } from '@/types'
 
 interface MixtapeMetaRequest {
@@ -124,17 +126,18 @@ export async function POST(request: NextRequest) {
     else if (avgEnergy < 40) energyVibe = 'chill'
     else if (avgEnergy < 25) energyVibe = 'ambient'
 
-    // Use OpenAI for title/subtitle generation
-    const openaiKey = process.env.OPENAI_API_KEY
-    if (!openaiKey) {
+    const fallbackMeta: GeneratedMixtapeMeta = {
+      title: prompt.slice(0, 50) || 'Untitled Mix',
+      subtitle: `${tracks.length} tracks, ${durationMin} minutes of ${energyVibe} vibes`,
+      description: `A curated ${durationMin}-minute mix featuring ${tracks[0]?.artist || 'various artists'} and more.`,
+      suggestedCoverTemplate: suggestCoverTemplate(prompt, genres, contextTokens?.activity),
+      tags: extractTags(prompt, tracks, contextTokens?.activity),
+    }
+
+    // Any configured provider can name the mix (OpenAI preferred)
+    const provider = getDefaultProvider('openai')
+    if (!provider) {
       // Fallback to simple generation without AI
-      const fallbackMeta: GeneratedMixtapeMeta = {
-        title: prompt.slice(0, 50) || 'Untitled Mix',
-        subtitle: `${tracks.length} tracks, ${durationMin} minutes of ${energyVibe} vibes`,
-        description: `A curated ${durationMin}-minute mix featuring ${tracks[0]?.artist || 'various artists'} and more.`,
-        suggestedCoverTemplate: suggestCoverTemplate(prompt, genres, contextTokens?.activity),
-        tags: extractTags(prompt, tracks, contextTokens?.activity),
-      }
       return NextResponse.json(fallbackMeta)
     }
 
@@ -182,46 +185,21 @@ Respond in JSON format:
   "description": "2-3 sentence description of the mix and why it works"
 }`
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${openaiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
+    let parsed: AIMixtapeMeta
+    try {
+      parsed = await completeValidatedObject(provider, {
+        logLabel: 'MixtapeMeta',
+        system: systemPrompt,
+        prompt: userPrompt,
         temperature: 0.9, // Higher creativity
-        max_tokens: 300,
-        response_format: { type: 'json_object' },
-      }),
-    })
-
-    if (!response.ok) {
-      console.error('[MixtapeMeta] OpenAI error:', response.status)
-      // Fallback
-      const fallbackMeta: GeneratedMixtapeMeta = {
-        title: prompt.slice(0, 50) || 'Untitled Mix',
-        subtitle: `${tracks.length} tracks, ${durationMin} minutes of ${energyVibe} vibes`,
-        description: `A curated ${durationMin}-minute mix featuring ${tracks[0]?.artist || 'various artists'} and more.`,
-        suggestedCoverTemplate: suggestCoverTemplate(prompt, genres, contextTokens?.activity),
-        tags: extractTags(prompt, tracks, contextTokens?.activity),
-      }
+        maxTokens: 300,
+        jsonObject: true,
+      }, aiMixtapeMetaSchema)
+    } catch (error) {
+      console.error('[MixtapeMeta] AI error:', error instanceof Error ? error.message : error)
       return NextResponse.json(fallbackMeta)
     }
 
-    const data = await response.json()
-    const content = data.choices?.[0]?.message?.content
-
-    if (!content) {
-      throw new Error('No content in response')
-    }
-
-    const parsed = JSON.parse(content)
-
     const result: GeneratedMixtapeMeta = {
       title: parsed.title || 'Untitled Mix',
       subtitle: parsed.subtitle || `${tracks.length} tracks of ${energyVibe} vibes`,
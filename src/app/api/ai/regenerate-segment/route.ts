@@ -4,89 +4,22 @@ import { authOptions } from '@/lib/auth'
 import { checkCanGenerate, consumeCredit, getUserSubscription } from '@/lib/subscription'
 import { TIER_CONFIG } from '@/lib/stripe'
 import { rateLimits, checkRateLimit, getRateLimitHeaders } from '@/lib/rate-limit'
-import { batchSearchVideoData } from '@/lib/video-search'
+import { batchSearchVideoData, type EnrichedTrackData } from '@/lib/video-search'
+import { getConfiguredProviders, type LLMRequest } from '@/lib/llm-providers'
+import { completeValidatedTracks, type AITrack, type ValidatedTrackList } from '@/lib/ai-schemas'
+import { verifyTrack, verifyAndReplaceTracks, buildReplacementPrompt, type VerifiedTrackList, type TrackVerification, type PrefetchedVerifications } from '@/lib/track-verification'
+import { enforceCompliance, mergeSegmentConstraints } from '@/lib/constraint-compliance'
 import type { AIProvider, SegmentContext, PlaylistNode, StreamEvent, SegmentConstraints } from '@/types'
 
 // Next.js route segment config - increase timeout for serverless functions
 export const maxDuration = 60
 
-// Type for AI response with alternatives
-interface AITrackWithAlternatives {
-  title: string
-  artist: string
-  bpm?: number
-  key: string
-  genre: string
-  energy: number
-  duration: number
-  aiReasoning: string
-  alternatives?: {
-    title: string
-    artist: string
-    bpm?: number
-    key: string
-    genre: string
-    energy: number
-    duration: number
-    whyNotChosen: string
-    matchScore: number
-  }[]
-}
-
 // Request body for regenerating a segment
 interface RegenerateSegmentRequest {
   prompt: string // Base set prompt
   segment: SegmentContext
 }
 
-// Attempt to repair common JSON issues from AI responses
-function repairJSON(jsonStr: string): string {
-  let repaired = jsonStr
-
-  let bracketCount = 0
-  let lastValidEnd = -1
-  let inString = false
-  let escapeNext = false
-
-  for (let i = 0; i < repaired.length; i++) {
-    const char = repaired[i]
-
-    if (escapeNext) {
-      escapeNext = false
-      continue
-    }
-
-    if (char === '\\') {
-      escapeNext = true
-      continue
-    }
-
-    if (char === '"' && !escapeNext) {
-      inString = !inString
-      continue
-    }
-
-    if (!inString) {
-      if (char === '[' || char === '{') {
-        bracketCount++
-      } else if (char === ']' || char === '}') {
-        bracketCount--
-        if (bracketCount === 0) {
-          lastValidEnd = i
-        }
-      }
-    }
-  }
-
-  if (lastValidEnd > 0 && lastValidEnd < repaired.length - 1) {
-    repaired = repaired.substring(0, lastValidEnd + 1)
-  }
-
-  repaired = repaired.replace(/,(\s*[}\]])/g, '$1')
-
-  return repaired
-}
-
 // Build segment-specific instructions for AI prompt
 function buildSegmentInstructions(segment: SegmentContext): string {
   const instructions: string[] = []
@@ -164,208 +97,59 @@ function buildSegmentInstructions(segment: SegmentContext): string {
   return instructions.join('\n')
 }
 
-// Generate with OpenAI
-async function generateWithOpenAI(prompt: string, segment: SegmentContext): Promise<AITrackWithAlternatives[]> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) throw new Error('OpenAI API key not configured')
-
+// Build the segment request (shared by generation and verification re-asks)
+function buildSegmentRequest(prompt: string, segment: SegmentContext): LLMRequest {
   const segmentInstructions = buildSegmentInstructions(segment)
-  console.log('[Regenerate-OpenAI] Starting request for segment:', segment.name)
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    signal: AbortSignal.timeout(45000),
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: `You are a DJ curator regenerating tracks for a specific segment of a DJ set. Generate a playlist as a JSON array. Each track object has:
-- title, artist, key (e.g. "Am"), genre, energy (1-100 intensity), duration (seconds)
+  return {
+    logLabel: 'Regenerate',
+    system: `You are a DJ curator regenerating tracks for a specific segment of a DJ set. Generate a playlist as a JSON array. Each track object has:
+- title, artist, key (e.g. "Am"), genre, energy (1-100 intensity), duration (seconds), year (release year), explicit (true/false)
 - aiReasoning: 1 sentence on why it fits this segment
-- alternatives: array of 2 objects with title, artist, key, genre, energy, duration, whyNotChosen, matchScore (70-95)
-Return ONLY valid JSON array, no markdown.${segmentInstructions}`
-        },
-        {
-          role: 'user',
-          content: `${segment.targetTrackCount} tracks for "${segment.name}" segment: ${prompt}. Energy: ${segment.constraints.energyRange?.min || 40}-${segment.constraints.energyRange?.max || 80}`
-        }
-      ],
-      temperature: 0.9, // Slightly higher for regeneration to get different results
-      max_tokens: 4000
-    })
-  })
-
-  console.log('[Regenerate-OpenAI] Response status:', response.status)
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`OpenAI HTTP ${response.status}: ${errorText.substring(0, 200)}`)
+- alternatives: array of 2 objects with title, artist, key, genre, energy, duration, year, explicit, whyNotChosen, matchScore (70-95)
+Return ONLY valid JSON array, no markdown.${segmentInstructions}`,
+    prompt: `${segment.targetTrackCount} tracks for "${segment.name}" segment: ${prompt}. Energy: ${segment.constraints.energyRange?.min || 40}-${segment.constraints.energyRange?.max || 80}`,
+    temperature: 0.9, // Slightly higher for regeneration to get different results
+    maxTokens: 4000,
   }
-
-  const data = await response.json()
-  if (data.error) throw new Error(`OpenAI API error: ${data.error.message}`)
-
-  if (data.choices?.[0]?.message?.content) {
-    let content = data.choices[0].message.content
-    content = content.replace(/```json\s*/gi, '').replace(/```\s*/g, '')
-    const jsonMatch = content.match(/\[[\s\S]*\]/)
-    if (jsonMatch) {
-      try {
-        const parsed = JSON.parse(jsonMatch[0])
-        if (!Array.isArray(parsed)) throw new Error('Not an array')
-        console.log('[Regenerate-OpenAI] Parsed', parsed.length, 'tracks')
-        return parsed
-      } catch {
-        try {
-          const repaired = repairJSON(jsonMatch[0])
-          const parsed = JSON.parse(repaired)
-          if (!Array.isArray(parsed)) throw new Error('Not an array')
-          console.log('[Regenerate-OpenAI] Repaired and parsed', parsed.length, 'tracks')
-          return parsed
-        } catch (repairErr) {
-          throw new Error(`OpenAI JSON parse failed: ${repairErr}`)
-        }
-      }
-    }
-  }
-  throw new Error('OpenAI returned no valid content')
 }
 
-// Generate with Claude
-async function generateWithClaude(prompt: string, segment: SegmentContext): Promise<AITrackWithAlternatives[]> {
-  const apiKey = process.env.ANTHROPIC_API_KEY
-  if (!apiKey) throw new Error('Anthropic API key not configured')
-
-  const segmentInstructions = buildSegmentInstructions(segment)
-  console.log('[Regenerate-Claude] Starting request for segment:', segment.name)
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    signal: AbortSignal.timeout(45000),
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 4000,
-      messages: [{
-        role: 'user',
-        content: `You are a professional DJ regenerating tracks for the "${segment.name}" segment: "${prompt}"
-Requirements: ${segment.targetTrackCount} tracks, Energy ${segment.constraints.energyRange?.min || 40}-${segment.constraints.energyRange?.max || 80}
-${segmentInstructions}
-
-Return ONLY a JSON array with: title, artist, key, genre, energy (1-100), duration (seconds), aiReasoning, alternatives (2 objects with title, artist, key, genre, energy, duration, whyNotChosen, matchScore)`
-      }]
-    })
-  })
-
-  console.log('[Regenerate-Claude] Response status:', response.status)
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`Claude HTTP ${response.status}: ${errorText.substring(0, 200)}`)
-  }
-
-  const data = await response.json()
-  if (data.error) throw new Error(`Claude API error: ${data.error.message}`)
-
-  if (data.content?.[0]?.text) {
-    let text = data.content[0].text
-    text = text.replace(/```json\s*/gi, '').replace(/```\s*/g, '')
-    const jsonMatch = text.match(/\[[\s\S]*\]/)
-    if (jsonMatch) {
-      try {
-        const parsed = JSON.parse(jsonMatch[0])
-        if (!Array.isArray(parsed)) throw new Error('Not an array')
-        console.log('[Regenerate-Claude] Parsed', parsed.length, 'tracks')
-        return parsed
-      } catch {
-        try {
-          const repaired = repairJSON(jsonMatch[0])
-          const parsed = JSON.parse(repaired)
-          if (!Array.isArray(parsed)) throw new Error('Not an array')
-          console.log('[Regenerate-Claude] Repaired and parsed', parsed.length, 'tracks')
-          return parsed
-        } catch (repairErr) {
-          throw new Error(`Claude JSON parse failed: ${repairErr}`)
-        }
-      }
-    }
-  }
-  throw new Error('Claude returned no valid content')
+// Generate segment tracks with any registered provider, streaming each track as it validates
+async function generateSegmentTracks(
+  provider: AIProvider,
+  prompt: string,
+  segment: SegmentContext,
+  onTrack: (slot: number, track: AITrack) => void
+): Promise<ValidatedTrackList> {
+  console.log(`[Regenerate API] Starting ${provider} request for segment:`, segment.name)
+  return completeValidatedTracks(provider, buildSegmentRequest(prompt, segment), segment.targetTrackCount, { onTrack })
 }
 
-// Generate with Gemini
-async function generateWithGemini(prompt: string, segment: SegmentContext): Promise<AITrackWithAlternatives[]> {
-  const apiKey = process.env.GOOGLE_AI_API_KEY
-  if (!apiKey) throw new Error('Google AI API key not configured')
-
-  const segmentInstructions = buildSegmentInstructions(segment)
-  console.log('[Regenerate-Gemini] Starting request for segment:', segment.name)
-
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
-    {
-      signal: AbortSignal.timeout(45000),
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: `You are a professional DJ regenerating tracks for the "${segment.name}" segment: "${prompt}"
-Requirements: ${segment.targetTrackCount} tracks, Energy ${segment.constraints.energyRange?.min || 40}-${segment.constraints.energyRange?.max || 80}
-${segmentInstructions}
-
-Return ONLY a JSON array with: title, artist, key, genre, energy (1-100), duration (seconds), aiReasoning, alternatives (2 objects with title, artist, key, genre, energy, duration, whyNotChosen, matchScore)`
-          }]
-        }],
-        generationConfig: { temperature: 0.9, maxOutputTokens: 4000 }
-      })
-    }
-  )
-
-  console.log('[Regenerate-Gemini] Response status:', response.status)
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`Gemini HTTP ${response.status}: ${errorText.substring(0, 200)}`)
-  }
-
-  const data = await response.json()
-  if (data.error) throw new Error(`Gemini API error: ${data.error.message}`)
-
-  if (data.candidates?.[0]?.content?.parts?.[0]?.text) {
-    let text = data.candidates[0].content.parts[0].text
-    text = text.replace(/```json\s*/gi, '').replace(/```\s*/g, '')
-    const jsonMatch = text.match(/\[[\s\S]*\]/)
-    if (jsonMatch) {
-      try {
-        const parsed = JSON.parse(jsonMatch[0])
-        if (!Array.isArray(parsed)) throw new Error('Not an array')
-        console.log('[Regenerate-Gemini] Parsed', parsed.length, 'tracks')
-        return parsed
-      } catch {
-        try {
-          const repaired = repairJSON(jsonMatch[0])
-          const parsed = JSON.parse(repaired)
-          if (!Array.isArray(parsed)) throw new Error('Not an array')
-          console.log('[Regenerate-Gemini] Repaired and parsed', parsed.length, 'tracks')
-          return parsed
-        } catch (repairErr) {
-          throw new Error(`Gemini JSON parse failed: ${repairErr}`)
-        }
-      }
-    }
-  }
-  throw new Error('Gemini returned no valid content')
+// Ask the provider for real replacements of tracks that failed verification
+async function requestReplacementTracks(
+  provider: AIProvider,
+  prompt: string,
+  segment: SegmentContext,
+  rejected: AITrack[],
+  kept: AITrack[]
+): Promise<AITrack[]> {
+  const request = buildSegmentRequest(prompt, segment)
+  const { tracks } = await completeValidatedTracks(provider, {
+    ...request,
+    logLabel: 'Regenerate-Verify',
+    prompt: buildReplacementPrompt(request.prompt, rejected, kept),
+    maxTokens: Math.min(4000, 600 * rejected.length + 200),
+  }, rejected.length, { maxRepairAttempts: 0 })
+  return tracks
 }
 
 // Convert AI tracks to PlaylistNodes with video enrichment
-async function tracksToPlaylistNodes(tracks: AITrackWithAlternatives[], provider: AIProvider, segmentId: string): Promise<PlaylistNode[]> {
+async function tracksToPlaylistNodes(
+  tracks: AITrack[],
+  provider: AIProvider,
+  segmentId: string,
+  verified?: VerifiedTrackList
+): Promise<PlaylistNode[]> {
   if (!tracks || !Array.isArray(tracks)) {
     throw new Error(`${provider} returned invalid data - expected array`)
   }
@@ -374,63 +158,104 @@ async function tracksToPlaylistNodes(tracks: AITrackWithAlternatives[], provider
     throw new Error(`${provider} returned empty playlist`)
   }
 
-  // Prepare tracks for batch video search
-  const tracksToSearch = tracks.map(track => ({
-    title: track.title || 'Unknown Track',
-    artist: track.artist || 'Unknown Artist'
-  }))
+  // Prepare tracks for batch video search (skipping those found during verification)
+  const tracksToSearch = tracks
+    .filter((_, index) => !verified?.verifications[index]?.enrichment?.videoId)
+    .map(track => ({
+      title: track.title || 'Unknown Track',
+      artist: track.artist || 'Unknown Artist'
+    }))
 
   console.log(`[Regenerate-${provider}] Enriching ${tracksToSearch.length} tracks via Invidious/Piped + iTunes...`)
 
   // Batch search for video data
-  const enrichedResults = await batchSearchVideoData(tracksToSearch, {
-    skipYouTube: true,
-    preferAlbumArt: true
-  })
+  const enrichedResults = tracksToSearch.length > 0
+    ? await batchSearchVideoData(tracksToSearch, {
+        skipYouTube: true,
+        preferAlbumArt: true
+      })
+    : new Map<string, EnrichedTrackData>()
 
   return tracks.map((track, index) => {
-    const enriched = enrichedResults.get(String(index))
-    const timestamp = Date.now()
-
-    return {
-      id: `node-${provider}-${timestamp}-${index}`,
-      track: {
-        id: `track-${provider}-${timestamp}-${index}`,
-        youtubeId: enriched?.videoId || '',
-        title: track.title || 'Unknown Track',
-        artist: track.artist || 'Unknown Artist',
-        duration: enriched?.duration || track.duration || 240,
-        key: track.key,
-        genre: track.genre,
-        energy: track.energy,
-        thumbnail: enriched?.thumbnail || `https://picsum.photos/seed/${timestamp + index}/200/200`,
-        aiReasoning: track.aiReasoning
-      },
-      position: index,
-      sourceProvider: provider,
-      segmentId,
-      alternatives: (track.alternatives || []).map((alt, altIndex) => ({
-        id: `alt-${provider}-${timestamp}-${index}-${altIndex}`,
-        youtubeId: '',
-        title: alt.title,
-        artist: alt.artist,
-        duration: alt.duration || 240,
-        key: alt.key,
-        genre: alt.genre,
-        energy: alt.energy,
-        thumbnail: `https://picsum.photos/seed/${timestamp + index + altIndex + 100}/200/200`,
-        whyNotChosen: alt.whyNotChosen,
-        matchScore: alt.matchScore
-      })),
-      transitionToNext: index < tracks.length - 1 ? {
-        quality: 'good' as const,
-        type: 'blend' as const,
-        duration: 16
-      } : undefined
-    }
+    // Key must match format used in batchSearchVideoData: `${artist}:${title}`
+    const verification = verified?.verifications[index]
+    const enriched = verification?.enrichment?.videoId
+      ? verification.enrichment
+      : enrichedResults.get(`${track.artist || 'Unknown Artist'}:${track.title || 'Unknown Track'}`)
+
+    return trackToPlaylistNode(track, provider, index, segmentId, {
+      enriched,
+      verification,
+      replaced: verified?.replaced.has(index),
+      isLast: index === tracks.length - 1,
+    })
   })
 }
 
+// Build a single PlaylistNode (also used for tracks streamed before enrichment)
+function trackToPlaylistNode(
+  track: AITrack,
+  provider: AIProvider,
+  index: number,
+  segmentId: string,
+  { enriched, verification, replaced, isLast }: {
+    enriched?: EnrichedTrackData
+    verification?: TrackVerification
+    replaced?: boolean
+    isLast?: boolean
+  } = {}
+): PlaylistNode {
+  const timestamp = Date.now()
+
+  return {
+    id: `node-${provider}-${timestamp}-${index}`,
+    track: {
+      id: `track-${provider}-${timestamp}-${index}`,
+      youtubeId: enriched?.videoId || '',
+      title: track.title || 'Unknown Track',
+      artist: track.artist || 'Unknown Artist',
+      duration: enriched?.duration || track.duration || 240,
+      key: track.key,
+      genre: track.genre,
+      energy: track.energy,
+      thumbnail: enriched?.thumbnail || `https://picsum.photos/seed/${timestamp + index}/200/200`,
+      aiReasoning: track.aiReasoning,
+      // Catalog facts beat the AI's own claims
+      releaseYear: verification?.releaseYear ?? track.year,
+      isExplicit: verification?.isExplicit ?? track.explicit,
+      ...(verification && {
+        verificationConfidence: verification.confidence,
+        verificationStatus: replaced
+          ? 'replaced' as const
+          : verification.verified ? 'verified' as const : 'unverified' as const,
+      }),
+    },
+    position: index,
+    sourceProvider: provider,
+    segmentId,
+    alternatives: (track.alternatives || []).map((alt, altIndex) => ({
+      id: `alt-${provider}-${timestamp}-${index}-${altIndex}`,
+      youtubeId: '',
+      title: alt.title,
+      artist: alt.artist,
+      duration: alt.duration || 240,
+      key: alt.key,
+      genre: alt.genre,
+      energy: alt.energy,
+      releaseYear: alt.year,
+      isExplicit: alt.explicit,
+      thumbnail: `https://picsum.photos/seed/${timestamp + index + altIndex + 100}/200/200`,
+      whyNotChosen: alt.whyNotChosen,
+      matchScore: alt.matchScore
+    })),
+    transitionToNext: !isLast ? {
+      quality: 'good' as const,
+      type: 'blend' as const,
+      duration: 16
+    } : undefined
+  }
+}
+
 // Create streaming response for segment regeneration
 function createStreamingResponse(
   prompt: string,
@@ -439,14 +264,7 @@ function createStreamingResponse(
 ) {
   const encoder = new TextEncoder()
 
-  const configuredProviders: AIProvider[] = []
-  if (process.env.OPENAI_API_KEY?.trim()) configuredProviders.push('openai')
-  if (process.env.ANTHROPIC_API_KEY?.trim()) configuredProviders.push('claude')
-  if (process.env.GOOGLE_AI_API_KEY?.trim()) configuredProviders.push('gemini')
-
-  const availableProviders: AIProvider[] = allowedProviders
-    ? configuredProviders.filter(p => allowedProviders.includes(p))
-    : configuredProviders
+  const availableProviders = getConfiguredProviders(allowedProviders)
 
   console.log('[Regenerate API] Available providers:', availableProviders)
   console.log('[Regenerate API] Segment:', segment.name, '| Track count:', segment.targetTrackCount)
@@ -476,24 +294,70 @@ function createStreamingResponse(
 
         try {
           console.log(`[Regenerate API] Using ${provider} for segment regeneration`)
-          let tracks: AITrackWithAlternatives[]
-
-          switch (provider) {
-            case 'openai':
-              tracks = await generateWithOpenAI(prompt, segment)
-              break
-            case 'claude':
-              tracks = await generateWithClaude(prompt, segment)
-              break
-            case 'gemini':
-              tracks = await generateWithGemini(prompt, segment)
-              break
-            default:
-              throw new Error(`Unknown provider: ${provider}`)
+
+          // Send each track (and start its lookup) as soon as the model finishes writing it
+          const prefetched: PrefetchedVerifications = new Map()
+          const onTrack = (slot: number, track: AITrack) => {
+            sendEvent({ event: 'track-generated', provider, index: slot, track: trackToPlaylistNode(track, provider, slot, segment.id) })
+
+            const key = `${track.artist}:${track.title}`
+            if (prefetched.has(key)) return
+            const lookup = verifyTrack(track.artist, track.title)
+            prefetched.set(key, lookup)
+            lookup.then((verification) => {
+              const enrichment = verification.enrichment
+              if (!enrichment?.videoId) return
+              sendEvent({
+                event: 'track-enriched',
+                provider,
+                index: slot,
+                track: { youtubeId: enrichment.videoId, thumbnail: enrichment.thumbnail, duration: enrichment.duration },
+              })
+            }).catch((error) => {
+              console.warn(`[Regenerate API] Early lookup failed:`, error instanceof Error ? error.message : error)
+            })
+          }
+
+          const { tracks, report } = await generateSegmentTracks(provider, prompt, segment, onTrack)
+          if (report) {
+            sendEvent({ event: 'validation-repaired', provider, report })
           }
 
           console.log(`[Regenerate API] ${provider} returned ${tracks.length} tracks`)
-          const playlistNodes = await tracksToPlaylistNodes(tracks, provider, segment.id)
+
+          // Check the tracks exist, replacing hallucinated ones
+          const verified = await verifyAndReplaceTracks(
+            tracks,
+            (rejected, kept) => requestReplacementTracks(provider, prompt, segment, rejected, kept),
+            {
+              onVerified: (index, verification) => sendEvent({
+                event: 'track-verified',
+                provider,
+                index,
+                confidence: verification.confidence,
+                verified: verification.verified,
+              }),
+              onReplaced: (index, original, replacement, verification, source) => sendEvent({
+                event: 'track-replaced',
+                provider,
+                index,
+                original: { artist: original.artist, title: original.title },
+                replacement: { artist: replacement.artist, title: replacement.title },
+                confidence: verification.confidence,
+                source,
+              }),
+            },
+            prefetched
+          )
+
+          const enrichedNodes = await tracksToPlaylistNodes(verified.tracks, provider, segment.id, verified)
+
+          // Repair segment constraint violations from alternatives (no extra AI call)
+          const { nodes: playlistNodes, report: compliance } = await enforceCompliance(
+            enrichedNodes,
+            mergeSegmentConstraints(undefined, segment)
+          )
+          sendEvent({ event: 'compliance-checked', provider, report: compliance })
 
           console.log(`[Regenerate API] Enriched ${playlistNodes.length} tracks, sending primary-result`)
           sendEvent({ event: 'primary-result', provider, tracks: playlistNodes })
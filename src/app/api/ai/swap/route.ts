@@ -6,6 +6,7 @@ import { TIER_CONFIG } from '@/lib/stripe'
 import { rateLimits, checkRateLimit, getRateLimitHeaders } from '@/lib/rate-limit'
 import { swapTrackSchema, validateRequest } from '@/lib/validations'
 import { checkCSRF } from '@/lib/csrf'
+import { completeValidatedObject, aiTrackSchema, type AITrack } from '@/lib/ai-schemas'
 import type { AIProvider, SwapTrackRequest, Track } from '@/types'
 
 // Next.js route segment config - increase timeout for serverless functions
@@ -86,226 +87,51 @@ function parseISO8601Duration(duration: string): number {
   return hours * 3600 + minutes * 60 + seconds
 }
 
-async function suggestTrackWithOpenAI(
+const SWAP_SYSTEM_PROMPT = `You are a professional DJ suggesting a single track for a DJ set.
+Return ONLY valid JSON with these fields:
+- title: string (track name)
+- artist: string (artist name)
+- key: string (musical key)
+- genre: string
+- energy: number (1-100 subjective intensity scale, NOT tempo)
+  1-20: Ambient/chill
+  21-40: Relaxed, groovy
+  41-60: Moderate, steady
+  61-80: High energy, driving
+  81-100: Peak intensity
+  Based on: aggression, rhythmic intensity, emotional intensity, builds/drops
+- aiReasoning: string (IMPORTANT: explain how this track fits the set's style/mood AND how it transitions well from surrounding tracks. Reference the genre/mood directly.)
+
+No markdown, no explanation, just the JSON object.`
+
+async function suggestTrack(
+  provider: AIProvider,
   targetEnergy: number,
   genre: string,
   mood: string,
   excludeArtists: string[]
-): Promise<Partial<Track> | null> {
-  const apiKey = process.env.OPENAI_API_KEY
-
-  if (!apiKey) {
-    console.error('[Swap API] No OpenAI API key configured')
-    throw new Error('OpenAI API key not configured')
-  }
-
-  try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: 'gpt-4-turbo-preview',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a professional DJ suggesting a single track for a DJ set.
-            Return ONLY valid JSON with these fields:
-            - title: string (track name)
-            - artist: string (artist name)
-            - key: string (musical key)
-            - genre: string
-            - energy: number (1-100 subjective intensity scale, NOT tempo)
-              1-20: Ambient/chill
-              21-40: Relaxed, groovy
-              41-60: Moderate, steady
-              61-80: High energy, driving
-              81-100: Peak intensity
-              Based on: aggression, rhythmic intensity, emotional intensity, builds/drops
-            - aiReasoning: string (IMPORTANT: explain how this track fits the set's style/mood AND how it transitions well from surrounding tracks. Reference the genre/mood directly.)
-
-            No markdown, no explanation, just the JSON object.`
-          },
-          {
-            role: 'user',
-            content: `Suggest ONE track with energy around ${targetEnergy} (1-100 scale).
-            Style: ${genre || 'electronic dance music'}
-            Mood: ${mood || 'energetic'}
-            ${excludeArtists.length > 0 ? `Exclude these artists: ${excludeArtists.join(', ')}` : ''}
-
-            The aiReasoning should explain why this track fits the "${genre}" style and "${mood}" mood.
-
-            Return only the JSON object.`
-          }
-        ],
-        temperature: 0.9,
-        max_tokens: 500
-      })
-    })
-
-    const data = await response.json()
-
-    if (data.choices?.[0]?.message?.content) {
-      const content = data.choices[0].message.content.trim()
-      // Try to parse JSON, handling potential markdown wrapping
-      let jsonStr = content
-      if (content.includes('```')) {
-        const match = content.match(/```(?:json)?\s*([\s\S]*?)```/)
-        if (match) jsonStr = match[1].trim()
-      }
-      const track = JSON.parse(jsonStr)
-      console.log('[Swap API] OpenAI suggested:', track.artist, '-', track.title)
-      return track
-    }
-
-    return null
-  } catch (error) {
-    console.error('[Swap API] OpenAI error:', error)
-    throw error
-  }
+): Promise<AITrack> {
+  const track = await completeValidatedObject(provider, {
+    logLabel: 'Swap',
+    system: SWAP_SYSTEM_PROMPT,
+    prompt: `Suggest ONE track with energy around ${targetEnergy} (1-100 scale).
+Style: ${genre || 'electronic dance music'}
+Mood: ${mood || 'energetic'}
+${excludeArtists.length > 0 ? `Exclude these artists: ${excludeArtists.join(', ')}` : ''}
+
+The aiReasoning should explain why this track fits the "${genre}" style and "${mood}" mood.
+
+Return only the JSON object.`,
+    temperature: 0.9,
+    maxTokens: 500,
+    jsonObject: true,
+  }, aiTrackSchema)
+
+  console.log(`[Swap API] ${provider} suggested:`, track.artist, '-', track.title)
+  return track
 }
 
-async function suggestTrackWithClaude(
-  targetEnergy: number,
-  genre: string,
-  mood: string,
-  excludeArtists: string[]
-): Promise<Partial<Track> | null> {
-  const apiKey = process.env.ANTHROPIC_API_KEY
-
-  if (!apiKey) {
-    console.error('[Swap API] No Anthropic API key configured')
-    throw new Error('Anthropic API key not configured')
-  }
-
-  try {
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 500,
-        messages: [
-          {
-            role: 'user',
-            content: `You are a professional DJ. Suggest ONE track with energy around ${targetEnergy} (1-100 scale).
-            Style: ${genre || 'electronic dance music'}
-            Mood: ${mood || 'energetic'}
-            ${excludeArtists.length > 0 ? `Exclude these artists: ${excludeArtists.join(', ')}` : ''}
-
-            Return ONLY a JSON object with these fields:
-            - title: string (track name)
-            - artist: string (artist name)
-            - key: string (musical key)
-            - genre: string
-            - energy: number (1-100 subjective intensity scale - NOT tempo)
-              1-20: Ambient/chill, 21-40: Relaxed, 41-60: Moderate, 61-80: High energy, 81-100: Peak intensity
-            - aiReasoning: string (IMPORTANT: explain how this track fits the "${genre}" style and "${mood}" mood, and how it transitions well from surrounding tracks)
-
-            No markdown, no explanation, just the JSON object.`
-          }
-        ]
-      })
-    })
-
-    const data = await response.json()
-
-    if (data.content?.[0]?.text) {
-      const content = data.content[0].text.trim()
-      const jsonMatch = content.match(/\{[\s\S]*\}/)
-      if (jsonMatch) {
-        const track = JSON.parse(jsonMatch[0])
-        console.log('[Swap API] Claude suggested:', track.artist, '-', track.title)
-        return track
-      }
-    }
-
-    return null
-  } catch (error) {
-    console.error('[Swap API] Claude error:', error)
-    throw error
-  }
-}
-
-async function suggestTrackWithGemini(
-  targetEnergy: number,
-  genre: string,
-  mood: string,
-  excludeArtists: string[]
-): Promise<Partial<Track> | null> {
-  const apiKey = process.env.GOOGLE_AI_API_KEY
-
-  if (!apiKey) {
-    console.error('[Swap API] No Google AI API key configured')
-    throw new Error('Google AI API key not configured')
-  }
-
-  try {
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts: [
-                {
-                  text: `You are a professional DJ. Suggest ONE track with energy around ${targetEnergy} (1-100 scale).
-                  Style: ${genre || 'electronic dance music'}
-                  Mood: ${mood || 'energetic'}
-                  ${excludeArtists.length > 0 ? `Exclude these artists: ${excludeArtists.join(', ')}` : ''}
-
-                  Return ONLY a JSON object with these fields:
-                  - title: string (track name)
-                  - artist: string (artist name)
-                  - key: string (musical key)
-                  - genre: string
-                  - energy: number (1-100 subjective intensity scale - NOT tempo)
-                    1-20: Ambient/chill, 21-40: Relaxed, 41-60: Moderate, 61-80: High energy, 81-100: Peak intensity
-                  - aiReasoning: string (IMPORTANT: explain how this track fits the "${genre}" style and "${mood}" mood, and how it transitions well from surrounding tracks)
-
-                  No markdown, no explanation, just the JSON object.`
-                }
-              ]
-            }
-          ],
-          generationConfig: {
-            temperature: 0.9,
-            maxOutputTokens: 500
-          }
-        })
-      }
-    )
-
-    const data = await response.json()
-
-    if (data.candidates?.[0]?.content?.parts?.[0]?.text) {
-      const content = data.candidates[0].content.parts[0].text.trim()
-      const jsonMatch = content.match(/\{[\s\S]*\}/)
-      if (jsonMatch) {
-        const track = JSON.parse(jsonMatch[0])
-        console.log('[Swap API] Gemini suggested:', track.artist, '-', track.title)
-        return track
-      }
-    }
-
-    return null
-  } catch (error) {
-    console.error('[Swap API] Gemini error:', error)
-    throw error
-  }
-}
-
-async function enrichTrackWithYouTube(track: Partial<Track>): Promise<Track> {
+async function enrichTrackWithYouTube(track: AITrack): Promise<Track> {
   const query = `${track.artist} - ${track.title} official audio`
   const result = await searchYouTube(query)
 
@@ -315,6 +141,7 @@ async function enrichTrackWithYouTube(track: Partial<Track>): Promise<Track> {
     title: track.title || 'Unknown Track',
     artist: track.artist || 'Unknown Artist',
     duration: result?.duration || track.duration || 240,
+    bpm: track.bpm,
     key: track.key,
     genre: track.genre,
     energy: track.energy,
@@ -452,20 +279,7 @@ export async function POST(request: NextRequest) {
 
     console.log('[Swap API] Searching for track with energy', finalTargetEnergy, ', genre:', genre, ', mood/styleHint:', mood)
 
-    let suggestedTrack: Partial<Track> | null = null
-
-    switch (provider) {
-      case 'claude':
-        suggestedTrack = await suggestTrackWithClaude(finalTargetEnergy, genre, mood, excludeArtists)
-        break
-      case 'gemini':
-        suggestedTrack = await suggestTrackWithGemini(finalTargetEnergy, genre, mood, excludeArtists)
-        break
-      case 'openai':
-      default:
-        suggestedTrack = await suggestTrackWithOpenAI(finalTargetEnergy, genre, mood, excludeArtists)
-        break
-    }
+    const suggestedTrack = await suggestTrack(provider, finalTargetEnergy, genre, mood, excludeArtists)
 
     if (!suggestedTrack) {
       throw new Error('AI failed to suggest a track')
@@ -60,6 +60,7 @@ export async function GET() {
     openai: process.env.OPENAI_API_KEY ? 'configured' : 'not_configured',
     anthropic: process.env.ANTHROPIC_API_KEY ? 'configured' : 'not_configured',
     google: process.env.GOOGLE_AI_API_KEY ? 'configured' : 'not_configured',
+    openaiCompatible: process.env.OPENAI_COMPATIBLE_BASE_URL ? 'configured' : 'not_configured',
   } as const
 
   // Determine overall status
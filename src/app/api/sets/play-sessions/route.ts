@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getServerSupabase } from '@/lib/supabase'
+import { checkCSRF } from '@/lib/csrf'
+import { playSessionSchema, validateRequest } from '@/lib/validations'
+import { MAX_PLAY_SESSIONS } from '@/lib/play-log'
+
+// List the user's most recent play sessions
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = getServerSupabase()
+    const { data, error } = await supabase
+      .from('play_sessions')
+      .select('data')
+      .eq('user_email', session.user.email)
+      .order('started_at', { ascending: false })
+      .limit(MAX_PLAY_SESSIONS)
+
+    if (error) {
+      console.error('Supabase error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch play sessions', details: error },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      sessions: data.map(row => row.data)
+    })
+  } catch (error) {
+    console.error('List play sessions error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Save (or update) a play session
+export async function POST(req: NextRequest) {
+  try {
+    // CSRF protection
+    const csrfError = checkCSRF(req)
+    if (csrfError) return csrfError
+
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const validation = validateRequest(playSessionSchema, await req.json())
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error, details: validation.details },
+        { status: 400 }
+      )
+    }
+
+    const playSession = validation.data.session
+    const supabase = getServerSupabase()
+    const { error } = await supabase
+      .from('play_sessions')
+      .upsert({
+        user_email: session.user.email,
+        session_id: playSession.id,
+        set_id: playSession.setId,
+        set_name: playSession.setName,
+        started_at: new Date(playSession.startedAt).toISOString(),
+        ended_at: playSession.endedAt ? new Date(playSession.endedAt).toISOString() : null,
+        data: playSession,
+        updated_at: new Date().toISOString()
+      }, {
+        onConflict: 'user_email,session_id',
+      })
+
+    if (error) {
+      console.error('Supabase error:', error)
+      return NextResponse.json(
+        { error: 'Failed to save play session', details: error },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Save play session error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
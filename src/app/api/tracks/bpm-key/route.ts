@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { checkCSRF } from '@/lib/csrf'
+import { rateLimits, checkRateLimit, getRateLimitHeaders } from '@/lib/rate-limit'
+import { bpmKeyCorrectionSchema, validateRequest } from '@/lib/validations'
+import { saveBpmKeyCorrection, isCorrectionStoreEnabled } from '@/lib/bpm-key-corrections'
+import { parseKey } from '@/lib/music-key'
+
+/**
+ * Submit a user BPM/key correction for a track
+ * Corrections are shared: future estimations for the same artist/title use them
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // CSRF protection
+    const csrfError = checkCSRF(request)
+    if (csrfError) return csrfError
+
+    // Only signed-in users can contribute corrections
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required', code: 'auth_required' },
+        { status: 401 }
+      )
+    }
+
+    const rateLimit = await checkRateLimit(rateLimits.general, session.user.email)
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Rate limit exceeded. Please wait before trying again.',
+          code: 'rate_limited',
+          retryAfter: Math.ceil((rateLimit.reset - Date.now()) / 1000),
+        },
+        {
+          status: 429,
+          headers: getRateLimitHeaders(rateLimit),
+        }
+      )
+    }
+
+    // Parse and validate request body
+    const rawBody = await request.json()
+    const validation = validateRequest(bpmKeyCorrectionSchema, rawBody)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validation.error,
+          code: 'validation_error',
+          details: validation.details,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { artist, title, bpm, key } = validation.data
+
+    // A key nobody can read would be a vote for nothing
+    if (key !== undefined && !parseKey(key)) {
+      return NextResponse.json(
+        { success: false, error: `Unrecognised key: ${key}`, code: 'validation_error' },
+        { status: 400 }
+      )
+    }
+
+    if (!isCorrectionStoreEnabled()) {
+      // Nothing to persist to - the correction still applies locally
+      return NextResponse.json({ success: true, stored: false })
+    }
+
+    const correction = await saveBpmKeyCorrection(artist, title, session.user.email, { bpm, key })
+
+    return NextResponse.json({
+      success: true,
+      stored: correction !== null,
+      correction,
+    })
+  } catch (error) {
+    console.error('[BPM/Key Correction] Error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to save correction' },
+      { status: 500 }
+    )
+  }
+}
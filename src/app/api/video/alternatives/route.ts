@@ -0,0 +1,132 @@
+/**
+ * Video Alternatives API
+ *
+ * Called by the player when a video won't play in the embed (errors 100/101/150).
+ * POST reports the failed video and returns other uploads of the track, best
+ * first. PUT confirms the one that played so it becomes the cached video.
+ * Both change shared data, so both need a signed-in user.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { checkCSRF } from '@/lib/csrf'
+import { replaceUnplayableVideo, confirmFallbackVideo } from '@/lib/video-fallback'
+import { rateLimits, checkRateLimit, getRateLimitHeaders } from '@/lib/rate-limit'
+import { videoFallbackSchema, confirmVideoFallbackSchema, validateRequest } from '@/lib/validations'
+
+/**
+ * CSRF, session and rate limit checks. Returns the user's email, or the error response.
+ */
+async function authorize(request: NextRequest): Promise<{ email: string } | { error: Response }> {
+  const csrfError = checkCSRF(request)
+  if (csrfError) return { error: csrfError }
+
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.email) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Authentication required', code: 'auth_required' },
+        { status: 401 }
+      ),
+    }
+  }
+
+  const rateLimit = await checkRateLimit(rateLimits.youtube, session.user.email)
+  if (rateLimit.success) return { email: session.user.email }
+
+  return {
+    error: NextResponse.json(
+      {
+        success: false,
+        error: 'Rate limit exceeded',
+        code: 'rate_limited',
+        retryAfter: Math.ceil((rateLimit.reset - Date.now()) / 1000),
+      },
+      {
+        status: 429,
+        headers: getRateLimitHeaders(rateLimit),
+      }
+    ),
+  }
+}
+
+/**
+ * POST /api/video/alternatives
+ * { artist, title, failedVideoId, exclude? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize(request)
+    if ('error' in auth) return auth.error
+
+    const validation = validateRequest(videoFallbackSchema, await request.json())
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error, details: validation.details },
+        { status: 400 }
+      )
+    }
+
+    const { artist, title, failedVideoId, exclude } = validation.data
+    console.log(`[VideoAlternatives] ${failedVideoId} unplayable for: ${artist} - ${title}`)
+
+    const alternatives = await replaceUnplayableVideo(artist, title, failedVideoId, auth.email, exclude)
+
+    return NextResponse.json({
+      success: true,
+      alternatives: alternatives.map(({ videoId, title, thumbnail, duration, channelName }) => ({
+        videoId,
+        title,
+        thumbnail,
+        duration,
+        channelName,
+      })),
+    })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[VideoAlternatives API] Error:', errorMessage)
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/video/alternatives
+ * { artist, title, videoId, exclude? }
+ * The video must be one the fallback search returns for the track
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authorize(request)
+    if ('error' in auth) return auth.error
+
+    const validation = validateRequest(confirmVideoFallbackSchema, await request.json())
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.error, details: validation.details },
+        { status: 400 }
+      )
+    }
+
+    const { artist, title, videoId, exclude } = validation.data
+    const confirmed = await confirmFallbackVideo(artist, title, videoId, exclude)
+    if (!confirmed) {
+      return NextResponse.json(
+        { success: false, error: 'Video is not an upload of this track' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[VideoAlternatives API] Error:', errorMessage)
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    )
+  }
+}
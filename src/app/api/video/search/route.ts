@@ -14,6 +14,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { searchVideoData, batchSearchVideoData } from '@/lib/video-search'
 import { rateLimits, checkRateLimit, getRateLimitHeaders } from '@/lib/rate-limit'
 import { checkYouTubeQuota, consumeYouTubeQuota } from '@/lib/youtube-quota'
+import { getBlockedVideos } from '@/lib/video-cache'
 
 // YouTube search function (only used when explicitly requested)
 async function searchYouTubeAPI(
@@ -60,6 +61,12 @@ async function searchYouTubeAPI(
     const item = searchData.items[0]
     const videoId = item.id.videoId
 
+    // Known not to play in the embed
+    const blocked = await getBlockedVideos([videoId])
+    if (blocked.has(videoId)) {
+      return null
+    }
+
     // Get duration
     const detailsResponse = await fetch(
       `https://www.googleapis.com/youtube/v3/videos?` +
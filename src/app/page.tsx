@@ -11,7 +11,7 @@ import { useMobileDetect } from '@/hooks/useMobileDetect'
 type IDEView = 'arrangement' | 'session'
 
 export default function Home() {
-  const { initializeStore, currentSet, autoMix } = useYTDJStore()
+  const { initializeStore, currentSet, autoMix, manualDecks } = useYTDJStore()
   const [showLaunchPad, setShowLaunchPad] = useState(true)
   const [currentView, setCurrentView] = useState<IDEView>('arrangement')
   const { isMobileLandscape } = useMobileDetect()
@@ -68,7 +68,8 @@ export default function Home() {
         >
           {/* YouTube Player - persists across view changes */}
           {/* Use DualYouTubePlayer when AutoMix is enabled for crossfade support */}
-          {autoMix.enabled ? <DualYouTubePlayer /> : <YouTubePlayer />}
+          {/* Manual decks in the session view bring their own players */}
+          {manualDecks.enabled ? null : autoMix.enabled ? <DualYouTubePlayer /> : <YouTubePlayer />}
 
           {currentView === 'arrangement' ? (
             <ArrangementIDE
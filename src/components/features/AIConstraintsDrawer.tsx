@@ -1,11 +1,22 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { X, Plus, Trash2, Sparkles, RefreshCw, Brain, Zap, Bot } from 'lucide-react'
+import { X, Plus, Trash2, Sparkles, RefreshCw, Brain, Zap, Bot, Server, ShieldCheck, Wand2 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { useYTDJStore } from '@/store'
-import type { AIProvider } from '@/types'
+import { checkCompliance } from '@/lib/constraint-compliance'
+import type { AIProvider, AIConstraints, ConstraintRule } from '@/types'
+
+const RULE_LABELS: Record<ConstraintRule, string> = {
+  'excluded-artist': 'Blacklisted artist',
+  'excluded-genre': 'Blacklisted genre',
+  'energy-range': 'Energy range',
+  'energy-preset': 'Energy preset',
+  'decade': 'Decade',
+  'explicit': 'Explicit content',
+  'artist-diversity': 'Artist diversity',
+}
 
 const AI_PROVIDERS: {
   id: AIProvider
@@ -30,6 +41,12 @@ const AI_PROVIDERS: {
     name: 'Google Gemini',
     description: 'Fast inference',
     icon: <Zap className="w-4 h-4" />
+  },
+  {
+    id: 'openai-compatible',
+    name: 'Local / Self-hosted',
+    description: 'OpenAI-compatible endpoint',
+    icon: <Server className="w-4 h-4" />
   }
 ]
 
@@ -48,11 +65,36 @@ export function AIConstraintsDrawer({ isOpen, onClose, onRegenerate }: AIConstra
     toggleDecade,
     isGenerating,
     aiProvider,
-    setAIProvider
+    setAIProvider,
+    currentSet,
+    generationControls,
+    fixConstraintViolations
   } = useYTDJStore()
 
   const [blacklistInput, setBlacklistInput] = useState('')
   const [showMoreDecades, setShowMoreDecades] = useState(false)
+  const [fixMessage, setFixMessage] = useState<string | null>(null)
+
+  const playlist = currentSet?.playlist
+  const complianceConstraints = useMemo<AIConstraints>(() => ({
+    artistDiversity: constraints.diversity,
+    activeDecades: constraints.activeDecades,
+    blacklist: constraints.blacklist,
+    energyPreset: generationControls.energyPreset,
+    contentMode: generationControls.contentMode
+  }), [constraints, generationControls.energyPreset, generationControls.contentMode])
+
+  const compliance = useMemo(
+    () => playlist && playlist.length > 0 ? checkCompliance(playlist, complianceConstraints) : null,
+    [playlist, complianceConstraints]
+  )
+
+  const handleFixViolations = () => {
+    const fixed = fixConstraintViolations(complianceConstraints)
+    setFixMessage(fixed > 0
+      ? `Swapped ${fixed} track${fixed === 1 ? '' : 's'} for compliant alternatives`
+      : 'No compliant alternatives available - try regenerating')
+  }
 
   const mainDecades = ['80s', '90s', '00s', '10s', '20s']
   const olderDecades = ['1850s', '1860s', '1870s', '1880s', '1890s', '1900s', '1910s', '1920s', '1930s', '1940s', '1950s', '1960s', '1970s']
@@ -105,6 +147,71 @@ export function AIConstraintsDrawer({ isOpen, onClose, onRegenerate }: AIConstra
 
           {/* Content */}
           <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-8">
+            {/* Constraint Compliance Report */}
+            {compliance && (
+              <section className="space-y-4">
+                <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-[0.2em] flex items-center gap-2">
+                  <div className="w-1.5 h-1.5 rounded-full bg-green-500" />
+                  Compliance
+                </h3>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <ShieldCheck className={cn(
+                      "w-4 h-4",
+                      compliance.score === 100 ? "text-green-400" : compliance.score >= 75 ? "text-yellow-400" : "text-red-400"
+                    )} />
+                    <span className="text-xs font-bold text-gray-400">
+                      {compliance.compliantTracks}/{compliance.totalTracks} tracks obey your settings
+                    </span>
+                  </div>
+                  <span className={cn(
+                    "text-sm font-mono",
+                    compliance.score === 100 ? "text-green-400" : compliance.score >= 75 ? "text-yellow-400" : "text-red-400"
+                  )}>
+                    {compliance.score}%
+                  </span>
+                </div>
+
+                {compliance.violations.length > 0 ? (
+                  <>
+                    <div className="space-y-1.5 max-h-48 overflow-y-auto custom-scrollbar">
+                      {compliance.violations.map((violation, index) => (
+                        <div
+                          key={`${violation.nodeIndex}-${violation.rule}-${index}`}
+                          className={cn(
+                            "px-3 py-2 rounded-lg border text-[11px]",
+                            violation.severity === 'error'
+                              ? "bg-red-500/10 border-red-500/20"
+                              : "bg-yellow-500/5 border-yellow-500/20"
+                          )}
+                        >
+                          <p className="text-white font-bold truncate">
+                            {violation.nodeIndex + 1}. {playlist?.[violation.nodeIndex]?.track.artist} - {playlist?.[violation.nodeIndex]?.track.title}
+                          </p>
+                          <p className={violation.severity === 'error' ? "text-red-400" : "text-yellow-400"}>
+                            {RULE_LABELS[violation.rule]}: {violation.message}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                    <button
+                      onClick={handleFixViolations}
+                      disabled={isGenerating}
+                      className="w-full py-2.5 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all border bg-green-500/10 border-green-500/30 text-green-400 hover:bg-green-500/20 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                    >
+                      <Wand2 className="w-3.5 h-3.5" />
+                      Fix From Alternatives
+                    </button>
+                  </>
+                ) : (
+                  <p className="text-[11px] text-gray-600 italic">
+                    {compliance.checkedRules.length > 0 ? 'No violations found' : 'No checkable constraints set'}
+                  </p>
+                )}
+                {fixMessage && <p className="text-[10px] text-gray-500">{fixMessage}</p>}
+              </section>
+            )}
+
             {/* AI Model Selection */}
             <section className="space-y-5">
               <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-[0.2em] flex items-center gap-2">
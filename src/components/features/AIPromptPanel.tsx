@@ -100,7 +100,7 @@ export function AIPromptPanel({
           </div>
           <div>
             <h3 className="font-semibold text-white">AI Set Generator</h3>
-            <p className="text-xs text-white/50">Powered by {aiProvider === 'openai' ? 'GPT-4' : aiProvider === 'claude' ? 'Claude' : 'Gemini'}</p>
+            <p className="text-xs text-white/50">Powered by {aiProvider === 'openai' ? 'GPT-4' : aiProvider === 'claude' ? 'Claude' : aiProvider === 'gemini' ? 'Gemini' : 'a local model'}</p>
           </div>
         </div>
         <Button
@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Bot, Sparkles, Zap, Brain, Check, Key, AlertCircle } from 'lucide-react'
+import { Bot, Sparkles, Zap, Brain, Check, Key, AlertCircle, Server } from 'lucide-react'
 import { Modal, Button, Input, Badge } from '@/components/ui'
 import { useYTDJStore } from '@/store'
 import type { AIProvider } from '@/types'
@@ -43,6 +43,14 @@ const AI_PROVIDERS: {
     icon: <Zap className="w-5 h-5" />,
     color: 'from-blue-500 to-cyan-500',
     models: ['gemini-1.5-pro', 'gemini-1.5-flash', 'gemini-1.0-pro']
+  },
+  {
+    id: 'openai-compatible',
+    name: 'Local / Self-hosted',
+    description: 'Any OpenAI-compatible endpoint (Ollama, vLLM, LM Studio)',
+    icon: <Server className="w-5 h-5" />,
+    color: 'from-slate-500 to-gray-500',
+    models: ['Set OPENAI_COMPATIBLE_MODEL on the server']
   }
 ]
 
@@ -5,7 +5,7 @@ import { motion, AnimatePresence } from 'framer-motion'
 import {
   Zap, Undo2, Redo2, Download, Play, Pause,
   Lock, Unlock, Trash2, X, RefreshCw, Settings2, Sparkles, Loader2,
-  Plus, Clock, Cloud, FolderOpen, Layers, AlertTriangle
+  Plus, Clock, Cloud, FolderOpen, Layers, AlertTriangle, Waves, Flag, Gauge, MessageSquare
 } from 'lucide-react'
 import { cn, formatDuration } from '@/lib/utils'
 import { useYTDJStore, arcTemplates } from '@/store'
@@ -26,10 +26,15 @@ import { GhostTrackNode, AIProviderBadge } from './GhostTrackNode'
 import { UpgradeModal } from './Subscription/UpgradeModal'
 import { CreditsDisplay } from './Subscription/CreditsDisplay'
 import { useAutoMix } from '@/hooks/useAutoMix'
-import { getKeyCompatibility, getCompatibilityColor } from '@/lib/camelot'
+import { getKeyCompatibility, getCompatibilityColor, getKeyTechniqueLabel } from '@/lib/camelot'
 import { AutoMixPanel } from './AutoMixPanel'
+import { TransitionIndicator } from './TransitionIndicator'
+import { CueEditor } from './CueEditor'
+import { BpmKeyEditor } from './BpmKeyEditor'
 import { SegmentBar } from './SegmentBar'
 import { SegmentEditor } from './SegmentEditor'
+import { SetEditChat } from './SetEditChat'
+import { BridgeFinder } from './BridgeFinder'
 import { AddSegmentButton } from './SegmentPresetPicker'
 
 interface ArrangementIDEProps {
@@ -57,6 +62,7 @@ export function ArrangementIDE({ onViewChange, currentView, onGoHome }: Arrangem
     setCurrentSet,
     constraints,
     updateNodeStartTime,
+    updateNodeTransition,
     undo,
     redo,
     canUndo,
@@ -71,12 +77,17 @@ export function ArrangementIDE({ onViewChange, currentView, onGoHome }: Arrangem
     // Streaming generation handlers
     startParallelGeneration,
     setProviderStarted,
+    receiveGeneratedTrack,
     receivePrimaryResult,
     receiveAlternativeResult,
     setProviderFailed,
     enrichTrack,
     completeGeneration,
     failAllGeneration,
+    activeGenerationJob,
+    setActiveGenerationJob,
+    reattachGenerationJob,
+    cancelActiveGeneration,
     // Segment state
     segments,
     activeSegmentId,
@@ -120,6 +131,7 @@ export function ArrangementIDE({ onViewChange, currentView, onGoHome }: Arrangem
   const [showUpgradeModal, setShowUpgradeModal] = useState(false)
   const [showDJExport, setShowDJExport] = useState(false)
   const [showSegmentEditor, setShowSegmentEditor] = useState(false)
+  const [showEditChat, setShowEditChat] = useState(false)
 
   // Derived segment state
   const isSegmented = currentSet?.isSegmented && segments.length > 0
@@ -132,6 +144,12 @@ export function ArrangementIDE({ onViewChange, currentView, onGoHome }: Arrangem
     }
   }, [isSegmented, playlist.length, calculateSegmentBoundaries])
 
+  // Pick up a generation job that was still running when the page reloaded.
+  // The stream closes itself when the job finishes, so it isn't torn down on unmount.
+  useEffect(() => {
+    reattachGenerationJob()
+  }, [reattachGenerationJob])
+
   // Show upgrade modal when there's a no_credits error
   useEffect(() => {
     if (generationError?.code === 'no_credits') {
@@ -464,6 +482,9 @@ export function ArrangementIDE({ onViewChange, currentView, onGoHome }: Arrangem
         } as AIConstraints
       },
       {
+        onJobCreated: (jobId) => {
+          setActiveGenerationJob({ id: jobId, trackCount, startedAt: Date.now() })
+        },
         onStarted: (providers) => {
           console.log('[Stream] Started with providers:', providers)
         },
@@ -471,6 +492,9 @@ export function ArrangementIDE({ onViewChange, currentView, onGoHome }: Arrangem
           console.log('[Stream] Provider started:', provider)
           setProviderStarted(provider)
         },
+        onTrackGenerated: (provider, index, node) => {
+          receiveGeneratedTrack(provider, index, node)
+        },
         onPrimaryResult: (provider, tracks) => {
           console.log('[Stream] Primary result from:', provider, tracks.length, 'tracks')
           receivePrimaryResult(provider, tracks)
@@ -515,7 +539,7 @@ export function ArrangementIDE({ onViewChange, currentView, onGoHome }: Arrangem
         setIsGenerating(false)
       }
     }, 90000)
-  }, [currentSet?.prompt, isGenerating, playlist.length, constraints, setIsGenerating, startParallelGeneration, setProviderStarted, receivePrimaryResult, receiveAlternativeResult, setProviderFailed, enrichTrack, completeGeneration, failAllGeneration, setShowUpgradeModal])
+  }, [currentSet?.prompt, isGenerating, playlist.length, constraints, setIsGenerating, startParallelGeneration, setActiveGenerationJob, setProviderStarted, receiveGeneratedTrack, receivePrimaryResult, receiveAlternativeResult, setProviderFailed, enrichTrack, completeGeneration, failAllGeneration, setShowUpgradeModal])
 
   const handleRegenerateWithCount = useCallback((mode: 'replace' | 'append', promptOverride?: string) => {
     const prompt = promptOverride || currentSet?.prompt || ''
@@ -562,6 +586,9 @@ export function ArrangementIDE({ onViewChange, currentView, onGoHome }: Arrangem
           console.log('[Stream] Provider started:', provider)
           setProviderStarted(provider)
         },
+        onTrackGenerated: (provider, index, node) => {
+          receiveGeneratedTrack(provider, index, node)
+        },
         onPrimaryResult: (provider, tracks) => {
           console.log('[Stream] Primary result from:', provider, tracks.length, 'tracks')
           if (mode === 'append') {
@@ -615,7 +642,7 @@ export function ArrangementIDE({ onViewChange, currentView, onGoHome }: Arrangem
         setIsGenerating(false)
       }
     }, 90000)
-  }, [currentSet?.prompt, isGenerating, targetTrackCount, playlist, constraints, setIsGenerating, startParallelGeneration, setProviderStarted, receivePrimaryResult, receiveAlternativeResult, setProviderFailed, enrichTrack, completeGeneration, failAllGeneration, updateSetWithPrompt, setShowUpgradeModal])
+  }, [currentSet?.prompt, isGenerating, targetTrackCount, playlist, constraints, setIsGenerating, startParallelGeneration, setProviderStarted, receiveGeneratedTrack, receivePrimaryResult, receiveAlternativeResult, setProviderFailed, enrichTrack, completeGeneration, failAllGeneration, updateSetWithPrompt, setShowUpgradeModal])
 
   // Fit songs to arc - rearrange unlocked tracks to best match the energy curve
   const handleFitToArc = useCallback((arcId: string) => {
@@ -909,6 +936,23 @@ export function ArrangementIDE({ onViewChange, currentView, onGoHome }: Arrangem
             </button>
           </div>
           <div className="flex items-center gap-2">
+            <button
+              onClick={() => {
+                setShowEditChat((open) => !open)
+                setShowSegmentEditor(false)
+              }}
+              disabled={playlist.length === 0}
+              title="Edit the set by describing changes"
+              className={cn(
+                "flex items-center gap-2 px-4 py-2 text-xs font-black rounded hover:scale-105 transition-all border uppercase tracking-widest disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100",
+                showEditChat
+                  ? "bg-cyan-500/30 text-cyan-300 border-cyan-500/50"
+                  : "bg-cyan-500/10 text-cyan-400 border-cyan-500/30 hover:bg-cyan-500/20"
+              )}
+            >
+              <MessageSquare className="w-4 h-4" />
+              Edit Chat
+            </button>
             <button
               onClick={() => setShowSaveDialog(true)}
               disabled={!currentSet || playlist.length === 0}
@@ -1005,10 +1049,10 @@ export function ArrangementIDE({ onViewChange, currentView, onGoHome }: Arrangem
                         ? 'bg-cyan-500 text-black'
                         : 'bg-white/10 text-white/70 hover:bg-white/20 hover:text-white'
                     )}
-                    title={`Use ${provider === 'openai' ? 'OpenAI' : provider === 'claude' ? 'Claude' : 'Gemini'} results`}
+                    title={`Use ${provider === 'openai' ? 'OpenAI' : provider === 'claude' ? 'Claude' : provider === 'gemini' ? 'Gemini' : 'Local'} results`}
                   >
                     <AIProviderBadge provider={provider} size="sm" />
-                    <span>{provider === 'openai' ? 'OpenAI' : provider === 'claude' ? 'Claude' : 'Gemini'}</span>
+                    <span>{provider === 'openai' ? 'OpenAI' : provider === 'claude' ? 'Claude' : provider === 'gemini' ? 'Gemini' : 'Local'}</span>
                   </button>
                 ))}
                 {/* Combine All Button - hidden after clicked */}
@@ -1029,7 +1073,7 @@ export function ArrangementIDE({ onViewChange, currentView, onGoHome }: Arrangem
             {generationProgress.isGenerating && (
               <div className="flex items-center gap-3">
                 <div className="flex items-center gap-1">
-                  {(['openai', 'claude', 'gemini'] as AIProvider[]).map((provider) => {
+                  {(['openai', 'claude', 'gemini', 'openai-compatible'] as AIProvider[]).map((provider) => {
                     const isActive = generationProgress.activeProviders.includes(provider)
                     const isComplete = generationProgress.completedProviders.includes(provider)
                     const isFailed = generationProgress.failedProviders.includes(provider)
@@ -1052,6 +1096,15 @@ export function ArrangementIDE({ onViewChange, currentView, onGoHome }: Arrangem
                     ? `Enriching ${generationProgress.enrichedCount}/${generationProgress.skeletonCount}`
                     : 'Generating...'}
                 </span>
+                {activeGenerationJob && (
+                  <button
+                    onClick={() => cancelActiveGeneration()}
+                    className="p-0.5 rounded text-gray-500 hover:text-red-400 hover:bg-white/5 transition-colors"
+                    title="Cancel generation (credit refunded if no result yet)"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
               </div>
             )}
           </div>
@@ -1144,6 +1197,9 @@ export function ArrangementIDE({ onViewChange, currentView, onGoHome }: Arrangem
                   const color = getCompatibilityColor(analysis.keyCompatibility)
                   return (
                     <g key={`transition-${index}`}>
+                      <title>
+                        {`${getKeyTechniqueLabel(analysis.keyTechnique)}: ${analysis.keyCompatibility} (${analysis.overallScore}%)`}
+                      </title>
                       <circle cx={midX} cy={midY} r="2" fill={color} opacity="0.3" />
                       <circle cx={midX} cy={midY} r="1" fill={color} />
                     </g>
@@ -1177,6 +1233,7 @@ export function ArrangementIDE({ onViewChange, currentView, onGoHome }: Arrangem
                       index={index}
                       x={x}
                       y={y}
+                      track={generationProgress.streamedTracks[index]?.track}
                     />
                   )
                 })}
@@ -1513,6 +1570,65 @@ export function ArrangementIDE({ onViewChange, currentView, onGoHome }: Arrangem
                   )}
                 </div>
 
+                {/* BPM & Key */}
+                {selectedNodeIndex !== null && (
+                  <div className="bg-white/5 rounded-2xl p-4 border border-white/5 space-y-3">
+                    <h4 className="text-[10px] font-black text-gray-400 uppercase tracking-widest flex items-center gap-2">
+                      <Gauge className="w-3 h-3" />
+                      BPM &amp; Key
+                    </h4>
+                    <BpmKeyEditor nodeIndex={selectedNodeIndex} />
+                  </div>
+                )}
+
+                {/* Cue Points */}
+                {selectedNodeIndex !== null && (
+                  <div className="bg-white/5 rounded-2xl p-4 border border-white/5 space-y-3">
+                    <h4 className="text-[10px] font-black text-gray-400 uppercase tracking-widest flex items-center gap-2">
+                      <Flag className="w-3 h-3" />
+                      Cue Points
+                    </h4>
+                    <CueEditor nodeIndex={selectedNodeIndex} />
+                  </div>
+                )}
+
+                {/* Transition Out */}
+                {selectedNodeIndex !== null && selectedNodeIndex < playlist.length - 1 && (
+                  <div className="bg-white/5 rounded-2xl p-4 border border-white/5 space-y-3">
+                    <h4 className="text-[10px] font-black text-gray-400 uppercase tracking-widest flex items-center gap-2">
+                      <Waves className="w-3 h-3" />
+                      Transition Out
+                    </h4>
+                    <p className="text-[10px] text-gray-500 truncate">
+                      Into {playlist[selectedNodeIndex + 1].track.title}
+                    </p>
+                    <TransitionIndicator
+                      fromTrack={selectedNode.track}
+                      toTrack={playlist[selectedNodeIndex + 1].track}
+                      style={selectedNode.transitionToNext?.style}
+                      gapSeconds={selectedNode.transitionToNext?.gapSeconds}
+                      onStyleChange={(updates) => updateNodeTransition(selectedNodeIndex, updates)}
+                    />
+                    <BridgeFinder
+                      key={`${selectedNode.id}-${playlist[selectedNodeIndex + 1].id}`}
+                      nodeIndex={selectedNodeIndex}
+                      onNoCredits={() => setShowUpgradeModal(true)}
+                    />
+                  </div>
+                )}
+
+                {/* Verification warning - the track may not exist */}
+                {selectedNode.track.verificationStatus === 'unverified' && (
+                  <div className="bg-amber-500/5 rounded-2xl p-4 border border-amber-500/20 flex items-start gap-3">
+                    <AlertTriangle className="w-4 h-4 text-amber-400 shrink-0 mt-0.5" />
+                    <p className="text-[11px] text-amber-200/80 leading-relaxed">
+                      Couldn&apos;t find this track in any catalog
+                      ({Math.round((selectedNode.track.verificationConfidence ?? 0) * 100)}% match).
+                      The AI may have invented it — consider swapping it.
+                    </p>
+                  </div>
+                )}
+
                 {/* AI Reasoning */}
                 {selectedNode.track.aiReasoning && (
                   <div className="bg-cyan-500/5 rounded-2xl p-5 border border-cyan-500/10 space-y-3">
@@ -1618,6 +1734,23 @@ export function ArrangementIDE({ onViewChange, currentView, onGoHome }: Arrangem
             </motion.aside>
           )}
         </AnimatePresence>
+
+        {/* Right Sidebar: Conversational Set Editing */}
+        <AnimatePresence>
+          {showEditChat && !showSegmentEditor && (
+            <motion.aside
+              initial={{ width: 0, opacity: 0 }}
+              animate={{ width: 340, opacity: 1 }}
+              exit={{ width: 0, opacity: 0 }}
+              className="bg-[#0a0c1c]/80 backdrop-blur-xl border-l border-white/5 flex flex-col overflow-hidden"
+            >
+              <SetEditChat
+                onClose={() => setShowEditChat(false)}
+                onNoCredits={() => setShowUpgradeModal(true)}
+              />
+            </motion.aside>
+          )}
+        </AnimatePresence>
       </div>
 
       {/* Bottom Transport Bar */}
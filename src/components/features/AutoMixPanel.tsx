@@ -1,12 +1,24 @@
 'use client'
 
-import { useState, useCallback } from 'react'
-import { Shuffle, AlertTriangle, CheckCircle, Music2, Zap, Clock, RefreshCw } from 'lucide-react'
+import { useState, useCallback, useEffect } from 'react'
+import {
+  Shuffle,
+  AlertTriangle,
+  CheckCircle,
+  Music2,
+  Zap,
+  Clock,
+  RefreshCw,
+  ListOrdered,
+  Volume2,
+} from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { useYTDJStore } from '@/store'
 import { useAutoMix } from '@/hooks/useAutoMix'
-import { getCompatibilityColor } from '@/lib/camelot'
-import { batchEstimateBpmKey } from '@/lib/bpm-key-estimation'
+import { getCompatibilityColor, getKeyTechniqueLabel } from '@/lib/camelot'
+import { batchEstimateBpmKey, getGenreFallbackEstimate } from '@/lib/bpm-key-estimation'
+import { countMatchable } from '@/lib/gain'
+import type { OptimizeOrderResult } from '@/lib/harmonic-optimizer'
 
 /**
  * AutoMix Panel Component
@@ -16,7 +28,9 @@ import { batchEstimateBpmKey } from '@/lib/bpm-key-estimation'
  * - Mode selection (seamless crossfade vs gapped)
  * - Crossfade duration slider
  * - Transition quality summary
+ * - Harmonic order optimization with before/after preview
  * - BPM/Key estimation trigger
+ * - Loudness matching from remembered gain trims
  */
 export function AutoMixPanel() {
   const {
@@ -26,6 +40,8 @@ export function AutoMixPanel() {
     setAutoMixCrossfadeDuration,
     batchEnrichBpmKey,
     currentSet,
+    loudnessTable,
+    matchLoudness,
   } = useYTDJStore()
 
   const {
@@ -33,10 +49,30 @@ export function AutoMixPanel() {
     transitionSummary,
     problemTransitions,
     tracksNeedingEstimation,
+    optimizeOrder,
+    applyOptimizedOrder,
   } = useAutoMix()
 
   const [isEstimating, setIsEstimating] = useState(false)
+  const [followArc, setFollowArc] = useState(true)
+  const [optimizePreview, setOptimizePreview] = useState<OptimizeOrderResult | null>(null)
   const playlist = currentSet?.playlist || []
+  const matchableCount = countMatchable(playlist, loudnessTable)
+
+  // A preview is only valid for the playlist it was computed from
+  useEffect(() => {
+    setOptimizePreview(null)
+  }, [currentSet?.playlist])
+
+  const handleOptimizeOrder = useCallback(() => {
+    setOptimizePreview(optimizeOrder({ followArc }))
+  }, [optimizeOrder, followArc])
+
+  const handleApplyOrder = useCallback(() => {
+    if (!optimizePreview) return
+    applyOptimizedOrder(optimizePreview)
+    setOptimizePreview(null)
+  }, [optimizePreview, applyOptimizedOrder])
 
   // Handle BPM/Key estimation
   const handleEstimateBpmKey = useCallback(async () => {
@@ -47,8 +83,7 @@ export function AutoMixPanel() {
       const result = await batchEstimateBpmKey(tracksNeedingEstimation)
 
       if (result.success && result.estimates) {
-        const updates: Array<{ nodeIndex: number; bpm: number; key: string; camelotCode?: string }> =
-          []
+        const updates: Parameters<typeof batchEnrichBpmKey>[0] = []
 
         result.estimates.forEach((estimate, index) => {
           updates.push({
@@ -56,9 +91,21 @@ export function AutoMixPanel() {
             bpm: estimate.bpm,
             key: estimate.key,
             camelotCode: estimate.camelotCode || undefined,
+            source: estimate.source,
+            confidence: estimate.confidence,
+            verified: estimate.verified,
           })
         })
 
+        if (updates.length > 0) {
+          batchEnrichBpmKey(updates)
+        }
+      } else {
+        // AI unavailable: fill missing BPMs from the genre table so AutoMix has something to work with
+        const updates = tracksNeedingEstimation
+          .filter((t) => !playlist[t.index]?.track.bpm)
+          .map((t) => ({ nodeIndex: t.index, ...getGenreFallbackEstimate(t.genre) }))
+
         if (updates.length > 0) {
           batchEnrichBpmKey(updates)
         }
@@ -68,7 +115,7 @@ export function AutoMixPanel() {
     } finally {
       setIsEstimating(false)
     }
-  }, [tracksNeedingEstimation, batchEnrichBpmKey])
+  }, [tracksNeedingEstimation, batchEnrichBpmKey, playlist])
 
   if (playlist.length === 0) {
     return null
@@ -204,7 +251,7 @@ export function AutoMixPanel() {
                     key={i}
                     className="flex-1 h-2 rounded-full transition-all hover:scale-y-150"
                     style={{ backgroundColor: getCompatibilityColor(analysis.keyCompatibility) }}
-                    title={`${analysis.fromTrack.title} → ${analysis.toTrack.title}: ${analysis.keyCompatibility} (${analysis.overallScore}%)`}
+                    title={`${analysis.fromTrack.title} → ${analysis.toTrack.title}: ${getKeyTechniqueLabel(analysis.keyTechnique)}, ${analysis.keyCompatibility} (${analysis.overallScore}%)`}
                   />
                 ))}
               </div>
@@ -230,6 +277,92 @@ export function AutoMixPanel() {
             )}
           </div>
 
+          {/* Harmonic Order Optimizer */}
+          {playlist.length >= 3 && (
+            <div className="bg-white/5 rounded-xl p-3 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">
+                  Track Order
+                </span>
+                <label className="flex items-center gap-1.5 text-[10px] text-gray-400 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={followArc}
+                    onChange={(e) => {
+                      setFollowArc(e.target.checked)
+                      setOptimizePreview(null)
+                    }}
+                    className="accent-cyan-500"
+                  />
+                  Follow energy arc
+                </label>
+              </div>
+
+              {optimizePreview ? (
+                optimizePreview.changed ? (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between text-[10px]">
+                      <span className="text-gray-500">Average Score</span>
+                      <span className="font-mono">
+                        <span className="text-gray-400">{optimizePreview.beforeScore}%</span>
+                        <span className="text-gray-600"> → </span>
+                        <span className="text-white font-bold">{optimizePreview.afterScore}%</span>
+                        <span
+                          className={cn(
+                            'ml-1.5 font-bold',
+                            optimizePreview.afterScore >= optimizePreview.beforeScore
+                              ? 'text-green-400'
+                              : 'text-orange-400'
+                          )}
+                        >
+                          {optimizePreview.afterScore >= optimizePreview.beforeScore ? '+' : ''}
+                          {optimizePreview.afterScore - optimizePreview.beforeScore}
+                        </span>
+                      </span>
+                    </div>
+                    <div className="text-[10px] text-gray-500">
+                      {optimizePreview.movedCount} track{optimizePreview.movedCount !== 1 ? 's' : ''} moved
+                      {followArc ? ' · energy arc respected' : ''}
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setOptimizePreview(null)}
+                        className="flex-1 py-2 px-3 rounded-lg text-[10px] font-bold uppercase tracking-wider bg-white/5 text-gray-400 border border-white/5 hover:border-white/10 transition-all"
+                      >
+                        Discard
+                      </button>
+                      <button
+                        onClick={handleApplyOrder}
+                        className="flex-1 py-2 px-3 rounded-lg text-[10px] font-bold uppercase tracking-wider bg-cyan-500/20 text-cyan-400 border border-cyan-500/30 hover:bg-cyan-500/30 transition-all"
+                      >
+                        Apply
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-1 text-[10px] text-green-400">
+                    <CheckCircle className="w-3 h-3" />
+                    <span className="font-bold">No better order found</span>
+                  </div>
+                )
+              ) : (
+                <button
+                  onClick={handleOptimizeOrder}
+                  className={cn(
+                    'w-full py-2.5 px-3 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all',
+                    'bg-cyan-500/10 text-cyan-400 border border-cyan-500/20',
+                    'hover:bg-cyan-500/20 hover:border-cyan-500/30'
+                  )}
+                >
+                  <div className="flex items-center justify-center gap-2">
+                    <ListOrdered className="w-3 h-3" />
+                    <span>Optimize Order</span>
+                  </div>
+                </button>
+              )}
+            </div>
+          )}
+
           {/* BPM/Key Estimation */}
           {tracksNeedingEstimation.length > 0 && (
             <button
@@ -257,6 +390,23 @@ export function AutoMixPanel() {
             </button>
           )}
 
+          {/* Loudness Matching */}
+          {matchableCount > 0 && (
+            <button
+              onClick={() => matchLoudness()}
+              className={cn(
+                'w-full py-2.5 px-3 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all',
+                'bg-cyan-500/20 text-cyan-400 border border-cyan-500/30',
+                'hover:bg-cyan-500/30 hover:border-cyan-500/40'
+              )}
+            >
+              <div className="flex items-center justify-center gap-2">
+                <Volume2 className="w-3 h-3" />
+                <span>Match Loudness ({matchableCount} known)</span>
+              </div>
+            </button>
+          )}
+
           {/* Legend */}
           <div className="flex flex-wrap gap-2 text-[9px]">
             <div className="flex items-center gap-1">
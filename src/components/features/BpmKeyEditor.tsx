@@ -0,0 +1,224 @@
+'use client'
+
+import { useState, useRef, useEffect } from 'react'
+import { Hand, Check, BadgeCheck } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useYTDJStore } from '@/store'
+import { calculateTapBpm } from '@/lib/cues'
+import { ALL_KEYS, parseKey } from '@/lib/music-key'
+import type { BpmKeySource, Track } from '@/types'
+
+const SOURCE_LABELS: Record<BpmKeySource, string> = {
+  ai: 'AI Estimate',
+  'genre-fallback': 'Genre Guess',
+  user: 'User Verified',
+  imported: 'Imported',
+}
+
+// Taps after this long without a new one start over
+const TAP_IDLE_RESET_MS = 2000
+
+interface TapTempoButtonProps {
+  onBpm: (bpm: number) => void
+  className?: string
+  compact?: boolean
+}
+
+/**
+ * Tap along to the beat; reports a BPM once enough taps have been collected
+ */
+export function TapTempoButton({ onBpm, className, compact = false }: TapTempoButtonProps) {
+  const tapsRef = useRef<number[]>([])
+  const [bpm, setBpm] = useState<number | null>(null)
+  const [tapCount, setTapCount] = useState(0)
+
+  const handleTap = () => {
+    const now = Date.now()
+    const last = tapsRef.current[tapsRef.current.length - 1]
+    tapsRef.current = last && now - last > TAP_IDLE_RESET_MS
+      ? [now]
+      : [...tapsRef.current, now].slice(-16)
+    setTapCount(tapsRef.current.length)
+
+    const tapped = calculateTapBpm(tapsRef.current)
+    setBpm(tapped)
+    if (tapped) onBpm(tapped)
+  }
+
+  return (
+    <button
+      onClick={handleTap}
+      className={cn(
+        'flex items-center gap-1.5 rounded-lg bg-cyan-500/10 text-cyan-400 font-bold uppercase tracking-wider hover:bg-cyan-500/20 active:scale-95 transition-all border border-cyan-500/20',
+        compact ? 'px-2 py-1 text-[9px]' : 'px-3 py-1.5 text-[10px]',
+        className
+      )}
+      title="Tap on the beat to measure the tempo"
+    >
+      <Hand className="w-3 h-3" />
+      {bpm ? `${bpm}` : tapCount > 0 ? `${tapCount}…` : 'Tap'}
+    </button>
+  )
+}
+
+interface CamelotKeyWheelProps {
+  value?: string
+  onChange: (key: string) => void
+  className?: string
+}
+
+/**
+ * Camelot wheel key picker: outer ring major (B), inner ring minor (A)
+ */
+export function CamelotKeyWheel({ value, onChange, className }: CamelotKeyWheelProps) {
+  const selected = parseKey(value)?.camelot
+
+  return (
+    <svg viewBox="0 0 200 200" className={cn('w-full max-w-[220px] mx-auto', className)}>
+      <circle cx="100" cy="100" r="96" fill="rgba(255,255,255,0.03)" stroke="rgba(255,255,255,0.08)" />
+      <circle cx="100" cy="100" r="64" fill="none" stroke="rgba(255,255,255,0.08)" />
+      {ALL_KEYS.map((key) => {
+        // 12 at the top, numbers increasing clockwise
+        const angle = ((key.camelotNumber % 12) * 30 - 90) * (Math.PI / 180)
+        const radius = key.mode === 'major' ? 80 : 48
+        const x = 100 + radius * Math.cos(angle)
+        const y = 100 + radius * Math.sin(angle)
+        const isSelected = key.camelot === selected
+
+        return (
+          <g
+            key={key.camelot}
+            onClick={() => onChange(key.name)}
+            className="cursor-pointer"
+          >
+            <title>{`${key.camelot} · ${key.name}`}</title>
+            <circle
+              cx={x}
+              cy={y}
+              r={13}
+              fill={isSelected ? '#ec4899' : 'rgba(255,255,255,0.06)'}
+              stroke={isSelected ? '#f9a8d4' : 'rgba(255,255,255,0.1)'}
+              className="transition-colors hover:fill-white/20"
+            />
+            <text
+              x={x}
+              y={y - 2}
+              textAnchor="middle"
+              className={cn('text-[8px] font-black pointer-events-none', isSelected ? 'fill-white' : 'fill-gray-300')}
+            >
+              {key.camelot}
+            </text>
+            <text
+              x={x}
+              y={y + 7}
+              textAnchor="middle"
+              className={cn('text-[6px] pointer-events-none', isSelected ? 'fill-white' : 'fill-gray-500')}
+            >
+              {key.name}
+            </text>
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
+
+/**
+ * Source / confidence badge for a track's BPM and key
+ */
+export function BpmKeySourceBadge({ track, className }: { track: Track; className?: string }) {
+  const source = track.bpmKeySource || 'ai'
+  const confidence = track.bpmKeyConfidence
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[9px] font-bold uppercase tracking-wider',
+        track.bpmKeyVerified
+          ? 'bg-green-500/15 text-green-400'
+          : source === 'genre-fallback'
+          ? 'bg-yellow-500/15 text-yellow-400'
+          : 'bg-white/5 text-gray-400',
+        className
+      )}
+      title={confidence !== undefined ? `Confidence ${Math.round(confidence * 100)}%` : undefined}
+    >
+      {track.bpmKeyVerified && <BadgeCheck className="w-3 h-3" />}
+      {SOURCE_LABELS[source]}
+      {confidence !== undefined && !track.bpmKeyVerified && ` · ${Math.round(confidence * 100)}%`}
+    </span>
+  )
+}
+
+interface BpmKeyEditorProps {
+  nodeIndex: number
+  className?: string
+}
+
+/**
+ * Correct a track's BPM (typed or tapped) and key (Camelot wheel)
+ * Saving marks the values as user-verified and shares them for future estimations
+ */
+export function BpmKeyEditor({ nodeIndex, className }: BpmKeyEditorProps) {
+  const { currentSet, correctTrackBpmKey } = useYTDJStore()
+  const track = currentSet?.playlist[nodeIndex]?.track
+
+  const [draftBpm, setDraftBpm] = useState<string>('')
+  const [draftKey, setDraftKey] = useState<string | undefined>(undefined)
+
+  // Reset drafts when switching tracks or when the stored values change
+  useEffect(() => {
+    setDraftBpm(track?.bpm ? String(track.bpm) : '')
+    setDraftKey(track?.key)
+  }, [track?.id, track?.bpm, track?.key])
+
+  if (!track) return null
+
+  const parsedBpm = parseFloat(draftBpm)
+  const bpmValid = Number.isFinite(parsedBpm) && parsedBpm >= 40 && parsedBpm <= 250
+  const bpmChanged = bpmValid && parsedBpm !== track.bpm
+  const keyChanged = !!draftKey && parseKey(draftKey)?.camelot !== parseKey(track.key)?.camelot
+  const canConfirm = !track.bpmKeyVerified && (!!track.bpm || !!track.key)
+
+  const handleSave = () => {
+    correctTrackBpmKey(nodeIndex, {
+      // Confirming unchanged values still records them as verified
+      bpm: bpmValid ? Math.round(parsedBpm * 10) / 10 : undefined,
+      key: draftKey || undefined,
+    })
+  }
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="flex items-center justify-between">
+        <BpmKeySourceBadge track={track} />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          min={40}
+          max={250}
+          step={0.1}
+          value={draftBpm}
+          onChange={(e) => setDraftBpm(e.target.value)}
+          placeholder="BPM"
+          className="w-20 bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-xs font-mono text-white focus:outline-none focus:border-cyan-500/50"
+        />
+        <span className="text-[10px] text-gray-500 uppercase">BPM</span>
+        <TapTempoButton onBpm={(bpm) => setDraftBpm(String(bpm))} className="ml-auto" />
+      </div>
+
+      <CamelotKeyWheel value={draftKey} onChange={setDraftKey} />
+
+      <button
+        onClick={handleSave}
+        disabled={!bpmChanged && !keyChanged && !canConfirm}
+        className="w-full flex items-center justify-center gap-1.5 py-2 rounded-lg bg-green-500/10 text-green-400 text-[10px] font-bold uppercase tracking-wider hover:bg-green-500/20 transition-all border border-green-500/20 disabled:opacity-30"
+      >
+        <Check className="w-3 h-3" />
+        {bpmChanged || keyChanged ? 'Save Correction' : 'Confirm Values'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import { Loader2, GitMerge, Plus, AlertTriangle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useYTDJStore } from '@/store'
+import { findBridgeTracks } from '@/lib/ai-service'
+import { needsBridge } from '@/lib/bridge-tracks'
+import type { AIConstraints, BridgeProposal } from '@/types'
+
+interface BridgeFinderProps {
+  nodeIndex: number // Bridges go between this node and the next
+  onNoCredits?: () => void
+  className?: string
+}
+
+function scoreColor(score: number): string {
+  if (score >= 80) return 'text-green-400'
+  if (score >= 60) return 'text-cyan-400'
+  if (score >= 40) return 'text-yellow-400'
+  return 'text-red-400'
+}
+
+/**
+ * Offers one- or two-track bridges for a clashing or jumpy transition
+ */
+export function BridgeFinder({ nodeIndex, onNoCredits, className }: BridgeFinderProps) {
+  const { currentSet, aiProvider, constraints, insertBridgeTracks, refreshCredits } = useYTDJStore()
+  const playlist = currentSet?.playlist || []
+  const fromNode = playlist[nodeIndex]
+  const toNode = playlist[nodeIndex + 1]
+
+  const [isSearching, setIsSearching] = useState(false)
+  const [proposals, setProposals] = useState<BridgeProposal[] | null>(null)
+  const [directScore, setDirectScore] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFind = useCallback(async () => {
+    if (!fromNode || !toNode || isSearching) return
+    setIsSearching(true)
+    setError(null)
+
+    const result = await findBridgeTracks({
+      previousTrack: fromNode.track,
+      nextTrack: toNode.track,
+      provider: aiProvider,
+      constraints: {
+        energyTolerance: constraints.energyTolerance,
+        syncopation: constraints.syncopation,
+        keyMatch: constraints.keyMatch,
+        artistDiversity: constraints.diversity,
+        discovery: constraints.discovery,
+        activeDecades: constraints.activeDecades,
+        blacklist: constraints.blacklist
+      } as AIConstraints
+    })
+
+    setIsSearching(false)
+    refreshCredits()
+
+    if (!result.success || !result.proposals) {
+      if (result.code === 'no_credits') onNoCredits?.()
+      setError(result.error || 'Could not find a bridge')
+      return
+    }
+    setProposals(result.proposals)
+    setDirectScore(result.directScore ?? null)
+  }, [fromNode, toNode, isSearching, aiProvider, constraints, refreshCredits, onNoCredits])
+
+  const handleInsert = useCallback((proposal: BridgeProposal) => {
+    insertBridgeTracks(nodeIndex, proposal.tracks)
+    setProposals(null)
+    setDirectScore(null)
+  }, [nodeIndex, insertBridgeTracks])
+
+  if (!fromNode || !toNode || (!proposals && !needsBridge(fromNode.track, toNode.track))) {
+    return null
+  }
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      {!proposals && (
+        <button
+          onClick={handleFind}
+          disabled={isSearching}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-orange-500/10 text-orange-400 text-[10px] font-bold uppercase tracking-wider rounded-lg hover:bg-orange-500/20 transition-all border border-orange-500/20 disabled:opacity-50"
+        >
+          {isSearching ? <Loader2 className="w-3 h-3 animate-spin" /> : <GitMerge className="w-3 h-3" />}
+          {isSearching ? 'Finding bridges...' : 'Find bridge track'}
+        </button>
+      )}
+
+      {error && (
+        <p className="flex items-center gap-1.5 text-[10px] text-red-400">
+          <AlertTriangle className="w-3 h-3 shrink-0" />
+          {error}
+        </p>
+      )}
+
+      {proposals && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-[9px] uppercase tracking-widest text-gray-500">
+            <span>Bridges</span>
+            {directScore !== null && <span>Direct: {directScore}</span>}
+          </div>
+
+          {proposals.length === 0 && (
+            <p className="text-[10px] text-gray-500">No bridge beats the direct transition within the set constraints. Try again for new ideas.</p>
+          )}
+
+          {proposals.map((proposal, index) => (
+            <button
+              key={index}
+              onClick={() => handleInsert(proposal)}
+              className="w-full text-left p-2 rounded-lg bg-black/30 border border-white/5 hover:border-cyan-500/30 hover:bg-cyan-500/5 transition-all group"
+              title={proposal.tracks.map((track) => track.aiReasoning).filter(Boolean).join('\n')}
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className={cn('text-[10px] font-black', scoreColor(proposal.score))}>
+                  {proposal.score}
+                  <span className="ml-1 font-normal text-gray-600">({proposal.hopScores.join(' / ')})</span>
+                </span>
+                <Plus className="w-3 h-3 text-gray-600 group-hover:text-cyan-400" />
+              </div>
+              {proposal.tracks.map((track) => (
+                <div key={track.id} className="text-[10px] text-gray-300 truncate">
+                  {track.artist} - {track.title}
+                  <span className="ml-1 text-gray-600 font-mono">
+                    {[track.key, track.bpm && `${track.bpm}`, track.energy !== undefined && `E${track.energy}`].filter(Boolean).join(' · ')}
+                  </span>
+                </div>
+              ))}
+            </button>
+          ))}
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => setProposals(null)}
+              className="flex-1 py-1.5 text-[10px] text-gray-500 hover:text-white transition-colors"
+            >
+              Dismiss
+            </button>
+            <button
+              onClick={handleFind}
+              disabled={isSearching}
+              className="flex-1 py-1.5 text-[10px] text-cyan-400 hover:text-cyan-300 transition-colors disabled:opacity-50"
+            >
+              {isSearching ? 'Searching...' : 'More ideas'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
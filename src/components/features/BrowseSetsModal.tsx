@@ -10,11 +10,13 @@ import {
   Download,
   AlertCircle,
   Youtube,
-  TrendingUp
+  TrendingUp,
+  Upload
 } from 'lucide-react'
 import { Modal, Button, Badge } from '@/components/ui'
 import { useYTDJStore } from '@/store'
 import { cn } from '@/lib/utils'
+import { ImportSetModal } from './ImportSetModal'
 
 interface SavedSet {
   id: string
@@ -40,6 +42,7 @@ export function BrowseSetsModal({ isOpen, onClose }: BrowseSetsModalProps) {
   const [error, setError] = useState('')
   const [loadingSetId, setLoadingSetId] = useState<string | null>(null)
   const [deletingSetId, setDeletingSetId] = useState<string | null>(null)
+  const [showImport, setShowImport] = useState(false)
 
   useEffect(() => {
     if (isOpen) {
@@ -121,18 +124,28 @@ export function BrowseSetsModal({ isOpen, onClose }: BrowseSetsModalProps) {
           <p className="text-sm text-white/60">
             {savedSets.length} saved {savedSets.length === 1 ? 'set' : 'sets'}
           </p>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={loadSavedSets}
-            disabled={loading}
-          >
-            {loading ? (
-              <Loader2 className="w-4 h-4 animate-spin" />
-            ) : (
-              'Refresh'
-            )}
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowImport(true)}
+            >
+              <Upload className="w-4 h-4 mr-1" />
+              Import
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={loadSavedSets}
+              disabled={loading}
+            >
+              {loading ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                'Refresh'
+              )}
+            </Button>
+          </div>
         </div>
 
         {/* Error Message */}
@@ -259,6 +272,14 @@ export function BrowseSetsModal({ isOpen, onClose }: BrowseSetsModalProps) {
           </Button>
         </div>
       </div>
+
+      <ImportSetModal
+        isOpen={showImport}
+        onClose={() => {
+          setShowImport(false)
+          onClose()
+        }}
+      />
     </Modal>
   )
 }
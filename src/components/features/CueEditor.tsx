@@ -0,0 +1,312 @@
+'use client'
+
+import { useState, useCallback, useRef } from 'react'
+import { Flag, Repeat, LogIn, LogOut, Hand, Trash2, Magnet } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useYTDJStore } from '@/store'
+import {
+  createCue,
+  upsertCue,
+  getNextHotCueLabel,
+  getHotCueColor,
+  getCue,
+  calculateTapBpm,
+  createBeatGrid,
+  snapToBeat,
+  CUE_TYPE_LABELS,
+} from '@/lib/cues'
+import { formatTime } from './YouTubePlayer'
+import type { Cue, CueType } from '@/types'
+
+interface CueEditorProps {
+  nodeIndex: number
+  className?: string
+}
+
+const CUE_TYPE_COLORS: Record<Exclude<CueType, 'hot'>, string> = {
+  loop: '#f59e0b',
+  'mix-in': '#22c55e',
+  'mix-out': '#ef4444',
+}
+
+function getCueColor(cue: Cue): string {
+  return cue.type === 'hot' ? getHotCueColor(cue.label) : CUE_TYPE_COLORS[cue.type]
+}
+
+/**
+ * Cue editor for a playlist node: scrub the player, drop hot cues / loop /
+ * mix markers at the playhead, and tap BPM to build a rough beat grid
+ */
+export function CueEditor({ nodeIndex, className }: CueEditorProps) {
+  const {
+    currentSet,
+    player,
+    playTrack,
+    seekTo,
+    setNodeCues,
+    setNodeBeatGrid,
+  } = useYTDJStore()
+
+  const [snapEnabled, setSnapEnabled] = useState(true)
+  const [loopStart, setLoopStart] = useState<number | null>(null)
+  const [tapCount, setTapCount] = useState(0)
+  const tapsRef = useRef<number[]>([])
+
+  const node = currentSet?.playlist[nodeIndex]
+  const isActive = player.playingNodeIndex === nodeIndex
+  const duration = (isActive && player.duration) || node?.track.duration || 0
+  const playhead = isActive ? player.currentTime : 0
+  const cues = node?.cues || []
+  const beatGrid = node?.beatGrid
+
+  const getMarkTime = useCallback(
+    () => (snapEnabled ? snapToBeat(playhead, beatGrid) : playhead),
+    [snapEnabled, playhead, beatGrid]
+  )
+
+  // Jump the player to a time in this track (starting it if another track is playing)
+  const jumpTo = useCallback(
+    (time: number) => {
+      if (isActive) {
+        seekTo(time)
+      } else {
+        playTrack(nodeIndex, time)
+      }
+    },
+    [isActive, seekTo, playTrack, nodeIndex]
+  )
+
+  const handleScrub = useCallback(
+    (e: React.MouseEvent<HTMLDivElement>) => {
+      if (!duration) return
+      const rect = e.currentTarget.getBoundingClientRect()
+      const fraction = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width))
+      jumpTo(fraction * duration)
+    },
+    [duration, jumpTo]
+  )
+
+  const addHotCue = () => {
+    const label = getNextHotCueLabel(cues)
+    if (!label) return
+    setNodeCues(nodeIndex, upsertCue(cues, createCue('hot', getMarkTime(), { label })))
+  }
+
+  const setMarker = (type: 'mix-in' | 'mix-out') => {
+    setNodeCues(nodeIndex, upsertCue(cues, createCue(type, getMarkTime())))
+  }
+
+  // First press marks loop in, second press closes the loop
+  const handleLoop = () => {
+    const time = getMarkTime()
+    if (loopStart === null) {
+      setLoopStart(time)
+      return
+    }
+    const [start, end] = loopStart < time ? [loopStart, time] : [time, loopStart]
+    setLoopStart(null)
+    if (end - start < 0.1) return
+    setNodeCues(nodeIndex, upsertCue(cues, createCue('loop', start, { endTime: end })))
+  }
+
+  const removeCue = (id: string) => {
+    setNodeCues(nodeIndex, cues.filter((c) => c.id !== id))
+  }
+
+  const handleTap = () => {
+    const now = Date.now()
+    tapsRef.current = [...tapsRef.current, now].slice(-16)
+    setTapCount(tapsRef.current.length)
+
+    const bpm = calculateTapBpm(tapsRef.current)
+    // Only taps against this track's playback can anchor the grid
+    if (bpm && isActive) {
+      setNodeBeatGrid(nodeIndex, createBeatGrid(bpm, player.currentTime))
+    }
+  }
+
+  if (!node) return null
+
+  const mixIn = getCue(node, 'mix-in')
+  const mixOut = getCue(node, 'mix-out')
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      {/* Scrub timeline */}
+      <div
+        onClick={handleScrub}
+        className="relative h-8 rounded-lg bg-black/40 border border-white/10 cursor-pointer overflow-hidden"
+        title={isActive ? 'Click to seek' : 'Click to play from here'}
+      >
+        {duration > 0 && (
+          <>
+            {/* Intro / outro shading from mix markers */}
+            {mixIn && (
+              <div
+                className="absolute inset-y-0 left-0 bg-white/5"
+                style={{ width: `${(mixIn.time / duration) * 100}%` }}
+              />
+            )}
+            {mixOut && (
+              <div
+                className="absolute inset-y-0 right-0 bg-white/5"
+                style={{ width: `${Math.max(0, (1 - mixOut.time / duration)) * 100}%` }}
+              />
+            )}
+
+            {cues.map((cue) => (
+              cue.type === 'loop' && cue.endTime !== undefined ? (
+                <div
+                  key={cue.id}
+                  className="absolute inset-y-1 rounded-sm opacity-40"
+                  style={{
+                    left: `${(cue.time / duration) * 100}%`,
+                    width: `${((cue.endTime - cue.time) / duration) * 100}%`,
+                    backgroundColor: getCueColor(cue),
+                  }}
+                />
+              ) : (
+                <div
+                  key={cue.id}
+                  className="absolute inset-y-0 w-0.5"
+                  style={{ left: `${(cue.time / duration) * 100}%`, backgroundColor: getCueColor(cue) }}
+                  title={`${cue.label || CUE_TYPE_LABELS[cue.type]} · ${formatTime(cue.time)}`}
+                />
+              )
+            ))}
+
+            {loopStart !== null && (
+              <div
+                className="absolute inset-y-0 w-0.5 bg-amber-400 animate-pulse"
+                style={{ left: `${(loopStart / duration) * 100}%` }}
+              />
+            )}
+
+            {isActive && (
+              <div
+                className="absolute inset-y-0 w-px bg-white"
+                style={{ left: `${Math.min(100, (playhead / duration) * 100)}%` }}
+              />
+            )}
+          </>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between text-[10px] font-mono text-gray-500">
+        <span>{isActive ? formatTime(playhead) : 'Not playing'}</span>
+        <span>{formatTime(duration)}</span>
+      </div>
+
+      {/* Cue actions */}
+      <div className="grid grid-cols-4 gap-1.5">
+        <button
+          onClick={addHotCue}
+          disabled={!isActive || !getNextHotCueLabel(cues)}
+          className="flex flex-col items-center gap-1 py-2 rounded-lg bg-white/5 text-[9px] font-bold uppercase tracking-wider text-gray-300 hover:bg-white/10 transition-all disabled:opacity-30"
+          title="Add hot cue at playhead"
+        >
+          <Flag className="w-3 h-3" />
+          Hot Cue
+        </button>
+        <button
+          onClick={handleLoop}
+          disabled={!isActive}
+          className={cn(
+            'flex flex-col items-center gap-1 py-2 rounded-lg text-[9px] font-bold uppercase tracking-wider transition-all disabled:opacity-30',
+            loopStart !== null
+              ? 'bg-amber-500/20 text-amber-400'
+              : 'bg-white/5 text-gray-300 hover:bg-white/10'
+          )}
+          title={loopStart !== null ? 'Set loop out' : 'Set loop in'}
+        >
+          <Repeat className="w-3 h-3" />
+          {loopStart !== null ? 'Loop Out' : 'Loop In'}
+        </button>
+        <button
+          onClick={() => setMarker('mix-in')}
+          disabled={!isActive}
+          className="flex flex-col items-center gap-1 py-2 rounded-lg bg-white/5 text-[9px] font-bold uppercase tracking-wider text-green-400 hover:bg-green-500/10 transition-all disabled:opacity-30"
+          title="Set mix-in point at playhead"
+        >
+          <LogIn className="w-3 h-3" />
+          Mix In
+        </button>
+        <button
+          onClick={() => setMarker('mix-out')}
+          disabled={!isActive}
+          className="flex flex-col items-center gap-1 py-2 rounded-lg bg-white/5 text-[9px] font-bold uppercase tracking-wider text-red-400 hover:bg-red-500/10 transition-all disabled:opacity-30"
+          title="Set mix-out point at playhead"
+        >
+          <LogOut className="w-3 h-3" />
+          Mix Out
+        </button>
+      </div>
+
+      {/* Tap tempo / beat grid */}
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleTap}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-cyan-500/10 text-cyan-400 text-[10px] font-bold uppercase tracking-wider hover:bg-cyan-500/20 active:scale-95 transition-all border border-cyan-500/20"
+          title="Tap on the beat while the track plays"
+        >
+          <Hand className="w-3 h-3" />
+          Tap BPM
+        </button>
+        <div className="flex-1 text-[10px] font-mono text-gray-400">
+          {beatGrid
+            ? `${beatGrid.bpm} BPM · beat @ ${beatGrid.firstBeat.toFixed(2)}s`
+            : tapCount > 0
+            ? `${tapCount} taps…`
+            : 'No beat grid'}
+        </div>
+        <button
+          onClick={() => setSnapEnabled(!snapEnabled)}
+          disabled={!beatGrid}
+          className={cn(
+            'p-1.5 rounded-lg transition-all disabled:opacity-30',
+            snapEnabled && beatGrid ? 'bg-cyan-500/20 text-cyan-400' : 'bg-white/5 text-gray-500'
+          )}
+          title="Snap cues to the beat grid"
+        >
+          <Magnet className="w-3 h-3" />
+        </button>
+      </div>
+
+      {/* Cue list */}
+      {cues.length > 0 && (
+        <div className="space-y-1">
+          {cues.map((cue) => (
+            <div
+              key={cue.id}
+              className="group flex items-center gap-2 px-2 py-1 rounded-md hover:bg-white/5"
+            >
+              <span
+                className="w-4 h-4 rounded-sm flex items-center justify-center text-[9px] font-black text-black"
+                style={{ backgroundColor: getCueColor(cue) }}
+              >
+                {cue.type === 'hot' ? cue.label : ''}
+              </span>
+              <button
+                onClick={() => jumpTo(cue.time)}
+                className="flex-1 text-left text-[10px] text-gray-300 hover:text-white"
+              >
+                {CUE_TYPE_LABELS[cue.type]}
+                <span className="ml-2 font-mono text-gray-500">
+                  {formatTime(cue.time)}
+                  {cue.endTime !== undefined && ` – ${formatTime(cue.endTime)}`}
+                </span>
+              </button>
+              <button
+                onClick={() => removeCue(cue.id)}
+                className="opacity-0 group-hover:opacity-100 p-0.5 text-gray-500 hover:text-red-400 transition-all"
+                title="Delete cue"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -24,9 +24,13 @@ interface DJExportModalProps {
 // Icon mapping for formats
 const FORMAT_ICONS: Record<ExportFormat, React.ElementType> = {
   rekordbox: Disc3,
+  'rekordbox-xml': Disc3,
   serato: Disc3,
   generic: FileSpreadsheet,
   m3u: Music,
+  traktor: Disc3,
+  virtualdj: Music,
+  'virtualdj-db': FileText,
 }
 
 export function DJExportModal({ isOpen, onClose }: DJExportModalProps) {
@@ -3,6 +3,17 @@
 import { useEffect, useRef, useCallback, useState } from 'react'
 import YouTube, { YouTubeProps, YouTubePlayer as YTPlayer, YouTubeEvent } from 'react-youtube'
 import { useYTDJStore } from '@/store'
+import { planCrossfade, getSecondsUntilNextBar } from '@/lib/beatmatch'
+import {
+  TRANSITION_STYLES,
+  resolveTransitionStyle,
+  planStyledTransition,
+  getStyleVolumes,
+} from '@/lib/transition-styles'
+import { getCueMixOutPoint, getNodeMixInTime } from '@/lib/cues'
+import { getRehearsalIncomingSeconds, getRehearsalSeekTime } from '@/lib/rehearsal'
+import { UNPLAYABLE_VIDEO_ERRORS } from '@/lib/utils'
+import { applyGain } from '@/lib/gain'
 
 /**
  * Dual YouTube Player for AutoMix crossfade support
@@ -11,6 +22,11 @@ import { useYTDJStore } from '@/store'
  * - Two hidden YouTube players (A and B)
  * - While A plays, B preloads the next track
  * - Crossfade achieved via volume ducking (A fades out while B fades in)
+ * - When both BPMs are known, fades last a whole number of bars, start on a
+ *   bar line and nudge the incoming deck's playback rate toward the outgoing tempo
+ * - The per-node transition style (crossfade, echo out, cut, ...) shapes the
+ *   volume envelopes via lib/transition-styles
+ * - Each deck's volume is the master volume with its node's gain trim applied
  * - Players swap roles after each transition
  *
  * Flow:
@@ -25,12 +41,24 @@ import { useYTDJStore } from '@/store'
  *    - Set activePlayer = 'B'
  *    - Preload next-next track on Player A
  * 5. Repeat with swapped roles
+ *
+ * Rehearsal mode reuses the same crossfade but skips the body of each track:
+ * seek to just before the mix-out point, crossfade, play the next track up to
+ * the same lead time past its cue, then pause for a verdict.
+ *
+ * A video the embed refuses (removed, embedding disabled) is swapped for
+ * another upload of the track on the same deck; a track with no playable
+ * upload is skipped.
  */
 export function DualYouTubePlayer() {
   const playerARef = useRef<YTPlayer | null>(null)
   const playerBRef = useRef<YTPlayer | null>(null)
   const crossfadeIntervalRef = useRef<NodeJS.Timeout | null>(null)
+  const crossfadeStartTimeoutRef = useRef<NodeJS.Timeout | null>(null)
   const progressIntervalRef = useRef<NodeJS.Timeout | null>(null)
+  const rehearsalTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const rehearsalCuedRef = useRef<number | null>(null) // Transition already seeked to its mix-out
+  const fallbackCuedRef = useRef<'A' | 'B' | null>(null) // Live deck waiting on a swapped-in video
 
   // Track ready state for each player
   const [playerAReady, setPlayerAReady] = useState(false)
@@ -44,10 +72,17 @@ export function DualYouTubePlayer() {
     setPlayerState,
     currentSet,
     skipNext,
+    markPlayLog,
+    pauseTrack,
+    rehearsal,
+    setRehearsalPhase,
+    replaceUnplayableVideo,
+    confirmVideoFallback,
   } = useYTDJStore()
 
   const playlist = currentSet?.playlist || []
   const currentIndex = player.playingNodeIndex
+  const playingVolume = applyGain(player.volume, currentIndex !== null ? playlist[currentIndex]?.gainDb : undefined)
 
   // Get the active player ref
   const getActivePlayerRef = useCallback(() => {
@@ -61,10 +96,16 @@ export function DualYouTubePlayer() {
 
   // Calculate when to start crossfade
   const getMixOutPoint = useCallback(
-    (trackIndex: number): number => {
+    (trackIndex: number, knownDuration?: number): number => {
       const node = playlist[trackIndex]
       if (!node) return 30
 
+      // An explicit mix-out cue wins over the transition's stored point
+      const cueMixOut = getCueMixOutPoint(node, knownDuration || player.duration || node.track.duration)
+      if (cueMixOut !== null) {
+        return cueMixOut
+      }
+
       const transition = node.transitionToNext
       if (transition?.mixOutPoint) {
         return transition.mixOutPoint
@@ -74,7 +115,7 @@ export function DualYouTubePlayer() {
       const duration = node.track.duration
       return Math.min(30, duration * 0.15) // 15% of track or 30s, whichever is smaller
     },
-    [playlist]
+    [playlist, player.duration]
   )
 
   // Calculate crossfade duration for a transition
@@ -132,82 +173,150 @@ export function DualYouTubePlayer() {
     const nextNode = playlist[nextIndex]
     if (!nextNode?.track.youtubeId) return
 
-    console.log('[DualPlayer] Starting crossfade to:', nextNode.track.title)
-
     setDualPlayerState({ isCrossfading: true, crossfadeProgress: 0 })
 
-    const duration = getCrossfadeDuration(currentIndex) * 1000 // Convert to ms
-    const steps = 50 // Number of volume steps
-    const stepDuration = duration / steps
-    let currentStep = 0
-
     // Get player refs
     const outgoingPlayer = getActivePlayerRef()
     const incomingPlayer = getInactivePlayerRef()
 
-    // Start the incoming player (it's been preloaded)
-    const mixInPoint = nextNode.startTime || 0
-    if (incomingPlayer.current && playerBReady) {
-      try {
-        incomingPlayer.current.seekTo(mixInPoint, true)
-        incomingPlayer.current.setVolume(0)
-        incomingPlayer.current.playVideo()
-      } catch (e) {
-        console.error('[DualPlayer] Error starting incoming player:', e)
-      }
+    let availableRates: number[] | undefined
+    try {
+      availableRates = incomingPlayer.current?.getAvailablePlaybackRates()
+    } catch (e) {
+      // Player might not be ready - fall back to the standard rates
     }
 
-    crossfadeIntervalRef.current = setInterval(() => {
-      currentStep++
-      const progress = currentStep / steps
-
-      // Calculate volumes using an easing function for smoother crossfade
-      // Using sine curve for natural-sounding crossfade
-      const outgoingVolume = Math.round(Math.cos((progress * Math.PI) / 2) * player.volume)
-      const incomingVolume = Math.round(Math.sin((progress * Math.PI) / 2) * player.volume)
-
-      // Update player volumes
-      try {
-        if (outgoingPlayer.current) {
-          outgoingPlayer.current.setVolume(outgoingVolume)
-        }
-        if (incomingPlayer.current) {
-          incomingPlayer.current.setVolume(incomingVolume)
+    const outgoingNode = playlist[currentIndex]
+    const transition = outgoingNode.transitionToNext
+    const crossfadePlan = planCrossfade({
+      outgoingBpm: outgoingNode.track.bpm,
+      incomingBpm: nextNode.track.bpm,
+      beats: transition?.duration,
+      fallbackSeconds: getCrossfadeDuration(currentIndex),
+      availableRates,
+    })
+    const style = resolveTransitionStyle(transition, autoMix.mode)
+    const gapSeconds = transition?.gapSeconds
+    const plan = planStyledTransition(style, crossfadePlan, {
+      bpm: outgoingNode.track.bpm,
+      gapSeconds,
+    })
+    const getOutgoingRate = TRANSITION_STYLES[style].getOutgoingRate
+
+    console.log(
+      '[DualPlayer] Starting transition to:',
+      nextNode.track.title,
+      `(${TRANSITION_STYLES[style].label}, ${plan.durationSeconds.toFixed(1)}s` +
+        (crossfadePlan.mode === 'beatmatched' ? `, rate ${plan.incomingPlaybackRate})` : ')')
+    )
+
+    const runCrossfade = () => {
+      crossfadeStartTimeoutRef.current = null
+      markPlayLog('crossfade')
+      let currentStep = 0
+      let incomingStarted = false
+      let outgoingRate = 1
+
+      // Start the incoming player (it's been preloaded)
+      const startIncoming = () => {
+        incomingStarted = true
+        const mixInPoint = getNodeMixInTime(nextNode)
+        if (incomingPlayer.current && playerBReady) {
+          try {
+            incomingPlayer.current.seekTo(mixInPoint, true)
+            incomingPlayer.current.setVolume(0)
+            incomingPlayer.current.setPlaybackRate(plan.incomingPlaybackRate)
+            incomingPlayer.current.playVideo()
+          } catch (e) {
+            console.error('[DualPlayer] Error starting incoming player:', e)
+          }
         }
-      } catch (e) {
-        // Player might not be ready
       }
 
-      // Update state
-      const outgoingVolumeKey =
-        dualPlayer.activePlayer === 'A' ? 'playerAVolume' : 'playerBVolume'
-      const incomingVolumeKey =
-        dualPlayer.activePlayer === 'A' ? 'playerBVolume' : 'playerAVolume'
+      if (plan.incomingStart <= 0) startIncoming()
+
+      crossfadeIntervalRef.current = setInterval(() => {
+        currentStep++
+        const progress = currentStep / plan.steps
+
+        if (!incomingStarted && progress >= plan.incomingStart) startIncoming()
+
+        const volumes = getStyleVolumes(
+          style,
+          progress,
+          applyGain(player.volume, outgoingNode.gainDb),
+          gapSeconds,
+          applyGain(player.volume, nextNode.gainDb)
+        )
+
+        // Update player volumes
+        try {
+          if (outgoingPlayer.current) {
+            outgoingPlayer.current.setVolume(volumes.outgoing)
+            const rate = getOutgoingRate?.(progress) ?? 1
+            if (rate !== outgoingRate) {
+              outgoingRate = rate
+              outgoingPlayer.current.setPlaybackRate(rate)
+            }
+          }
+          if (incomingPlayer.current) {
+            incomingPlayer.current.setVolume(volumes.incoming)
+          }
+        } catch (e) {
+          // Player might not be ready
+        }
 
-      setDualPlayerState({
-        [outgoingVolumeKey]: outgoingVolume,
-        [incomingVolumeKey]: incomingVolume,
-        crossfadeProgress: progress,
-      })
+        // Update state
+        const outgoingVolumeKey =
+          dualPlayer.activePlayer === 'A' ? 'playerAVolume' : 'playerBVolume'
+        const incomingVolumeKey =
+          dualPlayer.activePlayer === 'A' ? 'playerBVolume' : 'playerAVolume'
+
+        setDualPlayerState({
+          [outgoingVolumeKey]: volumes.outgoing,
+          [incomingVolumeKey]: volumes.incoming,
+          crossfadeProgress: progress,
+        })
+
+        // Complete crossfade
+        if (currentStep >= plan.steps) {
+          clearInterval(crossfadeIntervalRef.current!)
+          crossfadeIntervalRef.current = null
+          completeCrossfade()
+        }
+      }, plan.stepMs)
+    }
 
-      // Complete crossfade
-      if (currentStep >= steps) {
-        clearInterval(crossfadeIntervalRef.current!)
-        crossfadeIntervalRef.current = null
-        completeCrossfade()
+    // Start on the outgoing track's next bar line when the style calls for it
+    // A tapped beat grid gives the bar phase; otherwise assume the grid starts at 0
+    const grid = outgoingNode.beatGrid
+    const gridBpm = grid?.bpm || outgoingNode.track.bpm
+    if (plan.alignToBar && gridBpm) {
+      let currentTime = player.currentTime
+      try {
+        currentTime = outgoingPlayer.current?.getCurrentTime() ?? currentTime
+      } catch (e) {
+        // Use the last tracked position
       }
-    }, stepDuration)
+      const delay = getSecondsUntilNextBar(currentTime, gridBpm, grid?.firstBeat ?? 0)
+      crossfadeStartTimeoutRef.current = setTimeout(runCrossfade, delay * 1000)
+    } else {
+      runCrossfade()
+    }
   }, [
     dualPlayer.isCrossfading,
     dualPlayer.activePlayer,
+    autoMix.mode,
     currentIndex,
     playlist,
     player.volume,
+    player.currentTime,
     getCrossfadeDuration,
     getActivePlayerRef,
     getInactivePlayerRef,
     playerBReady,
     setDualPlayerState,
+    markPlayLog,
   ])
 
   // Complete the crossfade transition
@@ -219,14 +328,29 @@ export function DualYouTubePlayer() {
     try {
       if (outgoingPlayer.current) {
         outgoingPlayer.current.pauseVideo()
+        outgoingPlayer.current.setPlaybackRate(1)
         outgoingPlayer.current.seekTo(0, true)
       }
     } catch (e) {
       // Player might not be ready
     }
 
+    // Release the tempo nudge now that the incoming track plays alone
+    const incomingPlayer = getInactivePlayerRef()
+    try {
+      if (incomingPlayer.current) {
+        incomingPlayer.current.setPlaybackRate(1)
+      }
+    } catch (e) {
+      // Player might not be ready
+    }
+
     // Swap active player
     const newActivePlayer = dualPlayer.activePlayer === 'A' ? 'B' : 'A'
+    const incomingVolume = applyGain(
+      player.volume,
+      currentIndex !== null ? playlist[currentIndex + 1]?.gainDb : undefined
+    )
 
     // Update state
     setDualPlayerState({
@@ -234,8 +358,8 @@ export function DualYouTubePlayer() {
       isCrossfading: false,
       crossfadeProgress: 0,
       nextTrackPreloaded: false,
-      playerAVolume: newActivePlayer === 'A' ? player.volume : 0,
-      playerBVolume: newActivePlayer === 'B' ? player.volume : 0,
+      playerAVolume: newActivePlayer === 'A' ? incomingVolume : 0,
+      playerBVolume: newActivePlayer === 'B' ? incomingVolume : 0,
       transitionScheduledAt: null,
     })
 
@@ -249,7 +373,10 @@ export function DualYouTubePlayer() {
   }, [
     dualPlayer.activePlayer,
     player.volume,
+    currentIndex,
+    playlist,
     getActivePlayerRef,
+    getInactivePlayerRef,
     setDualPlayerState,
     skipNext,
     preloadNextTrack,
@@ -300,6 +427,110 @@ export function DualYouTubePlayer() {
     }
   }, [autoMix.enabled, player.isPlaying, checkForTransitionPoint])
 
+  // Rehearsal timers call the latest crossfade, not the one from when they were set
+  const startCrossfadeRef = useRef(startCrossfade)
+  startCrossfadeRef.current = startCrossfade
+
+  const rehearsalPhase = rehearsal?.phase
+  const rehearsalIndex = rehearsal?.transitionIndex
+  const rehearsalLead = rehearsal?.leadSeconds
+
+  // Rehearsal timers belong to one phase of one transition
+  useEffect(() => {
+    if (rehearsalPhase === undefined) rehearsalCuedRef.current = null
+    return () => {
+      if (rehearsalTimeoutRef.current) {
+        clearTimeout(rehearsalTimeoutRef.current)
+        rehearsalTimeoutRef.current = null
+      }
+    }
+  }, [rehearsalPhase, rehearsalIndex])
+
+  // Rehearsal: seek to just before the mix-out point, crossfade once it's reached
+  useEffect(() => {
+    if (!rehearsal || rehearsal.phase !== 'outgoing') return
+    if (currentIndex !== rehearsal.transitionIndex || !player.isPlaying || dualPlayer.isCrossfading) return
+    if (rehearsalCuedRef.current === rehearsal.transitionIndex) return
+
+    const activePlayer = getActivePlayerRef().current
+    let duration = 0
+    let currentTime = 0
+    try {
+      duration = activePlayer?.getDuration() || 0
+      currentTime = activePlayer?.getCurrentTime() || 0
+    } catch (e) {
+      // Player might not be ready
+    }
+    if (!activePlayer || duration <= 0) return // Not loaded yet; retried when it starts playing
+
+    rehearsalCuedRef.current = rehearsal.transitionIndex
+    const mixOutTime = duration - getMixOutPoint(currentIndex, duration)
+    const seekTime = getRehearsalSeekTime(duration, getMixOutPoint(currentIndex, duration), rehearsal.leadSeconds)
+    if (seekTime > currentTime) {
+      try {
+        activePlayer.seekTo(seekTime, true)
+        currentTime = seekTime
+      } catch (e) {
+        // Player might not be ready
+      }
+    }
+
+    console.log('[DualPlayer] Rehearsing transition', rehearsal.transitionIndex + 1, 'from', seekTime.toFixed(1), 's')
+
+    rehearsalTimeoutRef.current = setTimeout(() => {
+      rehearsalTimeoutRef.current = null
+      setRehearsalPhase('crossfade')
+      startCrossfadeRef.current()
+      if (!useYTDJStore.getState().dualPlayer.isCrossfading) {
+        // Nothing to crossfade into (e.g. the next track isn't playable)
+        pauseTrack()
+        setRehearsalPhase('rating')
+      }
+    }, Math.max(0, mixOutTime - currentTime) * 1000)
+  }, [
+    rehearsal,
+    currentIndex,
+    player.isPlaying,
+    player.duration,
+    dualPlayer.isCrossfading,
+    getActivePlayerRef,
+    getMixOutPoint,
+    pauseTrack,
+    setRehearsalPhase,
+  ])
+
+  // Rehearsal: follow the crossfade into the next track
+  useEffect(() => {
+    if (rehearsalPhase === 'outgoing' && dualPlayer.isCrossfading) {
+      setRehearsalPhase('crossfade')
+    } else if (rehearsalPhase === 'crossfade' && !dualPlayer.isCrossfading && rehearsalIndex !== undefined && currentIndex === rehearsalIndex + 1) {
+      setRehearsalPhase('incoming')
+    }
+  }, [rehearsalPhase, rehearsalIndex, dualPlayer.isCrossfading, currentIndex, setRehearsalPhase])
+
+  // Rehearsal: play the incoming track up to the lead time past its cue, then
+  // wait for a verdict
+  useEffect(() => {
+    if (rehearsalPhase !== 'incoming' || rehearsalLead === undefined || currentIndex === null) return
+    const node = playlist[currentIndex]
+    let currentTime = 0
+    let playbackRate = 1
+    try {
+      const activePlayer = getActivePlayerRef().current
+      currentTime = activePlayer?.getCurrentTime() || 0
+      playbackRate = activePlayer?.getPlaybackRate() || 1
+    } catch (e) {
+      // Player might not be ready
+    }
+    const remaining = node ? getRehearsalIncomingSeconds(getNodeMixInTime(node), currentTime, rehearsalLead) : rehearsalLead
+
+    const timeout = setTimeout(() => {
+      pauseTrack()
+      setRehearsalPhase('rating')
+    }, (remaining / playbackRate) * 1000)
+    return () => clearTimeout(timeout)
+  }, [rehearsalPhase, rehearsalIndex, rehearsalLead, currentIndex, playlist, getActivePlayerRef, pauseTrack, setRehearsalPhase])
+
   // Preload next track when playback starts or index changes
   useEffect(() => {
     if (player.isPlaying && !dualPlayer.nextTrackPreloaded && !dualPlayer.isCrossfading) {
@@ -315,19 +546,19 @@ export function DualYouTubePlayer() {
     preloadNextTrack,
   ])
 
-  // Sync volume changes to active player
+  // Sync volume and gain trim changes to active player
   useEffect(() => {
     if (dualPlayer.isCrossfading) return // Don't interfere during crossfade
 
     const activePlayer = getActivePlayerRef()
     try {
       if (activePlayer.current) {
-        activePlayer.current.setVolume(player.volume)
+        activePlayer.current.setVolume(playingVolume)
       }
     } catch (e) {
       // Player might not be ready
     }
-  }, [player.volume, dualPlayer.isCrossfading, getActivePlayerRef])
+  }, [playingVolume, dualPlayer.isCrossfading, getActivePlayerRef])
 
   // Handle player ready events
   const onPlayerAReady: YouTubeProps['onReady'] = (event) => {
@@ -337,7 +568,7 @@ export function DualYouTubePlayer() {
 
     // If this is the active player and we should be playing
     if (dualPlayer.activePlayer === 'A' && player.isPlaying) {
-      event.target.setVolume(player.volume)
+      event.target.setVolume(playingVolume)
       event.target.playVideo()
     } else {
       event.target.setVolume(0)
@@ -351,7 +582,7 @@ export function DualYouTubePlayer() {
 
     // If this is the active player and we should be playing
     if (dualPlayer.activePlayer === 'B' && player.isPlaying) {
-      event.target.setVolume(player.volume)
+      event.target.setVolume(playingVolume)
       event.target.playVideo()
     } else {
       event.target.setVolume(0)
@@ -360,16 +591,32 @@ export function DualYouTubePlayer() {
 
   // Handle state changes for active player
   const handleStateChange = (event: { data: number }, playerLabel: 'A' | 'B') => {
+    const state = event.data
+    const playerRef = playerLabel === 'A' ? playerARef : playerBRef
+
+    // Cued or playing means the embed accepted a swapped-in video
+    if (state === 1 || state === 5) {
+      const videoId = playerLabel === 'A' ? dualPlayer.playerAVideoId : dualPlayer.playerBVideoId
+      if (videoId) confirmVideoFallback(videoId)
+    }
+
+    // A new video ID only cues it - start it if it replaced the live track
+    if (state === 5 && fallbackCuedRef.current === playerLabel) {
+      fallbackCuedRef.current = null
+      try {
+        if (player.isPlaying) playerRef.current?.playVideo()
+      } catch (e) {
+        // Player might not be ready
+      }
+    }
+
     // Only handle state changes for the active player
     if (dualPlayer.activePlayer !== playerLabel) return
     if (dualPlayer.isCrossfading) return
 
-    const state = event.data
-
     // YouTube states: -1 (unstarted), 0 (ended), 1 (playing), 2 (paused), 3 (buffering), 5 (cued)
     if (state === 1) {
       // Playing
-      const playerRef = playerLabel === 'A' ? playerARef : playerBRef
       const duration = playerRef.current?.getDuration() || 0
       setPlayerState({ duration, isPlaying: true })
       startProgressTracking(playerRef)
@@ -382,11 +629,45 @@ export function DualYouTubePlayer() {
       // But handle it as fallback
       stopProgressTracking()
       if (!dualPlayer.isCrossfading) {
+        markPlayLog('finished')
         skipNext()
       }
     }
   }
 
+  // Unplayable video: swap in another upload of the track on the same deck
+  const handlePlayerError = async (event: YouTubeEvent, playerLabel: 'A' | 'B') => {
+    console.error(`[DualPlayer ${playerLabel}] Error:`, event.data)
+    if (!UNPLAYABLE_VIDEO_ERRORS.includes(event.data)) return
+
+    const videoIdKey = playerLabel === 'A' ? 'playerAVideoId' : 'playerBVideoId'
+    const failedVideoId = dualPlayer[videoIdKey]
+    if (!failedVideoId) return
+
+    // The deck holds either the playing track or the preloaded next one
+    const nodeIndex = playlist.findIndex(
+      (node, index) => index >= (currentIndex ?? 0) && node.track.youtubeId === failedVideoId
+    )
+    if (nodeIndex < 0) return
+
+    const replacement = await replaceUnplayableVideo(nodeIndex, failedVideoId)
+
+    // Decks may have swapped roles while searching
+    const { dualPlayer: deck } = useYTDJStore.getState()
+    if (deck[videoIdKey] !== failedVideoId) return
+    const isLive = deck.activePlayer === playerLabel
+
+    if (replacement) {
+      if (isLive) fallbackCuedRef.current = playerLabel
+      setDualPlayerState({ [videoIdKey]: replacement })
+    } else if (isLive) {
+      skipNext()
+    } else {
+      // Nothing to preload; the track is skipped when playback reaches it
+      setDualPlayerState({ [videoIdKey]: null })
+    }
+  }
+
   // Progress tracking for current time
   const startProgressTracking = useCallback(
     (playerRef: React.MutableRefObject<YTPlayer | null>) => {
@@ -419,12 +700,29 @@ export function DualYouTubePlayer() {
       if (crossfadeIntervalRef.current) {
         clearInterval(crossfadeIntervalRef.current)
       }
+      if (crossfadeStartTimeoutRef.current) {
+        clearTimeout(crossfadeStartTimeoutRef.current)
+      }
       if (progressIntervalRef.current) {
         clearInterval(progressIntervalRef.current)
       }
     }
   }, [])
 
+  // Handle seek requests (cue editor scrubbing) on the active player
+  useEffect(() => {
+    if (player.seekRequest === null) return
+    if (!dualPlayer.isCrossfading) {
+      const activePlayer = getActivePlayerRef()
+      try {
+        activePlayer.current?.seekTo(player.seekRequest, true)
+      } catch (e) {
+        // Player might not be ready
+      }
+    }
+    setPlayerState({ seekRequest: null })
+  }, [player.seekRequest, dualPlayer.isCrossfading, getActivePlayerRef, setPlayerState])
+
   // Control playback based on state
   useEffect(() => {
     if (dualPlayer.isCrossfading) return // Don't interfere during crossfade
@@ -504,9 +802,7 @@ export function DualYouTubePlayer() {
           opts={opts}
           onReady={onPlayerAReady}
           onStateChange={(e: YouTubeEvent) => handleStateChange(e, 'A')}
-          onError={(e: YouTubeEvent) => {
-            console.error('[DualPlayer A] Error:', e.data)
-          }}
+          onError={(e: YouTubeEvent) => handlePlayerError(e, 'A')}
         />
       )}
 
@@ -517,9 +813,7 @@ export function DualYouTubePlayer() {
           opts={opts}
           onReady={onPlayerBReady}
           onStateChange={(e: YouTubeEvent) => handleStateChange(e, 'B')}
-          onError={(e: YouTubeEvent) => {
-            console.error('[DualPlayer B] Error:', e.data)
-          }}
+          onError={(e: YouTubeEvent) => handlePlayerError(e, 'B')}
         />
       )}
     </div>
@@ -2,7 +2,7 @@
 
 import { motion } from 'framer-motion'
 import { cn } from '@/lib/utils'
-import type { AIProvider } from '@/types'
+import type { AIProvider, Track } from '@/types'
 
 /**
  * AI Provider Badge - shows which AI generated a track
@@ -64,6 +64,18 @@ export function AIProviderBadge({ provider, size = 'sm', className, showLabel =
           <path d="M14 28C14 26.0633 13.6267 24.2433 12.88 22.54C12.1567 20.8367 11.165 19.355 9.905 18.095C8.645 16.835 7.16333 15.8433 5.46 15.12C3.75667 14.3733 1.93667 14 0 14C1.93667 14 3.75667 13.6383 5.46 12.915C7.16333 12.1683 8.645 11.165 9.905 9.905C11.165 8.645 12.1567 7.16333 12.88 5.46C13.6267 3.75667 14 1.93667 14 0C14 1.93667 14.3617 3.75667 15.085 5.46C15.8317 7.16333 16.835 8.645 18.095 9.905C19.355 11.165 20.8367 12.1683 22.54 12.915C24.2433 13.6383 26.0633 14 28 14C26.0633 14 24.2433 14.3733 22.54 15.12C20.8367 15.8433 19.355 16.835 18.095 18.095C16.835 19.355 15.8317 20.8367 15.085 22.54C14.3617 24.2433 14 26.0633 14 28Z"/>
         </svg>
       )
+    },
+    'openai-compatible': {
+      label: 'Local',
+      fullLabel: 'Local Model',
+      bgColor: 'bg-[#475569]',
+      textColor: 'text-white',
+      // Generic server glyph for self-hosted endpoints
+      icon: (
+        <svg viewBox="0 0 24 24" className={cn(iconSizeClasses[size], 'fill-current')}>
+          <path d="M4 3h16a1 1 0 0 1 1 1v6a1 1 0 0 1-1 1H4a1 1 0 0 1-1-1V4a1 1 0 0 1 1-1zm0 10h16a1 1 0 0 1 1 1v6a1 1 0 0 1-1 1H4a1 1 0 0 1-1-1v-6a1 1 0 0 1 1-1zm3-7.5a1.5 1.5 0 1 0 0 3 1.5 1.5 0 0 0 0-3zm0 10a1.5 1.5 0 1 0 0 3 1.5 1.5 0 0 0 0-3z"/>
+        </svg>
+      )
     }
   }
 
@@ -100,13 +112,15 @@ interface GhostTrackNodeProps {
   x: number // percentage position
   y: number // percentage position
   className?: string
+  track?: Track // streamed in before the full result arrives
 }
 
 /**
  * Skeleton loader that looks like a TrackNode
- * Shows animated shimmer while waiting for AI results
+ * Shows animated shimmer while waiting for AI results, then the track's
+ * artwork once the model has written it
  */
-export function GhostTrackNode({ index, x, y, className }: GhostTrackNodeProps) {
+export function GhostTrackNode({ index, x, y, className, track }: GhostTrackNodeProps) {
   return (
     <motion.div
       initial={{ opacity: 0, scale: 0.8 }}
@@ -160,6 +174,16 @@ export function GhostTrackNode({ index, x, y, className }: GhostTrackNodeProps)
               delay: index * 0.15
             }}
           >
+            {track && (
+              <motion.img
+                src={track.thumbnail}
+                alt={track.title}
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 0.7 }}
+                className="absolute inset-0 w-full h-full object-cover"
+                draggable={false}
+              />
+            )}
             {/* Shimmer sweep effect */}
             <motion.div
               className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent"
@@ -201,15 +225,22 @@ export function GhostTrackNode({ index, x, y, className }: GhostTrackNodeProps)
             }}
           />
         </motion.div>
+
+        {track && (
+          <div className="absolute top-full left-1/2 -translate-x-1/2 mt-2 w-24 text-center pointer-events-none">
+            <div className="text-[9px] font-bold text-white/70 truncate">{track.title}</div>
+            <div className="text-[8px] text-gray-500 truncate">{track.artist}</div>
+          </div>
+        )}
       </div>
     </motion.div>
   )
 }
 
 /**
- * Ghost track card for list/session views
+ * Ghost track card for list/session views (filled in once the track has streamed in)
  */
-export function GhostTrackCard({ index }: { index: number }) {
+export function GhostTrackCard({ index, track }: { index: number; track?: Track }) {
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -227,32 +258,54 @@ export function GhostTrackCard({ index }: { index: number }) {
         />
       </div>
 
-      {/* Thumbnail skeleton */}
-      <motion.div
-        className="flex-shrink-0 w-12 h-12 rounded-lg bg-white/10"
-        animate={{
-          background: [
-            'rgba(255,255,255,0.05)',
-            'rgba(0,242,255,0.1)',
-            'rgba(255,255,255,0.05)'
-          ]
-        }}
-        transition={{ duration: 1.5, repeat: Infinity, delay: index * 0.1 }}
-      />
+      {track ? (
+        <>
+          <motion.img
+            src={track.thumbnail}
+            alt={track.title}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 0.8 }}
+            className="flex-shrink-0 w-12 h-12 rounded-lg object-cover"
+          />
+          <motion.div
+            className="flex-1 min-w-0"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+          >
+            <div className="text-xs font-bold text-white/80 truncate">{track.title}</div>
+            <div className="text-[10px] text-gray-500 truncate">{track.artist}</div>
+          </motion.div>
+        </>
+      ) : (
+        <>
+          {/* Thumbnail skeleton */}
+          <motion.div
+            className="flex-shrink-0 w-12 h-12 rounded-lg bg-white/10"
+            animate={{
+              background: [
+                'rgba(255,255,255,0.05)',
+                'rgba(0,242,255,0.1)',
+                'rgba(255,255,255,0.05)'
+              ]
+            }}
+            transition={{ duration: 1.5, repeat: Infinity, delay: index * 0.1 }}
+          />
 
-      {/* Text skeleton */}
-      <div className="flex-1 min-w-0 space-y-2">
-        <motion.div
-          className="h-4 rounded bg-white/10 w-3/4"
-          animate={{ opacity: [0.3, 0.6, 0.3] }}
-          transition={{ duration: 1.5, repeat: Infinity, delay: index * 0.1 }}
-        />
-        <motion.div
-          className="h-3 rounded bg-white/10 w-1/2"
-          animate={{ opacity: [0.3, 0.6, 0.3] }}
-          transition={{ duration: 1.5, repeat: Infinity, delay: index * 0.15 }}
-        />
-      </div>
+          {/* Text skeleton */}
+          <div className="flex-1 min-w-0 space-y-2">
+            <motion.div
+              className="h-4 rounded bg-white/10 w-3/4"
+              animate={{ opacity: [0.3, 0.6, 0.3] }}
+              transition={{ duration: 1.5, repeat: Infinity, delay: index * 0.1 }}
+            />
+            <motion.div
+              className="h-3 rounded bg-white/10 w-1/2"
+              animate={{ opacity: [0.3, 0.6, 0.3] }}
+              transition={{ duration: 1.5, repeat: Infinity, delay: index * 0.15 }}
+            />
+          </div>
+        </>
+      )}
 
       {/* Duration skeleton */}
       <motion.div
@@ -0,0 +1,261 @@
+'use client'
+
+import { useState, useRef } from 'react'
+import {
+  Upload,
+  FileMusic,
+  Loader2,
+  AlertCircle,
+  CheckCircle,
+  XCircle,
+  Image as ImageIcon,
+  Link2,
+} from 'lucide-react'
+import { Modal, Button, Badge } from '@/components/ui'
+import { useYTDJStore } from '@/store'
+import { cn } from '@/lib/utils'
+import {
+  parsePlaylistFile,
+  resolveImportedTracks,
+  IMPORT_ACCEPT,
+  IMPORT_FORMAT_LABELS,
+  type ImportedPlaylist,
+  type TrackMatchResult,
+  type TrackMatchStatus,
+} from '@/lib/dj-import'
+
+interface ImportSetModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onImported?: () => void
+}
+
+const STATUS_LABELS: Record<TrackMatchStatus, string> = {
+  pending: 'Searching',
+  existing: 'Linked',
+  matched: 'Matched',
+  'art-only': 'No video',
+  unmatched: 'Not found',
+}
+
+const STATUS_VARIANTS: Record<TrackMatchStatus, 'default' | 'cyan' | 'success' | 'warning' | 'danger'> = {
+  pending: 'default',
+  existing: 'cyan',
+  matched: 'success',
+  'art-only': 'warning',
+  unmatched: 'danger',
+}
+
+export function ImportSetModal({ isOpen, onClose, onImported }: ImportSetModalProps) {
+  const { importSet, updateTrackYouTubeData, setTrackState } = useYTDJStore()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const [fileName, setFileName] = useState('')
+  const [playlists, setPlaylists] = useState<ImportedPlaylist[]>([])
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  const [error, setError] = useState('')
+  const [isResolving, setIsResolving] = useState(false)
+  const [report, setReport] = useState<TrackMatchResult[] | null>(null)
+
+  const selected = playlists[selectedIndex]
+
+  const reset = () => {
+    setFileName('')
+    setPlaylists([])
+    setSelectedIndex(0)
+    setError('')
+    setReport(null)
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  const handleClose = () => {
+    if (isResolving) return
+    reset()
+    onClose()
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    setError('')
+    setReport(null)
+    setFileName(file.name)
+
+    try {
+      const content = await file.text()
+      const parsed = parsePlaylistFile(file.name, content)
+      if (parsed.length === 0) {
+        setError('No tracks found in this file')
+      }
+      setPlaylists(parsed)
+      setSelectedIndex(0)
+    } catch (err) {
+      setPlaylists([])
+      setError(err instanceof Error ? err.message : 'Failed to read playlist file')
+    }
+  }
+
+  const handleImport = async () => {
+    if (!selected) return
+
+    importSet(selected.name, selected.nodes)
+
+    // Seed the report so every row renders immediately
+    setReport(
+      selected.nodes.map((node, index) => ({
+        index,
+        artist: node.track.artist,
+        title: node.track.title,
+        status: 'pending',
+      }))
+    )
+    setIsResolving(true)
+
+    await resolveImportedTracks(selected.nodes, (result, data) => {
+      if (data) {
+        updateTrackYouTubeData(result.index, data)
+        setTrackState(result.index, 'ai-selected')
+      }
+      setReport((prev) =>
+        prev ? prev.map((r) => (r.index === result.index ? result : r)) : prev
+      )
+    })
+
+    setIsResolving(false)
+    onImported?.()
+  }
+
+  const playable = report?.filter((r) => r.status === 'matched' || r.status === 'existing').length ?? 0
+  const withBpm = selected?.nodes.filter((n) => n.track.bpm).length ?? 0
+  const withKey = selected?.nodes.filter((n) => n.track.camelotCode).length ?? 0
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Import Playlist" size="lg">
+      <div className="space-y-4">
+        {!report && (
+          <>
+            {/* File Picker */}
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full p-6 border-2 border-dashed border-white/10 rounded-xl hover:border-cyan-500/50 hover:bg-cyan-500/5 transition-all group"
+            >
+              <div className="flex flex-col items-center gap-2">
+                <Upload className="w-6 h-6 text-white/40 group-hover:text-cyan-400 transition-colors" />
+                <span className="text-sm text-white/70">
+                  {fileName || 'Choose a Rekordbox XML, Traktor NML or M3U file'}
+                </span>
+                <span className="text-xs text-white/40">{IMPORT_ACCEPT}</span>
+              </div>
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={IMPORT_ACCEPT}
+              onChange={handleFileChange}
+              className="hidden"
+            />
+
+            {/* Playlist Selection */}
+            {playlists.length > 1 && (
+              <div className="space-y-2">
+                <p className="text-xs text-white/50 uppercase tracking-wider">Choose a playlist</p>
+                <div className="space-y-1 max-h-40 overflow-y-auto">
+                  {playlists.map((playlist, index) => (
+                    <button
+                      key={`${playlist.name}-${index}`}
+                      onClick={() => setSelectedIndex(index)}
+                      className={cn(
+                        'w-full flex items-center justify-between px-3 py-2 rounded-lg border text-left text-sm transition-all',
+                        index === selectedIndex
+                          ? 'bg-cyan-500/10 border-cyan-500/50 text-white'
+                          : 'bg-white/5 border-white/10 text-white/70 hover:border-white/20'
+                      )}
+                    >
+                      <span className="truncate">{playlist.name}</span>
+                      <span className="text-xs text-white/40">{playlist.nodes.length} tracks</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Preview */}
+            {selected && (
+              <div className="p-4 rounded-lg bg-white/5 border border-white/10 space-y-2">
+                <div className="flex items-center gap-2">
+                  <FileMusic className="w-4 h-4 text-cyan-400" />
+                  <span className="text-sm font-semibold text-white truncate">{selected.name}</span>
+                  <Badge variant="cyan">{IMPORT_FORMAT_LABELS[selected.format]}</Badge>
+                </div>
+                <div className="flex items-center gap-4 text-xs text-white/50">
+                  <span>{selected.nodes.length} tracks</span>
+                  <span>{withBpm} with BPM</span>
+                  <span>{withKey} with key</span>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Error Message */}
+        {error && (
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/20">
+            <AlertCircle className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
+            <p className="text-xs text-red-400/80">{error}</p>
+          </div>
+        )}
+
+        {/* Match Report */}
+        {report && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-white/60">
+                {playable}/{report.length} tracks playable
+              </p>
+              {isResolving && <Loader2 className="w-4 h-4 text-cyan-400 animate-spin" />}
+            </div>
+            <div className="space-y-1 max-h-[400px] overflow-y-auto">
+              {report.map((result) => (
+                <div
+                  key={result.index}
+                  className="flex items-center gap-3 px-3 py-2 rounded-lg bg-white/5 text-xs"
+                >
+                  <span className="w-6 text-white/30 font-mono">{result.index + 1}</span>
+                  {result.status === 'matched' && <CheckCircle className="w-3.5 h-3.5 text-green-400" />}
+                  {result.status === 'existing' && <Link2 className="w-3.5 h-3.5 text-cyan-400" />}
+                  {result.status === 'art-only' && <ImageIcon className="w-3.5 h-3.5 text-yellow-400" />}
+                  {result.status === 'unmatched' && <XCircle className="w-3.5 h-3.5 text-red-400" />}
+                  {result.status === 'pending' && <Loader2 className="w-3.5 h-3.5 text-white/40 animate-spin" />}
+                  <span className="flex-1 truncate text-white/70">
+                    {result.artist} - {result.title}
+                  </span>
+                  <Badge variant={STATUS_VARIANTS[result.status]}>{STATUS_LABELS[result.status]}</Badge>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 pt-4 border-t border-white/10">
+          {report ? (
+            <Button onClick={handleClose} disabled={isResolving}>
+              {isResolving ? 'Matching...' : 'Done'}
+            </Button>
+          ) : (
+            <>
+              <Button variant="ghost" onClick={handleClose}>
+                Cancel
+              </Button>
+              <Button onClick={handleImport} disabled={!selected}>
+                <Upload className="w-4 h-4 mr-1" />
+                Import {selected ? `${selected.nodes.length} tracks` : ''}
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </Modal>
+  )
+}
@@ -124,6 +124,8 @@ export function LaunchPad({ onComplete }: LaunchPadProps) {
     constraints,
     generationControls,
     startParallelGeneration,
+    setActiveGenerationJob,
+    receiveGeneratedTrack,
     receivePrimaryResult,
     receiveAlternativeResult,
     setProviderFailed,
@@ -306,12 +308,18 @@ export function LaunchPad({ onComplete }: LaunchPadProps) {
         } as AIConstraints
       },
       {
+        onJobCreated: (jobId) => {
+          setActiveGenerationJob({ id: jobId, trackCount: effectiveTrackCount, startedAt: Date.now() })
+        },
         onStarted: (providers) => {
           console.log('[Stream] Started with providers:', providers)
         },
         onProviderStarted: (provider) => {
           console.log('[Stream] Provider started:', provider)
         },
+        onTrackGenerated: (provider, index, node) => {
+          receiveGeneratedTrack(provider, index, node)
+        },
         onPrimaryResult: (provider, tracks) => {
           console.log('[Stream] Primary result from:', provider, tracks.length, 'tracks')
           receivePrimaryResult(provider, tracks)
@@ -358,8 +366,8 @@ export function LaunchPad({ onComplete }: LaunchPadProps) {
   }, [
     prompt, selectedArc, duration, energyRange, novelty,
     aiProvider, constraints, generationControls,
-    updatePrompt, startParallelGeneration, onComplete, setActiveArcTemplate,
-    receivePrimaryResult, receiveAlternativeResult, setProviderFailed,
+    updatePrompt, startParallelGeneration, setActiveGenerationJob, onComplete, setActiveArcTemplate,
+    receiveGeneratedTrack, receivePrimaryResult, receiveAlternativeResult, setProviderFailed,
     enrichTrack, completeGeneration, failAllGeneration, setStoreGenerating,
     setGenerationError
   ])
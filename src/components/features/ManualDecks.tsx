@@ -0,0 +1,368 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import YouTube, { YouTubeProps, YouTubePlayer as YTPlayer, YouTubeEvent } from 'react-youtube'
+import { Play, Pause, Volume2, VolumeX, X, Link2 } from 'lucide-react'
+import { cn, UNPLAYABLE_VIDEO_ERRORS } from '@/lib/utils'
+import { formatTime } from './YouTubePlayer'
+import { useYTDJStore } from '@/store'
+import { YOUTUBE_PLAYBACK_RATES } from '@/lib/beatmatch'
+import { getDeckVolume, getEffectiveBpm, getOtherDeck } from '@/lib/manual-decks'
+import type { DeckId } from '@/types'
+
+// Rates offered on the deck (slower than half speed is no use for mixing)
+const DECK_RATES = YOUTUBE_PLAYBACK_RATES.filter((rate) => rate >= 0.5)
+
+const opts: YouTubeProps['opts'] = {
+  height: '100%',
+  width: '100%',
+  playerVars: {
+    autoplay: 0,
+    controls: 0,
+    disablekb: 1,
+    fs: 0,
+    modestbranding: 1,
+    rel: 0,
+    showinfo: 0,
+    origin: typeof window !== 'undefined' ? window.location.origin : '',
+  },
+}
+
+/**
+ * Manual two-deck mode for the session view
+ *
+ * Two visible YouTube decks, each able to load any node of the set, with
+ * play/cue/seek, a playback-rate selector and a sync button, plus a
+ * crossfader between them. Replaces the transport bar while active; the
+ * automatic player is unmounted so only the decks make sound.
+ */
+export function ManualDecks() {
+  const { player, setPlayerState, manualDecks, setCrossfader, setManualDecksEnabled } = useYTDJStore()
+  const { volume } = player
+
+  return (
+    <footer className="bg-[#0a0c1c]/80 backdrop-blur-xl border-t border-white/5 flex items-stretch px-6 py-4 gap-6 z-50">
+      <Deck deck="A" />
+
+      {/* Mixer */}
+      <div className="w-56 flex flex-col items-center justify-center gap-4 border-x border-white/10 px-6">
+        <div className="w-full space-y-1">
+          <div className="flex justify-between text-[10px] font-black text-gray-500 uppercase tracking-widest">
+            <span className={cn(manualDecks.crossfader < 0.5 && 'text-cyan-400')}>A</span>
+            <span>Crossfader</span>
+            <span className={cn(manualDecks.crossfader > 0.5 && 'text-pink-400')}>B</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.01"
+            value={manualDecks.crossfader}
+            onChange={(e) => setCrossfader(parseFloat(e.target.value))}
+            onDoubleClick={() => setCrossfader(0.5)}
+            className="w-full accent-white"
+            title="Double-click to center"
+          />
+        </div>
+
+        <div className="flex items-center gap-3 w-full">
+          <button
+            onClick={() => setPlayerState({ volume: volume > 0 ? 0 : 80 })}
+            className="text-gray-500 hover:text-white transition-colors"
+          >
+            {volume === 0 ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+          </button>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={volume}
+            onChange={(e) => setPlayerState({ volume: parseInt(e.target.value) })}
+            className="flex-1 accent-cyan-500"
+          />
+        </div>
+
+        <button
+          onClick={() => setManualDecksEnabled(false)}
+          className="flex items-center gap-1 text-[10px] font-bold text-gray-500 hover:text-white uppercase tracking-widest transition-colors"
+        >
+          <X className="w-3 h-3" />
+          Exit Decks
+        </button>
+      </div>
+
+      <Deck deck="B" />
+    </footer>
+  )
+}
+
+function Deck({ deck }: { deck: DeckId }) {
+  const playerRef = useRef<YTPlayer | null>(null)
+  const progressIntervalRef = useRef<NodeJS.Timeout | null>(null)
+  // Where the first play starts from; null once the video has started
+  const startAtRef = useRef<number | null>(null)
+
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [duration, setDuration] = useState(0)
+  const [availableRates, setAvailableRates] = useState<number[]>(YOUTUBE_PLAYBACK_RATES)
+
+  const {
+    currentSet,
+    player,
+    manualDecks,
+    loadDeck,
+    setDeckPlaybackRate,
+    setDeckCuePoint,
+    syncDeck,
+    replaceUnplayableVideo,
+    confirmVideoFallback,
+  } = useYTDJStore()
+
+  const playlist = currentSet?.playlist || []
+  const { nodeId, playbackRate, cuePoint } = manualDecks.decks[deck]
+  const nodeIndex = playlist.findIndex((node) => node.id === nodeId)
+  const node = nodeIndex >= 0 ? playlist[nodeIndex] : undefined
+  const videoId = node?.track.youtubeId || null
+  const otherNode = playlist.find((n) => n.id === manualDecks.decks[getOtherDeck(deck)].nodeId)
+  const volume = getDeckVolume(deck, manualDecks.crossfader, player.volume, node?.gainDb)
+  const effectiveBpm = getEffectiveBpm(node?.track.bpm, playbackRate)
+  const canSync = !!node?.track.bpm && !!otherNode?.track.bpm
+  const accent = deck === 'A' ? 'cyan' : 'pink'
+
+  const stopProgressTracking = () => {
+    if (progressIntervalRef.current) {
+      clearInterval(progressIntervalRef.current)
+      progressIntervalRef.current = null
+    }
+  }
+
+  // A newly loaded track starts from its cue point
+  useEffect(() => {
+    startAtRef.current = cuePoint
+    setIsPlaying(false)
+    setCurrentTime(cuePoint)
+    setDuration(node?.track.duration || 0)
+  }, [videoId]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    try {
+      playerRef.current?.setVolume(volume)
+    } catch (e) {
+      // Player might not be ready
+    }
+  }, [volume])
+
+  useEffect(() => {
+    try {
+      playerRef.current?.setPlaybackRate(playbackRate)
+    } catch (e) {
+      // Player might not be ready
+    }
+  }, [playbackRate])
+
+  useEffect(() => {
+    if (!isPlaying) return
+    progressIntervalRef.current = setInterval(() => {
+      try {
+        setCurrentTime(playerRef.current?.getCurrentTime() || 0)
+      } catch (e) {
+        // Player might be destroyed
+      }
+    }, 250)
+    return stopProgressTracking
+  }, [isPlaying])
+
+  const onReady: YouTubeProps['onReady'] = (event) => {
+    playerRef.current = event.target
+    event.target.unMute()
+    event.target.setVolume(volume)
+    event.target.setPlaybackRate(playbackRate)
+    try {
+      const rates = event.target.getAvailablePlaybackRates()
+      if (rates?.length) setAvailableRates(rates)
+    } catch (e) {
+      // Keep the standard rates
+    }
+  }
+
+  const handleStateChange = (event: YouTubeEvent) => {
+    // YouTube states: -1 (unstarted), 0 (ended), 1 (playing), 2 (paused), 3 (buffering), 5 (cued)
+    if ((event.data === 1 || event.data === 5) && videoId) confirmVideoFallback(videoId)
+    if (event.data === 1) {
+      startAtRef.current = null
+      setIsPlaying(true)
+      setDuration(event.target.getDuration() || node?.track.duration || 0)
+      // The rate resets when a new video loads
+      event.target.setPlaybackRate(playbackRate)
+    } else if (event.data === 0 || event.data === 2) {
+      setIsPlaying(false)
+    }
+  }
+
+  // Unplayable video: swap in another upload; the deck reloads with the node's new video ID
+  const handleError = (event: YouTubeEvent) => {
+    console.error(`[Deck ${deck}] Error:`, event.data)
+    if (!UNPLAYABLE_VIDEO_ERRORS.includes(event.data) || !videoId || nodeIndex < 0) return
+    setIsPlaying(false)
+    replaceUnplayableVideo(nodeIndex, videoId)
+  }
+
+  const handlePlayPause = () => {
+    const deckPlayer = playerRef.current
+    if (!deckPlayer) return
+    try {
+      if (isPlaying) {
+        deckPlayer.pauseVideo()
+      } else {
+        deckPlayer.playVideo()
+        if (startAtRef.current !== null) deckPlayer.seekTo(startAtRef.current, true)
+      }
+    } catch (e) {
+      // Player might not be ready
+    }
+  }
+
+  // CDJ-style cue: while playing, jump back to the cue point and stop; while stopped, set it here
+  const handleCue = () => {
+    if (!isPlaying) {
+      setDeckCuePoint(deck, currentTime)
+      if (startAtRef.current !== null) startAtRef.current = currentTime
+      return
+    }
+    try {
+      playerRef.current?.pauseVideo()
+      playerRef.current?.seekTo(cuePoint, true)
+    } catch (e) {
+      // Player might not be ready
+    }
+    setCurrentTime(cuePoint)
+  }
+
+  const handleSeek = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (duration <= 0) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    const time = ((e.clientX - rect.left) / rect.width) * duration
+    setCurrentTime(time)
+    // Before the first play, a seek just moves where playback will start
+    if (startAtRef.current !== null) {
+      startAtRef.current = time
+      return
+    }
+    try {
+      playerRef.current?.seekTo(time, true)
+    } catch (e) {
+      // Player might not be ready
+    }
+  }
+
+  return (
+    <div className={cn('flex-1 flex gap-4 min-w-0', deck === 'B' && 'flex-row-reverse')}>
+      {/* Video */}
+      <div className="w-40 aspect-video flex-shrink-0 rounded-lg overflow-hidden bg-black/40 border border-white/5">
+        {videoId ? (
+          <YouTube
+            videoId={videoId}
+            opts={opts}
+            className="w-full h-full"
+            iframeClassName="w-full h-full"
+            onReady={onReady}
+            onStateChange={handleStateChange}
+            onError={handleError}
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-[9px] font-bold text-gray-600 uppercase tracking-widest">
+            {node ? 'No playable video' : 'Empty'}
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 min-w-0 space-y-2">
+        {/* Track Picker */}
+        <div className="flex items-center gap-2">
+          <span className={cn('text-xs font-black', accent === 'cyan' ? 'text-cyan-400' : 'text-pink-400')}>{deck}</span>
+          <select
+            value={nodeId ?? ''}
+            onChange={(e) => loadDeck(deck, e.target.value || null)}
+            className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded px-2 py-1 text-[10px] font-bold text-white truncate"
+          >
+            <option value="">Load a track...</option>
+            {playlist.map((n, index) => (
+              <option key={n.id} value={n.id} disabled={!n.track.youtubeId}>
+                {String(index + 1).padStart(2, '0')} · {n.track.artist} - {n.track.title}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Progress */}
+        <div className="flex justify-between text-[10px] font-mono text-gray-500">
+          <span>
+            <span className="text-white">{formatTime(currentTime)}</span> / {formatTime(duration)}
+          </span>
+          <span>{effectiveBpm ?? '--'} BPM</span>
+        </div>
+        <div className="h-1.5 bg-white/5 rounded-full relative cursor-pointer group" onClick={handleSeek}>
+          <div className="absolute inset-0 rounded-full bg-white/5 group-hover:bg-white/10 transition-colors" />
+          <div
+            className={cn(
+              'absolute top-0 left-0 bottom-0 rounded-full',
+              accent === 'cyan' ? 'bg-cyan-500' : 'bg-pink-500'
+            )}
+            style={{ width: duration > 0 ? `${(currentTime / duration) * 100}%` : '0%' }}
+          />
+          {duration > 0 && (
+            <div
+              className="absolute -top-1 -bottom-1 w-0.5 bg-orange-400"
+              style={{ left: `${(cuePoint / duration) * 100}%` }}
+              title={`Cue ${formatTime(cuePoint)}`}
+            />
+          )}
+        </div>
+
+        {/* Transport & Tempo */}
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleCue}
+            disabled={!videoId}
+            className="px-2 py-1 rounded bg-orange-500/20 text-orange-400 text-[10px] font-black uppercase hover:bg-orange-500/30 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            Cue
+          </button>
+          <button
+            onClick={handlePlayPause}
+            disabled={!videoId}
+            className="w-8 h-8 rounded-full bg-white text-black flex items-center justify-center hover:scale-105 active:scale-95 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4 ml-0.5" />}
+          </button>
+
+          <div className="flex items-center gap-0.5 ml-auto">
+            {DECK_RATES.map((rate) => (
+              <button
+                key={rate}
+                onClick={() => setDeckPlaybackRate(deck, rate)}
+                disabled={!availableRates.includes(rate)}
+                className={cn(
+                  'px-1.5 py-1 rounded text-[9px] font-mono transition-colors disabled:opacity-20 disabled:cursor-not-allowed',
+                  playbackRate === rate ? 'bg-white/20 text-white' : 'text-gray-500 hover:text-white'
+                )}
+              >
+                {rate}x
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => syncDeck(deck, availableRates)}
+            disabled={!canSync}
+            className="flex items-center gap-1 px-2 py-1 rounded bg-white/5 text-[10px] font-black text-gray-400 uppercase hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+            title={canSync ? `Match deck ${getOtherDeck(deck)}'s tempo` : 'Both tracks need a BPM'}
+          >
+            <Link2 className="w-3 h-3" />
+            Sync
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+'use client'
+
+import { useState } from 'react'
+import { Radio, Loader2, Settings2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useYTDJStore } from '@/store'
+
+/**
+ * Infinite radio toggle for the transport bar, with lookahead, batch size
+ * and the extension cap in a small popover
+ */
+export function RadioControl({ className }: { className?: string }) {
+  const { radio, radioStatus, subscription, setRadioSettings } = useYTDJStore()
+  const [showSettings, setShowSettings] = useState(false)
+
+  const capReached = radio.extensionsUsed >= radio.maxExtensions
+  const status = radioStatus.isExtending
+    ? 'Extending...'
+    : radioStatus.error
+    ? radioStatus.error
+    : capReached
+    ? 'Cap reached'
+    : `${radio.extensionsUsed}/${radio.maxExtensions}`
+
+  return (
+    <div className={cn('relative flex items-center gap-1', className)}>
+      <button
+        onClick={() => setRadioSettings({ enabled: !radio.enabled })}
+        className={cn(
+          'flex items-center gap-1.5 px-2 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-colors border',
+          radio.enabled
+            ? 'bg-amber-500/15 text-amber-400 border-amber-500/30'
+            : 'text-gray-500 border-white/5 hover:text-white'
+        )}
+        title="Infinite radio: keep extending the set while it plays (one credit per extension)"
+      >
+        {radioStatus.isExtending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Radio className="w-3.5 h-3.5" />}
+        Radio
+      </button>
+      {radio.enabled && (
+        <span className={cn('text-[9px] font-mono', radioStatus.error || capReached ? 'text-orange-400' : 'text-gray-500')}>
+          {status}
+        </span>
+      )}
+      <button
+        onClick={() => setShowSettings(!showSettings)}
+        className="p-1 text-gray-600 hover:text-white transition-colors"
+        title="Radio settings"
+      >
+        <Settings2 className="w-3 h-3" />
+      </button>
+
+      {showSettings && (
+        <div className="absolute bottom-full right-0 mb-2 w-56 p-3 space-y-3 bg-[#0a0c1c] border border-white/10 rounded-lg shadow-xl">
+          <label className="block space-y-1">
+            <div className="flex justify-between text-[10px] text-gray-400">
+              <span>Extend when</span>
+              <span className="font-mono text-white">{radio.lookahead} left</span>
+            </div>
+            <input
+              type="range"
+              min="1"
+              max="5"
+              value={radio.lookahead}
+              onChange={(e) => setRadioSettings({ lookahead: parseInt(e.target.value) })}
+              className="w-full accent-amber-500"
+            />
+          </label>
+          <label className="block space-y-1">
+            <div className="flex justify-between text-[10px] text-gray-400">
+              <span>Tracks per extension</span>
+              <span className="font-mono text-white">{radio.batchSize}</span>
+            </div>
+            <input
+              type="range"
+              min="3"
+              max="10"
+              value={radio.batchSize}
+              onChange={(e) => setRadioSettings({ batchSize: parseInt(e.target.value) })}
+              className="w-full accent-amber-500"
+            />
+          </label>
+          <label className="block space-y-1">
+            <div className="flex justify-between text-[10px] text-gray-400">
+              <span>Max extensions</span>
+              <span className="font-mono text-white">{radio.maxExtensions}</span>
+            </div>
+            <input
+              type="range"
+              min="1"
+              max="20"
+              value={radio.maxExtensions}
+              onChange={(e) => setRadioSettings({ maxExtensions: parseInt(e.target.value) })}
+              className="w-full accent-amber-500"
+            />
+          </label>
+          <p className="text-[9px] text-gray-500">
+            Each extension uses one credit ({subscription.creditsRemaining} left). Turning radio off and on resets the count.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,179 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { ChevronDown, ChevronRight, Cloud, CloudOff, Copy, Check, Download, Radio } from 'lucide-react'
+import { formatDuration } from '@/lib/utils'
+import { useYTDJStore } from '@/store'
+import { downloadFile } from '@/lib/dj-export'
+import {
+  exportPlaySession,
+  formatTimestamp,
+  getPlayLogFilename,
+  getPlaySessionSeconds,
+  getTracklist,
+  PLAY_LOG_EXPORT_FORMATS,
+} from '@/lib/play-log'
+import type { PlayLogExportFormat } from '@/lib/play-log'
+import type { PlaySession, Set } from '@/types'
+
+interface RecentlyPlayedProps {
+  searchQuery: string
+  onSelectSet: (set: Set) => void
+}
+
+/**
+ * Performance history for the sets dashboard: recorded play sessions with
+ * their timestamped tracklists and exports
+ */
+export function RecentlyPlayed({ searchQuery, onSelectSet }: RecentlyPlayedProps) {
+  const { playSessions, activePlaySessionId, sets, fetchPlaySessions, syncPlaySession } = useYTDJStore()
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [copied, setCopied] = useState<string | null>(null)
+
+  useEffect(() => {
+    // Signed out just means local history only
+    fetchPlaySessions()
+  }, [fetchPlaySessions])
+
+  const query = searchQuery.trim().toLowerCase()
+  const sessions = query
+    ? playSessions.filter(session =>
+        session.setName.toLowerCase().includes(query) ||
+        session.entries.some(entry => `${entry.artist} ${entry.title}`.toLowerCase().includes(query))
+      )
+    : playSessions
+
+  const handleCopy = (session: PlaySession, format: PlayLogExportFormat) => {
+    navigator.clipboard.writeText(exportPlaySession(session, format))
+    setCopied(`${session.id}-${format}`)
+    setTimeout(() => setCopied(null), 2000)
+  }
+
+  const handleDownload = (session: PlaySession, format: PlayLogExportFormat) => {
+    const { extension, mimeType } = PLAY_LOG_EXPORT_FORMATS.find(f => f.id === format)!
+    const suffix = format === 'cue' ? '' : `-${format}`
+    downloadFile(exportPlaySession(session, format), `${getPlayLogFilename(session)}${suffix}.${extension}`, mimeType)
+  }
+
+  if (sessions.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600 text-sm">Nothing played yet</p>
+        <p className="text-gray-700 text-xs mt-1">
+          {query ? 'Try a different search term' : 'Play a set and it will show up here with its tracklist'}
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      {sessions.map((session) => {
+        const tracklist = getTracklist(session)
+        const isLive = session.id === activePlaySessionId
+        const isExpanded = expandedId === session.id
+        const set = sets.find(s => s.id === session.setId)
+        const withHours = tracklist.some(item => item.offset >= 3600)
+
+        return (
+          <motion.div
+            key={session.id}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-white/5 border border-white/10 rounded-2xl p-4 space-y-2"
+          >
+            <button
+              onClick={() => setExpandedId(isExpanded ? null : session.id)}
+              className="w-full flex items-start justify-between text-left"
+            >
+              <div className="min-w-0">
+                <h3 className="font-bold text-white truncate">{session.setName}</h3>
+                <div className="text-[9px] text-gray-600 uppercase tracking-wider">
+                  {new Date(session.startedAt).toLocaleString()}
+                </div>
+              </div>
+              {isExpanded
+                ? <ChevronDown className="w-4 h-4 text-gray-500 shrink-0" />
+                : <ChevronRight className="w-4 h-4 text-gray-500 shrink-0" />}
+            </button>
+
+            <div className="flex items-center gap-3">
+              {isLive ? (
+                <span className="flex items-center gap-1 text-[10px] font-bold text-green-400">
+                  <Radio className="w-3 h-3 animate-pulse" />
+                  Live
+                </span>
+              ) : (
+                <span className="text-[10px] font-bold text-gray-600">
+                  {formatDuration(getPlaySessionSeconds(session))}
+                </span>
+              )}
+              <span className="text-gray-700">•</span>
+              <span className="text-[10px] font-bold text-gray-600">{tracklist.length} tracks</span>
+              <span className="ml-auto" title={session.syncedAt ? 'Synced to cloud' : 'Only on this device'}>
+                {session.syncedAt
+                  ? <Cloud className="w-3 h-3 text-cyan-500" />
+                  : (
+                    <button
+                      onClick={() => syncPlaySession(session.id)}
+                      disabled={isLive}
+                      className="text-gray-600 hover:text-cyan-400 transition-colors disabled:hover:text-gray-600"
+                    >
+                      <CloudOff className="w-3 h-3" />
+                    </button>
+                  )}
+              </span>
+            </div>
+
+            {isExpanded && (
+              <div className="space-y-3 pt-2 border-t border-white/5">
+                <div className="max-h-56 overflow-y-auto custom-scrollbar space-y-1">
+                  {tracklist.map((item, index) => (
+                    <div key={`${item.offset}-${index}`} className="flex gap-2 text-[11px]">
+                      <span className="font-mono text-cyan-500 shrink-0">{formatTimestamp(item.offset, withHours)}</span>
+                      <span className="text-gray-300 truncate">{item.artist} - {item.title}</span>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-1.5">
+                  {PLAY_LOG_EXPORT_FORMATS.map(({ id, label }) => (
+                    <div key={id} className="flex items-center gap-2">
+                      <span className="flex-1 text-[10px] font-bold uppercase tracking-wider text-gray-500">{label}</span>
+                      <button
+                        onClick={() => handleCopy(session, id)}
+                        className="p-1.5 rounded-lg bg-white/5 text-gray-400 hover:text-white transition-colors"
+                        title="Copy"
+                      >
+                        {copied === `${session.id}-${id}`
+                          ? <Check className="w-3 h-3 text-green-400" />
+                          : <Copy className="w-3 h-3" />}
+                      </button>
+                      <button
+                        onClick={() => handleDownload(session, id)}
+                        className="p-1.5 rounded-lg bg-white/5 text-gray-400 hover:text-white transition-colors"
+                        title="Download"
+                      >
+                        <Download className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+
+                {set && (
+                  <button
+                    onClick={() => onSelectSet(set)}
+                    className="w-full py-2 rounded-xl bg-cyan-500/10 text-[10px] font-bold uppercase tracking-wider text-cyan-400 hover:bg-cyan-500/20 transition-all"
+                  >
+                    Open set
+                  </button>
+                )}
+              </div>
+            )}
+          </motion.div>
+        )
+      })}
+    </>
+  )
+}
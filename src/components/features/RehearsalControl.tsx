@@ -0,0 +1,190 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { Headphones, ThumbsUp, ThumbsDown, SkipForward, Square, X, AlertTriangle, Loader2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useYTDJStore } from '@/store'
+import { getRehearsalReport, REHEARSAL_LEAD_OPTIONS, DEFAULT_REHEARSAL_LEAD_SECONDS } from '@/lib/rehearsal'
+import type { RehearsalPhase } from '@/types'
+
+const PHASE_LABELS: Record<RehearsalPhase, string> = {
+  outgoing: 'Lead-in',
+  crossfade: 'Mixing',
+  incoming: 'Lead-out',
+  rating: 'How was it?',
+  done: 'Done',
+}
+
+/**
+ * Transition rehearsal for the transport bar: auditions only the mix points,
+ * collects a thumbs up/down per transition and reports the ones to rework
+ */
+export function RehearsalControl({ className }: { className?: string }) {
+  const { currentSet, rehearsal, startRehearsal, rateRehearsalTransition, stopRehearsal } = useYTDJStore()
+  const playlist = useMemo(() => currentSet?.playlist || [], [currentSet?.playlist])
+
+  const [showPanel, setShowPanel] = useState(false)
+  const [leadSeconds, setLeadSeconds] = useState(DEFAULT_REHEARSAL_LEAD_SECONDS)
+
+  const report = useMemo(() => getRehearsalReport(playlist), [playlist])
+  const hasVerdicts = report.approved + report.flagged.length > 0
+
+  const from = rehearsal ? playlist[rehearsal.transitionIndex] : undefined
+  const to = rehearsal ? playlist[rehearsal.transitionIndex + 1] : undefined
+  const canRate = rehearsal?.phase === 'incoming' || rehearsal?.phase === 'rating'
+  const isOpen = showPanel || rehearsal !== null
+
+  const handleClose = () => {
+    if (rehearsal) stopRehearsal()
+    setShowPanel(false)
+  }
+
+  return (
+    <div className={cn('relative flex items-center', className)}>
+      <button
+        onClick={() => (isOpen ? handleClose() : setShowPanel(true))}
+        disabled={playlist.length < 2}
+        className={cn(
+          'flex items-center gap-1.5 px-2 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-colors border disabled:opacity-30',
+          rehearsal
+            ? 'bg-purple-500/15 text-purple-400 border-purple-500/30'
+            : 'text-gray-500 border-white/5 hover:text-white'
+        )}
+        title="Rehearse: play only the mix points and rate each transition"
+      >
+        <Headphones className="w-3.5 h-3.5" />
+        Rehearse
+        {!rehearsal && report.flagged.length > 0 && (
+          <span className="ml-0.5 px-1 rounded bg-orange-500/20 text-orange-400">{report.flagged.length}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full left-0 mb-2 w-80 p-3 space-y-3 bg-[#0a0c1c] border border-white/10 rounded-lg shadow-xl">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-bold uppercase tracking-widest text-gray-400">Transition Rehearsal</span>
+            <button onClick={handleClose} className="p-1 text-gray-500 hover:text-white transition-colors">
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+
+          {/* Setup */}
+          {!rehearsal && (
+            <div className="space-y-2">
+              <p className="text-[10px] text-gray-500">
+                Plays the last seconds before each mix-out, the crossfade and the start of the next track, then waits for your verdict.
+              </p>
+              <div className="flex items-center gap-1">
+                {REHEARSAL_LEAD_OPTIONS.map((seconds) => (
+                  <button
+                    key={seconds}
+                    onClick={() => setLeadSeconds(seconds)}
+                    className={cn(
+                      'flex-1 py-1 rounded text-[10px] font-mono transition-colors',
+                      leadSeconds === seconds ? 'bg-purple-500/20 text-purple-300' : 'bg-white/5 text-gray-500 hover:text-white'
+                    )}
+                  >
+                    {seconds}s
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => startRehearsal(leadSeconds)}
+                className="w-full py-1.5 rounded bg-purple-500 text-black text-[10px] font-bold uppercase tracking-widest hover:bg-purple-400 transition-colors"
+              >
+                Start ({report.total} transitions)
+              </button>
+            </div>
+          )}
+
+          {/* Running */}
+          {rehearsal && rehearsal.phase !== 'done' && from && to && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-[10px]">
+                <span className="font-mono text-gray-400">
+                  {rehearsal.transitionIndex + 1}/{report.total}
+                </span>
+                <span className="flex items-center gap-1 text-purple-300">
+                  {rehearsal.phase !== 'rating' && <Loader2 className="w-3 h-3 animate-spin" />}
+                  {PHASE_LABELS[rehearsal.phase]}
+                </span>
+              </div>
+              <div className="text-[11px] text-gray-300 space-y-0.5">
+                <div className="truncate">{from.track.artist} - {from.track.title}</div>
+                <div className="truncate text-gray-500">→ {to.track.artist} - {to.track.title}</div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => rateRehearsalTransition('down')}
+                  disabled={!canRate}
+                  className="flex-1 flex items-center justify-center gap-1 py-1.5 rounded bg-red-500/10 text-red-400 hover:bg-red-500/20 transition-colors disabled:opacity-30"
+                  title="Needs rework"
+                >
+                  <ThumbsDown className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => rateRehearsalTransition(null)}
+                  disabled={!canRate}
+                  className="px-3 py-1.5 rounded bg-white/5 text-gray-500 hover:text-white transition-colors disabled:opacity-30"
+                  title="Skip without rating"
+                >
+                  <SkipForward className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => rateRehearsalTransition('up')}
+                  disabled={!canRate}
+                  className="flex-1 flex items-center justify-center gap-1 py-1.5 rounded bg-green-500/10 text-green-400 hover:bg-green-500/20 transition-colors disabled:opacity-30"
+                  title="Sounds good"
+                >
+                  <ThumbsUp className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <button
+                onClick={handleClose}
+                className="w-full flex items-center justify-center gap-1 py-1 text-[10px] text-gray-500 hover:text-white transition-colors"
+              >
+                <Square className="w-3 h-3" />
+                Stop rehearsal
+              </button>
+            </div>
+          )}
+
+          {/* Report */}
+          {(rehearsal?.phase === 'done' || (!rehearsal && hasVerdicts)) && (
+            <div className="space-y-2 pt-2 border-t border-white/5">
+              <div className="flex items-center gap-3 text-[10px] font-mono">
+                <span className="text-green-400">{report.approved} good</span>
+                <span className="text-orange-400">{report.flagged.length} to rework</span>
+                <span className="text-gray-500">{report.unrated} unrated</span>
+              </div>
+              {report.flagged.length === 0 ? (
+                <p className="text-[10px] text-gray-500">No transitions flagged.</p>
+              ) : (
+                <div className="max-h-48 overflow-y-auto space-y-1.5">
+                  {report.flagged.map((item) => (
+                    <div key={item.from.id} className="p-2 rounded bg-orange-500/5 border border-orange-500/20">
+                      <div className="text-[10px] text-gray-300 truncate">
+                        <span className="font-mono text-orange-400 mr-1">{item.index + 1}→{item.index + 2}</span>
+                        {item.from.track.title} → {item.to.track.title}
+                      </div>
+                      {item.issues.length > 0 && (
+                        <div className="mt-1 space-y-0.5">
+                          {item.issues.map((issue) => (
+                            <div key={issue} className="flex items-center gap-1 text-[9px] text-gray-500">
+                              <AlertTriangle className="w-2.5 h-2.5 shrink-0" />
+                              {issue}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,9 +1,10 @@
 'use client'
 
 import { useMemo, useCallback } from 'react'
-import { RefreshCw, Plus, GripVertical, Trash2 } from 'lucide-react'
+import { RefreshCw, Plus, GripVertical, Trash2, Radio, Loader2 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { useYTDJStore } from '@/store'
+import { RADIO_COLOR } from '@/lib/radio'
 import type { SetSegment } from '@/types'
 
 interface SegmentBarProps {
@@ -22,6 +23,7 @@ export function SegmentBar({ className, onSegmentClick, onAddSegment }: SegmentB
     removeSegment,
     regenerateSegment,
     subscription,
+    radioStatus,
   } = useYTDJStore()
 
   const playlist = currentSet?.playlist || []
@@ -115,11 +117,15 @@ export function SegmentBar({ className, onSegmentClick, onAddSegment }: SegmentB
               {/* Segment info */}
               <div className="flex-1 min-w-0 px-1">
                 <div className="flex items-center gap-1.5">
-                  {/* Color dot */}
-                  <div
-                    className="w-2 h-2 rounded-full flex-shrink-0"
-                    style={{ backgroundColor: segment.color }}
-                  />
+                  {/* Color dot (radio icon for radio extensions) */}
+                  {segment.isRadio ? (
+                    <Radio className="w-3 h-3 flex-shrink-0" style={{ color: segment.color }} />
+                  ) : (
+                    <div
+                      className="w-2 h-2 rounded-full flex-shrink-0"
+                      style={{ backgroundColor: segment.color }}
+                    />
+                  )}
                   {/* Name */}
                   <span className="text-xs font-medium text-zinc-200 truncate">
                     {segment.name}
@@ -136,21 +142,23 @@ export function SegmentBar({ className, onSegmentClick, onAddSegment }: SegmentB
 
               {/* Actions (visible on hover) */}
               <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
-                {/* Regenerate button */}
-                <button
-                  className={cn(
-                    'p-1 rounded hover:bg-white/10 transition-colors',
-                    isRegenerating && 'animate-spin'
-                  )}
-                  onClick={(e) => {
-                    e.stopPropagation()
-                    regenerateSegment(segment.id)
-                  }}
-                  title="Regenerate this segment"
-                  disabled={isRegenerating}
-                >
-                  <RefreshCw className="w-3 h-3 text-zinc-400" />
-                </button>
+                {/* Regenerate button (radio tracks may already have played) */}
+                {!segment.isRadio && (
+                  <button
+                    className={cn(
+                      'p-1 rounded hover:bg-white/10 transition-colors',
+                      isRegenerating && 'animate-spin'
+                    )}
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      regenerateSegment(segment.id)
+                    }}
+                    title="Regenerate this segment"
+                    disabled={isRegenerating}
+                  >
+                    <RefreshCw className="w-3 h-3 text-zinc-400" />
+                  </button>
+                )}
 
                 {/* Delete button */}
                 {segments.length > 1 && (
@@ -175,6 +183,17 @@ export function SegmentBar({ className, onSegmentClick, onAddSegment }: SegmentB
           )
         })}
 
+        {/* Radio extension on its way */}
+        {radioStatus.isExtending && (
+          <div
+            className="flex items-center gap-1.5 px-2 min-w-[80px] animate-pulse border-l border-zinc-700/50"
+            style={{ backgroundColor: `${RADIO_COLOR}20` }}
+          >
+            <Loader2 className="w-3 h-3 animate-spin" style={{ color: RADIO_COLOR }} />
+            <span className="text-xs font-medium text-zinc-300">Radio</span>
+          </div>
+        )}
+
         {/* Add segment button */}
         <button
           className={cn(
@@ -5,10 +5,11 @@ import { motion, AnimatePresence } from 'framer-motion'
 import {
   Undo2, Redo2, Play, Pause,
   Lock, X, Plus, Sparkles, Info, Loader2, Cloud, FolderOpen, GripVertical,
-  ChevronLeft, ChevronRight, AlertTriangle, Zap, RefreshCw, Layers
+  ChevronLeft, ChevronRight, AlertTriangle, Zap, RefreshCw, Layers, Disc3
 } from 'lucide-react'
 import { cn, formatDuration } from '@/lib/utils'
 import { TransportBar } from './TransportBar'
+import { ManualDecks } from './ManualDecks'
 import { useYTDJStore, arcTemplates } from '@/store'
 import { generatePlaylist } from '@/lib/ai-service'
 import { formatTime } from './YouTubePlayer'
@@ -61,7 +62,9 @@ export function SessionView({ onViewChange, currentView, onGoHome }: SessionView
     generationProgress,
     swapWithProviderAlternative,
     combineAllProviders,
-    segments
+    segments,
+    manualDecks,
+    setManualDecksEnabled
   } = useYTDJStore()
   const playlist = currentSet?.playlist || []
 
@@ -111,6 +114,11 @@ export function SessionView({ onViewChange, currentView, onGoHome }: SessionView
     }
   }, [])
 
+  // Leaving the session view hands the audio back from the manual decks
+  useEffect(() => {
+    return () => setManualDecksEnabled(false)
+  }, [setManualDecksEnabled])
+
   // Player state from store
   const { isPlaying, playingNodeIndex, currentTime, duration } = player
   const activeTrackIndex = playingNodeIndex ?? 0
@@ -737,6 +745,20 @@ export function SessionView({ onViewChange, currentView, onGoHome }: SessionView
             </button>
           </div>
           <div className="flex items-center gap-2">
+            <button
+              onClick={() => setManualDecksEnabled(!manualDecks.enabled)}
+              disabled={playlist.length === 0}
+              className={cn(
+                'flex items-center gap-2 px-4 py-2 text-xs font-black rounded hover:scale-105 transition-all border uppercase tracking-widest disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100',
+                manualDecks.enabled
+                  ? 'bg-cyan-500 text-black border-cyan-500'
+                  : 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30 hover:bg-cyan-500/30'
+              )}
+              title="Mix the set yourself on two decks"
+            >
+              <Disc3 className="w-4 h-4" />
+              Decks
+            </button>
             <button
               onClick={() => setShowSaveDialog(true)}
               disabled={!currentSet || playlist.length === 0}
@@ -861,10 +883,10 @@ export function SessionView({ onViewChange, currentView, onGoHome }: SessionView
                           ? 'bg-cyan-500 text-black'
                           : 'bg-white/10 text-white/70 hover:bg-white/20 hover:text-white'
                       )}
-                      title={`Use ${provider === 'openai' ? 'OpenAI' : provider === 'claude' ? 'Claude' : 'Gemini'} results`}
+                      title={`Use ${provider === 'openai' ? 'OpenAI' : provider === 'claude' ? 'Claude' : provider === 'gemini' ? 'Gemini' : 'Local'} results`}
                     >
                       <AIProviderBadge provider={provider} size="sm" />
-                      <span>{provider === 'openai' ? 'OpenAI' : provider === 'claude' ? 'Claude' : 'Gemini'}</span>
+                      <span>{provider === 'openai' ? 'OpenAI' : provider === 'claude' ? 'Claude' : provider === 'gemini' ? 'Gemini' : 'Local'}</span>
                     </button>
                   ))}
                   {/* Combine All Button - hidden after clicked */}
@@ -885,7 +907,7 @@ export function SessionView({ onViewChange, currentView, onGoHome }: SessionView
               {generationProgress.isGenerating && (
                 <div className="flex items-center gap-3">
                   <div className="flex items-center gap-1">
-                    {(['openai', 'claude', 'gemini'] as AIProvider[]).map((provider) => {
+                    {(['openai', 'claude', 'gemini', 'openai-compatible'] as AIProvider[]).map((provider) => {
                       const isActive = generationProgress.activeProviders.includes(provider)
                       const isComplete = generationProgress.completedProviders.includes(provider)
                       const isFailed = generationProgress.failedProviders.includes(provider)
@@ -1250,7 +1272,7 @@ export function SessionView({ onViewChange, currentView, onGoHome }: SessionView
                       key={`ghost-${index}`}
                       className="min-w-[200px] border-r border-white/5 flex flex-col p-2 space-y-4"
                     >
-                      <GhostTrackCard index={index} />
+                      <GhostTrackCard index={index} track={generationProgress.streamedTracks[index]?.track} />
                       {/* Ghost alternatives */}
                       <div className="space-y-2 pt-4">
                         <div className="h-16 bg-white/5 rounded-lg animate-pulse" />
@@ -1437,8 +1459,8 @@ export function SessionView({ onViewChange, currentView, onGoHome }: SessionView
         </AnimatePresence>
       </div>
 
-      {/* Bottom Transport Bar */}
-      <TransportBar />
+      {/* Bottom Transport Bar (manual decks take its place while active) */}
+      {manualDecks.enabled ? <ManualDecks /> : <TransportBar />}
 
       {/* Export Flow */}
       <ExportFlow isOpen={showExport} onClose={() => setShowExport(false)} />
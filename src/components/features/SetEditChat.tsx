@@ -0,0 +1,269 @@
+'use client'
+
+import { useState, useCallback, useMemo, useRef, useEffect } from 'react'
+import { X, Send, Loader2, MessageSquare, Check, Lock, ArrowRight } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useYTDJStore } from '@/store'
+import { editSet } from '@/lib/ai-service'
+import { diffEditPlan, describeEditOperation, type SetEditDiffRow } from '@/lib/set-edit-plan'
+import type { SetEditMessage, SetEditPlan } from '@/types'
+
+interface SetEditChatProps {
+  onClose: () => void
+  onNoCredits?: () => void
+  className?: string
+}
+
+interface PendingPlan {
+  plan: SetEditPlan
+  // Node ids the plan was made against; the preview goes stale when they change
+  baseNodeIds: string[]
+}
+
+const EXAMPLES = [
+  'Make tracks 5-8 darker and drop the vocals',
+  'Swap the opener for something slower',
+  'Move the biggest track to the end',
+]
+
+const ROW_STYLES: Record<SetEditDiffRow['kind'], { label: string; className: string }> = {
+  kept: { label: '', className: 'text-zinc-500' },
+  replaced: { label: 'SWAP', className: 'text-cyan-400 bg-cyan-500/5 border-cyan-500/20' },
+  inserted: { label: 'ADD', className: 'text-green-400 bg-green-500/5 border-green-500/20' },
+  removed: { label: 'DROP', className: 'text-red-400 bg-red-500/5 border-red-500/20 line-through' },
+  moved: { label: 'MOVE', className: 'text-purple-400 bg-purple-500/5 border-purple-500/20' },
+  energy: { label: 'NRG', className: 'text-orange-400 bg-orange-500/5 border-orange-500/20' },
+}
+
+export function SetEditChat({ onClose, onNoCredits, className }: SetEditChatProps) {
+  const { currentSet, aiProvider, applySetEditPlan, refreshCredits } = useYTDJStore()
+  const playlist = useMemo(() => currentSet?.playlist || [], [currentSet?.playlist])
+
+  const [messages, setMessages] = useState<SetEditMessage[]>([])
+  const [input, setInput] = useState('')
+  const [isThinking, setIsThinking] = useState(false)
+  const [pending, setPending] = useState<PendingPlan | null>(null)
+  const scrollRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' })
+  }, [messages, pending])
+
+  const isStale = pending !== null && (
+    pending.baseNodeIds.length !== playlist.length ||
+    pending.baseNodeIds.some((id, index) => playlist[index]?.id !== id)
+  )
+
+  const diffRows = useMemo(
+    () => (pending && !isStale ? diffEditPlan(playlist, pending.plan) : []),
+    [pending, isStale, playlist]
+  )
+
+  const handleSend = useCallback(async (text?: string) => {
+    const instruction = (text ?? input).trim()
+    if (!instruction || isThinking || playlist.length === 0) return
+
+    setInput('')
+    setPending(null)
+    setMessages((prev) => [...prev, { role: 'user', content: instruction }])
+    setIsThinking(true)
+
+    const result = await editSet({
+      instruction,
+      history: messages.slice(-10),
+      prompt: currentSet?.prompt,
+      provider: aiProvider,
+      playlist: playlist.map((node) => ({
+        title: node.track.title,
+        artist: node.track.artist,
+        energy: node.track.energy,
+        targetEnergy: node.targetEnergy,
+        bpm: node.track.bpm,
+        key: node.track.key,
+        genre: node.track.genre,
+        isLocked: node.isLocked,
+        isEnergyLocked: node.isEnergyLocked,
+      })),
+    })
+
+    setIsThinking(false)
+    refreshCredits()
+
+    if (!result.success || !result.plan) {
+      if (result.code === 'no_credits') onNoCredits?.()
+      setMessages((prev) => [...prev, { role: 'assistant', content: `Couldn't plan that: ${result.error || 'unknown error'}` }])
+      return
+    }
+
+    setMessages((prev) => [...prev, { role: 'assistant', content: result.plan!.summary }])
+    if (result.plan.operations.length > 0 || result.plan.skipped.length > 0) {
+      setPending({ plan: result.plan, baseNodeIds: playlist.map((node) => node.id) })
+    }
+  }, [input, isThinking, playlist, messages, currentSet?.prompt, aiProvider, refreshCredits, onNoCredits])
+
+  const handleApply = useCallback(() => {
+    if (!pending || isStale) return
+    const applied = applySetEditPlan(pending.plan)
+    setMessages((prev) => [...prev, {
+      role: 'assistant',
+      content: applied > 0
+        ? `Applied ${applied} change${applied === 1 ? '' : 's'}. Undo reverts all of them.`
+        : 'Nothing left to apply - the affected tracks are locked now.',
+    }])
+    setPending(null)
+  }, [pending, isStale, applySetEditPlan])
+
+  return (
+    <div className={cn('flex flex-col h-full bg-zinc-900 border-l border-zinc-800', className)}>
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+        <div className="flex items-center gap-2">
+          <MessageSquare className="w-4 h-4 text-cyan-400" />
+          <h3 className="text-sm font-medium text-zinc-200">Edit Set</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 rounded hover:bg-zinc-800 transition-colors"
+        >
+          <X className="w-4 h-4 text-zinc-400" />
+        </button>
+      </div>
+
+      {/* Conversation */}
+      <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-3">
+        {messages.length === 0 && (
+          <div className="space-y-2">
+            <p className="text-xs text-zinc-500">
+              Describe a change and review the plan before it touches your set. Locked tracks are left alone.
+            </p>
+            {EXAMPLES.map((example) => (
+              <button
+                key={example}
+                onClick={() => handleSend(example)}
+                disabled={isThinking || playlist.length === 0}
+                className="block w-full text-left px-3 py-2 rounded-lg bg-zinc-800/60 text-xs text-zinc-300 hover:bg-zinc-800 transition-colors disabled:opacity-50"
+              >
+                {example}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {messages.map((message, index) => (
+          <div
+            key={index}
+            className={cn(
+              'px-3 py-2 rounded-lg text-xs max-w-[90%]',
+              message.role === 'user'
+                ? 'ml-auto bg-cyan-500/15 text-cyan-100'
+                : 'bg-zinc-800 text-zinc-300'
+            )}
+          >
+            {message.content}
+          </div>
+        ))}
+
+        {isThinking && (
+          <div className="flex items-center gap-2 text-xs text-zinc-500">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Planning edits...
+          </div>
+        )}
+
+        {/* Plan preview */}
+        {pending && (
+          <div className="rounded-lg border border-zinc-700 bg-black/30 p-3 space-y-2">
+            <div className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Preview</div>
+
+            {isStale ? (
+              <p className="text-xs text-orange-400">The set changed since this plan was made. Ask again to get a fresh plan.</p>
+            ) : (
+              <div className="space-y-1">
+                {diffRows.map((row, index) => {
+                  const style = ROW_STYLES[row.kind]
+                  const node = row.after || row.before
+                  if (!node) return null
+                  return (
+                    <div
+                      key={`${node.id}-${index}`}
+                      className={cn('flex items-center gap-2 px-2 py-1 rounded border border-transparent text-[11px]', style.className)}
+                      title={row.reason}
+                    >
+                      <span className="w-8 shrink-0 text-[9px] font-black">{style.label || (row.moved ? 'MOVE' : '')}</span>
+                      {row.kind === 'replaced' && row.before && (
+                        <>
+                          <span className="truncate opacity-60 line-through">{row.before.track.title}</span>
+                          <ArrowRight className="w-3 h-3 shrink-0" />
+                        </>
+                      )}
+                      <span className="truncate">{node.track.artist} - {node.track.title}</span>
+                      {row.kind === 'energy' && (
+                        <span className="ml-auto shrink-0">
+                          {row.before?.targetEnergy ?? row.before?.track.energy ?? '?'} → {row.after?.targetEnergy}
+                        </span>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+
+            {pending.plan.skipped.length > 0 && (
+              <div className="space-y-1 pt-1 border-t border-zinc-800">
+                {pending.plan.skipped.map(({ operation, reason }, index) => (
+                  <div key={index} className="flex items-center gap-1.5 text-[10px] text-zinc-500">
+                    <Lock className="w-3 h-3 shrink-0" />
+                    <span className="truncate">{describeEditOperation(operation)} - {reason}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex gap-2 pt-1">
+              <button
+                onClick={() => setPending(null)}
+                className="flex-1 py-1.5 rounded text-[10px] font-bold uppercase tracking-widest text-zinc-400 bg-zinc-800 hover:bg-zinc-700 transition-colors"
+              >
+                Discard
+              </button>
+              <button
+                onClick={handleApply}
+                disabled={isStale || pending.plan.operations.length === 0}
+                className="flex-1 flex items-center justify-center gap-1 py-1.5 rounded text-[10px] font-bold uppercase tracking-widest text-black bg-cyan-500 hover:bg-cyan-400 transition-colors disabled:opacity-50"
+              >
+                <Check className="w-3 h-3" />
+                Apply {pending.plan.operations.length}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Input */}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          handleSend()
+        }}
+        className="flex items-center gap-2 p-3 border-t border-zinc-800"
+      >
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder={playlist.length === 0 ? 'Generate a set first' : 'e.g. make 5-8 darker'}
+          disabled={playlist.length === 0}
+          maxLength={1000}
+          className="flex-1 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-xs text-zinc-200 focus:outline-none focus:ring-1 focus:ring-cyan-500 disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={!input.trim() || isThinking || playlist.length === 0}
+          className="p-2 rounded-lg bg-cyan-500 text-black hover:bg-cyan-400 transition-colors disabled:opacity-50"
+        >
+          {isThinking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+        </button>
+      </form>
+    </div>
+  )
+}
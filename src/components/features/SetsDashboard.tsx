@@ -2,10 +2,12 @@
 
 import { useState, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Plus, Search, Star, Clock, Archive, Layout, X, Trash2, Play } from 'lucide-react'
+import { Plus, Search, Star, Clock, Archive, Layout, X, Trash2, Play, Upload, History } from 'lucide-react'
 import { cn, formatDuration } from '@/lib/utils'
 import { useYTDJStore } from '@/store'
 import type { Set, PlaylistNode } from '@/types'
+import { ImportSetModal } from './ImportSetModal'
+import { RecentlyPlayed } from './RecentlyPlayed'
 
 interface SetsDashboardProps {
   isOpen: boolean
@@ -13,7 +15,7 @@ interface SetsDashboardProps {
   onSelectSet: (set: Set) => void
 }
 
-type FilterType = 'recent' | 'favorites' | 'templates' | 'archived'
+type FilterType = 'recent' | 'played' | 'favorites' | 'templates' | 'archived'
 
 // Generate SVG curve from playlist nodes
 function generateCurvePath(playlist: PlaylistNode[]): string {
@@ -42,9 +44,11 @@ export function SetsDashboard({ isOpen, onClose, onSelectSet }: SetsDashboardPro
   const [activeFilter, setActiveFilter] = useState<FilterType>('recent')
   const [showNewSetModal, setShowNewSetModal] = useState(false)
   const [newSetName, setNewSetName] = useState('')
+  const [showImportModal, setShowImportModal] = useState(false)
 
   const filters = [
     { id: 'recent' as FilterType, label: 'Recent', icon: Clock },
+    { id: 'played' as FilterType, label: 'Played', icon: History },
     { id: 'favorites' as FilterType, label: 'Favorites', icon: Star },
     { id: 'templates' as FilterType, label: 'Templates', icon: Layout },
     { id: 'archived' as FilterType, label: 'Archived', icon: Archive }
@@ -70,6 +74,10 @@ export function SetsDashboard({ isOpen, onClose, onSelectSet }: SetsDashboardPro
       case 'favorites':
         // For now, no favorites flag - could add later
         break
+      case 'played':
+        // Rendered from the play log instead
+        result = []
+        break
       case 'templates':
         result = result.filter(set => set.arcTemplate)
         break
@@ -105,6 +113,14 @@ export function SetsDashboard({ isOpen, onClose, onSelectSet }: SetsDashboardPro
     onSelectSet(set)
   }
 
+  const handleImported = () => {
+    // Read back from the store so the selection includes resolved YouTube data
+    const importedSet = useYTDJStore.getState().currentSet
+    if (importedSet) {
+      onSelectSet(importedSet)
+    }
+  }
+
   const handleDeleteSet = (e: React.MouseEvent, setId: string) => {
     e.stopPropagation()
     if (confirm('Are you sure you want to delete this set?')) {
@@ -123,6 +139,7 @@ export function SetsDashboard({ isOpen, onClose, onSelectSet }: SetsDashboardPro
   }
 
   return (
+    <>
     <AnimatePresence>
       {isOpen && (
         <motion.div
@@ -193,6 +210,15 @@ export function SetsDashboard({ isOpen, onClose, onSelectSet }: SetsDashboardPro
               </div>
             </button>
 
+            {/* Import Playlist */}
+            <button
+              onClick={() => setShowImportModal(true)}
+              className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl bg-white/5 border border-white/10 text-[10px] font-bold uppercase tracking-wider text-gray-400 hover:text-cyan-400 hover:border-cyan-500/30 transition-all"
+            >
+              <Upload className="w-3.5 h-3.5" />
+              Import Rekordbox / Traktor / M3U
+            </button>
+
             {/* Set Cards */}
             {filteredSets.map((set) => {
               const energyRange = getEnergyRange(set.playlist)
@@ -282,7 +308,11 @@ export function SetsDashboard({ isOpen, onClose, onSelectSet }: SetsDashboardPro
               )
             })}
 
-            {filteredSets.length === 0 && (
+            {activeFilter === 'played' && (
+              <RecentlyPlayed searchQuery={searchQuery} onSelectSet={handleSelectSet} />
+            )}
+
+            {filteredSets.length === 0 && activeFilter !== 'played' && (
               <div className="text-center py-12">
                 <p className="text-gray-600 text-sm">No sets found</p>
                 <p className="text-gray-700 text-xs mt-1">
@@ -344,5 +374,12 @@ export function SetsDashboard({ isOpen, onClose, onSelectSet }: SetsDashboardPro
         </motion.div>
       )}
     </AnimatePresence>
+
+    <ImportSetModal
+      isOpen={showImportModal}
+      onClose={() => setShowImportModal(false)}
+      onImported={handleImported}
+    />
+    </>
   )
 }
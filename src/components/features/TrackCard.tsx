@@ -19,8 +19,9 @@ import {
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { formatDuration, getTransitionQualityColor, getTransitionQualityLabel } from '@/lib/utils'
-import type { Track, TransitionQuality, AlternativeTrack, AIProvider } from '@/types'
+import type { Track, TransitionQuality, TransitionStyle, AlternativeTrack, AIProvider } from '@/types'
 import { Badge } from '@/components/ui'
+import { TransitionStylePicker } from './TransitionStylePicker'
 
 interface TrackCardProps {
   track: Track
@@ -30,6 +31,8 @@ interface TrackCardProps {
   isEnriching?: boolean
   isUnavailable?: boolean
   transitionQuality?: TransitionQuality
+  transitionStyle?: TransitionStyle
+  transitionGapSeconds?: number
   alternatives?: AlternativeTrack[]
   providerAlternatives?: { provider: AIProvider; track: Track }[]
   onPlay?: () => void
@@ -41,6 +44,7 @@ interface TrackCardProps {
   onSwapWithAlternative?: (alternative: AlternativeTrack) => void
   onSwapWithProviderTrack?: (provider: AIProvider) => void
   onRefreshYouTube?: (newData: { youtubeId: string; thumbnail?: string; duration?: number }) => void
+  onTransitionStyleChange?: (updates: { style: TransitionStyle; gapSeconds?: number }) => void
   onDragStart?: (e: React.DragEvent) => void
   onDragEnd?: (e: React.DragEvent) => void
   onDragOver?: (e: React.DragEvent) => void
@@ -57,6 +61,8 @@ export function TrackCard({
   isEnriching = false,
   isUnavailable = false,
   transitionQuality,
+  transitionStyle,
+  transitionGapSeconds,
   alternatives = [],
   providerAlternatives = [],
   onPlay,
@@ -68,6 +74,7 @@ export function TrackCard({
   onSwapWithAlternative,
   onSwapWithProviderTrack,
   onRefreshYouTube,
+  onTransitionStyleChange,
   onDragStart,
   onDragEnd,
   onDragOver,
@@ -379,6 +386,16 @@ export function TrackCard({
         />
       )}
 
+      {/* Transition Style (into the next track) */}
+      {onTransitionStyleChange && (
+        <TransitionStylePicker
+          style={transitionStyle}
+          gapSeconds={transitionGapSeconds}
+          onChange={onTransitionStyleChange}
+          className="hidden sm:block"
+        />
+      )}
+
       {/* Duration */}
       <span className="text-sm font-mono text-white/40">
         {formatDuration(track.duration)}
@@ -2,14 +2,24 @@
 
 import { useState } from 'react'
 import { cn } from '@/lib/utils'
-import { getKeyCompatibility, getCompatibilityColor, getCompatibilityDescription } from '@/lib/camelot'
-import type { Track, KeyCompatibility } from '@/types'
+import {
+  analyzeKeyTransition,
+  getCompatibilityColor,
+  getCompatibilityDescription,
+  getKeyTechniqueLabel,
+} from '@/lib/camelot'
+import { TRANSITION_STYLES } from '@/lib/transition-styles'
+import type { Track, KeyCompatibility, TransitionStyle } from '@/types'
+import { TransitionStylePicker } from './TransitionStylePicker'
 
 interface TransitionIndicatorProps {
   fromTrack: Track
   toTrack: Track
   showDetails?: boolean
   size?: 'sm' | 'md' | 'lg'
+  style?: TransitionStyle
+  gapSeconds?: number
+  onStyleChange?: (updates: { style: TransitionStyle; gapSeconds?: number }) => void
   className?: string
 }
 
@@ -18,18 +28,27 @@ interface TransitionIndicatorProps {
  *
  * Shows:
  * - Color-coded compatibility (green/cyan/yellow/red)
- * - Hover tooltip with details (key match, BPM difference)
+ * - Hover tooltip with details (technique, key match, BPM difference)
+ * - Optional transition style picker
  */
 export function TransitionIndicator({
   fromTrack,
   toTrack,
   showDetails = true,
   size = 'md',
+  style,
+  gapSeconds,
+  onStyleChange,
   className,
 }: TransitionIndicatorProps) {
   const [isHovered, setIsHovered] = useState(false)
 
-  const keyCompat = getKeyCompatibility(fromTrack.key, toTrack.key)
+  const { compatibility: keyCompat, technique } = analyzeKeyTransition(
+    fromTrack.key,
+    toTrack.key,
+    fromTrack.energy,
+    toTrack.energy
+  )
   const color = getCompatibilityColor(keyCompat)
   const description = getCompatibilityDescription(keyCompat)
 
@@ -44,7 +63,7 @@ export function TransitionIndicator({
 
   return (
     <div
-      className={cn('relative group', className)}
+      className={cn('relative group', onStyleChange && 'flex items-center gap-2', className)}
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
     >
@@ -58,6 +77,11 @@ export function TransitionIndicator({
         style={{ backgroundColor: color }}
       />
 
+      {/* Transition Style */}
+      {onStyleChange && (
+        <TransitionStylePicker style={style} gapSeconds={gapSeconds} onChange={onStyleChange} />
+      )}
+
       {/* Hover Tooltip */}
       {showDetails && isHovered && (
         <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 z-50 pointer-events-none">
@@ -67,6 +91,26 @@ export function TransitionIndicator({
             </div>
 
             <div className="space-y-2">
+              {/* Mixing Technique */}
+              {technique !== 'none' && (
+                <div className="flex justify-between items-center">
+                  <span className="text-[9px] text-gray-500 uppercase">Technique</span>
+                  <span className="text-[10px] font-bold text-white">
+                    {getKeyTechniqueLabel(technique)}
+                  </span>
+                </div>
+              )}
+
+              {/* Transition Style */}
+              {style && (
+                <div className="flex justify-between items-center">
+                  <span className="text-[9px] text-gray-500 uppercase">Style</span>
+                  <span className="text-[10px] font-bold text-cyan-400">
+                    {TRANSITION_STYLES[style].label}
+                  </span>
+                </div>
+              )}
+
               {/* Key Compatibility */}
               <div className="flex justify-between items-center">
                 <span className="text-[9px] text-gray-500 uppercase">Key Match</span>
@@ -159,14 +203,20 @@ export function TransitionDot({
   toTrack: Track
   className?: string
 }) {
-  const keyCompat = getKeyCompatibility(fromTrack.key, toTrack.key)
+  const { compatibility: keyCompat, technique } = analyzeKeyTransition(
+    fromTrack.key,
+    toTrack.key,
+    fromTrack.energy,
+    toTrack.energy
+  )
   const color = getCompatibilityColor(keyCompat)
+  const label = technique !== 'none' ? ` (${getKeyTechniqueLabel(technique)})` : ''
 
   return (
     <div
       className={cn('w-2 h-2 rounded-full', className)}
       style={{ backgroundColor: color }}
-      title={`${fromTrack.title} → ${toTrack.title}: ${keyCompat}`}
+      title={`${fromTrack.title} → ${toTrack.title}: ${keyCompat}${label}`}
     />
   )
 }
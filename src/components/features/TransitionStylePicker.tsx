@@ -0,0 +1,119 @@
+'use client'
+
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { Waves, Check } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  TRANSITION_STYLES,
+  TRANSITION_STYLE_ORDER,
+  DEFAULT_GAP_SECONDS,
+} from '@/lib/transition-styles'
+import type { TransitionStyle } from '@/types'
+
+interface TransitionStylePickerProps {
+  style?: TransitionStyle
+  gapSeconds?: number
+  onChange: (updates: { style: TransitionStyle; gapSeconds?: number }) => void
+  className?: string
+}
+
+const GAP_OPTIONS = [1, 2, 4, 8]
+
+/**
+ * Compact dropdown for choosing how AutoMix plays the transition into the next track
+ */
+export function TransitionStylePicker({
+  style,
+  gapSeconds,
+  onChange,
+  className,
+}: TransitionStylePickerProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const currentGap = gapSeconds ?? DEFAULT_GAP_SECONDS
+
+  return (
+    <div className={cn('relative', className)}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={cn(
+          'flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider transition-colors',
+          style
+            ? 'bg-cyan-500/15 text-cyan-400 hover:bg-cyan-500/25'
+            : 'bg-white/5 text-white/40 hover:text-white/70 hover:bg-white/10'
+        )}
+        title="Transition style into the next track"
+      >
+        <Waves className="w-3 h-3" />
+        {style ? TRANSITION_STYLES[style].label : 'Auto'}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className={cn(
+              'absolute right-0 top-full mt-1 z-50',
+              'w-56 py-2 rounded-lg',
+              'bg-[#0a0c1c] border border-white/10',
+              'shadow-xl shadow-black/50'
+            )}
+          >
+            <div className="px-3 py-1.5 border-b border-white/10">
+              <span className="text-[10px] font-bold text-white/50 uppercase tracking-wider">
+                Transition Style
+              </span>
+            </div>
+
+            {TRANSITION_STYLE_ORDER.map((id) => {
+              const definition = TRANSITION_STYLES[id]
+              return (
+                <button
+                  key={id}
+                  onClick={() => {
+                    onChange({ style: id })
+                    if (id !== 'gapped') setIsOpen(false)
+                  }}
+                  className="w-full flex items-start gap-2 px-3 py-2 text-left hover:bg-white/5 transition-colors"
+                >
+                  <Check
+                    className={cn('w-3.5 h-3.5 mt-0.5 text-cyan-400', style !== id && 'invisible')}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs text-white">{definition.label}</p>
+                    <p className="text-[10px] text-white/40">{definition.description}</p>
+                  </div>
+                </button>
+              )
+            })}
+
+            {/* Silence length for gapped transitions */}
+            {style === 'gapped' && (
+              <div className="px-3 pt-2 mt-1 border-t border-white/10">
+                <p className="text-[10px] text-white/50 uppercase tracking-wider mb-1.5">Silence</p>
+                <div className="flex gap-1">
+                  {GAP_OPTIONS.map((seconds) => (
+                    <button
+                      key={seconds}
+                      onClick={() => onChange({ style: 'gapped', gapSeconds: seconds })}
+                      className={cn(
+                        'flex-1 py-1 rounded text-[10px] font-mono transition-colors',
+                        currentGap === seconds
+                          ? 'bg-cyan-500/20 text-cyan-400'
+                          : 'bg-white/5 text-white/50 hover:bg-white/10'
+                      )}
+                    >
+                      {seconds}s
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </motion.div>
+        </>
+      )}
+    </div>
+  )
+}
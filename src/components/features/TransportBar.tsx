@@ -1,9 +1,13 @@
 'use client'
 
+import { useState, useEffect } from 'react'
 import Link from 'next/link'
-import { Play, Pause, SkipBack, SkipForward, Volume2, VolumeX, Loader2 } from 'lucide-react'
+import { Play, Pause, SkipBack, SkipForward, Volume2, VolumeX, Loader2, Check } from 'lucide-react'
 import { formatDuration } from '@/lib/utils'
 import { formatTime } from './YouTubePlayer'
+import { TapTempoButton } from './BpmKeyEditor'
+import { RadioControl } from './RadioControl'
+import { RehearsalControl } from './RehearsalControl'
 import { useYTDJStore } from '@/store'
 
 export function TransportBar() {
@@ -14,7 +18,8 @@ export function TransportBar() {
     pauseTrack,
     skipNext,
     skipPrevious,
-    setPlayerState
+    setPlayerState,
+    correctTrackBpmKey
   } = useYTDJStore()
 
   const playlist = currentSet?.playlist || []
@@ -22,6 +27,13 @@ export function TransportBar() {
   const isEnriching = enrichingNodeIndex !== null
   const activeTrackIndex = playingNodeIndex ?? 0
   const totalDuration = playlist.reduce((acc, node) => acc + node.track.duration, 0)
+  const activeTrack = playlist[activeTrackIndex]?.track
+
+  // Tapped tempo for the playing track, waiting to be saved
+  const [tappedBpm, setTappedBpm] = useState<number | null>(null)
+  useEffect(() => {
+    setTappedBpm(null)
+  }, [playingNodeIndex])
 
   return (
     <footer className="h-20 bg-[#0a0c1c]/80 backdrop-blur-xl border-t border-white/5 flex items-center px-6 gap-8 z-50">
@@ -80,6 +92,23 @@ export function TransportBar() {
               <>
                 <span className="text-gray-600">•</span>
                 <span>Energy: {playlist[activeTrackIndex]?.track.energy || 50}</span>
+                <span className="text-gray-600">•</span>
+                <span className={activeTrack?.bpmKeyVerified ? 'text-green-400' : undefined}>
+                  {tappedBpm ?? activeTrack?.bpm ?? '--'} BPM
+                </span>
+                <TapTempoButton compact onBpm={setTappedBpm} />
+                {tappedBpm && playingNodeIndex !== null && (
+                  <button
+                    onClick={() => {
+                      correctTrackBpmKey(playingNodeIndex, { bpm: tappedBpm })
+                      setTappedBpm(null)
+                    }}
+                    className="p-1 rounded bg-green-500/10 text-green-400 hover:bg-green-500/20 transition-colors"
+                    title="Save tapped BPM for this track"
+                  >
+                    <Check className="w-3 h-3" />
+                  </button>
+                )}
               </>
             )}
           </div>
@@ -105,6 +134,12 @@ export function TransportBar() {
         </div>
       </div>
 
+      {/* Transition Rehearsal & Infinite Radio */}
+      <div className="flex items-center gap-3 border-l border-white/10 pl-6">
+        <RehearsalControl />
+        <RadioControl />
+      </div>
+
       {/* Volume Control */}
       <div className="flex items-center gap-3 border-l border-white/10 pl-6">
         <button
@@ -3,6 +3,8 @@
 import { useEffect, useRef, useCallback } from 'react'
 import YouTube, { YouTubeProps, YouTubePlayer as YTPlayer } from 'react-youtube'
 import { useYTDJStore } from '@/store'
+import { UNPLAYABLE_VIDEO_ERRORS } from '@/lib/utils'
+import { applyGain } from '@/lib/gain'
 
 interface YouTubePlayerProps {
   className?: string
@@ -16,10 +18,18 @@ export function YouTubePlayer({ className }: YouTubePlayerProps) {
     player,
     setPlayerState,
     skipNext,
+    markPlayLog,
+    replaceUnplayableVideo,
+    confirmVideoFallback,
     currentSet
   } = useYTDJStore()
 
-  const { currentVideoId, isPlaying, volume, startTime } = player
+  const { currentVideoId, isPlaying, startTime, seekRequest, playingNodeIndex } = player
+  // Master volume with the playing node's gain trim
+  const volume = applyGain(
+    player.volume,
+    playingNodeIndex !== null ? currentSet?.playlist[playingNodeIndex]?.gainDb : undefined
+  )
 
   // Handle player ready
   const onPlayerReady: YouTubeProps['onReady'] = (event) => {
@@ -48,6 +58,7 @@ export function YouTubePlayer({ className }: YouTubePlayerProps) {
       const duration = playerRef.current?.getDuration() || 0
       setPlayerState({ duration, isPlaying: true })
       startProgressTracking()
+      if (currentVideoId) confirmVideoFallback(currentVideoId)
     } else if (state === 2) {
       // Paused
       setPlayerState({ isPlaying: false })
@@ -55,6 +66,7 @@ export function YouTubePlayer({ className }: YouTubePlayerProps) {
     } else if (state === 0) {
       // Ended - play next track
       stopProgressTracking()
+      markPlayLog('finished')
       skipNext()
     }
   }
@@ -106,7 +118,16 @@ export function YouTubePlayer({ className }: YouTubePlayerProps) {
     }
   }, [currentVideoId, startTime, isPlaying])
 
-  // Update volume
+  // Handle seek requests (cue editor scrubbing)
+  useEffect(() => {
+    if (seekRequest === null) return
+    if (playerRef.current) {
+      playerRef.current.seekTo(seekRequest, true)
+    }
+    setPlayerState({ seekRequest: null })
+  }, [seekRequest, setPlayerState])
+
+  // Update volume (master or trim)
   useEffect(() => {
     if (playerRef.current) {
       playerRef.current.setVolume(volume)
@@ -157,6 +178,13 @@ export function YouTubePlayer({ className }: YouTubePlayerProps) {
             150: 'Video not embeddable (same as 101)'
           }
           console.error('[YouTubePlayer] Error:', e.data, '-', errorCodes[e.data] || 'Unknown error')
+
+          // Try another upload of the track (the store swaps the video in); skip it if there's none
+          const nodeIndex = player.playingNodeIndex
+          if (!currentVideoId || nodeIndex === null || !UNPLAYABLE_VIDEO_ERRORS.includes(e.data)) return
+          replaceUnplayableVideo(nodeIndex, currentVideoId).then((replacement) => {
+            if (!replacement && useYTDJStore.getState().player.playingNodeIndex === nodeIndex) skipNext()
+          })
         }}
       />
     </div>
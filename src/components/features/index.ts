@@ -9,3 +9,7 @@ export { SessionView } from './SessionView'
 export { YouTubePlayer } from './YouTubePlayer'
 export { SaveSetDialog } from './SaveSetDialog'
 export { BrowseSetsModal } from './BrowseSetsModal'
+export { ImportSetModal } from './ImportSetModal'
+export { TransitionStylePicker } from './TransitionStylePicker'
+export { CueEditor } from './CueEditor'
+export { BpmKeyEditor, TapTempoButton, CamelotKeyWheel } from './BpmKeyEditor'
@@ -75,7 +75,8 @@ export function Header() {
   const providerLabels = {
     openai: 'GPT-4',
     claude: 'Claude',
-    gemini: 'Gemini'
+    gemini: 'Gemini',
+    'openai-compatible': 'Local'
   }
 
   return (
@@ -31,6 +31,7 @@ export function WorkspacePanel() {
     aiProvider,
     setCurrentSet,
     updatePlaylist,
+    updateNodeTransition,
     setIsGenerating: setStoreGenerating
   } = useYTDJStore()
 
@@ -184,6 +185,13 @@ export function WorkspacePanel() {
                           index={index}
                           isActive={false}
                           transitionQuality={node.transitionToNext?.quality}
+                          transitionStyle={node.transitionToNext?.style}
+                          transitionGapSeconds={node.transitionToNext?.gapSeconds}
+                          onTransitionStyleChange={
+                            index < playlist.length - 1
+                              ? (updates) => updateNodeTransition(index, updates)
+                              : undefined
+                          }
                           onSwap={() => handleSwapTrack(node.id)}
                           onRemove={() => handleRemoveTrack(node.id)}
                           onMoveUp={() => handleMoveTrack(node.id, 'up')}
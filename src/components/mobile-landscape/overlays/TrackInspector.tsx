@@ -1,10 +1,12 @@
 'use client'
 
+import { useState } from 'react'
 import { motion } from 'framer-motion'
-import { X, Lock, Unlock, Trash2, Sparkles, Music, Clock, Zap, Key } from 'lucide-react'
+import { X, Lock, Unlock, Trash2, Sparkles, Music, Clock, Zap, Key, Volume2, RotateCcw } from 'lucide-react'
 import { cn, formatDuration } from '@/lib/utils'
 import { useYTDJStore } from '@/store'
 import { haptics } from '@/lib/haptics'
+import { GAIN_MIN_DB, GAIN_MAX_DB, formatGainDb } from '@/lib/gain'
 import type { PlaylistNode } from '@/types'
 
 interface TrackInspectorProps {
@@ -22,14 +24,22 @@ export function TrackInspector({
   onDelete,
   onLockToggle
 }: TrackInspectorProps) {
-  const { playTrack, player } = useYTDJStore()
+  const { playTrack, player, setNodeGain } = useYTDJStore()
   const isPlaying = player.playingNodeIndex === index && player.isPlaying
+  // Trim while the slider is held; stored once on release so a drag is one undo step
+  const [trimDraft, setTrimDraft] = useState<number | null>(null)
 
   const handlePlay = () => {
     haptics.medium()
     playTrack(index)
   }
 
+  const commitTrim = () => {
+    if (trimDraft === null) return
+    if (trimDraft !== (node.gainDb ?? 0)) setNodeGain(index, trimDraft)
+    setTrimDraft(null)
+  }
+
   return (
     <>
       {/* Backdrop */}
@@ -158,6 +168,45 @@ export function TrackInspector({
             </div>
           </div>
 
+          {/* Gain Trim */}
+          <div className="bg-white/5 rounded-xl p-3 border border-white/5">
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex items-center gap-1.5">
+                <Volume2 className="w-3 h-3 text-white/50" />
+                <span className="text-[10px] font-bold text-white/50 uppercase">Gain Trim</span>
+                {node.gainSource && (
+                  <span className="text-[9px] font-bold text-white/30 uppercase">
+                    {node.gainSource === 'nudge' ? 'learned' : node.gainSource}
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-mono text-white/70">{formatGainDb(trimDraft ?? node.gainDb)}</span>
+                {node.gainDb !== undefined && (
+                  <button
+                    onClick={() => setNodeGain(index, null)}
+                    className="text-white/40 hover:text-white transition-colors"
+                    title="Reset trim"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            </div>
+            <input
+              type="range"
+              min={GAIN_MIN_DB}
+              max={GAIN_MAX_DB}
+              step="0.5"
+              value={trimDraft ?? node.gainDb ?? 0}
+              onChange={(e) => setTrimDraft(parseFloat(e.target.value))}
+              onPointerUp={commitTrim}
+              onKeyUp={commitTrim}
+              onBlur={commitTrim}
+              className="w-full h-1.5 bg-white/10 rounded-full appearance-none cursor-pointer accent-cyan-500"
+            />
+          </div>
+
           {/* AI Reasoning */}
           {node.track.aiReasoning && (
             <div className="bg-cyan-500/5 border border-cyan-500/20 rounded-xl p-4">
@@ -1,11 +1,12 @@
 'use client'
 
 import { motion } from 'framer-motion'
-import { Play, Pause, SkipBack, SkipForward, Volume2, VolumeX, Loader2 } from 'lucide-react'
+import { Play, Pause, SkipBack, SkipForward, Volume2, VolumeX, Loader2, Minus, Plus } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { useYTDJStore } from '@/store'
 import { haptics } from '@/lib/haptics'
 import { formatTime } from '@/components/features/YouTubePlayer'
+import { GAIN_NUDGE_DB, formatGainDb } from '@/lib/gain'
 
 export function TransportBar() {
   const {
@@ -15,7 +16,8 @@ export function TransportBar() {
     pauseTrack,
     skipNext,
     skipPrevious,
-    setPlayerState
+    setPlayerState,
+    nudgeNodeGain
   } = useYTDJStore()
 
   const playlist = currentSet?.playlist || []
@@ -152,6 +154,33 @@ export function TransportBar() {
           />
         </div>
 
+        {/* Gain trim nudges for the playing track (remembered for this upload) */}
+        {currentTrack && playingNodeIndex !== null && (
+          <div className="flex items-center gap-1" title="Trim this track's level">
+            <button
+              onClick={() => {
+                haptics.light()
+                nudgeNodeGain(playingNodeIndex, -GAIN_NUDGE_DB)
+              }}
+              className="w-6 h-6 flex items-center justify-center text-white/50 hover:text-white/80 transition-colors"
+            >
+              <Minus className="w-3 h-3" />
+            </button>
+            <span className="w-12 text-center text-[10px] font-mono text-white/50">
+              {formatGainDb(currentTrack.gainDb)}
+            </span>
+            <button
+              onClick={() => {
+                haptics.light()
+                nudgeNodeGain(playingNodeIndex, GAIN_NUDGE_DB)
+              }}
+              className="w-6 h-6 flex items-center justify-center text-white/50 hover:text-white/80 transition-colors"
+            >
+              <Plus className="w-3 h-3" />
+            </button>
+          </div>
+        )}
+
         {/* Track Info (compact) */}
         {currentTrack && (
           <div className="w-[150px] flex-shrink-0 text-right">
@@ -1,13 +1,16 @@
 'use client'
 
 import { useMemo, useCallback } from 'react'
-import { useYTDJStore } from '@/store'
+import { useYTDJStore, arcTemplates } from '@/store'
 import {
   getKeyCompatibility,
+  analyzeKeyTransition,
   calculateBpmMatchScore,
   calculateTransitionScore,
   recommendCrossfadeDuration,
 } from '@/lib/camelot'
+import { optimizePlaylistOrder, type OptimizeOrderResult } from '@/lib/harmonic-optimizer'
+import { getCueMixOutPoint, getNodeMixInTime } from '@/lib/cues'
 import type { KeyCompatibility, TransitionAnalysis } from '@/types'
 
 /**
@@ -18,9 +21,18 @@ import type { KeyCompatibility, TransitionAnalysis } from '@/types'
  * - Mix point calculations
  * - Crossfade duration recommendations
  * - Transition quality summaries
+ * - Harmonic order optimization
  */
 export function useAutoMix() {
-  const { autoMix, currentSet, player } = useYTDJStore()
+  const {
+    autoMix,
+    currentSet,
+    player,
+    segments,
+    activeArcTemplate,
+    pushHistory,
+    setCurrentSet,
+  } = useYTDJStore()
 
   const playlist = currentSet?.playlist || []
 
@@ -37,7 +49,12 @@ export function useAutoMix() {
       const fromTrack = fromNode.track
       const toTrack = toNode.track
 
-      const keyCompat = getKeyCompatibility(fromTrack.key, toTrack.key)
+      const keyTransition = analyzeKeyTransition(
+        fromTrack.key,
+        toTrack.key,
+        fromTrack.energy,
+        toTrack.energy
+      )
       const bpmDiff = Math.abs((fromTrack.bpm || 0) - (toTrack.bpm || 0))
       const overallScore = calculateTransitionScore(
         fromTrack.bpm,
@@ -58,7 +75,8 @@ export function useAutoMix() {
       return {
         fromTrack,
         toTrack,
-        keyCompatibility: keyCompat,
+        keyCompatibility: keyTransition.compatibility,
+        keyTechnique: keyTransition.technique,
         bpmDifference: bpmDiff,
         overallScore,
         recommendedCrossfadeDuration: recommendedDuration,
@@ -146,6 +164,12 @@ export function useAutoMix() {
       const track = node.track
       const duration = track.duration
 
+      // An explicit mix-out cue wins
+      const cueMixOut = getCueMixOutPoint(node)
+      if (cueMixOut !== null) {
+        return cueMixOut
+      }
+
       // If there's a preset mix out point, use it
       if (node.transitionToNext?.mixOutPoint) {
         return node.transitionToNext.mixOutPoint
@@ -193,9 +217,10 @@ export function useAutoMix() {
       const node = playlist[trackIndex]
       if (!node) return 0
 
-      // If there's a preset start time (skip intro), use it
-      if (node.startTime) {
-        return node.startTime
+      // If there's a mix-in cue or preset start time (skip intro), use it
+      const mixInTime = getNodeMixInTime(node)
+      if (mixInTime) {
+        return mixInTime
       }
 
       // If there's a preset mix in point, use it
@@ -272,6 +297,37 @@ export function useAutoMix() {
       }))
   }, [playlist])
 
+  /**
+   * Compute an optimized track order without applying it
+   * Locked tracks, segment boundaries and the playing track stay fixed
+   */
+  const optimizeOrder = useCallback(
+    (options: { followArc?: boolean } = {}): OptimizeOrderResult => {
+      const template = options.followArc
+        ? arcTemplates.find((t) => t.id === activeArcTemplate)
+        : undefined
+
+      return optimizePlaylistOrder(playlist, segments, {
+        energyProfile: template?.energyProfile,
+        fixedIndices: player.playingNodeIndex !== null ? [player.playingNodeIndex] : [],
+      })
+    },
+    [playlist, segments, activeArcTemplate, player.playingNodeIndex]
+  )
+
+  /**
+   * Apply an optimized order as a single undoable step
+   */
+  const applyOptimizedOrder = useCallback(
+    (result: OptimizeOrderResult) => {
+      if (!currentSet || !result.changed) return
+
+      pushHistory()
+      setCurrentSet({ ...currentSet, playlist: result.playlist, updatedAt: new Date() })
+    },
+    [currentSet, pushHistory, setCurrentSet]
+  )
+
   return {
     // State
     isEnabled: autoMix.enabled,
@@ -290,6 +346,10 @@ export function useAutoMix() {
     calculateMixInPoint,
     calculateCrossfadeDuration,
 
+    // Ordering
+    optimizeOrder,
+    applyOptimizedOrder,
+
     // Timing
     timeUntilTransition,
 
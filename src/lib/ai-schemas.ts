@@ -0,0 +1,410 @@
+/**
+ * AI Response Schemas
+ *
+ * zod schemas for everything the AI routes parse out of model output.
+ * Parsing coerces fields instead of rejecting them where a sane value exists
+ * (energy clamped to 1-100, BPM to 60-200, keys normalized to standard names);
+ * records missing essentials (title, artist, energy) fail validation.
+ *
+ * Track lists that come back short or with invalid records are repaired with
+ * a targeted re-prompt asking only for the missing/invalid slots. With an
+ * onTrack callback the list is streamed and each slot reported as it validates.
+ */
+
+import { z } from 'zod'
+import type { AIProvider, ValidationRepairReport } from '@/types'
+import { toKeyName } from './music-key'
+import { completeLLMJSON, streamLLM, createArrayItemParser, extractJSON, type LLMRequest } from './llm-providers'
+
+// === COERCION ===
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+// Numbers sometimes arrive as strings ("128", "128 BPM")
+const numeric = z.union([
+  z.number(),
+  z.string().transform((value, ctx) => {
+    const parsed = parseFloat(value)
+    if (!Number.isFinite(parsed)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Not a number: "${value}"` })
+      return z.NEVER
+    }
+    return parsed
+  }),
+]).refine(Number.isFinite, 'Not a finite number')
+
+const energySchema = numeric.transform((v) => clamp(Math.round(v), 1, 100))
+const bpmSchema = numeric.transform((v) => clamp(Math.round(v), 60, 200))
+const durationSchema = numeric.transform((v) => clamp(Math.round(v), 30, 3600))
+const yearSchema = numeric.refine((v) => v >= 1850 && v <= 2100, 'Not a plausible year').transform(Math.round)
+
+// Unrecognized keys are dropped rather than failing the whole track
+const keySchema = z.unknown().transform((value) =>
+  typeof value === 'string' ? toKeyName(value) ?? undefined : undefined
+)
+
+const requiredText = z.string().trim().min(1, 'Required')
+const optionalText = z.string().trim().optional().catch(undefined)
+
+// === SCHEMAS ===
+
+export const aiAlternativeSchema = z.object({
+  title: requiredText,
+  artist: requiredText,
+  bpm: bpmSchema.optional().catch(undefined),
+  key: keySchema,
+  genre: optionalText,
+  energy: energySchema.optional().catch(undefined),
+  duration: durationSchema.optional().catch(undefined),
+  year: yearSchema.optional().catch(undefined),
+  explicit: z.boolean().optional().catch(undefined),
+  whyNotChosen: z.string().catch(''),
+  matchScore: numeric.transform((v) => clamp(Math.round(v), 0, 100)).catch(75),
+})
+
+export const aiTrackSchema = z.object({
+  title: requiredText,
+  artist: requiredText,
+  bpm: bpmSchema.optional().catch(undefined),
+  key: keySchema,
+  genre: optionalText,
+  energy: energySchema,
+  duration: durationSchema.optional().catch(undefined),
+  year: yearSchema.optional().catch(undefined),
+  explicit: z.boolean().optional().catch(undefined),
+  aiReasoning: z.string().catch(''),
+  // Invalid alternatives are dropped, they never fail the main track
+  alternatives: z.array(z.unknown()).catch([]).transform((items) =>
+    items.flatMap((item) => {
+      const result = aiAlternativeSchema.safeParse(item)
+      return result.success ? [result.data] : []
+    })
+  ),
+})
+
+export type AIAlternative = z.output<typeof aiAlternativeSchema>
+export type AITrack = z.output<typeof aiTrackSchema>
+
+export const aiBpmKeyEstimateSchema = z.object({
+  bpm: bpmSchema.catch(120),
+  key: keySchema.transform((key) => key ?? 'Am'),
+  confidence: numeric.transform((v) => clamp(v, 0, 1)).catch(0.5),
+})
+
+export const aiMixtapeMetaSchema = z.object({
+  title: optionalText,
+  subtitle: optionalText,
+  description: optionalText,
+})
+
+export type AIMixtapeMeta = z.output<typeof aiMixtapeMetaSchema>
+
+// One edit from a conversational set-editing plan. Track numbers are 1-based,
+// the way the model sees the set.
+export const aiEditOperationSchema = z.object({
+  type: z.enum(['replace', 'insert', 'remove', 'move', 'energy']),
+  index: numeric.transform(Math.round).optional().catch(undefined),
+  from: numeric.transform(Math.round).optional().catch(undefined),
+  to: numeric.transform(Math.round).optional().catch(undefined),
+  energy: energySchema.optional().catch(undefined),
+  track: aiTrackSchema.optional(),
+  reason: optionalText,
+}).superRefine((operation, ctx) => {
+  const require = (field: 'index' | 'from' | 'to' | 'energy' | 'track') => {
+    if (operation[field] === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `Required for ${operation.type}` })
+    }
+  }
+  if (operation.type === 'move') {
+    require('from')
+    require('to')
+  } else {
+    require('index')
+  }
+  if (operation.type === 'replace' || operation.type === 'insert') require('track')
+  if (operation.type === 'energy') require('energy')
+})
+
+export const aiEditPlanSchema = z.object({
+  summary: z.string().trim().catch(''),
+  // Malformed operations are dropped, the rest of the plan still applies
+  operations: z.array(z.unknown()).catch([]).transform((items) =>
+    items.flatMap((item) => {
+      const result = aiEditOperationSchema.safeParse(item)
+      return result.success ? [result.data] : []
+    })
+  ),
+})
+
+export type AIEditOperation = z.output<typeof aiEditOperationSchema>
+export type AIEditPlan = z.output<typeof aiEditPlanSchema>
+
+// Invalid entries are dropped, so one bad record doesn't sink the whole answer
+const lenientTracks = z.array(z.unknown()).catch([]).transform((items) =>
+  items.flatMap((item) => {
+    const result = aiTrackSchema.safeParse(item)
+    return result.success ? [result.data] : []
+  })
+)
+
+export const aiBridgeSchema = z.object({
+  singles: lenientTracks,
+  pairs: z.array(z.unknown()).catch([]).transform((items) =>
+    items.flatMap((item) => {
+      const result = lenientTracks.safeParse(item)
+      return result.success && result.data.length === 2 ? [result.data] : []
+    })
+  ),
+})
+
+export type AIBridge = z.output<typeof aiBridgeSchema>
+
+// Fields whose values may be rewritten by coercion (counted in repair reports)
+const COERCIBLE_FIELDS = ['energy', 'bpm', 'key', 'duration'] as const
+
+function countCoercions(raw: unknown, parsed: AITrack): number {
+  if (!raw || typeof raw !== 'object') return 0
+  const record = raw as Record<string, unknown>
+  return COERCIBLE_FIELDS.filter((field) =>
+    record[field] !== undefined && record[field] !== parsed[field]
+  ).length
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 3)
+    .map((issue) => `${issue.path.join('.') || 'record'}: ${issue.message}`)
+    .join('; ')
+}
+
+// === VALIDATION ===
+
+export interface TrackListValidation {
+  // One entry per expected slot; null marks a slot that needs repair
+  slots: (AITrack | null)[]
+  // Why each slot failed (missing slots say so)
+  problems: Map<number, string>
+  received: number
+  coerced: number
+}
+
+/**
+ * Validate an AI track array against the expected slot count.
+ * Extra tracks beyond the expected count are discarded.
+ */
+export function validateTrackList(raw: unknown, expectedCount: number): TrackListValidation {
+  const items = Array.isArray(raw) ? raw : []
+  const slots: (AITrack | null)[] = []
+  const problems = new Map<number, string>()
+  let coerced = 0
+
+  for (let i = 0; i < expectedCount; i++) {
+    if (i >= items.length) {
+      slots.push(null)
+      problems.set(i, 'missing from the response')
+      continue
+    }
+
+    const result = aiTrackSchema.safeParse(items[i])
+    if (result.success) {
+      slots.push(result.data)
+      coerced += countCoercions(items[i], result.data)
+    } else {
+      slots.push(null)
+      problems.set(i, formatIssues(result.error))
+    }
+  }
+
+  return { slots, problems, received: items.length, coerced }
+}
+
+/**
+ * Validate a single JSON object against a schema
+ */
+export function validateObject<T extends z.ZodTypeAny>(
+  schema: T,
+  raw: unknown
+): { success: true; data: z.output<T> } | { success: false; error: string } {
+  const result = schema.safeParse(raw)
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: formatIssues(result.error) }
+}
+
+// === REPAIR ===
+
+const describeTrack = (track: AITrack | null) =>
+  track ? `"${track.artist} - ${track.title}" (energy ${track.energy})` : 'another open position'
+
+/**
+ * Prompt asking only for the slots that failed, with their neighbours for context
+ */
+export function buildRepairPrompt(
+  originalPrompt: string,
+  slots: (AITrack | null)[],
+  problems: Map<number, string>
+): string {
+  const badSlots = slots.map((track, index) => (track ? -1 : index)).filter((index) => index >= 0)
+  const chosen = slots.filter((track): track is AITrack => !!track)
+
+  const slotLines = badSlots.map((index) =>
+    `- Position ${index + 1} (after ${index > 0 ? describeTrack(slots[index - 1]) : 'the start of the set'}, ` +
+    `before ${index < slots.length - 1 ? describeTrack(slots[index + 1]) : 'the end of the set'}): ${problems.get(index) || 'invalid'}`
+  )
+
+  return `${originalPrompt}
+
+Your previous answer had problems in ${badSlots.length} position(s):
+${slotLines.join('\n')}
+
+Return ONLY a JSON array of exactly ${badSlots.length} track object(s), one per position above, in the same order.
+Every track needs title, artist and energy (1-100). Do not repeat any of these already chosen tracks:
+${chosen.map((track) => `- ${track.artist} - ${track.title}`).join('\n') || '- (none)'}`
+}
+
+export interface TrackRepairOptions {
+  maxRepairAttempts?: number
+  // Checked before each re-prompt (e.g. to respect a serverless time budget)
+  canRepair?: () => boolean
+  // Streams the response and reports each slot as soon as it validates
+  // (including slots filled by a repair re-prompt)
+  onTrack?: (slot: number, track: AITrack) => void
+}
+
+export interface ValidatedTrackList {
+  tracks: AITrack[]
+  // Null when the response needed no fixing
+  report: ValidationRepairReport | null
+}
+
+/**
+ * Stream a track array, reporting each valid element within the expected
+ * count as soon as the model closes it. Returns the whole parsed array.
+ */
+async function streamTrackArray(
+  provider: AIProvider,
+  request: LLMRequest,
+  expectedCount: number,
+  onTrack: (slot: number, track: AITrack) => void
+): Promise<unknown[]> {
+  const streamed: unknown[] = []
+  const completion = await streamLLM(provider, request, createArrayItemParser((item, index) => {
+    streamed.push(item)
+    if (index >= expectedCount) return
+    const result = aiTrackSchema.safeParse(item)
+    if (result.success) onTrack(index, result.data)
+  }))
+
+  const extracted = extractJSON(completion.text, 'array')
+  if (extracted) return extracted.value as unknown[]
+  if (streamed.length > 0) return streamed
+
+  console.error(`[${provider}] Could not parse streamed JSON (first 500 chars):`, completion.text.substring(0, 500))
+  throw new Error(`${provider} JSON parse failed`)
+}
+
+/**
+ * Request a track list and validate it, re-prompting for missing/invalid slots.
+ * Slots that still fail after the re-prompts are dropped.
+ */
+export async function completeValidatedTracks(
+  provider: AIProvider,
+  request: LLMRequest,
+  expectedCount: number,
+  { maxRepairAttempts = 1, canRepair, onTrack }: TrackRepairOptions = {}
+): Promise<ValidatedTrackList> {
+  const data = onTrack
+    ? await streamTrackArray(provider, request, expectedCount, onTrack)
+    : (await completeLLMJSON<unknown>(provider, request, 'array')).data
+  const validation = validateTrackList(data, expectedCount)
+  const { slots, problems } = validation
+
+  const initiallyBad = slots.filter((track) => !track).length
+  const missing = Math.max(0, expectedCount - validation.received)
+  let coerced = validation.coerced
+  let attempts = 0
+
+  while (slots.some((track) => !track) && attempts < maxRepairAttempts && (!canRepair || canRepair())) {
+    attempts++
+    const badSlots = slots.map((track, index) => (track ? -1 : index)).filter((index) => index >= 0)
+    console.log(`[Validation] ${provider}: re-prompting for ${badSlots.length} slot(s)`)
+
+    try {
+      const repair = await completeLLMJSON<unknown>(provider, {
+        ...request,
+        logLabel: `${request.logLabel || 'AI'}-Repair`,
+        prompt: buildRepairPrompt(request.prompt, slots, problems),
+        maxTokens: Math.min(request.maxTokens ?? 4000, 600 * badSlots.length + 200),
+      }, 'array')
+
+      const repaired = validateTrackList(repair.data, badSlots.length)
+      coerced += repaired.coerced
+      badSlots.forEach((slotIndex, repairIndex) => {
+        const track = repaired.slots[repairIndex]
+        if (track) {
+          slots[slotIndex] = track
+          problems.delete(slotIndex)
+          onTrack?.(slotIndex, track)
+        } else {
+          problems.set(slotIndex, repaired.problems.get(repairIndex) || 'invalid')
+        }
+      })
+    } catch (error) {
+      // Keep whatever validated the first time round
+      console.warn(`[Validation] ${provider}: repair re-prompt failed:`, error instanceof Error ? error.message : error)
+      break
+    }
+  }
+
+  const tracks = slots.filter((track): track is AITrack => !!track)
+  if (tracks.length === 0) {
+    throw new Error(`${provider} returned no valid tracks`)
+  }
+
+  const unresolved = expectedCount - tracks.length
+  const report: ValidationRepairReport | null = initiallyBad === 0 && coerced === 0
+    ? null
+    : {
+        expected: expectedCount,
+        received: validation.received,
+        coerced,
+        invalid: initiallyBad - missing,
+        missing,
+        repaired: initiallyBad - unresolved,
+        unresolved,
+        attempts,
+      }
+
+  if (report) console.log(`[Validation] ${provider}:`, report)
+  return { tracks, report }
+}
+
+/**
+ * Request a single JSON object and validate it, re-prompting once with the
+ * validation errors if it doesn't match the schema
+ */
+export async function completeValidatedObject<T extends z.ZodTypeAny>(
+  provider: AIProvider,
+  request: LLMRequest,
+  schema: T
+): Promise<z.output<T>> {
+  const first = await completeLLMJSON<unknown>(provider, request, 'object')
+  const validation = validateObject(schema, first.data)
+  if (validation.success) return validation.data
+
+  console.log(`[Validation] ${provider}: invalid object (${validation.error}), re-prompting`)
+  const retry = await completeLLMJSON<unknown>(provider, {
+    ...request,
+    logLabel: `${request.logLabel || 'AI'}-Repair`,
+    prompt: `${request.prompt}
+
+Your previous answer was invalid: ${validation.error}
+Return ONLY the corrected JSON object.`,
+  }, 'object')
+
+  const retried = validateObject(schema, retry.data)
+  if (!retried.success) {
+    throw new Error(`${provider} returned invalid data: ${retried.error}`)
+  }
+  return retried.data
+}
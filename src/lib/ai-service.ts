@@ -3,6 +3,10 @@ import type {
   Track,
   GeneratePlaylistRequest,
   SwapTrackRequest,
+  EditSetRequest,
+  SetEditPlan,
+  BridgeTracksRequest,
+  BridgeProposal,
   AIConstraints,
   PlaylistNode
 } from '@/types'
@@ -27,6 +31,21 @@ interface SwapResponse {
   error?: string
 }
 
+interface EditSetResponse {
+  success: boolean
+  plan?: SetEditPlan
+  error?: string
+  code?: string
+}
+
+interface BridgeTracksResponse {
+  success: boolean
+  proposals?: BridgeProposal[]
+  directScore?: number // Score of the transition without a bridge
+  error?: string
+  code?: string
+}
+
 /**
  * Generate a playlist using AI
  */
@@ -81,6 +100,62 @@ export async function swapTrack(request: SwapTrackRequest): Promise<SwapResponse
   }
 }
 
+/**
+ * Turn a natural-language instruction into an edit plan for the set
+ * (preview with diffEditPlan, apply with the store's applySetEditPlan)
+ */
+export async function editSet(request: EditSetRequest): Promise<EditSetResponse> {
+  try {
+    const response = await fetch('/api/ai/edit-set', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    })
+
+    // Error bodies carry a code (e.g. no_credits) the chat panel reacts to
+    const data = await response.json().catch(() => null)
+    if (!data) {
+      throw new Error(`HTTP error! status: ${response.status}`)
+    }
+    return data
+  } catch (error) {
+    console.error('Edit set error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to edit set'
+    }
+  }
+}
+
+/**
+ * Ask for one- or two-track bridges between two neighbours, best first
+ */
+export async function findBridgeTracks(request: BridgeTracksRequest): Promise<BridgeTracksResponse> {
+  try {
+    const response = await fetch('/api/ai/bridge', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    })
+
+    const data = await response.json().catch(() => null)
+    if (!data) {
+      throw new Error(`HTTP error! status: ${response.status}`)
+    }
+    return data
+  } catch (error) {
+    console.error('Bridge tracks error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to find bridge tracks'
+    }
+  }
+}
+
 /**
  * Mock track database for demo/fallback purposes
  * Using real YouTube video IDs for actual playback
@@ -4,7 +4,9 @@ import type {
   Track,
   AIConstraints,
   StreamEvent,
-  GeneratePlaylistRequest
+  GeneratePlaylistRequest,
+  ValidationRepairReport,
+  ComplianceReport
 } from '@/types'
 
 // Error types for better handling
@@ -16,14 +18,27 @@ export interface StreamError {
 }
 
 export interface StreamCallbacks {
+  onJobCreated?: (jobId: string) => void
   onStarted: (providers: AIProvider[]) => void
   onProviderStarted: (provider: AIProvider) => void
+  onTrackGenerated?: (provider: AIProvider, index: number, track: PlaylistNode) => void
   onPrimaryResult: (provider: AIProvider, tracks: PlaylistNode[]) => void
   onAlternativeResult: (provider: AIProvider, tracks: PlaylistNode[]) => void
   onProviderFailed: (provider: AIProvider, error: string) => void
   onTrackEnriched: (provider: AIProvider, index: number, track: Partial<Track>) => void
+  onValidationRepaired?: (provider: AIProvider, report: ValidationRepairReport) => void
+  onTrackVerified?: (provider: AIProvider, index: number, confidence: number, verified: boolean) => void
+  onTrackReplaced?: (
+    provider: AIProvider,
+    index: number,
+    original: { artist: string; title: string },
+    replacement: { artist: string; title: string },
+    source: 'alternative' | 'provider'
+  ) => void
+  onComplianceChecked?: (provider: AIProvider, report: ComplianceReport) => void
   onComplete: (summary: { primary: AIProvider | null; alternatives: AIProvider[]; failed: AIProvider[] }) => void
   onAllFailed: (errors: { provider: AIProvider; error: string }[]) => void
+  onCancelled?: (refunded: boolean) => void
   onError: (error: string, details?: StreamError) => void
 }
 
@@ -37,7 +52,8 @@ export interface StreamGenerateParams {
 
 /**
  * Stream playlist generation from all 3 AI providers
- * Returns a cleanup function to abort the stream
+ * Returns a cleanup function to abort the stream (the server-side job keeps
+ * running; use cancelGenerationJob to stop it)
  */
 export function streamGeneratePlaylist(
   params: {
@@ -48,8 +64,6 @@ export function streamGeneratePlaylist(
   },
   callbacks: StreamCallbacks
 ): () => void {
-  const abortController = new AbortController()
-
   // Build URL with query params
   const url = new URL('/api/ai/generate-stream', window.location.origin)
   url.searchParams.set('prompt', params.prompt)
@@ -61,101 +75,235 @@ export function streamGeneratePlaylist(
     url.searchParams.set('constraints', JSON.stringify(params.constraints))
   }
 
-  // Start the stream
-  const startStream = async () => {
-    try {
-      const response = await fetch(url.toString(), {
-        signal: abortController.signal
-      })
-
-      if (!response.ok) {
-        // Try to parse error response for better error handling
-        try {
-          const errorData = await response.json()
-          const errorDetails: StreamError = {
-            message: errorData.error || `HTTP error: ${response.status}`,
-            code: errorData.code,
-            tier: errorData.tier,
-            creditsRemaining: errorData.creditsRemaining
-          }
-          callbacks.onError(errorDetails.message, errorDetails)
-          return
-        } catch {
-          // If we can't parse JSON, throw generic error
-          throw new Error(`HTTP error: ${response.status}`)
-        }
-      }
+  return followJobStream((signal) => fetch(url.toString(), { signal }), callbacks)
+}
 
-      const reader = response.body?.getReader()
-      if (!reader) {
-        throw new Error('No response body')
-      }
+/**
+ * Stream generation of a single segment (POST, so the segment context can
+ * carry whole tracks). Same job semantics as streamGeneratePlaylist.
+ */
+export function streamGenerateSegment(
+  request: Pick<GeneratePlaylistRequest, 'prompt' | 'constraints' | 'segment'>,
+  callbacks: StreamCallbacks
+): () => void {
+  return followJobStream(
+    (signal) => fetch('/api/ai/generate-stream', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal,
+    }),
+    callbacks
+  )
+}
+
+/**
+ * Reattach to a running (or recently finished) generation job, replaying its
+ * events after lastEventId (0 = from the start)
+ */
+export function resumeGenerationJob(
+  jobId: string,
+  callbacks: StreamCallbacks,
+  lastEventId: number = 0
+): () => void {
+  return followJobStream((signal) => openJobStream(jobId, lastEventId, signal), callbacks, jobId, lastEventId)
+}
+
+/**
+ * Stop a running generation job. The server refunds the credit when no
+ * result was delivered.
+ */
+export async function cancelGenerationJob(jobId: string): Promise<{ success: boolean; refunded: boolean }> {
+  try {
+    const response = await fetch(`/api/ai/jobs/${encodeURIComponent(jobId)}/cancel`, { method: 'POST' })
+    const data = await response.json()
+    return { success: !!data.success, refunded: !!data.refunded }
+  } catch (error) {
+    console.error('[Stream] Cancel failed:', error)
+    return { success: false, refunded: false }
+  }
+}
+
+const MAX_RECONNECTS = 3
+const RECONNECT_DELAY_MS = 1000
+
+const TERMINAL_EVENTS: StreamEvent['event'][] = ['complete', 'all-failed', 'cancelled']
+
+function openJobStream(jobId: string, lastEventId: number, signal: AbortSignal): Promise<Response> {
+  return fetch(`/api/ai/jobs/${encodeURIComponent(jobId)}/stream`, {
+    signal,
+    headers: lastEventId > 0 ? { 'Last-Event-ID': String(lastEventId) } : {},
+  })
+}
+
+/**
+ * Read a generation job's SSE stream and dispatch its events. If the
+ * connection drops before the job finishes, reattach with Last-Event-ID so
+ * no event is lost or delivered twice.
+ */
+function followJobStream(
+  open: (signal: AbortSignal) => Promise<Response>,
+  callbacks: StreamCallbacks,
+  initialJobId?: string,
+  initialLastEventId: number = 0
+): () => void {
+  const abortController = new AbortController()
+  let jobId = initialJobId
+  let lastEventId = initialLastEventId
+  let finished = false
+
+  const dispatch = (eventData: StreamEvent) => {
+    if (eventData.event === 'job-created') jobId = eventData.jobId
+    if (TERMINAL_EVENTS.includes(eventData.event)) finished = true
 
-      const decoder = new TextDecoder()
-      let buffer = ''
+    switch (eventData.event) {
+      case 'job-created':
+        callbacks.onJobCreated?.(eventData.jobId)
+        break
 
-      while (true) {
-        const { done, value } = await reader.read()
+      case 'started':
+        callbacks.onStarted(eventData.providers)
+        break
 
-        if (done) break
+      case 'provider-started':
+        callbacks.onProviderStarted(eventData.provider)
+        break
 
-        buffer += decoder.decode(value, { stream: true })
+      case 'track-generated':
+        callbacks.onTrackGenerated?.(eventData.provider, eventData.index, eventData.track)
+        break
 
-        // Process complete events in buffer
-        const lines = buffer.split('\n')
-        buffer = lines.pop() || '' // Keep incomplete line in buffer
+      case 'primary-result':
+        callbacks.onPrimaryResult(eventData.provider, eventData.tracks)
+        break
 
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const eventData = JSON.parse(line.slice(6)) as StreamEvent
+      case 'alternative-result':
+        callbacks.onAlternativeResult(eventData.provider, eventData.tracks)
+        break
 
-              switch (eventData.event) {
-                case 'started':
-                  callbacks.onStarted(eventData.providers)
-                  break
+      case 'provider-failed':
+        callbacks.onProviderFailed(eventData.provider, eventData.error)
+        break
 
-                case 'provider-started':
-                  callbacks.onProviderStarted(eventData.provider)
-                  break
+      case 'track-enriched':
+        callbacks.onTrackEnriched(eventData.provider, eventData.index, eventData.track)
+        break
 
-                case 'primary-result':
-                  callbacks.onPrimaryResult(eventData.provider, eventData.tracks)
-                  break
+      case 'validation-repaired':
+        callbacks.onValidationRepaired?.(eventData.provider, eventData.report)
+        break
 
-                case 'alternative-result':
-                  callbacks.onAlternativeResult(eventData.provider, eventData.tracks)
-                  break
+      case 'track-verified':
+        callbacks.onTrackVerified?.(eventData.provider, eventData.index, eventData.confidence, eventData.verified)
+        break
 
-                case 'provider-failed':
-                  callbacks.onProviderFailed(eventData.provider, eventData.error)
-                  break
+      case 'track-replaced':
+        callbacks.onTrackReplaced?.(eventData.provider, eventData.index, eventData.original, eventData.replacement, eventData.source)
+        break
 
-                case 'track-enriched':
-                  callbacks.onTrackEnriched(eventData.provider, eventData.index, eventData.track)
-                  break
+      case 'compliance-checked':
+        callbacks.onComplianceChecked?.(eventData.provider, eventData.report)
+        break
 
-                case 'complete':
-                  callbacks.onComplete(eventData.summary)
-                  break
+      case 'complete':
+        callbacks.onComplete(eventData.summary)
+        break
 
-                case 'all-failed':
-                  callbacks.onAllFailed(eventData.errors)
-                  break
-              }
-            } catch (parseError) {
-              console.warn('[Stream] Failed to parse event:', line, parseError)
+      case 'all-failed':
+        callbacks.onAllFailed(eventData.errors)
+        break
+
+      case 'cancelled':
+        callbacks.onCancelled?.(eventData.refunded)
+        break
+    }
+  }
+
+  const readStream = async (response: Response) => {
+    const reader = response.body?.getReader()
+    if (!reader) {
+      throw new Error('No response body')
+    }
+
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let pendingId: number | null = null
+
+    while (true) {
+      const { done, value } = await reader.read()
+
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+
+      // Process complete events in buffer
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || '' // Keep incomplete line in buffer
+
+      for (const line of lines) {
+        if (line.startsWith('id: ')) {
+          pendingId = parseInt(line.slice(4), 10)
+        } else if (line.startsWith('data: ')) {
+          try {
+            const eventData = JSON.parse(line.slice(6)) as StreamEvent
+            if (pendingId !== null && Number.isFinite(pendingId)) lastEventId = pendingId
+            pendingId = null
+            dispatch(eventData)
+          } catch (parseError) {
+            console.warn('[Stream] Failed to parse event:', line, parseError)
+          }
+        }
+      }
+    }
+  }
+
+  const startStream = async () => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = attempt === 0
+          ? await open(abortController.signal)
+          : await openJobStream(jobId!, lastEventId, abortController.signal)
+
+        if (!response.ok) {
+          // Try to parse error response for better error handling
+          try {
+            const errorData = await response.json()
+            const errorDetails: StreamError = {
+              message: errorData.error || `HTTP error: ${response.status}`,
+              code: errorData.code,
+              tier: errorData.tier,
+              creditsRemaining: errorData.creditsRemaining
             }
+            callbacks.onError(errorDetails.message, errorDetails)
+            return
+          } catch {
+            // If we can't parse JSON, throw generic error
+            throw new Error(`HTTP error: ${response.status}`)
           }
         }
+
+        await readStream(response)
+        if (finished || !jobId) return
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+          console.log('[Stream] Aborted')
+          return
+        }
+        if (!jobId || attempt >= MAX_RECONNECTS) {
+          console.error('[Stream] Error:', error)
+          callbacks.onError(error instanceof Error ? error.message : 'Stream error')
+          return
+        }
       }
-    } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
-        console.log('[Stream] Aborted')
+
+      // The connection dropped mid-job: the job is still running server-side
+      if (attempt >= MAX_RECONNECTS) {
+        callbacks.onError('Lost connection to generation')
         return
       }
-      console.error('[Stream] Error:', error)
-      callbacks.onError(error instanceof Error ? error.message : 'Stream error')
+      console.warn('[Stream] Connection lost, reattaching to', jobId, 'after event', lastEventId)
+      await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS * (attempt + 1)))
+      if (abortController.signal.aborted) return
     }
   }
 
@@ -197,6 +345,10 @@ export function generatePlaylistStream(
     let resolved = false
 
     const fullCallbacks: StreamCallbacks = {
+      onJobCreated: (jobId) => {
+        console.log('[Stream] Job created:', jobId)
+        callbacks?.onJobCreated?.(jobId)
+      },
       onStarted: (providers) => {
         console.log('[Stream] Started with providers:', providers)
         callbacks?.onStarted?.(providers)
@@ -205,6 +357,10 @@ export function generatePlaylistStream(
         console.log('[Stream] Provider started:', provider)
         callbacks?.onProviderStarted?.(provider)
       },
+      onTrackGenerated: (provider, index, track) => {
+        console.log('[Stream] Track generated:', provider, index, `${track.track.artist} - ${track.track.title}`)
+        callbacks?.onTrackGenerated?.(provider, index, track)
+      },
       onPrimaryResult: (provider, tracks) => {
         console.log('[Stream] Primary result from:', provider, 'tracks:', tracks.length)
         callbacks?.onPrimaryResult?.(provider, tracks)
@@ -226,6 +382,22 @@ export function generatePlaylistStream(
         console.log('[Stream] Track enriched:', provider, index, track.title)
         callbacks?.onTrackEnriched?.(provider, index, track)
       },
+      onValidationRepaired: (provider, report) => {
+        console.log('[Stream] Validation repaired:', provider, report)
+        callbacks?.onValidationRepaired?.(provider, report)
+      },
+      onTrackVerified: (provider, index, confidence, verified) => {
+        if (!verified) console.log('[Stream] Track unverified:', provider, index, confidence)
+        callbacks?.onTrackVerified?.(provider, index, confidence, verified)
+      },
+      onTrackReplaced: (provider, index, original, replacement, source) => {
+        console.log('[Stream] Track replaced:', provider, index, `${original.artist} - ${original.title}`, '->', `${replacement.artist} - ${replacement.title}`, `(${source})`)
+        callbacks?.onTrackReplaced?.(provider, index, original, replacement, source)
+      },
+      onComplianceChecked: (provider, report) => {
+        console.log('[Stream] Compliance:', provider, `${report.score}%`, report.autoFixed)
+        callbacks?.onComplianceChecked?.(provider, report)
+      },
       onComplete: (summary) => {
         console.log('[Stream] Complete:', summary)
         callbacks?.onComplete?.(summary)
@@ -237,6 +409,13 @@ export function generatePlaylistStream(
           reject(new Error(errors.map(e => `${e.provider}: ${e.error}`).join(', ')))
         }
       },
+      onCancelled: (refunded) => {
+        console.log('[Stream] Cancelled, credit refunded:', refunded)
+        callbacks?.onCancelled?.(refunded)
+        if (!resolved) {
+          reject(new Error('Generation cancelled'))
+        }
+      },
       onError: (error) => {
         console.error('[Stream] Error:', error)
         callbacks?.onError?.(error)
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { getBarSeconds, getCrossfadeBars, getNudgePlaybackRate, planCrossfade } from './beatmatch'
+
+describe('getNudgePlaybackRate', () => {
+  it.each([
+    [128, 128, 1],
+    [128, 100, 1.25], // target 1.28
+    [120, 96, 1.25],
+    [90, 120, 0.75],
+    [140, 70, 2],
+    [112.5, 100, 1], // 1.125 is halfway: prefer the unmodified rate
+  ])('outgoing %d, incoming %d -> %d', (outgoing, incoming, rate) => {
+    expect(getNudgePlaybackRate(outgoing, incoming)).toBe(rate)
+  })
+
+  it('only picks from the available rates', () => {
+    expect(getNudgePlaybackRate(128, 100, [0.5, 1, 2])).toBe(1)
+    expect(getNudgePlaybackRate(128, 100, [])).toBe(1)
+  })
+})
+
+describe('getCrossfadeBars', () => {
+  it('rounds the requested beats to whole bars', () => {
+    expect(getCrossfadeBars(120, 32, 10)).toBe(8)
+    expect(getCrossfadeBars(120, 18, 10)).toBe(5) // 4.5 bars
+  })
+
+  it('falls back to the seconds when no beats are given', () => {
+    expect(getCrossfadeBars(120, undefined, 15)).toBe(8) // 7.5 bars of 2s
+  })
+
+  it('caps at 30 seconds and never goes below one bar', () => {
+    expect(getCrossfadeBars(120, 128, 10)).toBe(15)
+    expect(getCrossfadeBars(120, 1, 10)).toBe(1)
+  })
+})
+
+describe('planCrossfade', () => {
+  const isWholeBars = (seconds: number, bpm: number) => {
+    const bars = seconds / getBarSeconds(bpm)
+    return Math.abs(bars - Math.round(bars)) < 1e-9
+  }
+
+  it('beatmatches close tempos at the normal rate', () => {
+    const plan = planCrossfade({ outgoingBpm: 120, incomingBpm: 121, beats: 16, fallbackSeconds: 10 })
+    expect(plan).toMatchObject({ mode: 'beatmatched', bars: 4, durationSeconds: 8, steps: 64, incomingPlaybackRate: 1 })
+    expect(plan.stepMs).toBeCloseTo(125)
+  })
+
+  it('nudges the incoming deck when a rate closes the gap', () => {
+    const plan = planCrossfade({ outgoingBpm: 125, incomingBpm: 100, fallbackSeconds: 10 })
+    expect(plan.mode).toBe('beatmatched')
+    expect(plan.incomingPlaybackRate).toBe(1.25)
+    expect(plan.incomingEffectiveBpm).toBe(125)
+    expect(isWholeBars(plan.durationSeconds, 125)).toBe(true)
+  })
+
+  it('ramps in whole bars of the outgoing track when tempos cannot be matched', () => {
+    const plan = planCrossfade({ outgoingBpm: 128, incomingBpm: 90, fallbackSeconds: 10 })
+    expect(plan.mode).toBe('ramp')
+    expect(plan.incomingPlaybackRate).toBe(1)
+    expect(plan.bars).toBe(5) // 10s is 5.33 bars at 128 BPM
+    expect(plan.durationSeconds).toBeCloseTo(9.375)
+    expect(isWholeBars(plan.durationSeconds, 128)).toBe(true)
+    expect(plan.stepMs * plan.steps).toBeCloseTo(plan.durationSeconds * 1000)
+  })
+
+  it('ramps in whole bars when only the outgoing BPM is known', () => {
+    const plan = planCrossfade({ outgoingBpm: 124, beats: 32, fallbackSeconds: 10 })
+    expect(plan.mode).toBe('ramp')
+    expect(plan.bars).toBe(8)
+    expect(isWholeBars(plan.durationSeconds, 124)).toBe(true)
+  })
+
+  it('keeps the fallback length when the outgoing BPM is unknown', () => {
+    const plan = planCrossfade({ incomingBpm: 124, fallbackSeconds: 12 })
+    expect(plan).toMatchObject({ mode: 'ramp', bars: 0, durationSeconds: 12, incomingPlaybackRate: 1 })
+  })
+})
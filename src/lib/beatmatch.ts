@@ -0,0 +1,152 @@
+/**
+ * Beatmatched Crossfade Scheduling
+ *
+ * Pure timing maths for AutoMix transitions, kept outside React so it can be
+ * tested on its own. DualYouTubePlayer turns a CrossfadePlan into volume steps
+ * and playback-rate changes on the two YouTube decks.
+ *
+ * The YouTube IFrame API only supports fixed playback rates (0.25 steps), so a
+ * deck can only be nudged when one of those rates lands close to the target tempo.
+ */
+
+export const BEATS_PER_BAR = 4
+
+// Playback rates exposed by the YouTube IFrame API
+export const YOUTUBE_PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2]
+
+// Largest tempo difference (BPM) that still counts as beatmatched after nudging
+export const MAX_BEATMATCH_BPM_GAP = 2
+
+// Volume updates per beat during a beatmatched fade
+const STEPS_PER_BEAT = 4
+
+// Equal-power ramp used when the tempos can't be matched
+const RAMP_STEPS = 50
+
+const MAX_CROSSFADE_SECONDS = 30
+
+export interface CrossfadePlanInput {
+  outgoingBpm?: number
+  incomingBpm?: number
+  // Transition length in beats (Transition.duration)
+  beats?: number
+  // Crossfade length in seconds used when the tempos can't be matched
+  fallbackSeconds: number
+  // Rates reported by player.getAvailablePlaybackRates()
+  availableRates?: number[]
+}
+
+export interface CrossfadePlan {
+  mode: 'beatmatched' | 'ramp'
+  durationSeconds: number
+  bars: number // Whole bars of the outgoing track (0 when its BPM is unknown)
+  steps: number
+  stepMs: number
+  // Playback rate for the incoming deck during the fade
+  incomingPlaybackRate: number
+  // Effective incoming BPM after the rate change (null if unknown)
+  incomingEffectiveBpm: number | null
+}
+
+/**
+ * Length of one bar in seconds
+ */
+export function getBarSeconds(bpm: number, beatsPerBar: number = BEATS_PER_BAR): number {
+  return (60 / bpm) * beatsPerBar
+}
+
+/**
+ * Seconds until the next bar line, assuming the beat grid starts at gridOffset
+ * Returns 0 when already on a bar line
+ */
+export function getSecondsUntilNextBar(
+  currentTime: number,
+  bpm: number,
+  gridOffset: number = 0,
+  beatsPerBar: number = BEATS_PER_BAR
+): number {
+  const barSeconds = getBarSeconds(bpm, beatsPerBar)
+  const elapsed = currentTime - gridOffset
+  if (elapsed <= 0) return -elapsed
+
+  const intoBar = elapsed % barSeconds
+  // Treat tiny remainders as on the bar line (floating point noise)
+  if (intoBar < 0.001 || barSeconds - intoBar < 0.001) return 0
+  return barSeconds - intoBar
+}
+
+/**
+ * Pick the playback rate that brings the incoming tempo closest to the outgoing tempo
+ */
+export function getNudgePlaybackRate(
+  outgoingBpm: number,
+  incomingBpm: number,
+  availableRates: number[] = YOUTUBE_PLAYBACK_RATES
+): number {
+  const target = outgoingBpm / incomingBpm
+  const rates = availableRates.length > 0 ? availableRates : [1]
+
+  return rates.reduce((best, rate) =>
+    Math.abs(rate - target) < Math.abs(best - target) ||
+    // Prefer the unmodified rate on ties
+    (Math.abs(rate - target) === Math.abs(best - target) && rate === 1)
+      ? rate
+      : best
+  )
+}
+
+/**
+ * Whole number of bars for a transition, capped at MAX_CROSSFADE_SECONDS
+ */
+export function getCrossfadeBars(bpm: number, beats: number | undefined, fallbackSeconds: number): number {
+  const barSeconds = getBarSeconds(bpm)
+  const requested = beats && beats > 0
+    ? Math.round(beats / BEATS_PER_BAR)
+    : Math.round(fallbackSeconds / barSeconds)
+  const maxBars = Math.max(1, Math.floor(MAX_CROSSFADE_SECONDS / barSeconds))
+
+  return Math.min(Math.max(1, requested), maxBars)
+}
+
+/**
+ * Build the schedule for a crossfade between two decks
+ *
+ * Beatmatched when both BPMs are known and an available playback rate brings
+ * the incoming deck within MAX_BEATMATCH_BPM_GAP; otherwise the classic
+ * equal-power ramp. Either way the fade lasts whole bars of the outgoing
+ * track when its BPM is known.
+ */
+export function planCrossfade(input: CrossfadePlanInput): CrossfadePlan {
+  const { outgoingBpm, incomingBpm, beats, fallbackSeconds, availableRates } = input
+
+  const bars = outgoingBpm ? getCrossfadeBars(outgoingBpm, beats, fallbackSeconds) : 0
+  const durationSeconds = outgoingBpm ? bars * getBarSeconds(outgoingBpm) : fallbackSeconds
+
+  const ramp: CrossfadePlan = {
+    mode: 'ramp',
+    durationSeconds,
+    bars,
+    steps: RAMP_STEPS,
+    stepMs: (durationSeconds * 1000) / RAMP_STEPS,
+    incomingPlaybackRate: 1,
+    incomingEffectiveBpm: incomingBpm || null,
+  }
+
+  if (!outgoingBpm || !incomingBpm) return ramp
+
+  const rate = getNudgePlaybackRate(outgoingBpm, incomingBpm, availableRates)
+  const effectiveBpm = incomingBpm * rate
+  if (Math.abs(effectiveBpm - outgoingBpm) > MAX_BEATMATCH_BPM_GAP) return ramp
+
+  const steps = bars * BEATS_PER_BAR * STEPS_PER_BEAT
+
+  return {
+    mode: 'beatmatched',
+    durationSeconds,
+    bars,
+    steps,
+    stepMs: (durationSeconds * 1000) / steps,
+    incomingPlaybackRate: rate,
+    incomingEffectiveBpm: effectiveBpm,
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from 'vitest'
+import { buildCorrection, saveBpmKeyCorrection, tallyVotes } from './bpm-key-corrections'
+
+const exec = vi.fn(async (): Promise<unknown[]> => [null, null])
+
+vi.mock('@upstash/redis', () => ({
+  Redis: class {
+    multi() {
+      const tx = { hset: () => tx, hgetall: () => tx, exec }
+      return tx
+    }
+  },
+}))
+
+// The Redis client is created when the module loads
+vi.hoisted(() => {
+  process.env.UPSTASH_REDIS_REST_URL = 'https://redis.test'
+  process.env.UPSTASH_REDIS_REST_TOKEN = 'token'
+})
+
+const same = (a: string, b: string) => a === b
+
+describe('tallyVotes', () => {
+  it('counts agreeing voters', () => {
+    const votes = [
+      { value: 'Am', at: 1 },
+      { value: 'Am', at: 2 },
+      { value: 'C', at: 3 },
+    ]
+    expect(tallyVotes(votes, same)).toEqual({ value: 'Am', votes: 2 })
+  })
+
+  it('keeps the earlier value on a tie', () => {
+    const votes = [
+      { value: 'C', at: 5 },
+      { value: 'Am', at: 1 },
+    ]
+    expect(tallyVotes(votes, same)).toEqual({ value: 'Am', votes: 1 })
+  })
+
+  it('lets a later majority replace a value', () => {
+    const votes = [
+      { value: 'Am', at: 1 },
+      { value: 'Em', at: 2 },
+      { value: 'Em', at: 3 },
+    ]
+    expect(tallyVotes(votes, same)).toEqual({ value: 'Em', votes: 2 })
+  })
+
+  it('returns nothing without votes', () => {
+    expect(tallyVotes([], same)).toBeUndefined()
+  })
+})
+
+describe('buildCorrection', () => {
+  it('treats BPMs within tolerance as agreeing', () => {
+    const correction = buildCorrection(
+      [
+        { value: 128, at: 1 },
+        { value: 127.5, at: 2 },
+        { value: 64, at: 3 },
+      ],
+      []
+    )
+    expect(correction?.bpm).toEqual({ value: 128, votes: 2 })
+    expect(correction?.key).toBeUndefined()
+    expect(correction?.updatedAt).toBe(3)
+  })
+
+  it('is null when nobody voted', () => {
+    expect(buildCorrection([], [])).toBeNull()
+  })
+})
+
+describe('saveBpmKeyCorrection', () => {
+  it('records nothing for a key it cannot read', async () => {
+    const correction = await saveBpmKeyCorrection('Artist', 'Title', 'dj@example.com', { key: 'H#m' })
+    expect(correction).toBeNull()
+    expect(exec).not.toHaveBeenCalled()
+  })
+
+  it('records a readable key', async () => {
+    exec.mockResolvedValueOnce([1, null, { voter: { value: 'Am', at: 1 } }])
+    const correction = await saveBpmKeyCorrection('Artist', 'Title', 'dj@example.com', { key: '8A' })
+    expect(exec).toHaveBeenCalledOnce()
+    expect(correction?.key).toEqual({ value: 'Am', votes: 1 })
+  })
+})
@@ -0,0 +1,206 @@
+/**
+ * BPM/Key Correction Store
+ *
+ * User-submitted BPM and key corrections, shared across all users.
+ * Keyed by normalized artist/title (same identity as the video cache) and
+ * checked by /api/ai/estimate-bpm-key before anything is sent to the AI.
+ *
+ * Every signed-in user has one vote per field: their latest submission. The
+ * stored value is the one most voters agree with, so a single dissenting (or
+ * repeated) submission can't replace a value others have confirmed. Ties keep
+ * the earlier value.
+ *
+ * Votes live in one Redis hash per track and field, keyed by a hash of the
+ * voter's email, so recording a vote is a single atomic HSET.
+ */
+
+import { createHash } from 'crypto'
+import { Redis } from '@upstash/redis'
+import { normalizeTrackIdentity } from './video-cache'
+import { toKeyName } from './music-key'
+
+export interface CorrectedValue<T> {
+  value: T
+  votes: number
+}
+
+// One user's submission for a field
+export interface CorrectionVote<T> {
+  value: T
+  at: number
+}
+
+export interface BpmKeyCorrection {
+  bpm?: CorrectedValue<number>
+  key?: CorrectedValue<string>
+  updatedAt: number
+}
+
+// BPM submissions within this distance count as agreeing
+const BPM_AGREEMENT_TOLERANCE = 1
+
+// Initialize Redis client
+let redis: Redis | null = null
+let correctionsEnabled = false
+
+try {
+  if (process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN) {
+    redis = new Redis({
+      url: process.env.UPSTASH_REDIS_REST_URL,
+      token: process.env.UPSTASH_REDIS_REST_TOKEN,
+    })
+    correctionsEnabled = true
+  }
+} catch (error) {
+  console.warn('[BpmKeyCorrections] Failed to initialize Redis:', error)
+}
+
+type CorrectionField = 'bpm' | 'key'
+
+function getCorrectionKey(artist: string, title: string, field: CorrectionField): string {
+  return `bpmkey:${normalizeTrackIdentity(artist, title)}:${field}`
+}
+
+function getVoterId(email: string): string {
+  return createHash('sha256').update(email.trim().toLowerCase()).digest('hex').slice(0, 16)
+}
+
+// === TALLYING ===
+
+const bpmAgrees = (a: number, b: number) => Math.abs(a - b) <= BPM_AGREEMENT_TOLERANCE
+const keyAgrees = (a: string, b: string) => a === b
+
+/**
+ * Pick the value most voters agree with (earliest submission wins ties)
+ */
+export function tallyVotes<T>(
+  votes: CorrectionVote<T>[],
+  agrees: (a: T, b: T) => boolean
+): CorrectedValue<T> | undefined {
+  let best: { vote: CorrectionVote<T>; support: number } | undefined
+
+  for (const vote of votes) {
+    const support = votes.filter((other) => agrees(vote.value, other.value)).length
+    if (!best || support > best.support || (support === best.support && vote.at < best.vote.at)) {
+      best = { vote, support }
+    }
+  }
+
+  return best && { value: best.vote.value, votes: best.support }
+}
+
+function toVotes<T>(hash: Record<string, CorrectionVote<T>> | null): CorrectionVote<T>[] {
+  return hash ? Object.values(hash) : []
+}
+
+/**
+ * Build a correction from the stored votes of each field (null if nobody voted)
+ */
+export function buildCorrection(
+  bpmVotes: CorrectionVote<number>[],
+  keyVotes: CorrectionVote<string>[]
+): BpmKeyCorrection | null {
+  const all = [...bpmVotes, ...keyVotes]
+  if (all.length === 0) return null
+  return {
+    bpm: tallyVotes(bpmVotes, bpmAgrees),
+    key: tallyVotes(keyVotes, keyAgrees),
+    updatedAt: Math.max(...all.map((vote) => vote.at)),
+  }
+}
+
+/**
+ * Confidence for a corrected value: a single user correction is already
+ * trusted over the AI, and agreement from other users raises it further
+ */
+export function getCorrectionConfidence(votes: number): number {
+  return Math.min(1, 0.85 + 0.05 * Math.max(0, votes - 1))
+}
+
+// === STORE ===
+
+/**
+ * Bulk lookup corrections for tracks (same order as input, null when missing)
+ */
+export async function getBpmKeyCorrections(
+  tracks: { artist: string; title: string }[]
+): Promise<(BpmKeyCorrection | null)[]> {
+  if (!correctionsEnabled || !redis || tracks.length === 0) {
+    return tracks.map(() => null)
+  }
+
+  try {
+    const pipeline = redis.pipeline()
+    for (const t of tracks) {
+      pipeline.hgetall(getCorrectionKey(t.artist, t.title, 'bpm'))
+      pipeline.hgetall(getCorrectionKey(t.artist, t.title, 'key'))
+    }
+    const results = await pipeline.exec<(Record<string, CorrectionVote<unknown>> | null)[]>()
+
+    const corrections = tracks.map((_, i) => buildCorrection(
+      toVotes(results[i * 2] as Record<string, CorrectionVote<number>> | null),
+      toVotes(results[i * 2 + 1] as Record<string, CorrectionVote<string>> | null)
+    ))
+    const hits = corrections.filter(Boolean).length
+    console.log(`[BpmKeyCorrections] Bulk get: ${hits}/${tracks.length} hits`)
+    return corrections
+  } catch (error) {
+    console.error('[BpmKeyCorrections] Error getting corrections:', error)
+    return tracks.map(() => null)
+  }
+}
+
+/**
+ * Record a user's correction for a track. A user's new submission replaces
+ * their earlier vote for that field. Returns null when nothing was recorded
+ * (no store, or neither a BPM nor a readable key to vote for).
+ */
+export async function saveBpmKeyCorrection(
+  artist: string,
+  title: string,
+  voterEmail: string,
+  submission: { bpm?: number; key?: string }
+): Promise<BpmKeyCorrection | null> {
+  if (!correctionsEnabled || !redis) {
+    return null
+  }
+
+  try {
+    const voter = getVoterId(voterEmail)
+    const bpmKey = getCorrectionKey(artist, title, 'bpm')
+    const keyKey = getCorrectionKey(artist, title, 'key')
+    const at = Date.now()
+    const key = submission.key ? toKeyName(submission.key) : null
+    if (!submission.bpm && !key) return null
+
+    // Votes and the tally read run as one transaction
+    // Corrections don't expire - they only get better with more votes
+    const tx = redis.multi()
+    if (submission.bpm) {
+      tx.hset(bpmKey, { [voter]: { value: Math.round(submission.bpm * 10) / 10, at } })
+    }
+    if (key) {
+      tx.hset(keyKey, { [voter]: { value: key, at } })
+    }
+    tx.hgetall(bpmKey)
+    tx.hgetall(keyKey)
+    const results = await tx.exec<unknown[]>()
+
+    const correction = buildCorrection(
+      toVotes(results[results.length - 2] as Record<string, CorrectionVote<number>> | null),
+      toVotes(results[results.length - 1] as Record<string, CorrectionVote<string>> | null)
+    )
+    console.log(`[BpmKeyCorrections] STORED: ${artist} - ${title}`)
+    return correction
+  } catch (error) {
+    console.error('[BpmKeyCorrections] Error saving correction:', error)
+    return null
+  }
+}
+
+/**
+ * Check if the correction store is enabled
+ */
+export function isCorrectionStoreEnabled(): boolean {
+  return correctionsEnabled
+}
@@ -5,22 +5,47 @@
  * This is used for AutoMix feature to calculate transition compatibility.
  */
 
-import type { Track } from '@/types'
-import { keyToCamelot } from './camelot'
+import type { BpmKeySource, Track } from '@/types'
+import { toCamelot } from './music-key'
 
 export interface BpmKeyEstimate {
   bpm: number
   key: string
   camelotCode: string | null
   confidence: number // 0-1
+  source: BpmKeySource
+  verified: boolean // Served from user corrections
 }
 
+// Confidence assigned to genre-table guesses
+const GENRE_FALLBACK_CONFIDENCE = 0.2
+
 export interface BatchEstimateResult {
   success: boolean
   estimates?: Map<number, BpmKeyEstimate> // Map of trackIndex to estimate
   error?: string
 }
 
+/**
+ * Normalize an estimate returned by /api/ai/estimate-bpm-key
+ */
+function toBpmKeyEstimate(estimate: {
+  bpm: number
+  key: string
+  confidence: number
+  source?: BpmKeySource
+  verified?: boolean
+}): BpmKeyEstimate {
+  return {
+    bpm: estimate.bpm,
+    key: estimate.key,
+    camelotCode: toCamelot(estimate.key),
+    confidence: estimate.confidence,
+    source: estimate.source || 'ai',
+    verified: estimate.verified || false,
+  }
+}
+
 /**
  * Estimate BPM and key for a single track via API
  */
@@ -45,13 +70,7 @@ export async function estimateBpmKey(
 
     const data = await response.json()
     if (data.success && data.estimates?.length > 0) {
-      const estimate = data.estimates[0]
-      return {
-        bpm: estimate.bpm,
-        key: estimate.key,
-        camelotCode: keyToCamelot(estimate.key),
-        confidence: estimate.confidence,
-      }
+      return toBpmKeyEstimate(data.estimates[0])
     }
 
     return null
@@ -94,12 +113,7 @@ export async function batchEstimateBpmKey(
     for (let i = 0; i < data.estimates.length; i++) {
       const estimate = data.estimates[i]
       if (estimate && tracks[i]) {
-        estimates.set(tracks[i].index, {
-          bpm: estimate.bpm,
-          key: estimate.key,
-          camelotCode: keyToCamelot(estimate.key),
-          confidence: estimate.confidence,
-        })
+        estimates.set(tracks[i].index, toBpmKeyEstimate(estimate))
       }
     }
 
@@ -110,9 +124,38 @@ export async function batchEstimateBpmKey(
   }
 }
 
+/**
+ * Submit a user correction so future estimations for this track use it
+ * Returns false if the correction could not be stored server-side
+ */
+export async function submitBpmKeyCorrection(
+  title: string,
+  artist: string,
+  correction: { bpm?: number; key?: string }
+): Promise<boolean> {
+  try {
+    const response = await fetch('/api/tracks/bpm-key', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title, artist, ...correction }),
+    })
+
+    if (!response.ok) {
+      console.error('[BPM/Key] Correction failed:', response.status)
+      return false
+    }
+
+    const data = await response.json()
+    return data.success && data.stored
+  } catch (error) {
+    console.error('[BPM/Key] Correction error:', error)
+    return false
+  }
+}
+
 /**
  * Extract tracks that need BPM/key estimation from a playlist
- * Filters out tracks that already have this data
+ * Filters out tracks that already have this data; verified tracks are never re-estimated
  */
 export function getTracksNeedingEstimation(
   playlist: Array<{ track: Track; index?: number }>,
@@ -124,6 +167,7 @@ export function getTracksNeedingEstimation(
       track: node.track,
     }))
     .filter(({ track }) => {
+      if (track.bpmKeyVerified) return false
       if (forceAll) return true
       // Need estimation if missing BPM or key
       return !track.bpm || !track.key
@@ -197,3 +241,16 @@ export function fallbackBpmFromGenre(genre?: string): number {
 
   return 120 // Ultimate fallback
 }
+
+/**
+ * Low-confidence estimate from the genre table, used when the AI is unavailable
+ * Key is left unknown rather than guessed
+ */
+export function getGenreFallbackEstimate(genre?: string): Pick<BpmKeyEstimate, 'bpm' | 'confidence' | 'source' | 'verified'> {
+  return {
+    bpm: fallbackBpmFromGenre(genre),
+    confidence: GENRE_FALLBACK_CONFIDENCE,
+    source: 'genre-fallback',
+    verified: false,
+  }
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { beatsDirectTransition, scoreBridge } from './bridge-tracks'
+import type { Track } from '@/types'
+
+const track = (key: string, bpm: number, energy: number): Track =>
+  ({ id: key, youtubeId: '', title: key, artist: 'Artist', duration: 300, key, bpm, energy } as Track)
+
+describe('scoreBridge', () => {
+  it('scores every hop and averages them', () => {
+    const { score, hopScores } = scoreBridge(track('8A', 124, 50), [track('9A', 126, 60)], track('10A', 128, 70))
+    expect(hopScores).toHaveLength(2)
+    expect(score).toBe(Math.round((hopScores[0] + hopScores[1]) / 2))
+  })
+})
+
+describe('beatsDirectTransition', () => {
+  it('needs every hop above the direct score', () => {
+    expect(beatsDirectTransition([80, 75], 70)).toBe(true)
+    expect(beatsDirectTransition([95, 60], 70)).toBe(false)
+    expect(beatsDirectTransition([80, 70], 70)).toBe(false)
+  })
+
+  it('rejects an empty bridge', () => {
+    expect(beatsDirectTransition([], 0)).toBe(false)
+  })
+})
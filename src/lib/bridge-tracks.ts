@@ -0,0 +1,98 @@
+/**
+ * Bridge Tracks
+ *
+ * A transition that clashes in key or jumps in energy can be fixed without
+ * swapping either side: insert one or two tracks that walk the key around the
+ * Camelot wheel, step the BPM and interpolate the energy. This module plans
+ * those steps (what the bridge should sound like) and scores proposals by
+ * every hop they create. The bridge route only offers a proposal when each of
+ * its hops beats the original transition.
+ */
+
+import type { Track } from '@/types'
+import { analyzeKeyTransition, calculateTransitionScore, getCamelotPath, ENERGY_JUMP_THRESHOLD } from './camelot'
+import { keyFromCamelot, parseKey } from './music-key'
+
+export const MAX_BRIDGE_TRACKS = 2
+
+export interface BridgeStep {
+  key?: string // Classical name (e.g. "Am")
+  camelot?: string
+  bpm?: number
+  energy?: number
+}
+
+export interface BridgeScore {
+  // Mean of every hop through the bridge (0-100)
+  score: number
+  hopScores: number[]
+}
+
+/**
+ * Whether the transition is awkward enough to offer a bridge: a key clash or
+ * a big energy jump
+ */
+export function needsBridge(from: Track, to: Track): boolean {
+  const { compatibility } = analyzeKeyTransition(from.key, to.key, from.energy, to.energy)
+  if (compatibility === 'clash') return true
+  if (from.energy === undefined || to.energy === undefined) return false
+  return Math.abs(from.energy - to.energy) > ENERGY_JUMP_THRESHOLD
+}
+
+function interpolate(from: number | undefined, to: number | undefined, fraction: number): number | undefined {
+  if (from === undefined) return to
+  if (to === undefined) return from
+  return Math.round(from + (to - from) * fraction)
+}
+
+/**
+ * Targets for each of `count` bridge tracks between two tracks
+ */
+export function planBridgeSteps(from: Track, to: Track, count: number): BridgeStep[] {
+  const path = getCamelotPath(from.key, to.key)
+
+  return Array.from({ length: count }, (_, slot) => {
+    const fraction = (slot + 1) / (count + 1)
+    // Spread the slots evenly along the key path
+    const camelot = path.length > 0 ? path[Math.round(fraction * (path.length - 1))] : undefined
+    const parsed = camelot ? parseKey(camelot) : null
+
+    return {
+      key: parsed ? keyFromCamelot(parsed.camelotNumber, parsed.camelotLetter)?.name : undefined,
+      camelot,
+      bpm: interpolate(from.bpm, to.bpm, fraction),
+      energy: interpolate(from.energy, to.energy, fraction),
+    }
+  })
+}
+
+/**
+ * Score the hops from -> bridge... -> to
+ */
+export function scoreBridge(from: Track, bridge: Track[], to: Track): BridgeScore {
+  const chain = [from, ...bridge, to]
+  const hopScores = chain.slice(1).map((track, index) => {
+    const previous = chain[index]
+    return calculateTransitionScore(previous.bpm, track.bpm, previous.key, track.key, previous.energy, track.energy)
+  })
+  const score = Math.round(hopScores.reduce((sum, hop) => sum + hop, 0) / hopScores.length)
+  return { score, hopScores }
+}
+
+/**
+ * Whether every hop of a bridge scores above the direct transition
+ */
+export function beatsDirectTransition(hopScores: number[], directScore: number): boolean {
+  return hopScores.length > 0 && Math.min(...hopScores) > directScore
+}
+
+/**
+ * Human description of a step for prompts and tooltips
+ */
+export function describeBridgeStep(step: BridgeStep): string {
+  return [
+    step.key && `key ${step.key}${step.camelot ? ` (${step.camelot})` : ''}`,
+    step.bpm && `~${step.bpm} BPM`,
+    step.energy !== undefined && `energy ~${step.energy}`,
+  ].filter(Boolean).join(', ') || 'anything that flows'
+}
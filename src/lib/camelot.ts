@@ -8,120 +8,11 @@
  * - 12 positions (1-12) representing the circle of fifths
  * - Two columns: A (minor keys) and B (major keys)
  * - Compatible transitions: same position, ±1 position, or A↔B at same position
+ * - Energy boosts: +2 or +7 positions, compatible when the energy is rising
  */
 
-import type { KeyCompatibility } from '@/types'
-
-// Key to Camelot code mapping
-// Minor keys map to A column, Major keys to B column
-const KEY_TO_CAMELOT: Record<string, string> = {
-  // Minor keys (A column) - all enharmonic equivalents
-  'Abm': '1A', 'G#m': '1A',
-  'Ebm': '2A', 'D#m': '2A',
-  'Bbm': '3A', 'A#m': '3A',
-  'Fm': '4A',
-  'Cm': '5A',
-  'Gm': '6A',
-  'Dm': '7A',
-  'Am': '8A',
-  'Em': '9A',
-  'Bm': '10A',
-  'F#m': '11A', 'Gbm': '11A',
-  'C#m': '12A', 'Dbm': '12A',
-
-  // Major keys (B column) - all enharmonic equivalents
-  'B': '1B', 'Cb': '1B',
-  'F#': '2B', 'Gb': '2B',
-  'Db': '3B', 'C#': '3B',
-  'Ab': '4B', 'G#': '4B',
-  'Eb': '5B', 'D#': '5B',
-  'Bb': '6B', 'A#': '6B',
-  'F': '7B',
-  'C': '8B',
-  'G': '9B',
-  'D': '10B',
-  'A': '11B',
-  'E': '12B',
-}
-
-// Camelot code to key mapping (using the most common notation)
-const CAMELOT_TO_KEY: Record<string, string> = {
-  '1A': 'G#m', '1B': 'B',
-  '2A': 'D#m', '2B': 'F#',
-  '3A': 'A#m', '3B': 'Db',
-  '4A': 'Fm', '4B': 'Ab',
-  '5A': 'Cm', '5B': 'Eb',
-  '6A': 'Gm', '6B': 'Bb',
-  '7A': 'Dm', '7B': 'F',
-  '8A': 'Am', '8B': 'C',
-  '9A': 'Em', '9B': 'G',
-  '10A': 'Bm', '10B': 'D',
-  '11A': 'F#m', '11B': 'A',
-  '12A': 'C#m', '12B': 'E',
-}
-
-/**
- * Normalize a key string to standard notation
- * Handles variations like "A minor", "Am", "A min", "a minor"
- */
-export function normalizeKey(key: string): string {
-  if (!key) return ''
-
-  let cleaned = key.trim()
-
-  // Handle lowercase
-  if (cleaned.length > 0) {
-    cleaned = cleaned.charAt(0).toUpperCase() + cleaned.slice(1)
-  }
-
-  // Handle "sharp" and "flat" words
-  cleaned = cleaned
-    .replace(/\s*sharp/i, '#')
-    .replace(/\s*flat/i, 'b')
-
-  // Handle "minor" and "major" variations
-  cleaned = cleaned
-    .replace(/\s*minor/i, 'm')
-    .replace(/\s*min$/i, 'm')
-    .replace(/\s*maj$/i, '')
-    .replace(/\s*major/i, '')
-
-  // Remove spaces
-  cleaned = cleaned.replace(/\s+/g, '')
-
-  return cleaned
-}
-
-/**
- * Convert a musical key to Camelot wheel notation
- * Returns null if key is not recognized
- */
-export function keyToCamelot(key: string | undefined): string | null {
-  if (!key) return null
-
-  const normalized = normalizeKey(key)
-  return KEY_TO_CAMELOT[normalized] || null
-}
-
-/**
- * Convert Camelot code to musical key
- */
-export function camelotToKey(code: string): string | null {
-  return CAMELOT_TO_KEY[code] || null
-}
-
-/**
- * Parse a Camelot code into its numeric and letter components
- */
-function parseCamelotCode(code: string): { num: number; letter: 'A' | 'B' } | null {
-  const match = code.match(/^(\d{1,2})([AB])$/)
-  if (!match) return null
-
-  const num = parseInt(match[1], 10)
-  if (num < 1 || num > 12) return null
-
-  return { num, letter: match[2] as 'A' | 'B' }
-}
+import type { KeyCompatibility, KeyTechnique } from '@/types'
+import { parseKey, keyFromCamelot } from './music-key'
 
 /**
  * Get all compatible Camelot codes for a given code
@@ -132,10 +23,11 @@ function parseCamelotCode(code: string): { num: number; letter: 'A' | 'B' } | nu
  * 4. Same position, different column (relative major/minor)
  */
 export function getCompatibleCodes(code: string): string[] {
-  const parsed = parseCamelotCode(code)
+  const parsed = parseKey(code)
   if (!parsed) return [code]
 
-  const { num, letter } = parsed
+  const num = parsed.camelotNumber
+  const letter = parsed.camelotLetter
 
   // Calculate adjacent positions (wrapping 1-12)
   const prevNum = num === 1 ? 12 : num - 1
@@ -143,13 +35,44 @@ export function getCompatibleCodes(code: string): string[] {
   const otherLetter = letter === 'A' ? 'B' : 'A'
 
   return [
-    code,                      // Same key
-    `${nextNum}${letter}`,     // +1 position
-    `${prevNum}${letter}`,     // -1 position
-    `${num}${otherLetter}`,    // Relative major/minor
+    parsed.camelot,                          // Same key
+    keyFromCamelot(nextNum, letter)!.camelot, // +1 position
+    keyFromCamelot(prevNum, letter)!.camelot, // -1 position
+    keyFromCamelot(num, otherLetter)!.camelot, // Relative major/minor
   ]
 }
 
+/**
+ * Shortest route between two keys using only compatible moves (±1 position
+ * or relative major/minor), as Camelot codes including both ends.
+ * Returns [] when either key is unknown.
+ */
+export function getCamelotPath(fromKey: string | undefined, toKey: string | undefined): string[] {
+  const start = parseKey(fromKey)?.camelot
+  const goal = parseKey(toKey)?.camelot
+  if (!start || !goal) return []
+
+  // Breadth-first over the 24 wheel positions
+  const previous = new Map<string, string | null>([[start, null]])
+  const queue = [start]
+  while (queue.length > 0) {
+    const code = queue.shift()!
+    if (code === goal) break
+    for (const next of getCompatibleCodes(code)) {
+      if (!previous.has(next)) {
+        previous.set(next, code)
+        queue.push(next)
+      }
+    }
+  }
+
+  const path: string[] = []
+  for (let code: string | null | undefined = goal; code; code = previous.get(code)) {
+    path.unshift(code)
+  }
+  return path
+}
+
 /**
  * Calculate key compatibility between two keys
  * Returns a compatibility level for UI feedback
@@ -161,27 +84,21 @@ export function getKeyCompatibility(
   // If either key is unknown, return compatible (don't warn)
   if (!key1 || !key2) return 'compatible'
 
-  const code1 = keyToCamelot(key1)
-  const code2 = keyToCamelot(key2)
+  const parsed1 = parseKey(key1)
+  const parsed2 = parseKey(key2)
 
-  // If we can't determine Camelot codes, don't warn
-  if (!code1 || !code2) return 'compatible'
+  // If we can't determine the keys, don't warn
+  if (!parsed1 || !parsed2) return 'compatible'
 
   // Same key = perfect
-  if (code1 === code2) return 'perfect'
+  if (parsed1.camelot === parsed2.camelot) return 'perfect'
 
   // Check if in compatible list
-  const compatible = getCompatibleCodes(code1)
-  if (compatible.includes(code2)) return 'compatible'
-
-  // Parse both codes to check distance
-  const parsed1 = parseCamelotCode(code1)
-  const parsed2 = parseCamelotCode(code2)
-
-  if (!parsed1 || !parsed2) return 'compatible'
+  const compatible = getCompatibleCodes(parsed1.camelot)
+  if (compatible.includes(parsed2.camelot)) return 'compatible'
 
   // Calculate circular distance (1-12 wrapping)
-  const diff = Math.abs(parsed1.num - parsed2.num)
+  const diff = Math.abs(parsed1.camelotNumber - parsed2.camelotNumber)
   const circularDiff = Math.min(diff, 12 - diff)
 
   // Within 2 positions is a warning (might work with skill)
@@ -191,6 +108,91 @@ export function getKeyCompatibility(
   return 'clash'
 }
 
+// Minimum energy rise (1-100 scale) for a boost to count as intentional
+const ENERGY_LIFT_THRESHOLD = 5
+
+// Energy change (1-100 scale) between neighbouring tracks that counts as a jump
+export const ENERGY_JUMP_THRESHOLD = 20
+
+export interface KeyTransition {
+  compatibility: KeyCompatibility
+  technique: KeyTechnique
+  // Clockwise steps from the first key to the second (0-11)
+  camelotShift: number
+}
+
+/**
+ * Analyze a key change, recognizing intentional energy-boost techniques
+ *
+ * +2 (energy boost) and +7 (semitone up) jumps are normally flagged as a
+ * warning/clash. When the energy rises by at least ENERGY_LIFT_THRESHOLD they
+ * are treated as a planned lift and scored as compatible.
+ */
+export function analyzeKeyTransition(
+  key1: string | undefined,
+  key2: string | undefined,
+  fromEnergy?: number,
+  toEnergy?: number
+): KeyTransition {
+  const compatibility = getKeyCompatibility(key1, key2)
+  const parsed1 = parseKey(key1)
+  const parsed2 = parseKey(key2)
+
+  if (!parsed1 || !parsed2) {
+    return { compatibility, technique: 'none', camelotShift: 0 }
+  }
+
+  const camelotShift = (parsed2.camelotNumber - parsed1.camelotNumber + 12) % 12
+  const sameLetter = parsed1.camelotLetter === parsed2.camelotLetter
+
+  let technique: KeyTechnique = 'none'
+  if (sameLetter && camelotShift === 0) technique = 'same-key'
+  else if (!sameLetter && camelotShift === 0) technique = 'mood-shift'
+  else if (sameLetter && (camelotShift === 1 || camelotShift === 11)) technique = 'adjacent'
+  else if (sameLetter && camelotShift === 2) technique = 'energy-boost'
+  else if (sameLetter && camelotShift === 7) technique = 'semitone-up'
+
+  if (technique !== 'energy-boost' && technique !== 'semitone-up') {
+    return { compatibility, technique, camelotShift }
+  }
+
+  // Without energy data we can't tell a planned lift from a mistake
+  if (fromEnergy === undefined || toEnergy === undefined) {
+    return { compatibility, technique, camelotShift }
+  }
+
+  const energyDelta = toEnergy - fromEnergy
+  if (energyDelta >= ENERGY_LIFT_THRESHOLD) {
+    return { compatibility: 'compatible', technique, camelotShift }
+  }
+  if (energyDelta >= 0) {
+    return { compatibility: 'warning', technique, camelotShift }
+  }
+
+  // Boosting the key while the energy drops works against the arc
+  return { compatibility, technique, camelotShift }
+}
+
+/**
+ * Get a human-readable name for a key technique
+ */
+export function getKeyTechniqueLabel(technique: KeyTechnique): string {
+  switch (technique) {
+    case 'same-key':
+      return 'Same Key'
+    case 'adjacent':
+      return 'Adjacent Key'
+    case 'mood-shift':
+      return 'Mood Shift'
+    case 'energy-boost':
+      return 'Energy Boost (+2)'
+    case 'semitone-up':
+      return 'Semitone Up (+7)'
+    default:
+      return 'Key Change'
+  }
+}
+
 /**
  * Get color for key compatibility indicator
  */
@@ -269,7 +271,7 @@ export function calculateTransitionScore(
 ): number {
   const bpmScore = calculateBpmMatchScore(fromBpm, toBpm)
 
-  const keyCompat = getKeyCompatibility(fromKey, toKey)
+  const keyCompat = analyzeKeyTransition(fromKey, toKey, fromEnergy, toEnergy).compatibility
   const keyScore: Record<KeyCompatibility, number> = {
     perfect: 100,
     compatible: 85,
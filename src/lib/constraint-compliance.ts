@@ -0,0 +1,362 @@
+/**
+ * Constraint Compliance Engine
+ *
+ * AIConstraints only reach the AI as prompt text, so nothing guarantees the
+ * output obeys them. This module checks a playlist deterministically: each
+ * enabled rule is tested per track and every violation is listed with the
+ * node it belongs to. Violations can be repaired by promoting a compliant
+ * alternative; the generate route additionally asks the provider for targeted
+ * swaps (see buildComplianceRepairPrompt).
+ *
+ * The constraints drawer imports this too, so it must stay free of
+ * server-only imports (Redis, provider SDKs).
+ */
+
+import type {
+  AIConstraints,
+  AlternativeTrack,
+  ComplianceReport,
+  ConstraintRule,
+  ConstraintViolation,
+  PlaylistNode,
+  SegmentContext,
+  Track,
+} from '@/types'
+
+// === MATCHING ===
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// Whole-word containment, so "Drake feat. Future" matches "Drake" but "Drakeo" doesn't
+function containsTerm(text: string, term: string): boolean {
+  const haystack = normalize(text)
+  const needle = normalize(term)
+  return !!needle && ` ${haystack} `.includes(` ${needle} `)
+}
+
+// Lead artist without featured/collab credits
+function primaryArtist(artist: string): string {
+  return normalize(artist.split(/\s+(?:feat\.?|ft\.?|featuring|with|x|vs\.?)\s+|\s*[,&]\s*/i)[0] || artist)
+}
+
+const trackGenres = (track: Track) => [track.genre, ...(track.genres || [])].filter((g): g is string => !!g)
+
+// '80s' -> 1980, '00s' -> 2000, '1950s' -> 1950
+function decadeStart(decade: string): number | null {
+  const full = decade.match(/^(\d{4})s$/)
+  if (full) return parseInt(full[1], 10)
+  const short = decade.match(/^(\d{2})s$/)
+  if (!short) return null
+  const value = parseInt(short[1], 10)
+  return value >= 30 ? 1900 + value : 2000 + value
+}
+
+const MAIN_DECADES = ['80s', '90s', '00s', '10s', '20s']
+
+// The default (all five recent decades) means "no era preference", as in the prompt builder
+function hasDecadeFilter(decades: string[] | undefined): decades is string[] {
+  if (!decades || decades.length === 0) return false
+  return !(decades.length === MAIN_DECADES.length && MAIN_DECADES.every((d) => decades.includes(d)))
+}
+
+// Max tracks per lead artist for an artistDiversity setting (null = no limit)
+function maxTracksPerArtist(artistDiversity: number | undefined): number | null {
+  if (artistDiversity === undefined) return null
+  if (artistDiversity > 70) return 1
+  if (artistDiversity > 40) return 2
+  return null
+}
+
+const blocksExplicit = (constraints: AIConstraints) =>
+  !!constraints.avoidExplicit || constraints.contentMode === 'clean' || constraints.contentMode === 'family'
+
+/**
+ * Constraints for a segment: its own energy range, decades, genre exclusions
+ * and explicit setting override the set-wide ones
+ */
+export function mergeSegmentConstraints(constraints: AIConstraints | undefined, segment?: SegmentContext): AIConstraints {
+  const base = constraints || {}
+  if (!segment) return base
+  const { energyRange, activeDecades, avoidGenres, avoidExplicit } = segment.constraints
+  return {
+    ...base,
+    ...(energyRange && { energyRange }),
+    ...(activeDecades?.length && { activeDecades }),
+    ...(avoidGenres?.length && { avoidGenres: [...(base.avoidGenres || []), ...avoidGenres] }),
+    ...(avoidExplicit && { avoidExplicit }),
+  }
+}
+
+// === RULES ===
+
+/**
+ * Rules the given constraints actually enable
+ */
+export function getEnabledRules(constraints: AIConstraints): ConstraintRule[] {
+  const rules: ConstraintRule[] = []
+  if ((constraints.blacklist?.length || 0) + (constraints.excludeArtists?.length || 0) + (constraints.avoidArtists?.length || 0) > 0) {
+    rules.push('excluded-artist')
+  }
+  if ((constraints.blacklist?.length || 0) + (constraints.avoidGenres?.length || 0) > 0) {
+    rules.push('excluded-genre')
+  }
+  if (constraints.energyRange) rules.push('energy-range')
+  if (constraints.energyPreset && constraints.energyPreset !== 'custom') rules.push('energy-preset')
+  if (hasDecadeFilter(constraints.activeDecades)) rules.push('decade')
+  if (blocksExplicit(constraints)) rules.push('explicit')
+  if (maxTracksPerArtist(constraints.artistDiversity) !== null) rules.push('artist-diversity')
+  return rules
+}
+
+type TrackViolation = Omit<ConstraintViolation, 'nodeIndex'>
+
+/**
+ * Check one track against every per-track rule (everything except artist diversity).
+ * `previous` is the track before it in the set, used by the BPM ramp preset.
+ */
+export function checkTrackRules(track: Track, constraints: AIConstraints, previous?: Track): TrackViolation[] {
+  const violations: TrackViolation[] = []
+
+  const blockedArtists = [...(constraints.blacklist || []), ...(constraints.excludeArtists || []), ...(constraints.avoidArtists || [])]
+  const blockedArtist = blockedArtists.find((term) => containsTerm(track.artist, term))
+  if (blockedArtist) {
+    violations.push({ rule: 'excluded-artist', severity: 'error', message: `${track.artist} is excluded ("${blockedArtist}")` })
+  }
+
+  const blockedGenres = [...(constraints.blacklist || []), ...(constraints.avoidGenres || [])]
+  const genres = trackGenres(track)
+  const blockedGenre = blockedGenres.find((term) => genres.some((genre) => containsTerm(genre, term)))
+  if (blockedGenre) {
+    violations.push({ rule: 'excluded-genre', severity: 'error', message: `Genre "${blockedGenre}" is excluded` })
+  }
+
+  const energy = track.energy
+  if (constraints.energyRange && energy !== undefined) {
+    const { min, max } = constraints.energyRange
+    if (energy < min || energy > max) {
+      violations.push({ rule: 'energy-range', severity: 'warning', message: `Energy ${energy} is outside ${min}-${max}` })
+    }
+  }
+
+  if (energy !== undefined) {
+    switch (constraints.energyPreset) {
+      case 'no-slow-songs':
+        if (energy < 50) violations.push({ rule: 'energy-preset', severity: 'warning', message: `Energy ${energy} is too slow (no slow songs)` })
+        break
+      case 'keep-it-mellow':
+        if (energy > 60) violations.push({ rule: 'energy-preset', severity: 'warning', message: `Energy ${energy} is too intense to keep it mellow` })
+        break
+      case 'mid-tempo-groove':
+        if (energy < 60 || energy > 75) violations.push({ rule: 'energy-preset', severity: 'warning', message: `Energy ${energy} is outside the 60-75 groove` })
+        break
+      case 'bpm-ramp': {
+        const drop = previous?.energy !== undefined ? previous.energy - energy : 0
+        if (drop > 10) violations.push({ rule: 'energy-preset', severity: 'warning', message: `Energy drops by ${drop} during a ramp` })
+        break
+      }
+    }
+  }
+
+  if (hasDecadeFilter(constraints.activeDecades) && track.releaseYear) {
+    const year = track.releaseYear
+    const inDecade = constraints.activeDecades.some((decade) => {
+      const start = decadeStart(decade)
+      return start !== null && year >= start && year < start + 10
+    })
+    if (!inDecade) {
+      violations.push({ rule: 'decade', severity: 'warning', message: `Released ${year}, outside ${constraints.activeDecades.join(', ')}` })
+    }
+  }
+
+  if (blocksExplicit(constraints) && track.isExplicit) {
+    violations.push({ rule: 'explicit', severity: 'error', message: 'Explicit track in a clean set' })
+  }
+
+  return violations
+}
+
+/**
+ * Score a playlist against its constraints and list every violation
+ */
+export function checkCompliance(nodes: PlaylistNode[], constraints: AIConstraints): ComplianceReport {
+  const violations: ConstraintViolation[] = []
+
+  nodes.forEach((node, index) => {
+    checkTrackRules(node.track, constraints, nodes[index - 1]?.track).forEach((violation) => {
+      violations.push({ ...violation, nodeIndex: index })
+    })
+  })
+
+  // Artist diversity: every appearance past the allowed count is a violation
+  const limit = maxTracksPerArtist(constraints.artistDiversity)
+  if (limit !== null) {
+    const seen = new Map<string, number>()
+    nodes.forEach((node, index) => {
+      const artist = primaryArtist(node.track.artist)
+      const count = (seen.get(artist) || 0) + 1
+      seen.set(artist, count)
+      if (count > limit) {
+        violations.push({
+          rule: 'artist-diversity',
+          nodeIndex: index,
+          severity: 'warning',
+          message: `${node.track.artist} appears ${count} times (max ${limit})`,
+        })
+      }
+    })
+  }
+
+  violations.sort((a, b) => a.nodeIndex - b.nodeIndex)
+  const violatingNodes = new Set(violations.map((v) => v.nodeIndex)).size
+  const compliantTracks = nodes.length - violatingNodes
+
+  return {
+    score: nodes.length > 0 ? Math.round((compliantTracks / nodes.length) * 100) : 100,
+    totalTracks: nodes.length,
+    compliantTracks,
+    checkedRules: getEnabledRules(constraints),
+    violations,
+  }
+}
+
+// === REPAIR ===
+
+/**
+ * Swap a node's track for one of its alternatives; the old track becomes an
+ * alternative so the swap can be reversed from the session view
+ */
+export function promoteAlternative(node: PlaylistNode, alternativeIndex: number, reason: string): PlaylistNode {
+  const alternatives = node.alternatives || []
+  const { whyNotChosen, matchScore: _matchScore, ...alternative } = alternatives[alternativeIndex]
+
+  const demoted: AlternativeTrack = { ...node.track, whyNotChosen: reason }
+  return {
+    ...node,
+    track: { ...alternative, aiReasoning: whyNotChosen || node.track.aiReasoning },
+    alternatives: [...alternatives.filter((_, index) => index !== alternativeIndex), demoted],
+  }
+}
+
+export interface ComplianceFixResult {
+  nodes: PlaylistNode[]
+  fixed: number[] // node indices that were swapped
+}
+
+/**
+ * Replace violating tracks with their first fully compliant alternative.
+ * Locked nodes are never touched.
+ */
+export function fixFromAlternatives(nodes: PlaylistNode[], constraints: AIConstraints): ComplianceFixResult {
+  const result = nodes.slice()
+  const fixed: number[] = []
+  const limit = maxTracksPerArtist(constraints.artistDiversity)
+  const violations = checkCompliance(nodes, constraints).violations
+  const violatingIndices = Array.from(new Set(violations.map((v) => v.nodeIndex)))
+
+  for (const index of violatingIndices) {
+    const node = result[index]
+    if (node.isLocked || !node.alternatives?.length) continue
+
+    const otherArtists = result.filter((_, i) => i !== index).map((other) => primaryArtist(other.track.artist))
+    const alternativeIndex = node.alternatives.findIndex((alternative) => {
+      if (checkTrackRules(alternative, constraints, result[index - 1]?.track).length > 0) return false
+      if (limit === null) return true
+      const artist = primaryArtist(alternative.artist)
+      return otherArtists.filter((other) => other === artist).length < limit
+    })
+    if (alternativeIndex < 0) continue
+
+    const reasons = violations.filter((v) => v.nodeIndex === index).map((v) => v.message)
+    result[index] = promoteAlternative(node, alternativeIndex, `Broke set constraints: ${reasons.join('; ')}`)
+    fixed.push(index)
+  }
+
+  return { nodes: result, fixed }
+}
+
+/**
+ * Prompt asking the provider for compliant replacements at specific positions
+ */
+export function buildComplianceRepairPrompt(
+  originalPrompt: string,
+  nodes: PlaylistNode[],
+  violations: ConstraintViolation[]
+): string {
+  const indices = Array.from(new Set(violations.map((v) => v.nodeIndex))).sort((a, b) => a - b)
+  const positionLines = indices.map((index) => {
+    const track = nodes[index].track
+    const reasons = violations.filter((v) => v.nodeIndex === index).map((v) => v.message).join('; ')
+    return `- Position ${index + 1}: "${track.artist} - ${track.title}" (energy ${track.energy ?? '?'}) - ${reasons}`
+  })
+  const kept = nodes.filter((_, index) => !indices.includes(index))
+
+  return `${originalPrompt}
+
+These tracks break the set's constraints:
+${positionLines.join('\n')}
+
+Return ONLY a JSON array of exactly ${indices.length} replacement track(s), one per position above and in the same order, that fix the listed problems while keeping a similar energy and style.
+Do not repeat any of these tracks:
+${kept.map((node) => `- ${node.track.artist} - ${node.track.title}`).join('\n') || '- (none)'}`
+}
+
+export interface ComplianceEnforcement {
+  nodes: PlaylistNode[]
+  report: ComplianceReport
+}
+
+/**
+ * Check a generated playlist and repair what breaks the constraints: compliant
+ * alternatives first, then (if `requestSwaps` is given) fresh tracks for the
+ * remaining positions, one per violating node in index order. Swaps that
+ * still break a rule are discarded.
+ */
+export async function enforceCompliance(
+  nodes: PlaylistNode[],
+  constraints: AIConstraints,
+  requestSwaps?: (nodes: PlaylistNode[], violations: ConstraintViolation[]) => Promise<PlaylistNode[]>
+): Promise<ComplianceEnforcement> {
+  const initial = checkCompliance(nodes, constraints)
+  if (initial.violations.length === 0) return { nodes, report: initial }
+
+  const fromAlternatives = fixFromAlternatives(nodes, constraints)
+  let result = fromAlternatives.nodes
+  let fromProvider = 0
+
+  const remaining = checkCompliance(result, constraints).violations
+  if (remaining.length > 0 && requestSwaps) {
+    const indices = Array.from(new Set(remaining.map((v) => v.nodeIndex))).filter((index) => !result[index].isLocked)
+    try {
+      const swaps = indices.length > 0
+        ? await requestSwaps(result, remaining.filter((v) => indices.includes(v.nodeIndex)))
+        : []
+      swaps.slice(0, indices.length).forEach((swap, i) => {
+        const index = indices[i]
+        const candidate = result.slice()
+        candidate[index] = { ...result[index], track: swap.track, alternatives: swap.alternatives }
+        if (!checkCompliance(candidate, constraints).violations.some((v) => v.nodeIndex === index)) {
+          result = candidate
+          fromProvider++
+        }
+      })
+    } catch (error) {
+      console.warn('[Compliance] Requesting swaps failed:', error instanceof Error ? error.message : error)
+    }
+  }
+
+  const report: ComplianceReport = {
+    ...checkCompliance(result, constraints),
+    autoFixed: { fromAlternatives: fromAlternatives.fixed.length, fromProvider },
+  }
+  console.log(`[Compliance] score ${initial.score} -> ${report.score}`, report.autoFixed)
+  return { nodes: result, report }
+}
@@ -0,0 +1,146 @@
+/**
+ * Cue Points & Beat Grid Utilities
+ *
+ * Nodes can carry named hot cues, a loop, and explicit mix-in / mix-out
+ * markers. Times are always seconds from the start of the track.
+ * Tap tempo produces a rough beat grid (BPM + first beat) that cues can snap to.
+ */
+
+import type { BeatGrid, Cue, CueType, PlaylistNode } from '@/types'
+
+export const MAX_HOT_CUES = 8
+
+// Rekordbox/Serato-style hot cue palette (A-H)
+export const HOT_CUE_COLORS = [
+  '#ef4444', '#f97316', '#eab308', '#22c55e', '#06b6d4', '#3b82f6', '#a855f7', '#ec4899',
+]
+
+export const CUE_TYPE_LABELS: Record<CueType, string> = {
+  hot: 'Hot Cue',
+  loop: 'Loop',
+  'mix-in': 'Mix In',
+  'mix-out': 'Mix Out',
+}
+
+// Taps further apart than this start a new tap sequence
+const TAP_RESET_MS = 2000
+const MIN_TAPS = 4
+
+// === CUE LISTS ===
+
+/**
+ * Create a cue with a generated id
+ */
+export function createCue(type: CueType, time: number, extra: Partial<Cue> = {}): Cue {
+  return {
+    id: `cue-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    time: Math.max(0, time),
+    ...extra,
+  }
+}
+
+/**
+ * Sort cues by time
+ */
+export function sortCues(cues: Cue[]): Cue[] {
+  return [...cues].sort((a, b) => a.time - b.time)
+}
+
+/**
+ * Add or replace a cue. Mix-in, mix-out and loop are single-instance per track;
+ * hot cues are limited to MAX_HOT_CUES.
+ */
+export function upsertCue(cues: Cue[], cue: Cue): Cue[] {
+  if (cue.type === 'hot') {
+    const hotCues = cues.filter((c) => c.type === 'hot')
+    if (hotCues.length >= MAX_HOT_CUES && !hotCues.some((c) => c.id === cue.id)) return cues
+    return sortCues([...cues.filter((c) => c.id !== cue.id), cue])
+  }
+  return sortCues([...cues.filter((c) => c.type !== cue.type), cue])
+}
+
+/**
+ * Next free hot cue label (A-H), or null if all are used
+ */
+export function getNextHotCueLabel(cues: Cue[]): string | null {
+  const used = new Set(cues.filter((c) => c.type === 'hot').map((c) => c.label))
+  for (let i = 0; i < MAX_HOT_CUES; i++) {
+    const label = String.fromCharCode(65 + i)
+    if (!used.has(label)) return label
+  }
+  return null
+}
+
+/**
+ * Color for a hot cue label (A-H)
+ */
+export function getHotCueColor(label: string | undefined): string {
+  const index = label ? label.charCodeAt(0) - 65 : 0
+  return HOT_CUE_COLORS[index] || HOT_CUE_COLORS[0]
+}
+
+export function getCue(node: PlaylistNode, type: CueType): Cue | undefined {
+  return node.cues?.find((c) => c.type === type)
+}
+
+// === MIX POINTS ===
+
+/**
+ * Where playback of a node should begin when it is mixed in (seconds from start)
+ * Priority: mix-in cue, then startTime
+ */
+export function getNodeMixInTime(node: PlaylistNode): number {
+  return getCue(node, 'mix-in')?.time ?? node.startTime ?? 0
+}
+
+/**
+ * Mix-out point from the mix-out cue, as seconds before the end of the track
+ * (the same convention as Transition.mixOutPoint). Null if there is no usable cue.
+ */
+export function getCueMixOutPoint(node: PlaylistNode, duration: number = node.track.duration): number | null {
+  const cue = getCue(node, 'mix-out')
+  if (!cue || !duration || cue.time >= duration) return null
+  return duration - cue.time
+}
+
+// === BEAT GRID ===
+
+/**
+ * Estimate BPM from tap timestamps (ms). Uses the most recent run of taps.
+ * Returns null until enough taps have been collected.
+ */
+export function calculateTapBpm(taps: number[]): number | null {
+  const recent: number[] = []
+  for (let i = taps.length - 1; i >= 0; i--) {
+    if (recent.length > 0 && recent[0] - taps[i] > TAP_RESET_MS) break
+    recent.unshift(taps[i])
+  }
+  if (recent.length < MIN_TAPS) return null
+
+  // Average interval across the whole run smooths out individual tap jitter
+  const interval = (recent[recent.length - 1] - recent[0]) / (recent.length - 1)
+  if (interval <= 0) return null
+
+  return Math.round((60000 / interval) * 10) / 10
+}
+
+/**
+ * Build a beat grid from a BPM and a track time that falls on a beat
+ * The first beat is folded back to the earliest beat at or after 0
+ */
+export function createBeatGrid(bpm: number, beatTime: number): BeatGrid {
+  const beatSeconds = 60 / bpm
+  const firstBeat = ((beatTime % beatSeconds) + beatSeconds) % beatSeconds
+  return { bpm, firstBeat: Math.round(firstBeat * 1000) / 1000 }
+}
+
+/**
+ * Snap a time to the nearest beat of the grid
+ */
+export function snapToBeat(time: number, grid: BeatGrid | undefined): number {
+  if (!grid || !grid.bpm) return time
+  const beatSeconds = 60 / grid.bpm
+  const beats = Math.round((time - grid.firstBeat) / beatSeconds)
+  return Math.max(0, Math.round((grid.firstBeat + beats * beatSeconds) * 1000) / 1000)
+}
@@ -0,0 +1,129 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'fs'
+import path from 'path'
+import { describe, expect, it } from 'vitest'
+import { generateRekordboxXML, transformToExportTracks } from './dj-export'
+import { parseRekordboxXML } from './dj-import'
+import type { PlaylistNode } from '@/types'
+
+const FIXTURE = readFileSync(path.join(__dirname, '__fixtures__/rekordbox-export.xml'), 'utf8')
+
+const nodes: PlaylistNode[] = [
+  {
+    id: 'n1',
+    position: 0,
+    targetEnergy: 40,
+    startTime: 16,
+    track: {
+      id: 't1',
+      youtubeId: 'abc123def45',
+      title: 'Opening',
+      artist: 'First Artist',
+      duration: 300,
+      bpm: 124,
+      key: 'Am',
+      genre: 'House',
+      aiReasoning: 'Warm start',
+    },
+    cues: [
+      { id: 'c1', type: 'hot', time: 32, label: 'A' },
+      { id: 'c2', type: 'loop', time: 64, endTime: 71.75 },
+      { id: 'c3', type: 'mix-out', time: 280 },
+    ],
+  },
+  {
+    id: 'n2',
+    position: 1,
+    targetEnergy: 70,
+    track: {
+      id: 't2',
+      youtubeId: 'ghi789jkl01',
+      title: 'Peak & "Drive"',
+      artist: 'Second <Artist>',
+      duration: 245,
+      bpm: 126,
+      key: '8B',
+      genres: ['Techno', 'Acid'],
+    },
+    transitionToNext: { quality: 'good', type: 'crossfade', duration: 16, mixOutPoint: 20 },
+  },
+  {
+    id: 'n3',
+    position: 2,
+    targetEnergy: 30,
+    track: {
+      id: 't3',
+      youtubeId: '',
+      title: 'Closer',
+      artist: 'Third Artist',
+      duration: 200,
+    },
+  },
+]
+
+function generate(): string {
+  return generateRekordboxXML(transformToExportTracks(nodes), 'Fixture Set')
+}
+
+function attributes(el: Element): Record<string, string> {
+  return Object.fromEntries(Array.from(el.attributes).map((a) => [a.name, a.value]))
+}
+
+describe('generateRekordboxXML', () => {
+  it('matches the committed fixture', () => {
+    expect(generate()).toBe(FIXTURE.trimEnd())
+  })
+
+  it('writes well-formed DJ_PLAYLISTS XML with track attributes', () => {
+    const doc = new DOMParser().parseFromString(generate(), 'application/xml')
+    expect(doc.getElementsByTagName('parsererror')).toHaveLength(0)
+
+    const collection = doc.getElementsByTagName('COLLECTION')[0]
+    expect(collection.getAttribute('Entries')).toBe('3')
+
+    const tracks = Array.from(collection.getElementsByTagName('TRACK'))
+    expect(tracks.map((t) => attributes(t))).toMatchObject([
+      { TrackID: '1', Name: 'Opening', Artist: 'First Artist', AverageBpm: '124.00', Tonality: 'Am', TotalTime: '300', Location: 'https://youtube.com/watch?v=abc123def45' },
+      { TrackID: '2', Name: 'Peak & "Drive"', Artist: 'Second <Artist>', AverageBpm: '126.00', Tonality: 'C', Genre: 'Techno, Acid' },
+      { TrackID: '3', Name: 'Closer', AverageBpm: '0.00', Location: '' },
+    ])
+  })
+
+  it('writes cues and loops as POSITION_MARKs', () => {
+    const doc = new DOMParser().parseFromString(generate(), 'application/xml')
+    const [first, second, third] = Array.from(doc.getElementsByTagName('COLLECTION')[0].getElementsByTagName('TRACK'))
+    const marks = (track: Element) => Array.from(track.getElementsByTagName('POSITION_MARK')).map(attributes)
+
+    expect(marks(first)).toEqual([
+      { Name: 'Mix In', Type: '0', Start: '16.000', Num: '-1' },
+      { Name: 'A', Type: '0', Start: '32.000', Num: '-1' },
+      { Name: 'Loop', Type: '4', Start: '64.000', End: '71.750', Num: '-1' },
+      { Name: 'Mix Out', Type: '0', Start: '280.000', Num: '-1' },
+    ])
+    // Mix-out from the transition: seconds before the end
+    expect(marks(second)).toEqual([
+      { Name: 'Mix In', Type: '0', Start: '0.000', Num: '-1' },
+      { Name: 'Mix Out', Type: '0', Start: '225.000', Num: '-1' },
+    ])
+    expect(marks(third)).toEqual([{ Name: 'Mix In', Type: '0', Start: '0.000', Num: '-1' }])
+  })
+
+  it('lists the playlist in set order', () => {
+    const doc = new DOMParser().parseFromString(generate(), 'application/xml')
+    const playlist = Array.from(doc.getElementsByTagName('NODE')).find((n) => n.getAttribute('Type') === '1')!
+    expect(playlist.getAttribute('Name')).toBe('Fixture Set')
+    expect(playlist.getAttribute('Entries')).toBe('3')
+    expect(Array.from(playlist.getElementsByTagName('TRACK')).map((t) => t.getAttribute('Key'))).toEqual(['1', '2', '3'])
+  })
+
+  it('round-trips through the Rekordbox importer', () => {
+    const [playlist] = parseRekordboxXML(generate())
+    expect(playlist.name).toBe('Fixture Set')
+    expect(playlist.nodes.map((n) => [n.track.artist, n.track.title, n.track.youtubeId || '', n.track.bpm])).toEqual([
+      ['First Artist', 'Opening', 'abc123def45', 124],
+      ['Second <Artist>', 'Peak & "Drive"', 'ghi789jkl01', 126],
+      ['Third Artist', 'Closer', '', undefined],
+    ])
+    expect(playlist.nodes.map((n) => n.track.camelotCode)).toEqual(['8A', '8B', undefined])
+  })
+})
@@ -1,77 +1,38 @@
 // DJ Export Utilities - Generate export files for DJ software (Rekordbox, Serato, etc.)
-import type { PlaylistNode, Set } from '@/types'
+import type { Cue, PlaylistNode, Set } from '@/types'
+import { parseKey, toCamelot, toKeyName } from '@/lib/music-key'
+import { getCue, getNodeMixInTime, sortCues } from '@/lib/cues'
 
 // === KEY CONVERSION ===
 
-// Map musical keys to Camelot wheel notation
-// Format: Key -> Camelot Code (e.g., "C major" -> "8B", "A minor" -> "8A")
-const KEY_TO_CAMELOT: Record<string, string> = {
-  // Major keys (B suffix)
-  'C': '8B', 'C major': '8B', 'Cmaj': '8B',
-  'C#': '3B', 'C# major': '3B', 'C#maj': '3B', 'Db': '3B', 'Db major': '3B', 'Dbmaj': '3B',
-  'D': '10B', 'D major': '10B', 'Dmaj': '10B',
-  'D#': '5B', 'D# major': '5B', 'D#maj': '5B', 'Eb': '5B', 'Eb major': '5B', 'Ebmaj': '5B',
-  'E': '12B', 'E major': '12B', 'Emaj': '12B',
-  'F': '7B', 'F major': '7B', 'Fmaj': '7B',
-  'F#': '2B', 'F# major': '2B', 'F#maj': '2B', 'Gb': '2B', 'Gb major': '2B', 'Gbmaj': '2B',
-  'G': '9B', 'G major': '9B', 'Gmaj': '9B',
-  'G#': '4B', 'G# major': '4B', 'G#maj': '4B', 'Ab': '4B', 'Ab major': '4B', 'Abmaj': '4B',
-  'A': '11B', 'A major': '11B', 'Amaj': '11B',
-  'A#': '6B', 'A# major': '6B', 'A#maj': '6B', 'Bb': '6B', 'Bb major': '6B', 'Bbmaj': '6B',
-  'B': '1B', 'B major': '1B', 'Bmaj': '1B',
-
-  // Minor keys (A suffix)
-  'Cm': '5A', 'C minor': '5A', 'Cmin': '5A', 'C min': '5A',
-  'C#m': '12A', 'C# minor': '12A', 'C#min': '12A', 'Dbm': '12A', 'Db minor': '12A', 'Dbmin': '12A',
-  'Dm': '7A', 'D minor': '7A', 'Dmin': '7A', 'D min': '7A',
-  'D#m': '2A', 'D# minor': '2A', 'D#min': '2A', 'Ebm': '2A', 'Eb minor': '2A', 'Ebmin': '2A',
-  'Em': '9A', 'E minor': '9A', 'Emin': '9A', 'E min': '9A',
-  'Fm': '4A', 'F minor': '4A', 'Fmin': '4A', 'F min': '4A',
-  'F#m': '11A', 'F# minor': '11A', 'F#min': '11A', 'Gbm': '11A', 'Gb minor': '11A', 'Gbmin': '11A',
-  'Gm': '6A', 'G minor': '6A', 'Gmin': '6A', 'G min': '6A',
-  'G#m': '1A', 'G# minor': '1A', 'G#min': '1A', 'Abm': '1A', 'Ab minor': '1A', 'Abmin': '1A',
-  'Am': '8A', 'A minor': '8A', 'Amin': '8A', 'A min': '8A',
-  'A#m': '3A', 'A# minor': '3A', 'A#min': '3A', 'Bbm': '3A', 'Bb minor': '3A', 'Bbmin': '3A',
-  'Bm': '10A', 'B minor': '10A', 'Bmin': '10A', 'B min': '10A',
-}
-
 /**
  * Convert a musical key to Camelot notation
- * @param key - Musical key (e.g., "C major", "Am", "F#m")
+ * @param key - Musical key (e.g., "C major", "Am", "F#m", "8A")
  * @returns Camelot notation (e.g., "8B", "8A", "11A") or original if unknown
  */
 export function toCamelotKey(key: string | undefined): string {
   if (!key) return ''
-
-  // Normalize: trim and check directly
-  const normalized = key.trim()
-
-  // Direct lookup
-  if (KEY_TO_CAMELOT[normalized]) {
-    return KEY_TO_CAMELOT[normalized]
-  }
-
-  // Try lowercase variations
-  const lower = normalized.toLowerCase()
-  for (const [k, v] of Object.entries(KEY_TO_CAMELOT)) {
-    if (k.toLowerCase() === lower) {
-      return v
-    }
-  }
-
-  // Return original if no match (might already be Camelot)
-  if (/^[1-9]|1[0-2][AB]$/i.test(normalized)) {
-    return normalized.toUpperCase()
-  }
-
-  return key
+  return toCamelot(key) ?? key
 }
 
 /**
- * Get the original musical key notation
+ * Convert a musical key to canonical classical notation
+ * @returns Classical notation (e.g., "Am", "F#m") or original if unknown
  */
 export function toClassicalKey(key: string | undefined): string {
-  return key || ''
+  if (!key) return ''
+  return toKeyName(key) ?? key
+}
+
+/**
+ * Convert a key to Traktor's MUSICAL_KEY value
+ * Traktor stores keys as an integer: 0-11 major (C..B), 12-23 minor (Cm..Bm)
+ * @returns 0-23, or null if the key is unknown
+ */
+export function toTraktorKeyValue(key: string): number | null {
+  const parsed = parseKey(key)
+  if (!parsed) return null
+  return parsed.mode === 'minor' ? 12 + parsed.pitchClass : parsed.pitchClass
 }
 
 
@@ -137,7 +98,15 @@ export function getSegmentLabel(
 
 // === EXPORT FORMAT TYPES ===
 
-export type ExportFormat = 'rekordbox' | 'serato' | 'generic' | 'm3u'
+export type ExportFormat =
+  | 'rekordbox'
+  | 'rekordbox-xml'
+  | 'serato'
+  | 'generic'
+  | 'm3u'
+  | 'traktor'
+  | 'virtualdj'
+  | 'virtualdj-db'
 
 export interface DJExportTrack {
   position: number
@@ -153,6 +122,10 @@ export interface DJExportTrack {
   aiNotes: string
   genres: string
   explicit: boolean
+  bpm?: number
+  cueIn: number // Seconds from start where the track should be brought in
+  cueOut?: number // Seconds from start where the mix-out should begin
+  cues: Cue[] // Hot cues and loops (mix markers are carried by cueIn/cueOut)
 }
 
 /**
@@ -167,6 +140,14 @@ export function transformToExportTracks(nodes: PlaylistNode[]): DJExportTrack[]
     const durationSeconds = track.duration || 0
     const minutes = Math.floor(durationSeconds / 60)
     const seconds = durationSeconds % 60
+    // A mix-out cue wins; mixOutPoint is stored as seconds before the end of the track
+    const mixOutCue = getCue(node, 'mix-out')
+    const mixOutPoint = node.transitionToNext?.mixOutPoint
+    const cueOut = mixOutCue
+      ? mixOutCue.time
+      : mixOutPoint && durationSeconds > mixOutPoint
+      ? durationSeconds - mixOutPoint
+      : undefined
 
     return {
       position: index + 1,
@@ -182,6 +163,10 @@ export function transformToExportTracks(nodes: PlaylistNode[]): DJExportTrack[]
       aiNotes: track.aiReasoning || '',
       genres: (track.genres || []).join(', ') || track.genre || '',
       explicit: track.isExplicit || false,
+      bpm: track.bpm,
+      cueIn: getNodeMixInTime(node),
+      cueOut,
+      cues: sortCues((node.cues || []).filter(c => c.type === 'hot' || c.type === 'loop')),
     }
   })
 }
@@ -231,12 +216,37 @@ export function generateRekordboxCSV(tracks: DJExportTrack[], setName: string):
   ].join('\n')
 }
 
+/**
+ * Format a seconds value as M:SS.s for cue listings
+ */
+function formatCueTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  const rest = (seconds % 60).toFixed(1).padStart(4, '0')
+  return `${minutes}:${rest}`
+}
+
+/**
+ * Readable cue summary, e.g. "In 0:16.0; A 1:04.2; Loop 2:08.0-2:16.0; Out 5:30.0"
+ */
+function formatCueList(t: DJExportTrack): string {
+  const parts = [`In ${formatCueTime(t.cueIn)}`]
+  for (const cue of t.cues) {
+    parts.push(cue.type === 'loop' && cue.endTime !== undefined
+      ? `Loop ${formatCueTime(cue.time)}-${formatCueTime(cue.endTime)}`
+      : `${cue.label || 'Cue'} ${formatCueTime(cue.time)}`)
+  }
+  if (t.cueOut !== undefined) {
+    parts.push(`Out ${formatCueTime(t.cueOut)}`)
+  }
+  return parts.join('; ')
+}
+
 /**
  * Generate Serato-compatible CSV
  */
 export function generateSeratoCSV(tracks: DJExportTrack[], setName: string): string {
   const headers = [
-    'Name', 'Artist', 'Key', 'BPM', 'Time', 'Label', 'Comment'
+    'Name', 'Artist', 'Key', 'BPM', 'Time', 'Label', 'Comment', 'Cues'
   ]
 
   const rows = tracks.map(t => [
@@ -247,6 +257,7 @@ export function generateSeratoCSV(tracks: DJExportTrack[], setName: string): str
     t.duration,
     escapeCSV(t.segment),
     escapeCSV(t.aiNotes),
+    escapeCSV(formatCueList(t)),
   ])
 
   const comment = `# YTDJ.AI Export - ${setName}`
@@ -338,6 +349,248 @@ export function generateM3U(tracks: DJExportTrack[], setName: string): string {
 }
 
 
+// === XML HELPERS ===
+
+/**
+ * Escape XML attribute values
+ */
+function escapeXML(value: string | number): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+
+// === TRAKTOR NML GENERATOR ===
+
+/**
+ * Generate a Traktor collection file (.nml) with a single playlist.
+ * Each ENTRY carries INFO, TEMPO, MUSICAL_KEY and a CUE_V2 at the mix-in point.
+ * Import via Traktor's Explorer > Import Playlist.
+ */
+export function generateTraktorNML(tracks: DJExportTrack[], setName: string): string {
+  const dir = '/:'
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+    '<NML VERSION="19">',
+    '  <HEAD COMPANY="www.native-instruments.com" PROGRAM="Traktor"></HEAD>',
+    '  <MUSICFOLDERS></MUSICFOLDERS>',
+    `  <COLLECTION ENTRIES="${tracks.length}">`,
+  ]
+
+  for (const t of tracks) {
+    const tonality = toKeyName(t.camelotKey) || t.key
+    const keyValue = toTraktorKeyValue(t.camelotKey)
+    const comment = `[${t.segment}] ${t.aiNotes}`.trim()
+
+    lines.push(`    <ENTRY TITLE="${escapeXML(t.title)}" ARTIST="${escapeXML(t.artist)}">`)
+    lines.push(`      <LOCATION DIR="${dir}" FILE="${escapeXML(t.url)}" VOLUME="" VOLUMEID=""></LOCATION>`)
+    lines.push(`      <INFO GENRE="${escapeXML(t.genres)}" COMMENT="${escapeXML(comment)}" KEY="${escapeXML(tonality)}" PLAYTIME="${t.durationSeconds}" PLAYTIME_FLOAT="${t.durationSeconds.toFixed(6)}"></INFO>`)
+    if (t.bpm) {
+      lines.push(`      <TEMPO BPM="${t.bpm.toFixed(6)}" BPM_QUALITY="100.000000"></TEMPO>`)
+    }
+    if (keyValue !== null) {
+      lines.push(`      <MUSICAL_KEY VALUE="${keyValue}"></MUSICAL_KEY>`)
+    }
+    // CUE_V2 positions are in milliseconds
+    lines.push(`      <CUE_V2 NAME="Mix In" DISPL_ORDER="0" TYPE="0" START="${(t.cueIn * 1000).toFixed(6)}" LEN="0.000000" REPEATS="-1" HOTCUE="0"></CUE_V2>`)
+    // Hot cues map to Traktor hotcue slots 2-8 (slot 1 holds Mix In); loops use TYPE="5"
+    t.cues.forEach((cue, i) => {
+      const isLoop = cue.type === 'loop' && cue.endTime !== undefined
+      const len = isLoop ? ((cue.endTime! - cue.time) * 1000).toFixed(6) : '0.000000'
+      const hotcue = i + 1 < 8 ? i + 1 : -1
+      lines.push(`      <CUE_V2 NAME="${escapeXML(isLoop ? 'Loop' : cue.label || 'Cue')}" DISPL_ORDER="0" TYPE="${isLoop ? 5 : 0}" START="${(cue.time * 1000).toFixed(6)}" LEN="${len}" REPEATS="-1" HOTCUE="${hotcue}"></CUE_V2>`)
+    })
+    if (t.cueOut !== undefined) {
+      lines.push(`      <CUE_V2 NAME="Mix Out" DISPL_ORDER="0" TYPE="0" START="${(t.cueOut * 1000).toFixed(6)}" LEN="0.000000" REPEATS="-1" HOTCUE="-1"></CUE_V2>`)
+    }
+    lines.push('    </ENTRY>')
+  }
+
+  lines.push('  </COLLECTION>')
+  lines.push('  <SETS ENTRIES="0"></SETS>')
+  lines.push('  <PLAYLISTS>')
+  lines.push('    <NODE TYPE="FOLDER" NAME="$ROOT">')
+  lines.push('      <SUBNODES COUNT="1">')
+  lines.push(`        <NODE TYPE="PLAYLIST" NAME="${escapeXML(setName)}">`)
+  lines.push(`          <PLAYLIST ENTRIES="${tracks.length}" TYPE="LIST" UUID="">`)
+  for (const t of tracks) {
+    // PRIMARYKEY matches the collection entry by VOLUME + DIR + FILE
+    lines.push(`            <ENTRY><PRIMARYKEY TYPE="TRACK" KEY="${escapeXML(`${dir}${t.url}`)}"></PRIMARYKEY></ENTRY>`)
+  }
+  lines.push('          </PLAYLIST>')
+  lines.push('        </NODE>')
+  lines.push('      </SUBNODES>')
+  lines.push('    </NODE>')
+  lines.push('  </PLAYLISTS>')
+  lines.push('</NML>')
+
+  return lines.join('\n')
+}
+
+
+// === VIRTUALDJ GENERATORS ===
+
+/**
+ * Generate a VirtualDJ playlist (.vdjfolder)
+ * Drop into VirtualDJ's Playlists folder or drag onto the browser.
+ */
+export function generateVirtualDJPlaylist(tracks: DJExportTrack[], setName: string): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<VirtualFolder name="${escapeXML(setName)}">`,
+  ]
+
+  tracks.forEach((t, idx) => {
+    const tonality = toKeyName(t.camelotKey) || t.key
+    const attributes = [
+      `path="${escapeXML(t.url)}"`,
+      `size="0"`,
+      `songlength="${t.durationSeconds.toFixed(1)}"`,
+      `bpm="${t.bpm ? t.bpm.toFixed(2) : '0'}"`,
+      `key="${escapeXML(tonality)}"`,
+      `artist="${escapeXML(t.artist)}"`,
+      `title="${escapeXML(t.title)}"`,
+      `idx="${idx}"`,
+    ]
+    lines.push(`  <song ${attributes.join(' ')} />`)
+  })
+
+  lines.push('</VirtualFolder>')
+  return lines.join('\n')
+}
+
+/**
+ * Generate a VirtualDJ database fragment (database.xml)
+ * Carries tags, comments and cue POIs so mix points survive the import.
+ * Note: VirtualDJ stores Bpm as seconds per beat (60 / BPM).
+ */
+export function generateVirtualDJDatabase(tracks: DJExportTrack[], setName: string): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<!-- YTDJ.AI Export - ${escapeXML(setName)} -->`,
+    '<VirtualDJ_Database Version="8.5">',
+  ]
+
+  for (const t of tracks) {
+    const tonality = toKeyName(t.camelotKey) || t.key
+    const comment = `[${t.segment}] ${t.aiNotes}`.trim()
+    const tags = [
+      `Author="${escapeXML(t.artist)}"`,
+      `Title="${escapeXML(t.title)}"`,
+      `Genre="${escapeXML(t.genres)}"`,
+      ...(t.bpm ? [`Bpm="${(60 / t.bpm).toFixed(6)}"`] : []),
+      `Key="${escapeXML(tonality)}"`,
+      `Flag="1"`,
+    ]
+
+    lines.push(`  <Song FilePath="${escapeXML(t.url)}" FileSize="0">`)
+    lines.push(`    <Tags ${tags.join(' ')} />`)
+    lines.push(`    <Infos SongLength="${t.durationSeconds.toFixed(6)}" />`)
+    if (comment) {
+      lines.push(`    <Comment>${escapeXML(comment)}</Comment>`)
+    }
+    lines.push(`    <Poi Name="Mix In" Pos="${t.cueIn.toFixed(6)}" Num="1" Type="cue" />`)
+    if (t.cueOut !== undefined) {
+      lines.push(`    <Poi Name="Mix Out" Pos="${t.cueOut.toFixed(6)}" Num="2" Type="cue" />`)
+    }
+    t.cues.forEach((cue, i) => {
+      if (cue.type === 'loop' && cue.endTime !== undefined) {
+        lines.push(`    <Poi Name="Loop" Pos="${cue.time.toFixed(6)}" Size="${(cue.endTime - cue.time).toFixed(6)}" Type="loop" />`)
+      } else {
+        lines.push(`    <Poi Name="${escapeXML(cue.label || 'Cue')}" Pos="${cue.time.toFixed(6)}" Num="${i + 3}" Type="cue" />`)
+      }
+    })
+    lines.push('  </Song>')
+  }
+
+  lines.push('</VirtualDJ_Database>')
+  return lines.join('\n')
+}
+
+
+// === REKORDBOX XML GENERATOR ===
+
+/**
+ * Build a Rekordbox memory cue (Num="-1") at the given position
+ */
+function rekordboxPositionMark(name: string, seconds: number): string {
+  return `      <POSITION_MARK Name="${escapeXML(name)}" Type="0" Start="${seconds.toFixed(3)}" Num="-1"/>`
+}
+
+/**
+ * Build a Rekordbox memory loop (Type="4") between two positions
+ */
+function rekordboxLoopMark(name: string, start: number, end: number): string {
+  return `      <POSITION_MARK Name="${escapeXML(name)}" Type="4" Start="${start.toFixed(3)}" End="${end.toFixed(3)}" Num="-1"/>`
+}
+
+/**
+ * Generate a native Rekordbox library file (rekordbox.xml / DJ_PLAYLISTS)
+ * Contains a COLLECTION with every track and a PLAYLISTS tree with a single
+ * playlist named after the set. Importable via Preferences > Advanced > rekordbox xml.
+ */
+export function generateRekordboxXML(tracks: DJExportTrack[], setName: string): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<DJ_PLAYLISTS Version="1.0.0">',
+    '  <PRODUCT Name="YTDJ.AI" Version="1.0.0" Company="YTDJ.AI"/>',
+    `  <COLLECTION Entries="${tracks.length}">`,
+  ]
+
+  for (const t of tracks) {
+    // Rekordbox expects classical notation (e.g. "Am", "F#m") in Tonality
+    const tonality = toKeyName(t.camelotKey) || t.key
+    const comments = `[${t.segment}] ${t.aiNotes}`.trim()
+
+    const attributes = [
+      `TrackID="${t.position}"`,
+      `Name="${escapeXML(t.title)}"`,
+      `Artist="${escapeXML(t.artist)}"`,
+      `Genre="${escapeXML(t.genres)}"`,
+      `Kind="YouTube"`,
+      `TotalTime="${t.durationSeconds}"`,
+      `AverageBpm="${t.bpm ? t.bpm.toFixed(2) : '0.00'}"`,
+      `Tonality="${escapeXML(tonality)}"`,
+      `Rating="0"`,
+      `Comments="${escapeXML(comments)}"`,
+      `Location="${escapeXML(t.url)}"`,
+    ]
+
+    const marks = [rekordboxPositionMark('Mix In', t.cueIn)]
+    for (const cue of t.cues) {
+      marks.push(cue.type === 'loop' && cue.endTime !== undefined
+        ? rekordboxLoopMark('Loop', cue.time, cue.endTime)
+        : rekordboxPositionMark(cue.label || 'Cue', cue.time))
+    }
+    if (t.cueOut !== undefined) {
+      marks.push(rekordboxPositionMark('Mix Out', t.cueOut))
+    }
+
+    lines.push(`    <TRACK ${attributes.join(' ')}>`)
+    lines.push(...marks)
+    lines.push('    </TRACK>')
+  }
+
+  lines.push('  </COLLECTION>')
+  lines.push('  <PLAYLISTS>')
+  lines.push('    <NODE Type="0" Name="ROOT" Count="1">')
+  lines.push(`      <NODE Name="${escapeXML(setName)}" Type="1" KeyType="0" Entries="${tracks.length}">`)
+  for (const t of tracks) {
+    lines.push(`        <TRACK Key="${t.position}"/>`)
+  }
+  lines.push('      </NODE>')
+  lines.push('    </NODE>')
+  lines.push('  </PLAYLISTS>')
+  lines.push('</DJ_PLAYLISTS>')
+
+  return lines.join('\n')
+}
+
+
 // === TEXT EXPORT (Simple readable format) ===
 
 /**
@@ -429,12 +682,20 @@ export function getExportFilename(setName: string, format: ExportFormat): string
   switch (format) {
     case 'rekordbox':
       return `${safeName}_rekordbox_${date}.csv`
+    case 'rekordbox-xml':
+      return `${safeName}_rekordbox_${date}.xml`
     case 'serato':
       return `${safeName}_serato_${date}.csv`
     case 'generic':
       return `${safeName}_${date}.csv`
     case 'm3u':
       return `${safeName}_${date}.m3u`
+    case 'traktor':
+      return `${safeName}_traktor_${date}.nml`
+    case 'virtualdj':
+      return `${safeName}_${date}.vdjfolder`
+    case 'virtualdj-db':
+      return `${safeName}_virtualdj_database_${date}.xml`
     default:
       return `${safeName}_${date}.txt`
   }
@@ -458,6 +719,10 @@ export function exportSet(
       content = generateRekordboxCSV(tracks, setName)
       mimeType = 'text/csv'
       break
+    case 'rekordbox-xml':
+      content = generateRekordboxXML(tracks, setName)
+      mimeType = 'application/xml'
+      break
     case 'serato':
       content = generateSeratoCSV(tracks, setName)
       mimeType = 'text/csv'
@@ -470,6 +735,18 @@ export function exportSet(
       content = generateM3U(tracks, setName)
       mimeType = 'audio/x-mpegurl'
       break
+    case 'traktor':
+      content = generateTraktorNML(tracks, setName)
+      mimeType = 'application/xml'
+      break
+    case 'virtualdj':
+      content = generateVirtualDJPlaylist(tracks, setName)
+      mimeType = 'application/xml'
+      break
+    case 'virtualdj-db':
+      content = generateVirtualDJDatabase(tracks, setName)
+      mimeType = 'application/xml'
+      break
     default:
       content = generateTextExport(tracks, setName)
       mimeType = 'text/plain'
@@ -496,6 +773,13 @@ export const EXPORT_FORMATS: {
     icon: '🎛️',
     extension: '.csv',
   },
+  {
+    id: 'rekordbox-xml',
+    name: 'Rekordbox XML',
+    description: 'Native rekordbox.xml library with playlist & cues',
+    icon: '🎚️',
+    extension: '.xml',
+  },
   {
     id: 'serato',
     name: 'Serato',
@@ -517,4 +801,25 @@ export const EXPORT_FORMATS: {
     icon: '📝',
     extension: '.m3u',
   },
+  {
+    id: 'traktor',
+    name: 'Traktor',
+    description: 'Traktor NML playlist with tempo, key & cues',
+    icon: '🎛️',
+    extension: '.nml',
+  },
+  {
+    id: 'virtualdj',
+    name: 'VirtualDJ Playlist',
+    description: 'VirtualDJ playlist folder',
+    icon: '💿',
+    extension: '.vdjfolder',
+  },
+  {
+    id: 'virtualdj-db',
+    name: 'VirtualDJ Database',
+    description: 'VirtualDJ database entries with tags & cues',
+    icon: '🗄️',
+    extension: '.xml',
+  },
 ]
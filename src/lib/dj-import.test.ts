@@ -0,0 +1,31 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { parseRekordboxXML, parseTraktorNML } from './dj-import'
+
+describe('malformed locations', () => {
+  it('keeps importing a Rekordbox file with a bad % escape', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<DJ_PLAYLISTS Version="1.0.0">
+  <COLLECTION Entries="2">
+    <TRACK TrackID="1" Name="Broken" Artist="A" Location="file://localhost/Music/100%25%ZZ.mp3"/>
+    <TRACK TrackID="2" Name="Fine" Artist="B" Location="https%3A%2F%2Fyoutube.com%2Fwatch%3Fv%3Dabc123def45"/>
+  </COLLECTION>
+</DJ_PLAYLISTS>`
+    const [playlist] = parseRekordboxXML(xml)
+    expect(playlist.nodes.map((n) => n.track.title)).toEqual(['Broken', 'Fine'])
+    expect(playlist.nodes[1].track.youtubeId).toBe('abc123def45')
+  })
+
+  it('keeps importing a Traktor file with a bad % escape', () => {
+    const nml = `<?xml version="1.0" encoding="UTF-8"?>
+<NML VERSION="19">
+  <COLLECTION ENTRIES="1">
+    <ENTRY TITLE="Broken" ARTIST="A">
+      <LOCATION DIR="/:Music/:" FILE="50%off.mp3" VOLUME="HD"/>
+    </ENTRY>
+  </COLLECTION>
+</NML>`
+    const [playlist] = parseTraktorNML(nml)
+    expect(playlist.nodes.map((n) => n.track.title)).toEqual(['Broken'])
+  })
+})
@@ -0,0 +1,424 @@
+// DJ Import Utilities - Parse playlists from DJ software (Rekordbox, Traktor, M3U) into a Set
+import type { PlaylistNode, Track } from '@/types'
+import { keyFromPitchClass, toCamelot } from '@/lib/music-key'
+
+// === IMPORT FORMAT TYPES ===
+
+export type ImportFormat = 'rekordbox-xml' | 'traktor-nml' | 'm3u'
+
+export interface ImportedPlaylist {
+  name: string
+  format: ImportFormat
+  nodes: PlaylistNode[]
+}
+
+export type TrackMatchStatus = 'pending' | 'existing' | 'matched' | 'art-only' | 'unmatched'
+
+export interface TrackMatchResult {
+  index: number
+  artist: string
+  title: string
+  status: TrackMatchStatus
+  videoId?: string
+}
+
+// Parsed track metadata before it becomes a PlaylistNode
+interface ParsedTrack {
+  title: string
+  artist: string
+  duration?: number
+  bpm?: number
+  key?: string
+  genre?: string
+  comments?: string
+  youtubeId?: string
+}
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  'rekordbox-xml': 'Rekordbox XML',
+  'traktor-nml': 'Traktor NML',
+  'm3u': 'M3U Playlist',
+}
+
+export const IMPORT_ACCEPT = '.xml,.nml,.m3u,.m3u8'
+
+// === KEY HELPERS ===
+
+/**
+ * Convert a Traktor MUSICAL_KEY value to classical notation
+ */
+export function traktorKeyToClassical(value: string | null | undefined): string | undefined {
+  if (value === null || value === undefined || value === '') return undefined
+  const index = parseInt(value, 10)
+  if (Number.isNaN(index) || index < 0 || index > 23) return undefined
+  return keyFromPitchClass(index % 12, index >= 12 ? 'minor' : 'major').name
+}
+
+/**
+ * Extract a YouTube video ID from a URL (watch, youtu.be, music.youtube)
+ */
+export function extractYouTubeId(url: string | null | undefined): string | undefined {
+  if (!url) return undefined
+  const match = url.match(/(?:youtube\.com\/watch\?(?:.*&)?v=|youtu\.be\/|youtube\.com\/embed\/)([\w-]{11})/)
+  return match ? match[1] : undefined
+}
+
+/**
+ * Split an "Artist - Title" string (used by M3U #EXTINF lines and bare filenames)
+ */
+function splitArtistTitle(text: string): { artist: string; title: string } {
+  const cleaned = text.replace(/\.(mp3|wav|aiff?|flac|m4a|ogg)$/i, '').trim()
+  const separator = cleaned.indexOf(' - ')
+  if (separator === -1) {
+    return { artist: 'Unknown', title: cleaned || 'Unknown' }
+  }
+  return {
+    artist: cleaned.slice(0, separator).trim() || 'Unknown',
+    title: cleaned.slice(separator + 3).trim() || 'Unknown',
+  }
+}
+
+/**
+ * Percent-decode a file location; a malformed escape keeps the raw string
+ * rather than failing the whole import
+ */
+function decodeLocation(value: string | null | undefined): string {
+  if (!value) return ''
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
+function parseNumber(value: string | null | undefined): number | undefined {
+  if (!value) return undefined
+  const num = parseFloat(value)
+  return Number.isFinite(num) && num > 0 ? num : undefined
+}
+
+// === NODE CONVERSION ===
+
+/**
+ * Convert parsed tracks into playlist nodes ready to be placed in a Set
+ */
+function toPlaylistNodes(tracks: ParsedTrack[], format: ImportFormat): PlaylistNode[] {
+  const stamp = Date.now()
+
+  return tracks.map((parsed, index) => {
+    const track: Track = {
+      id: `import-${stamp}-${index}`,
+      youtubeId: parsed.youtubeId || '',
+      title: parsed.title,
+      artist: parsed.artist,
+      duration: parsed.duration ? Math.round(parsed.duration) : 0,
+      genre: parsed.genre,
+      key: parsed.key,
+      bpm: parsed.bpm ? Math.round(parsed.bpm * 10) / 10 : undefined,
+      camelotCode: toCamelot(parsed.key) || undefined,
+      // Analysed by the DJ software, so trusted over AI estimates
+      ...(parsed.bpm || parsed.key
+        ? { bpmKeySource: 'imported' as const, bpmKeyConfidence: 0.9, bpmKeyVerified: true }
+        : {}),
+      // Keep the crate comments (or at least the origin) visible in the inspector
+      aiReasoning: parsed.comments || `Imported from ${IMPORT_FORMAT_LABELS[format]}`,
+    }
+
+    return {
+      id: `node-import-${stamp}-${index}`,
+      track,
+      position: index,
+      state: parsed.youtubeId ? 'ai-selected' : 'unresolved',
+    }
+  })
+}
+
+// === XML HELPERS ===
+
+function parseXML(content: string): Document {
+  const doc = new DOMParser().parseFromString(content, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('File is not valid XML')
+  }
+  return doc
+}
+
+function childElements(parent: Element, tagName: string): Element[] {
+  return Array.from(parent.children).filter((el) => el.tagName === tagName)
+}
+
+// === REKORDBOX XML ===
+
+/**
+ * Parse a rekordbox.xml (DJ_PLAYLISTS) library.
+ * Returns one playlist per playlist NODE, or the whole COLLECTION if there are none.
+ */
+export function parseRekordboxXML(content: string): ImportedPlaylist[] {
+  const doc = parseXML(content)
+  const collection = doc.getElementsByTagName('COLLECTION')[0]
+  if (!collection) {
+    throw new Error('No COLLECTION found in Rekordbox XML')
+  }
+
+  const tracksById = new Map<string, ParsedTrack>()
+  const collectionOrder: ParsedTrack[] = []
+
+  for (const el of childElements(collection, 'TRACK')) {
+    const parsed: ParsedTrack = {
+      title: el.getAttribute('Name') || 'Unknown',
+      artist: el.getAttribute('Artist') || 'Unknown',
+      duration: parseNumber(el.getAttribute('TotalTime')),
+      bpm: parseNumber(el.getAttribute('AverageBpm')),
+      key: el.getAttribute('Tonality') || undefined,
+      genre: el.getAttribute('Genre') || undefined,
+      comments: el.getAttribute('Comments') || undefined,
+      youtubeId: extractYouTubeId(decodeLocation(el.getAttribute('Location'))),
+    }
+    tracksById.set(el.getAttribute('TrackID') || '', parsed)
+    collectionOrder.push(parsed)
+  }
+
+  // Playlist nodes are Type="1"; folders are Type="0"
+  const playlists: ImportedPlaylist[] = []
+  for (const node of Array.from(doc.getElementsByTagName('NODE'))) {
+    if (node.getAttribute('Type') !== '1') continue
+
+    const tracks = childElements(node, 'TRACK')
+      .map((el) => tracksById.get(el.getAttribute('Key') || ''))
+      .filter((t): t is ParsedTrack => !!t)
+
+    if (tracks.length > 0) {
+      playlists.push({
+        name: node.getAttribute('Name') || 'Rekordbox Playlist',
+        format: 'rekordbox-xml',
+        nodes: toPlaylistNodes(tracks, 'rekordbox-xml'),
+      })
+    }
+  }
+
+  if (playlists.length === 0 && collectionOrder.length > 0) {
+    playlists.push({
+      name: 'Rekordbox Collection',
+      format: 'rekordbox-xml',
+      nodes: toPlaylistNodes(collectionOrder, 'rekordbox-xml'),
+    })
+  }
+
+  return playlists
+}
+
+// === TRAKTOR NML ===
+
+/**
+ * Build the PRIMARYKEY Traktor uses to reference collection entries
+ * Format: VOLUME + DIR + FILE (e.g. "Macintosh HD/:Music/:track.mp3")
+ */
+function traktorLocationKey(location: Element | undefined): string {
+  if (!location) return ''
+  return `${location.getAttribute('VOLUME') || ''}${location.getAttribute('DIR') || ''}${location.getAttribute('FILE') || ''}`
+}
+
+/**
+ * Parse a Traktor collection/playlist export (.nml)
+ */
+export function parseTraktorNML(content: string): ImportedPlaylist[] {
+  const doc = parseXML(content)
+  const collection = doc.getElementsByTagName('COLLECTION')[0]
+  if (!collection) {
+    throw new Error('No COLLECTION found in Traktor NML')
+  }
+
+  const tracksByKey = new Map<string, ParsedTrack>()
+  const collectionOrder: ParsedTrack[] = []
+
+  for (const entry of childElements(collection, 'ENTRY')) {
+    const info = childElements(entry, 'INFO')[0]
+    const tempo = childElements(entry, 'TEMPO')[0]
+    const musicalKey = childElements(entry, 'MUSICAL_KEY')[0]
+    const location = childElements(entry, 'LOCATION')[0]
+
+    const parsed: ParsedTrack = {
+      title: entry.getAttribute('TITLE') || location?.getAttribute('FILE') || 'Unknown',
+      artist: entry.getAttribute('ARTIST') || 'Unknown',
+      duration: parseNumber(info?.getAttribute('PLAYTIME_FLOAT')) ?? parseNumber(info?.getAttribute('PLAYTIME')),
+      bpm: parseNumber(tempo?.getAttribute('BPM')),
+      key: traktorKeyToClassical(musicalKey?.getAttribute('VALUE')) || info?.getAttribute('KEY') || undefined,
+      genre: info?.getAttribute('GENRE') || undefined,
+      comments: info?.getAttribute('COMMENT') || undefined,
+      youtubeId: extractYouTubeId(decodeLocation(location?.getAttribute('FILE'))),
+    }
+    tracksByKey.set(traktorLocationKey(location), parsed)
+    collectionOrder.push(parsed)
+  }
+
+  const playlists: ImportedPlaylist[] = []
+  for (const node of Array.from(doc.getElementsByTagName('NODE'))) {
+    if (node.getAttribute('TYPE') !== 'PLAYLIST') continue
+    const playlist = childElements(node, 'PLAYLIST')[0]
+    if (!playlist) continue
+
+    const tracks = childElements(playlist, 'ENTRY')
+      .map((entry) => childElements(entry, 'PRIMARYKEY')[0]?.getAttribute('KEY') || '')
+      .map((key) => tracksByKey.get(key))
+      .filter((t): t is ParsedTrack => !!t)
+
+    if (tracks.length > 0) {
+      playlists.push({
+        name: node.getAttribute('NAME') || 'Traktor Playlist',
+        format: 'traktor-nml',
+        nodes: toPlaylistNodes(tracks, 'traktor-nml'),
+      })
+    }
+  }
+
+  if (playlists.length === 0 && collectionOrder.length > 0) {
+    playlists.push({
+      name: 'Traktor Collection',
+      format: 'traktor-nml',
+      nodes: toPlaylistNodes(collectionOrder, 'traktor-nml'),
+    })
+  }
+
+  return playlists
+}
+
+// === EXTENDED M3U ===
+
+/**
+ * Parse an extended M3U/M3U8 playlist.
+ * Understands #EXTINF, #PLAYLIST and the #YTDJ metadata lines written by generateM3U.
+ */
+export function parseM3U(content: string, fallbackName = 'Imported Playlist'): ImportedPlaylist[] {
+  const lines = content.split(/\r?\n/).map((l) => l.trim()).filter(Boolean)
+
+  let name = fallbackName
+  const tracks: ParsedTrack[] = []
+  let pending: ParsedTrack | null = null
+
+  for (const line of lines) {
+    if (line.startsWith('#PLAYLIST:')) {
+      name = line.slice('#PLAYLIST:'.length).trim() || name
+    } else if (line.startsWith('#EXTINF:')) {
+      // #EXTINF:<seconds>,<Artist> - <Title>
+      const body = line.slice('#EXTINF:'.length)
+      const comma = body.indexOf(',')
+      const durationPart = comma === -1 ? body : body.slice(0, comma)
+      const { artist, title } = splitArtistTitle(comma === -1 ? '' : body.slice(comma + 1))
+      pending = { artist, title, duration: parseNumber(durationPart) }
+    } else if (line.startsWith('#YTDJ:')) {
+      if (!pending) continue
+      for (const pair of line.slice('#YTDJ:'.length).split(',')) {
+        const [field, value] = pair.split('=')
+        if (field === 'key' && value) pending.key = value
+        if (field === 'bpm' && value) pending.bpm = parseNumber(value)
+        if (field === 'segment' && value) pending.comments = `[${value}]`
+      }
+    } else if (!line.startsWith('#')) {
+      // Location line terminates a track entry
+      const fromPath = splitArtistTitle(line.split(/[\\/]/).pop() || line)
+      const track = pending || { ...fromPath }
+      track.youtubeId = extractYouTubeId(line)
+      tracks.push(track)
+      pending = null
+    }
+  }
+
+  if (tracks.length === 0) return []
+  return [{ name, format: 'm3u', nodes: toPlaylistNodes(tracks, 'm3u') }]
+}
+
+// === FORMAT DETECTION ===
+
+/**
+ * Detect the import format from file name and content
+ */
+export function detectImportFormat(filename: string, content: string): ImportFormat | null {
+  const lower = filename.toLowerCase()
+  if (lower.endsWith('.nml') || content.includes('<NML')) return 'traktor-nml'
+  if (content.includes('<DJ_PLAYLISTS')) return 'rekordbox-xml'
+  if (lower.endsWith('.m3u') || lower.endsWith('.m3u8') || content.startsWith('#EXTM3U')) return 'm3u'
+  return null
+}
+
+/**
+ * Parse an uploaded playlist file into one or more importable playlists
+ */
+export function parsePlaylistFile(filename: string, content: string): ImportedPlaylist[] {
+  const format = detectImportFormat(filename, content)
+  const baseName = filename.replace(/\.[^.]+$/, '')
+
+  switch (format) {
+    case 'rekordbox-xml':
+      return parseRekordboxXML(content)
+    case 'traktor-nml':
+      return parseTraktorNML(content)
+    case 'm3u':
+      return parseM3U(content, baseName)
+    default:
+      throw new Error('Unsupported file. Use a Rekordbox XML, Traktor NML or M3U playlist.')
+  }
+}
+
+// === YOUTUBE RESOLUTION ===
+
+/**
+ * Resolve imported tracks to YouTube videos via the batch video search API
+ * (cache → Invidious/Piped → iTunes art). Tracks that already carry a
+ * YouTube ID are reported as 'existing' and skipped.
+ */
+export async function resolveImportedTracks(
+  nodes: PlaylistNode[],
+  onResult: (result: TrackMatchResult, data?: { youtubeId: string; thumbnail?: string; duration?: number }) => void,
+  batchSize = 10
+): Promise<void> {
+  const pending: { index: number; artist: string; title: string }[] = []
+
+  nodes.forEach((node, index) => {
+    if (node.track.youtubeId) {
+      onResult({
+        index,
+        artist: node.track.artist,
+        title: node.track.title,
+        status: 'existing',
+        videoId: node.track.youtubeId,
+      })
+    } else {
+      pending.push({ index, artist: node.track.artist, title: node.track.title })
+    }
+  })
+
+  for (let i = 0; i < pending.length; i += batchSize) {
+    const batch = pending.slice(i, i + batchSize)
+
+    try {
+      const response = await fetch('/api/video/search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          tracks: batch.map(({ artist, title }) => ({ artist, title })),
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP ${response.status}`)
+      }
+
+      batch.forEach((item, j) => {
+        const result = data.tracks?.[j]
+        if (result?.videoId) {
+          onResult(
+            { ...item, status: 'matched', videoId: result.videoId },
+            { youtubeId: result.videoId, thumbnail: result.thumbnail, duration: result.duration }
+          )
+        } else {
+          onResult({ ...item, status: result?.thumbnail ? 'art-only' : 'unmatched' })
+        }
+      })
+    } catch (error) {
+      console.error('[DJImport] Batch resolution failed:', error)
+      batch.forEach((item) => onResult({ ...item, status: 'unmatched' }))
+    }
+  }
+}
+
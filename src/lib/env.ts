@@ -31,6 +31,7 @@ const AI_PROVIDER_VARS = [
   'OPENAI_API_KEY',
   'ANTHROPIC_API_KEY',
   'GOOGLE_AI_API_KEY',
+  'OPENAI_COMPATIBLE_BASE_URL',
 ] as const
 
 export interface EnvValidationResult {
@@ -79,9 +80,10 @@ export function validateEnv(): EnvValidationResult {
   }
 
   // Check at least one AI provider
-  const hasAIProvider = AI_PROVIDER_VARS.some(v => process.env[v])
+  // Replaying recorded fixtures stands in for a live provider
+  const hasAIProvider = AI_PROVIDER_VARS.some(v => process.env[v]) || process.env.PROVIDER_FIXTURE_MODE === 'replay'
   if (!hasAIProvider) {
-    errors.push('At least one AI provider must be configured (OPENAI_API_KEY, ANTHROPIC_API_KEY, or GOOGLE_AI_API_KEY)')
+    errors.push('At least one AI provider must be configured (OPENAI_API_KEY, ANTHROPIC_API_KEY, GOOGLE_AI_API_KEY, or OPENAI_COMPATIBLE_BASE_URL)')
   }
 
   // Check Sentry in production
@@ -143,6 +145,8 @@ export function getEnvSummary(): Record<string, boolean> {
     openai: !!process.env.OPENAI_API_KEY,
     anthropic: !!process.env.ANTHROPIC_API_KEY,
     gemini: !!process.env.GOOGLE_AI_API_KEY,
+    openaiCompatible: !!process.env.OPENAI_COMPATIBLE_BASE_URL,
+    providerFixtures: !!process.env.PROVIDER_FIXTURE_MODE,
     googleOAuth: !!(process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET),
     spotifyOAuth: !!(process.env.SPOTIFY_CLIENT_ID && process.env.SPOTIFY_CLIENT_SECRET),
   }
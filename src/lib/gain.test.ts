@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { applyGain, clampGainDb, rememberLoudness } from './gain'
+
+describe('clampGainDb', () => {
+  it('clamps to the trim range in half-dB steps', () => {
+    expect(clampGainDb(-20)).toBe(-12)
+    expect(clampGainDb(9)).toBe(6)
+    expect(clampGainDb(1.3)).toBe(1.5)
+  })
+})
+
+describe('applyGain', () => {
+  it('can only boost as far as the volume leaves headroom', () => {
+    expect(applyGain(80, -6)).toBe(40)
+    expect(applyGain(90, 6)).toBe(100)
+    expect(applyGain(50)).toBe(50)
+  })
+})
+
+describe('rememberLoudness', () => {
+  it('moves an updated upload to the end', () => {
+    const table = rememberLoudness({ a: -1, b: -2, c: -3 }, 'a', -4)
+    expect(Object.entries(table)).toEqual([['b', -2], ['c', -3], ['a', -4]])
+  })
+
+  it('drops the least recently set uploads past the cap', () => {
+    const table = rememberLoudness({ a: -1, b: -2, c: -3 }, 'd', 1, 3)
+    expect(Object.keys(table)).toEqual(['b', 'c', 'd'])
+  })
+
+  it('forgets an upload', () => {
+    expect(rememberLoudness({ a: -1, b: -2 }, 'a', null)).toEqual({ b: -2 })
+  })
+})
@@ -0,0 +1,98 @@
+/**
+ * Gain Trim
+ *
+ * YouTube uploads vary a lot in level. Each node can carry a trim in dB that
+ * is applied on top of the master volume on whichever deck plays it, so a
+ * crossfade lands both tracks at a matched level. The IFrame API can only
+ * turn a video down (volume tops out at 100), so a boost only goes as far as
+ * the master volume leaves headroom.
+ *
+ * Trims set by hand or nudged during playback are remembered per upload in a
+ * local loudness table; "match loudness" fills untrimmed nodes from it.
+ */
+
+import type { PlaylistNode } from '@/types'
+
+export const GAIN_MIN_DB = -12
+export const GAIN_MAX_DB = 6
+
+// Step for nudges during playback
+export const GAIN_NUDGE_DB = 1
+
+// Trims by YouTube video ID, least recently set first
+export type LoudnessTable = Record<string, number>
+
+// Uploads remembered in the (persisted) loudness table
+export const MAX_LOUDNESS_ENTRIES = 500
+
+/**
+ * Clamp to the trim range, in half-dB steps
+ */
+export function clampGainDb(db: number): number {
+  return Math.round(Math.min(GAIN_MAX_DB, Math.max(GAIN_MIN_DB, db)) * 2) / 2
+}
+
+/**
+ * Player volume (0-100) for a master volume with a node's trim applied
+ */
+export function applyGain(volume: number, gainDb: number = 0): number {
+  if (!gainDb) return volume
+  return Math.round(Math.min(100, Math.max(0, volume * Math.pow(10, gainDb / 20))))
+}
+
+export function formatGainDb(db: number = 0): string {
+  if (db === 0) return '0 dB'
+  return `${db > 0 ? '+' : ''}${db.toFixed(1).replace(/\.0$/, '')} dB`
+}
+
+/**
+ * Whether the node's trim came from the user (and shouldn't be overwritten)
+ */
+export function hasUserGain(node: PlaylistNode): boolean {
+  return node.gainSource === 'manual' || node.gainSource === 'nudge'
+}
+
+/**
+ * Remember (or forget, with null) an upload's trim. The entry moves to the
+ * end, and the least recently set uploads are dropped past MAX_LOUDNESS_ENTRIES.
+ */
+export function rememberLoudness(
+  table: LoudnessTable,
+  youtubeId: string,
+  gainDb: number | null,
+  maxEntries: number = MAX_LOUDNESS_ENTRIES
+): LoudnessTable {
+  const entries = Object.entries(table).filter(([id]) => id !== youtubeId)
+  if (gainDb !== null) entries.push([youtubeId, gainDb])
+  return Object.fromEntries(entries.slice(-maxEntries))
+}
+
+function getMatchedGain(node: PlaylistNode, table: LoudnessTable): number | undefined {
+  if (hasUserGain(node) || !node.track.youtubeId) return undefined
+  const known = table[node.track.youtubeId]
+  return known !== undefined && known !== node.gainDb ? known : undefined
+}
+
+/**
+ * Fill trims from the loudness table, leaving the user's own trims alone
+ */
+export function matchLoudness(
+  playlist: PlaylistNode[],
+  table: LoudnessTable
+): { playlist: PlaylistNode[]; matched: number } {
+  let matched = 0
+  const updated = playlist.map((node) => {
+    const gainDb = getMatchedGain(node, table)
+    if (gainDb === undefined) return node
+    matched++
+    return { ...node, gainDb, gainSource: 'matched' as const }
+  })
+  return { playlist: updated, matched }
+}
+
+/**
+ * Nodes a loudness match would change
+ */
+export function countMatchable(playlist: PlaylistNode[], table: LoudnessTable): number {
+  return playlist.filter((node) => getMatchedGain(node, table) !== undefined).length
+}
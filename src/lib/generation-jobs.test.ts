@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { StreamEvent } from '@/types'
+
+// In-memory stand-in for the Upstash keys, shared by every "instance"
+const store = new Map<string, unknown>()
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)))
+
+vi.mock('@upstash/redis', () => ({
+  Redis: class {
+    async get(key: string) {
+      return clone(store.get(key)) ?? null
+    }
+    async mget(...keys: string[]) {
+      return keys.map((key) => clone(store.get(key)) ?? null)
+    }
+    async set(key: string, value: unknown, options?: { nx?: boolean }) {
+      if (options?.nx && store.has(key)) return null
+      store.set(key, clone(value))
+      return 'OK'
+    }
+    async del(key: string) {
+      return store.delete(key) ? 1 : 0
+    }
+    async rpush(key: string, value: unknown) {
+      const list = (store.get(key) as unknown[] | undefined) ?? []
+      list.push(clone(value))
+      store.set(key, list)
+      return list.length
+    }
+    async lrange(key: string, start: number) {
+      return clone(((store.get(key) as unknown[] | undefined) ?? []).slice(start))
+    }
+    async expire() {
+      return 1
+    }
+  },
+}))
+
+const addCredits = vi.fn(async () => undefined)
+vi.mock('./subscription', () => ({ addCredits }))
+
+type JobsModule = typeof import('./generation-jobs')
+
+// Each import after resetModules is a separate server instance with its own memory
+async function startInstance(): Promise<JobsModule> {
+  vi.resetModules()
+  return import('./generation-jobs')
+}
+
+const result: StreamEvent = { event: 'primary-result', provider: 'openai', tracks: [] }
+const flush = () => new Promise((resolve) => setImmediate(resolve))
+
+describe('generation jobs across instances', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'setInterval'] })
+    vi.stubEnv('UPSTASH_REDIS_REST_URL', 'https://redis.test')
+    vi.stubEnv('UPSTASH_REDIS_REST_TOKEN', 'token')
+    store.clear()
+    addCredits.mockClear()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllEnvs()
+  })
+
+  it('refunds a cancel from another instance and stops the runner', async () => {
+    const runner = await startInstance()
+    const other = await startInstance()
+    const job = runner.createGenerationJob('dj@example.com', 'deep house', 8)
+    await flush()
+
+    const cancel = await other.cancelGenerationJob(job.id, 'dj@example.com')
+    expect(cancel).toEqual({ cancelled: true, refunded: true })
+
+    job.emit(result)
+    await job.finish('completed')
+    await flush()
+
+    expect(job.signal.aborted).toBe(true)
+    expect(addCredits).toHaveBeenCalledOnce()
+    const stored = await other.getGenerationJob(job.id, 'dj@example.com')
+    expect(stored).toMatchObject({ status: 'cancelled', resultDelivered: false, creditRefunded: true })
+    const events = (await other.readJobEvents(job.id, 0)).map((record) => record.event.event)
+    expect(events).not.toContain('primary-result')
+  })
+
+  it('refunds only once when two instances cancel together', async () => {
+    const runner = await startInstance()
+    const first = await startInstance()
+    const second = await startInstance()
+    const job = runner.createGenerationJob('dj@example.com', 'techno', 8)
+    await flush()
+
+    const results = await Promise.all([
+      first.cancelGenerationJob(job.id, 'dj@example.com'),
+      second.cancelGenerationJob(job.id, 'dj@example.com'),
+    ])
+
+    expect(results.filter((r) => r.cancelled)).toHaveLength(1)
+    expect(addCredits).toHaveBeenCalledOnce()
+  })
+
+  it('does not refund after a result was delivered', async () => {
+    const runner = await startInstance()
+    const other = await startInstance()
+    const job = runner.createGenerationJob('dj@example.com', 'disco', 8)
+    job.emit(result)
+    await flush()
+
+    const cancel = await other.cancelGenerationJob(job.id, 'dj@example.com')
+    expect(cancel).toEqual({ cancelled: true, refunded: false })
+    expect(addCredits).not.toHaveBeenCalled()
+  })
+
+  it('picks up a remote cancellation while the runner is still working', async () => {
+    const runner = await startInstance()
+    const other = await startInstance()
+    const job = runner.createGenerationJob('dj@example.com', 'ambient', 8)
+    await flush()
+
+    await other.cancelGenerationJob(job.id, 'dj@example.com')
+    expect(job.signal.aborted).toBe(false)
+
+    await vi.advanceTimersByTimeAsync(3000)
+    expect(job.signal.aborted).toBe(true)
+  })
+})
+
+describe('generation jobs without Redis', () => {
+  beforeEach(() => {
+    vi.stubEnv('UPSTASH_REDIS_REST_URL', '')
+    vi.stubEnv('UPSTASH_REDIS_REST_TOKEN', '')
+    addCredits.mockClear()
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('only knows jobs on the instance running them', async () => {
+    const runner = await startInstance()
+    const other = await startInstance()
+    const job = runner.createGenerationJob('dj@example.com', 'jazz', 8)
+
+    expect(await other.getGenerationJob(job.id, 'dj@example.com')).toBeNull()
+    expect(await other.cancelGenerationJob(job.id, 'dj@example.com')).toMatchObject({ cancelled: false, error: 'Job not found' })
+
+    expect(await runner.cancelGenerationJob(job.id, 'dj@example.com')).toEqual({ cancelled: true, refunded: true })
+    expect(addCredits).toHaveBeenCalledOnce()
+  })
+})
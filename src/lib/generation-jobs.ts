@@ -0,0 +1,492 @@
+/**
+ * Generation Jobs
+ *
+ * Playlist generation runs as a job that outlives the request that started
+ * it: a refresh or dropped connection no longer throws the result (and the
+ * credit spent on it) away. Each job has an ID, a status and a numbered event
+ * log holding every StreamEvent it produced, partial results included.
+ *
+ * The instance running a job keeps it in memory and pushes live events to
+ * subscribers. Metadata and the event log are mirrored to Upstash Redis (one
+ * hour TTL) so any instance can replay a job from a Last-Event-ID, and so
+ * cancellation works even when the job runs elsewhere. Two keys are only ever
+ * set once (SET NX) and decide races between instances: `:cancelled` marks the
+ * job cancelled, and `:credit` records whether its credit went to a delivered
+ * result or a refund - never both. The runner polls for a cancellation made
+ * elsewhere and stops.
+ *
+ * Without Redis a job only exists on the instance running it: reattaching or
+ * cancelling through another instance finds nothing (404).
+ *
+ * The job still runs inside the function invocation that started it, so on
+ * Netlify it is bound by that function's timeout (26s, see netlify.toml): it
+ * survives the client disconnecting, not the function being stopped.
+ *
+ * Server-only.
+ */
+
+import { Redis } from '@upstash/redis'
+import { addCredits } from './subscription'
+import type { GenerationJobStatus, GenerationJobSummary, StreamEvent } from '@/types'
+
+export interface GenerationJob extends GenerationJobSummary {
+  userEmail: string
+}
+
+export interface JobEventRecord {
+  id: number // 1-based position in the event log (the SSE event id)
+  event: StreamEvent
+}
+
+export interface GenerationJobHandle {
+  id: string
+  // Aborted when the job is cancelled
+  signal: AbortSignal
+  emit: (event: StreamEvent) => void
+  finish: (status: Exclude<GenerationJobStatus, 'running' | 'cancelled'>) => Promise<void>
+}
+
+interface JobRuntime {
+  job: GenerationJob
+  events: StreamEvent[]
+  listeners: Set<(record: JobEventRecord) => void>
+  abort: AbortController
+  // Redis writes are chained so the log keeps its order
+  persisting: Promise<unknown>
+  // Emitted events waiting to be delivered, in order
+  emitting: Promise<void>
+  // Polls Redis for a cancellation made on another instance
+  cancelWatch?: ReturnType<typeof setInterval>
+}
+
+type CreditOutcome = 'delivered' | 'refunded'
+
+const JOB_TTL_SECONDS = 60 * 60
+// Cross-instance followers poll Redis this often for new events
+const REMOTE_POLL_MS = 1500
+const HEARTBEAT_MS = 5000
+// The runner checks for a cancellation made on another instance this often
+const CANCEL_POLL_MS = 3000
+
+const TERMINAL_EVENTS: StreamEvent['event'][] = ['complete', 'all-failed', 'cancelled']
+
+let redis: Redis | null = null
+
+try {
+  if (process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN) {
+    redis = new Redis({
+      url: process.env.UPSTASH_REDIS_REST_URL,
+      token: process.env.UPSTASH_REDIS_REST_TOKEN,
+    })
+  }
+} catch (error) {
+  console.warn('[Jobs] Failed to initialize Redis:', error)
+}
+
+const jobs = new Map<string, JobRuntime>()
+
+const metaKey = (id: string) => `genjob:${id}`
+const eventsKey = (id: string) => `genjob:${id}:events`
+const cancelledKey = (id: string) => `genjob:${id}:cancelled`
+const creditKey = (id: string) => `genjob:${id}:credit`
+
+// === PERSISTENCE ===
+
+function persist(runtime: JobRuntime, write: (client: Redis) => Promise<unknown>): void {
+  if (!redis) return
+  const client = redis
+  runtime.persisting = runtime.persisting
+    .then(() => write(client))
+    .catch((error) => console.error(`[Jobs] Failed to persist job ${runtime.job.id}:`, error))
+}
+
+function persistMeta(runtime: JobRuntime): void {
+  persist(runtime, async (client) => {
+    // Don't write a running job over a cancellation made on another instance
+    if (await checkRemoteCancellation(runtime)) return
+    await client.set(metaKey(runtime.job.id), runtime.job, { ex: JOB_TTL_SECONDS })
+  })
+}
+
+async function loadRemoteJob(id: string): Promise<GenerationJob | null> {
+  if (!redis) return null
+  try {
+    const [job, cancelled, credit] = await redis.mget<[GenerationJob | null, unknown, CreditOutcome | null]>(
+      metaKey(id),
+      cancelledKey(id),
+      creditKey(id)
+    )
+    if (!job) return null
+    // The once-only keys win over metadata the runner may not have updated yet
+    return {
+      ...job,
+      status: cancelled ? 'cancelled' : job.status,
+      resultDelivered: job.resultDelivered || credit === 'delivered',
+      creditRefunded: job.creditRefunded || credit === 'refunded',
+    }
+  } catch (error) {
+    console.error(`[Jobs] Failed to load job ${id}:`, error)
+    return null
+  }
+}
+
+/**
+ * Claim the job's credit for a delivered result or a refund. Only the first
+ * claim succeeds, on any instance. If Redis fails a result is still delivered
+ * but nothing is refunded.
+ */
+async function claimCredit(job: GenerationJob, outcome: CreditOutcome): Promise<boolean> {
+  if (job.resultDelivered || job.creditRefunded) return false
+  if (!redis) return true
+  try {
+    return await redis.set(creditKey(job.id), outcome, { nx: true, ex: JOB_TTL_SECONDS }) === 'OK'
+  } catch (error) {
+    console.error(`[Jobs] Failed to claim credit for ${job.id}:`, error)
+    return outcome === 'delivered'
+  }
+}
+
+/**
+ * Record the cancellation. False when another instance cancelled the job first.
+ */
+async function claimCancellation(id: string): Promise<boolean> {
+  if (!redis) return true
+  try {
+    return await redis.set(cancelledKey(id), 1, { nx: true, ex: JOB_TTL_SECONDS }) === 'OK'
+  } catch (error) {
+    console.error(`[Jobs] Failed to record cancellation for ${id}:`, error)
+    return true
+  }
+}
+
+/**
+ * Stop a running job that was cancelled on another instance. That instance
+ * already logged the cancelled event in Redis; followers on this instance
+ * get it locally.
+ */
+async function checkRemoteCancellation(runtime: JobRuntime): Promise<boolean> {
+  const { job } = runtime
+  if (!redis || job.status !== 'running') return false
+  try {
+    const [cancelled, credit] = await redis.mget<[unknown, CreditOutcome | null]>(cancelledKey(job.id), creditKey(job.id))
+    if (!cancelled || job.status !== 'running') return false
+    stopCancelledElsewhere(runtime, credit === 'refunded')
+    return true
+  } catch (error) {
+    console.error(`[Jobs] Failed to check cancellation of ${job.id}:`, error)
+    return false
+  }
+}
+
+function stopCancelledElsewhere(runtime: JobRuntime, refunded: boolean): void {
+  const { job } = runtime
+  job.status = 'cancelled'
+  job.creditRefunded = refunded
+  job.updatedAt = new Date().toISOString()
+  runtime.abort.abort()
+  notify(runtime, { event: 'cancelled', refunded })
+  scheduleEviction(runtime)
+  console.log(`[Jobs] ${job.id} was cancelled elsewhere`)
+}
+
+// === LIFECYCLE ===
+
+/**
+ * Register a new running job. The credit for it is assumed to be consumed.
+ */
+export function createGenerationJob(userEmail: string, prompt: string, trackCount: number): GenerationJobHandle {
+  const now = new Date().toISOString()
+  const runtime: JobRuntime = {
+    job: {
+      id: `job-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+      userEmail,
+      status: 'running',
+      prompt,
+      trackCount,
+      createdAt: now,
+      updatedAt: now,
+      eventCount: 0,
+      resultDelivered: false,
+      creditRefunded: false,
+    },
+    events: [],
+    listeners: new Set(),
+    abort: new AbortController(),
+    persisting: Promise.resolve(),
+    emitting: Promise.resolve(),
+  }
+  const { job } = runtime
+  jobs.set(job.id, runtime)
+  persistMeta(runtime)
+  if (redis) {
+    runtime.cancelWatch = setInterval(() => void checkRemoteCancellation(runtime), CANCEL_POLL_MS)
+  }
+  console.log(`[Jobs] Created ${job.id}`)
+
+  return {
+    id: job.id,
+    signal: runtime.abort.signal,
+    emit: (event) => {
+      runtime.emitting = runtime.emitting
+        .then(() => deliverEvent(runtime, event))
+        .catch((error) => console.error(`[Jobs] Failed to emit for ${job.id}:`, error))
+    },
+    finish: async (status) => {
+      await runtime.emitting
+      if (job.status !== 'running' || await checkRemoteCancellation(runtime)) return
+      job.status = status
+      job.updatedAt = new Date().toISOString()
+      persistMeta(runtime)
+      scheduleEviction(runtime)
+    },
+  }
+}
+
+async function deliverEvent(runtime: JobRuntime, event: StreamEvent): Promise<void> {
+  const { job } = runtime
+  // A cancelled job's runner may still be finishing a step - drop its output
+  if (job.status !== 'running') return
+
+  if (event.event === 'primary-result' && !job.resultDelivered) {
+    // Losing the claim means the job was cancelled and refunded elsewhere
+    if (!(await claimCredit(job, 'delivered'))) {
+      await checkRemoteCancellation(runtime)
+      return
+    }
+    if (job.status !== 'running') return
+  }
+  appendEvent(runtime, event)
+}
+
+function notify(runtime: JobRuntime, event: StreamEvent): void {
+  runtime.events.push(event)
+  runtime.job.eventCount = runtime.events.length
+  const record = { id: runtime.events.length, event }
+  runtime.listeners.forEach((listener) => listener(record))
+}
+
+function appendEvent(runtime: JobRuntime, event: StreamEvent): void {
+  const { job } = runtime
+  job.updatedAt = new Date().toISOString()
+  if (event.event === 'primary-result') job.resultDelivered = true
+
+  persist(runtime, async (client) => {
+    await client.rpush(eventsKey(job.id), event)
+    await client.expire(eventsKey(job.id), JOB_TTL_SECONDS)
+  })
+  if (event.event === 'primary-result' || TERMINAL_EVENTS.includes(event.event)) {
+    persistMeta(runtime)
+  }
+
+  notify(runtime, event)
+}
+
+function scheduleEviction(runtime: JobRuntime): void {
+  clearInterval(runtime.cancelWatch)
+  // Keep finished jobs around briefly for local reattaches, Redis has the rest
+  setTimeout(() => jobs.delete(runtime.job.id), redis ? 5 * 60 * 1000 : JOB_TTL_SECONDS * 1000)
+}
+
+// === QUERIES ===
+
+/**
+ * Look a job up (this instance first, then Redis). Returns null for jobs that
+ * don't exist, have expired or belong to another user.
+ */
+export async function getGenerationJob(id: string, userEmail: string): Promise<GenerationJob | null> {
+  const job = jobs.get(id)?.job ?? await loadRemoteJob(id)
+  return job && job.userEmail === userEmail ? job : null
+}
+
+/**
+ * Events after `afterId` (0 = the whole log)
+ */
+export async function readJobEvents(id: string, afterId: number): Promise<JobEventRecord[]> {
+  const runtime = jobs.get(id)
+  if (runtime) {
+    return runtime.events.slice(afterId).map((event, offset) => ({ id: afterId + offset + 1, event }))
+  }
+  if (!redis) return []
+
+  try {
+    const events = await redis.lrange<StreamEvent>(eventsKey(id), afterId, -1)
+    return events.map((event, offset) => ({ id: afterId + offset + 1, event }))
+  } catch (error) {
+    console.error(`[Jobs] Failed to read events for ${id}:`, error)
+    return []
+  }
+}
+
+export function toJobSummary(job: GenerationJob): GenerationJobSummary {
+  const { userEmail: _userEmail, ...summary } = job
+  return summary
+}
+
+// === CANCELLATION ===
+
+/**
+ * Cancel a running job. The credit is refunded when the user never received
+ * a result from it.
+ */
+export async function cancelGenerationJob(
+  id: string,
+  userEmail: string
+): Promise<{ cancelled: boolean; refunded: boolean; error?: string }> {
+  const runtime = jobs.get(id)
+  // Let events already emitted (a result, say) land first
+  if (runtime) await runtime.emitting
+  const job = runtime?.job ?? await loadRemoteJob(id)
+  if (!job || job.userEmail !== userEmail) {
+    return { cancelled: false, refunded: false, error: 'Job not found' }
+  }
+  if (job.status !== 'running') {
+    return { cancelled: false, refunded: job.creditRefunded, error: `Job already ${job.status}` }
+  }
+
+  job.status = 'cancelled'
+  job.updatedAt = new Date().toISOString()
+  runtime?.abort.abort()
+
+  // Another instance may have cancelled it at the same time
+  if (!(await claimCancellation(id))) {
+    const refunded = await redis?.get<CreditOutcome>(creditKey(id)).catch(() => null) === 'refunded'
+    if (runtime) stopCancelledElsewhere(runtime, refunded)
+    return { cancelled: false, refunded, error: 'Job already cancelled' }
+  }
+
+  let refunded = false
+  if (await claimCredit(job, 'refunded')) {
+    try {
+      await addCredits(userEmail, 1, 'generation_refund', { jobId: id })
+      job.creditRefunded = true
+      refunded = true
+    } catch (error) {
+      console.error(`[Jobs] Refund failed for ${id}:`, error)
+      await redis?.del(creditKey(id)).catch(() => undefined)
+    }
+  }
+
+  const cancelledEvent: StreamEvent = { event: 'cancelled', refunded }
+  if (runtime) {
+    appendEvent(runtime, cancelledEvent)
+    scheduleEviction(runtime)
+  } else if (redis) {
+    // Running on another instance: its runner sees the cancelled key and stops,
+    // followers stop at the cancelled event
+    try {
+      await redis.rpush(eventsKey(id), cancelledEvent)
+      job.eventCount++
+      await redis.set(metaKey(id), job, { ex: JOB_TTL_SECONDS })
+    } catch (error) {
+      console.error(`[Jobs] Failed to record cancellation for ${id}:`, error)
+    }
+  }
+
+  console.log(`[Jobs] Cancelled ${id}${refunded ? ' (credit refunded)' : ''}`)
+  return { cancelled: true, refunded }
+}
+
+// === STREAMING ===
+
+/**
+ * SSE response replaying a job's events after `afterId`, then following it
+ * live until it finishes. Each event carries its log position as the SSE id,
+ * so clients can resume with Last-Event-ID.
+ */
+export function streamJobEvents(id: string, afterId: number = 0): Response {
+  const encoder = new TextEncoder()
+  let closed = false
+  const cleanups: (() => void)[] = []
+  const stop = () => {
+    closed = true
+    cleanups.forEach((cleanup) => cleanup())
+  }
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const close = () => {
+        if (closed) return
+        stop()
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the client
+        }
+      }
+
+      let lastSent = afterId
+      const send = (record: JobEventRecord) => {
+        if (closed || record.id <= lastSent) return
+        lastSent = record.id
+        try {
+          controller.enqueue(encoder.encode(`id: ${record.id}\ndata: ${JSON.stringify(record.event)}\n\n`))
+        } catch {
+          // Client went away - the job keeps running
+          stop()
+          return
+        }
+        if (TERMINAL_EVENTS.includes(record.event.event)) close()
+      }
+
+      const heartbeat = setInterval(() => {
+        try {
+          controller.enqueue(encoder.encode(`: heartbeat\n\n`))
+        } catch {
+          stop()
+        }
+      }, HEARTBEAT_MS)
+      cleanups.push(() => clearInterval(heartbeat))
+
+      const runtime = jobs.get(id)
+      if (runtime) {
+        // Subscribe before replaying so nothing emitted in between is lost
+        const queued: JobEventRecord[] = []
+        let replaying = true
+        const listener = (record: JobEventRecord) => (replaying ? queued.push(record) : send(record))
+        runtime.listeners.add(listener)
+        cleanups.push(() => runtime.listeners.delete(listener))
+
+        ;(await readJobEvents(id, afterId)).forEach(send)
+        replaying = false
+        queued.forEach(send)
+        if (runtime.job.status !== 'running') close()
+        return
+      }
+
+      // Job runs on another instance (or this one restarted): follow it through Redis
+      while (!closed) {
+        ;(await readJobEvents(id, lastSent)).forEach(send)
+        if (closed) return
+        const job = await loadRemoteJob(id)
+        if (!job || job.status !== 'running') {
+          ;(await readJobEvents(id, lastSent)).forEach(send)
+          close()
+          return
+        }
+        await new Promise((resolve) => setTimeout(resolve, REMOTE_POLL_MS))
+      }
+    },
+    cancel() {
+      stop()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  })
+}
+
+/**
+ * Resume position from the Last-Event-ID header (or ?lastEventId= for clients
+ * that can't set headers)
+ */
+export function getLastEventId(request: Request): number {
+  const header = request.headers.get('last-event-id')
+  const param = new URL(request.url).searchParams.get('lastEventId')
+  const parsed = parseInt(header || param || '0', 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0
+}
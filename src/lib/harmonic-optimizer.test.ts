@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import { getMovableBlocks, optimizePlaylistOrder, scorePlaylistOrder } from './harmonic-optimizer'
+import type { PlaylistNode, SetSegment, Track } from '@/types'
+
+// A set in a deliberately rough order: BPM and key jump around
+const TRACKS: [string, number, string, number][] = [
+  ['a', 124, '8A', 40],
+  ['b', 140, '3B', 90],
+  ['c', 122, '8A', 35],
+  ['d', 128, '9A', 60],
+  ['e', 100, '1B', 20],
+  ['f', 126, '9A', 55],
+  ['g', 138, '4B', 85],
+  ['h', 130, '10A', 70],
+  ['i', 102, '12B', 25],
+  ['j', 132, '10A', 75],
+]
+
+const node = ([title, bpm, key, energy]: (typeof TRACKS)[number], index: number): PlaylistNode => ({
+  id: title,
+  track: { id: title, youtubeId: title, title, artist: 'Artist', duration: 300, bpm, key, energy } as Track,
+  position: index,
+})
+
+const buildPlaylist = (locked: number[] = []): PlaylistNode[] =>
+  TRACKS.map((track, index) => ({ ...node(track, index), isLocked: locked.includes(index) }))
+
+const segment = (id: string, startIndex: number, endIndex: number, order: number): SetSegment => ({
+  id,
+  name: id,
+  color: '#000000',
+  duration: { type: 'tracks', count: endIndex - startIndex + 1 },
+  order,
+  constraints: {},
+  startIndex,
+  endIndex,
+})
+
+const ids = (playlist: PlaylistNode[]) => playlist.map((n) => n.id)
+
+describe('getMovableBlocks', () => {
+  it('groups positions by segment and leaves out locked and fixed ones', () => {
+    const playlist = buildPlaylist([1])
+    const blocks = getMovableBlocks(playlist, [segment('one', 0, 4, 0), segment('two', 5, 9, 1)], [7])
+    expect(blocks).toEqual([[0, 2, 3, 4], [5, 6, 8, 9]])
+  })
+})
+
+describe('optimizePlaylistOrder', () => {
+  it('never scores worse than the input order', () => {
+    const playlist = buildPlaylist()
+    const result = optimizePlaylistOrder(playlist, [], { seed: 42 })
+    expect(result.beforeScore).toBe(scorePlaylistOrder(playlist))
+    expect(result.afterScore).toBeGreaterThanOrEqual(result.beforeScore)
+    expect(result.afterScore).toBe(scorePlaylistOrder(result.playlist))
+    expect(result.changed).toBe(true)
+  })
+
+  it('gives the same order for the same seed', () => {
+    const first = optimizePlaylistOrder(buildPlaylist(), [], { seed: 7 })
+    const second = optimizePlaylistOrder(buildPlaylist(), [], { seed: 7 })
+    expect(ids(second.playlist)).toEqual(ids(first.playlist))
+  })
+
+  it('keeps locked nodes at their index', () => {
+    const locked = [0, 4, 9]
+    const playlist = buildPlaylist(locked)
+    const result = optimizePlaylistOrder(playlist, [], { seed: 1 })
+    locked.forEach((index) => expect(result.playlist[index].id).toBe(playlist[index].id))
+    expect([...ids(result.playlist)].sort()).toEqual([...ids(playlist)].sort())
+  })
+
+  it('keeps fixed indices in place', () => {
+    const playlist = buildPlaylist()
+    const result = optimizePlaylistOrder(playlist, [], { seed: 3, fixedIndices: [5] })
+    expect(result.playlist[5].id).toBe('f')
+  })
+
+  it('never moves a node across a segment boundary', () => {
+    const playlist = buildPlaylist()
+    const segments = [segment('one', 0, 3, 0), segment('two', 4, 6, 1), segment('three', 7, 9, 2)]
+    const result = optimizePlaylistOrder(playlist, segments, { seed: 11 })
+
+    segments.forEach(({ startIndex, endIndex }) => {
+      const before = ids(playlist.slice(startIndex, endIndex! + 1)).sort()
+      const after = ids(result.playlist.slice(startIndex, endIndex! + 1)).sort()
+      expect(after).toEqual(before)
+    })
+  })
+
+  it('renumbers positions in the new order', () => {
+    const result = optimizePlaylistOrder(buildPlaylist(), [], { seed: 5 })
+    expect(result.playlist.map((n) => n.position)).toEqual(TRACKS.map((_, index) => index))
+  })
+
+  it('leaves a playlist with nothing to move alone', () => {
+    const playlist = buildPlaylist(TRACKS.map((_, index) => index))
+    const result = optimizePlaylistOrder(playlist, [], { seed: 9 })
+    expect(result.playlist).toBe(playlist)
+    expect(result.changed).toBe(false)
+    expect(result.movedCount).toBe(0)
+  })
+})
@@ -0,0 +1,249 @@
+/**
+ * Harmonic Path Optimizer
+ *
+ * Reorders a playlist to maximise transition quality (BPM, key and energy flow)
+ * while keeping locked tracks in place and tracks inside their segments.
+ *
+ * Uses seeded simulated annealing over swaps of movable tracks, so the same
+ * playlist and seed always produce the same order.
+ */
+
+import type { PlaylistNode, SetSegment } from '@/types'
+import { calculateTransitionScore } from './camelot'
+
+export interface OptimizeOrderOptions {
+  // Seed for the pseudo-random generator (same seed = same result)
+  seed?: number
+  // Number of annealing steps (scaled down for small playlists)
+  iterations?: number
+  // Target energy curve (1-100), interpolated across the playlist
+  energyProfile?: number[]
+  // How strongly to follow the energy curve (0-1)
+  energyWeight?: number
+  // Extra indices to keep fixed (e.g. the currently playing track)
+  fixedIndices?: number[]
+}
+
+export interface OptimizeOrderResult {
+  playlist: PlaylistNode[]
+  // Average transition score (0-100) before and after
+  beforeScore: number
+  afterScore: number
+  // Number of tracks that changed position
+  movedCount: number
+  // True if the optimized order differs from the original
+  changed: boolean
+}
+
+const DEFAULT_SEED = 0x5eed
+const DEFAULT_ITERATIONS = 20000
+const DEFAULT_ENERGY_WEIGHT = 0.5
+
+// === RANDOM ===
+
+/**
+ * Mulberry32 - small, fast, seedable PRNG
+ */
+function createRandom(seed: number): () => number {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// === ENERGY CURVE ===
+
+/**
+ * Interpolate the target energy for a position from an energy profile
+ */
+export function getTargetEnergy(profile: number[], index: number, total: number): number {
+  if (profile.length === 0) return 50
+  if (profile.length === 1) return profile[0]
+
+  const progress = index / (total - 1 || 1)
+  const profileIndex = progress * (profile.length - 1)
+  const lowerIndex = Math.floor(profileIndex)
+  const upperIndex = Math.min(lowerIndex + 1, profile.length - 1)
+  const fraction = profileIndex - lowerIndex
+  return profile[lowerIndex] + (profile[upperIndex] - profile[lowerIndex]) * fraction
+}
+
+// === SCORING ===
+
+/**
+ * Average transition score (0-100) for a playlist order
+ */
+export function scorePlaylistOrder(playlist: PlaylistNode[]): number {
+  if (playlist.length < 2) return 0
+
+  let total = 0
+  for (let i = 0; i < playlist.length - 1; i++) {
+    const from = playlist[i].track
+    const to = playlist[i + 1].track
+    total += calculateTransitionScore(from.bpm, to.bpm, from.key, to.key, from.energy, to.energy)
+  }
+  return Math.round(total / (playlist.length - 1))
+}
+
+// === CONSTRAINTS ===
+
+/**
+ * Group playlist positions into blocks that tracks may be shuffled within.
+ * Each segment with known boundaries is its own block; positions outside any
+ * segment form one shared block. Locked and fixed positions are excluded.
+ */
+export function getMovableBlocks(
+  playlist: PlaylistNode[],
+  segments: SetSegment[] = [],
+  fixedIndices: number[] = []
+): number[][] {
+  const fixed = new Set(fixedIndices)
+  const blockOf = new Array<number>(playlist.length).fill(-1)
+
+  segments.forEach((segment, segmentIndex) => {
+    if (segment.startIndex === undefined || segment.endIndex === undefined) return
+    const end = Math.min(segment.endIndex, playlist.length - 1)
+    for (let i = Math.max(0, segment.startIndex); i <= end; i++) {
+      blockOf[i] = segmentIndex
+    }
+  })
+
+  const blocks = new Map<number, number[]>()
+  playlist.forEach((node, index) => {
+    if (node.isLocked || fixed.has(index)) return
+    const block = blocks.get(blockOf[index]) || []
+    block.push(index)
+    blocks.set(blockOf[index], block)
+  })
+
+  return Array.from(blocks.values()).filter((block) => block.length > 1)
+}
+
+// === SOLVER ===
+
+/**
+ * Find a better track order for the playlist
+ */
+export function optimizePlaylistOrder(
+  playlist: PlaylistNode[],
+  segments: SetSegment[] = [],
+  options: OptimizeOrderOptions = {}
+): OptimizeOrderResult {
+  const n = playlist.length
+  const beforeScore = scorePlaylistOrder(playlist)
+  const blocks = getMovableBlocks(playlist, segments, options.fixedIndices)
+
+  if (n < 3 || blocks.length === 0) {
+    return { playlist, beforeScore, afterScore: beforeScore, movedCount: 0, changed: false }
+  }
+
+  const profile = options.energyProfile || []
+  const energyWeight = profile.length > 0 ? (options.energyWeight ?? DEFAULT_ENERGY_WEIGHT) : 0
+
+  // Precompute pairwise transition scores between tracks (by original index)
+  const pairScore: number[][] = playlist.map((from) =>
+    playlist.map((to) =>
+      calculateTransitionScore(
+        from.track.bpm,
+        to.track.bpm,
+        from.track.key,
+        to.track.key,
+        from.track.energy,
+        to.track.energy
+      )
+    )
+  )
+
+  // Energy fit of track t at position p: 100 = on the curve, 0 = 50+ points off
+  const energyFit = (trackIndex: number, position: number): number => {
+    if (energyWeight === 0) return 0
+    const energy = playlist[trackIndex].track.energy
+    if (energy === undefined) return 0
+    const diff = Math.abs(energy - getTargetEnergy(profile, position, n))
+    return Math.max(0, 100 - diff * 2)
+  }
+
+  // order[position] = original track index
+  const order = playlist.map((_, i) => i)
+
+  // Contribution of a position: its outgoing transition plus its energy fit
+  const transitionAt = (position: number): number =>
+    position >= 0 && position < n - 1 ? pairScore[order[position]][order[position + 1]] : 0
+
+  const totalScore = (): number => {
+    let total = 0
+    for (let p = 0; p < n; p++) {
+      total += transitionAt(p) + energyWeight * energyFit(order[p], p)
+    }
+    return total
+  }
+
+  // Score of everything touched by positions a and b (transitions on both sides)
+  const localScore = (a: number, b: number): number => {
+    const touched = new Set([a - 1, a, b - 1, b])
+    let total = 0
+    touched.forEach((p) => {
+      total += transitionAt(p)
+    })
+    total += energyWeight * (energyFit(order[a], a) + energyFit(order[b], b))
+    return total
+  }
+
+  const random = createRandom(options.seed ?? DEFAULT_SEED)
+  const movable = blocks.reduce((sum, block) => sum + block.length, 0)
+  const iterations = Math.min(options.iterations ?? DEFAULT_ITERATIONS, movable * movable * 200)
+
+  let current = totalScore()
+  let best = current
+  let bestOrder = order.slice()
+
+  // Temperature in score points; cools geometrically toward ~0.1
+  const startTemp = 20
+  const endTemp = 0.1
+  const cooling = Math.pow(endTemp / startTemp, 1 / iterations)
+  let temperature = startTemp
+
+  for (let step = 0; step < iterations; step++) {
+    const block = blocks[Math.floor(random() * blocks.length)]
+    const i = Math.floor(random() * block.length)
+    let j = Math.floor(random() * (block.length - 1))
+    if (j >= i) j++
+
+    const a = Math.min(block[i], block[j])
+    const b = Math.max(block[i], block[j])
+
+    const before = localScore(a, b)
+    ;[order[a], order[b]] = [order[b], order[a]]
+    const delta = localScore(a, b) - before
+
+    if (delta >= 0 || random() < Math.exp(delta / temperature)) {
+      current += delta
+      if (current > best + 1e-9) {
+        best = current
+        bestOrder = order.slice()
+      }
+    } else {
+      ;[order[a], order[b]] = [order[b], order[a]]
+    }
+
+    temperature *= cooling
+  }
+
+  const optimized = bestOrder.map((originalIndex, position) => ({
+    ...playlist[originalIndex],
+    position,
+  }))
+  const movedCount = bestOrder.filter((originalIndex, position) => originalIndex !== position).length
+
+  return {
+    playlist: movedCount > 0 ? optimized : playlist,
+    beforeScore,
+    afterScore: movedCount > 0 ? scorePlaylistOrder(optimized) : beforeScore,
+    movedCount,
+    changed: movedCount > 0,
+  }
+}
@@ -5,6 +5,8 @@
  * Falls back through multiple instances for reliability.
  */
 
+import { withFixture } from './provider-fixtures'
+
 export interface VideoSearchResult {
   videoId: string
   title: string
@@ -207,9 +209,18 @@ export async function searchWithPiped(query: string): Promise<VideoSearchResult
 
 /**
  * Search using both Invidious and Piped (parallel, first wins)
+ * (recorded/replayed when fixture mode is on)
  */
 export async function searchAlternativeSources(
   query: string
+): Promise<VideoSearchResult | null> {
+  return withFixture('invidious', { query }, () => searchBothSources(query), {
+    onMiss: () => null,
+  })
+}
+
+async function searchBothSources(
+  query: string
 ): Promise<VideoSearchResult | null> {
   console.log(`[AltSearch] Searching for: ${query}`)
 
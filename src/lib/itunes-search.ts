@@ -16,16 +16,24 @@ export interface iTunesTrackResult {
   trackTimeMillis: number
   primaryGenreName: string
   previewUrl?: string
+  releaseDate?: string // ISO date
+  trackExplicitness?: 'explicit' | 'cleaned' | 'notExplicit'
 }
 
 export interface AlbumArtResult {
   thumbnail: string // High-res album art URL
   thumbnailSmall: string // Medium-res for list views
+  artist?: string // Artist/title of the matched iTunes track (may differ from the query)
+  title?: string
   album?: string
   genre?: string
   duration?: number // in seconds
+  releaseYear?: number
+  isExplicit?: boolean
 }
 
+import { withFixture } from './provider-fixtures'
+
 // Timeout for API calls
 const FETCH_TIMEOUT = 4000
 
@@ -51,10 +59,20 @@ async function fetchWithTimeout(
 
 /**
  * Search iTunes for a track and get album artwork
+ * (recorded/replayed when fixture mode is on)
  */
 export async function searchiTunes(
   artist: string,
   title: string
+): Promise<AlbumArtResult | null> {
+  return withFixture('itunes', { artist, title }, () => fetchiTunesMatch(artist, title), {
+    onMiss: () => null,
+  })
+}
+
+async function fetchiTunesMatch(
+  artist: string,
+  title: string
 ): Promise<AlbumArtResult | null> {
   try {
     // Build search query
@@ -119,11 +137,19 @@ export async function searchiTunes(
     return {
       thumbnail: artworkUrl600 || artworkUrl200 || match.artworkUrl100,
       thumbnailSmall: artworkUrl200 || match.artworkUrl100,
+      artist: match.artistName,
+      title: match.trackName,
       album: match.collectionName,
       genre: match.primaryGenreName,
       duration: match.trackTimeMillis
         ? Math.round(match.trackTimeMillis / 1000)
         : undefined,
+      releaseYear: match.releaseDate
+        ? new Date(match.releaseDate).getUTCFullYear() || undefined
+        : undefined,
+      isExplicit: match.trackExplicitness
+        ? match.trackExplicitness === 'explicit'
+        : undefined,
     }
   } catch (error) {
     if (error instanceof Error && error.name === 'AbortError') {
@@ -0,0 +1,776 @@
+/**
+ * LLM Provider Registry
+ *
+ * One place for talking to language models. Each AIProvider is registered with
+ * its endpoint, default model and request/response mapping; callers only build
+ * prompts. The registry adds timeouts, retries on transient failures, token
+ * accounting (trackAITokens), token streaming and JSON extraction from model
+ * output, including incremental parsing of streamed arrays.
+ *
+ * Providers:
+ * - openai: OpenAI chat completions (OPENAI_API_KEY)
+ * - claude: Anthropic messages (ANTHROPIC_API_KEY)
+ * - gemini: Google generateContent (GOOGLE_AI_API_KEY)
+ * - openai-compatible: any OpenAI-style /chat/completions server such as
+ *   Ollama, vLLM or a local stub (OPENAI_COMPATIBLE_BASE_URL, optional
+ *   OPENAI_COMPATIBLE_API_KEY)
+ *
+ * Default models can be overridden with OPENAI_MODEL, ANTHROPIC_MODEL,
+ * GEMINI_MODEL and OPENAI_COMPATIBLE_MODEL.
+ *
+ * Completions go through the record/replay fixture layer (provider-fixtures);
+ * in replay mode a provider counts as available when it has recordings.
+ */
+
+import type { AIProvider } from '@/types'
+import { trackAITokens, type AIQuotaProvider } from './quota-tracker'
+import { withFixture, getFixtureMode, getRecordedVariants } from './provider-fixtures'
+
+export interface LLMRequest {
+  system?: string
+  prompt: string
+  temperature?: number
+  maxTokens?: number
+  // Ask the provider for a JSON object response where supported
+  jsonObject?: boolean
+  timeoutMs?: number
+  retries?: number
+  // Label used in logs (e.g. "Swap", "Regenerate")
+  logLabel?: string
+  // Aborts the request early (e.g. when a generation job is cancelled)
+  signal?: AbortSignal
+}
+
+export interface LLMUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+export interface LLMCompletion {
+  provider: AIProvider
+  model: string
+  text: string
+  usage: LLMUsage
+}
+
+export interface LLMJSONCompletion<T> extends LLMCompletion {
+  data: T
+  // True when the JSON had to be repaired or truncated to parse
+  repaired: boolean
+}
+
+interface ProviderCallOptions {
+  model: string
+  signal: AbortSignal
+}
+
+interface ProviderStreamOptions extends ProviderCallOptions {
+  onText: (delta: string) => void
+}
+
+type ProviderResult = Omit<LLMCompletion, 'provider' | 'model'>
+
+export interface LLMProviderDefinition {
+  id: AIProvider
+  label: string
+  quotaProvider: AIQuotaProvider
+  defaultModel: string
+  isConfigured: () => boolean
+  call: (request: LLMRequest, options: ProviderCallOptions) => Promise<ProviderResult>
+  // Same request, with text deltas reported as the model writes them
+  stream: (request: LLMRequest, options: ProviderStreamOptions) => Promise<ProviderResult>
+}
+
+// Order used when picking a default provider and when running several in parallel
+export const PROVIDER_ORDER: AIProvider[] = ['openai', 'claude', 'gemini', 'openai-compatible']
+
+const DEFAULT_TIMEOUT_MS = 45000
+const DEFAULT_RETRIES = 1
+const RETRY_BASE_DELAY_MS = 750
+const DEFAULT_MAX_TOKENS = 4000
+
+const hasValue = (value: string | undefined): value is string => !!value && value.trim().length > 0
+
+// === ERRORS ===
+
+type LLMHttpError = Error & { status?: number }
+
+function httpError(label: string, status: number, body: string): LLMHttpError {
+  return Object.assign(new Error(`${label} HTTP ${status}: ${body.substring(0, 200)}`), { status })
+}
+
+/**
+ * Rate limits, server errors and dropped connections are worth another try;
+ * bad requests, auth failures and timeouts are not
+ */
+function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false
+  if (isTimeoutError(error)) return false
+  const status = (error as LLMHttpError).status
+  if (status !== undefined) return status === 429 || status >= 500
+  // fetch() network failures surface as TypeError
+  return error instanceof TypeError
+}
+
+function isTimeoutError(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')
+}
+
+// === PROVIDERS ===
+
+/**
+ * Read a server-sent events body, passing each `data:` payload to onData
+ */
+async function readSSE(response: Response, onData: (data: string) => void): Promise<void> {
+  if (!response.body) return
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+    for (const line of lines) {
+      const trimmed = line.trim()
+      if (trimmed.startsWith('data:')) onData(trimmed.slice(5).trim())
+    }
+  }
+
+  const rest = buffer.trim()
+  if (rest.startsWith('data:')) onData(rest.slice(5).trim())
+}
+
+function parseSSEData(label: string, data: string): Record<string, any> | null {
+  if (!data || data === '[DONE]') return null
+  try {
+    return JSON.parse(data)
+  } catch {
+    console.warn(`[${label}] Skipping malformed stream chunk:`, data.substring(0, 100))
+    return null
+  }
+}
+
+/**
+ * Shared implementation for OpenAI and OpenAI-compatible chat completion APIs
+ */
+function createChatCompletionsProvider(
+  label: string,
+  getBaseUrl: () => string,
+  getApiKey: () => string | undefined
+): Pick<LLMProviderDefinition, 'call' | 'stream'> {
+  const post = async (request: LLMRequest, { model, signal }: ProviderCallOptions, stream: boolean) => {
+    const apiKey = getApiKey()
+    const response = await fetch(`${getBaseUrl().replace(/\/+$/, '')}/chat/completions`, {
+      signal,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          ...(request.system ? [{ role: 'system', content: request.system }] : []),
+          { role: 'user', content: request.prompt },
+        ],
+        temperature: request.temperature ?? 0.8,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(request.jsonObject ? { response_format: { type: 'json_object' } } : {}),
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+      }),
+    })
+
+    if (!response.ok) {
+      throw httpError(label, response.status, await response.text())
+    }
+    return response
+  }
+
+  return {
+    call: async (request, options) => {
+      const data = await (await post(request, options, false)).json()
+      if (data.error) throw new Error(`${label} API error: ${data.error.message || JSON.stringify(data.error)}`)
+
+      return {
+        text: data.choices?.[0]?.message?.content || '',
+        usage: {
+          promptTokens: data.usage?.prompt_tokens || 0,
+          completionTokens: data.usage?.completion_tokens || 0,
+        },
+      }
+    },
+
+    stream: async (request, options) => {
+      const response = await post(request, options, true)
+      let text = ''
+      const usage = { promptTokens: 0, completionTokens: 0 }
+
+      await readSSE(response, (data) => {
+        const chunk = parseSSEData(label, data)
+        if (!chunk) return
+        if (chunk.error) throw new Error(`${label} API error: ${chunk.error.message || JSON.stringify(chunk.error)}`)
+        const delta = chunk.choices?.[0]?.delta?.content
+        if (delta) {
+          text += delta
+          options.onText(delta)
+        }
+        if (chunk.usage) {
+          usage.promptTokens = chunk.usage.prompt_tokens || 0
+          usage.completionTokens = chunk.usage.completion_tokens || 0
+        }
+      })
+
+      return { text, usage }
+    },
+  }
+}
+
+function claudeRequest(request: LLMRequest, { model, signal }: ProviderCallOptions, stream: boolean) {
+  return fetch('https://api.anthropic.com/v1/messages', {
+    signal,
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': process.env.ANTHROPIC_API_KEY || '',
+      'anthropic-version': '2023-06-01'
+    },
+    body: JSON.stringify({
+      model,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: request.temperature ?? 0.8,
+      ...(request.system ? { system: request.system } : {}),
+      messages: [{ role: 'user', content: request.prompt }],
+      ...(stream ? { stream: true } : {}),
+    }),
+  })
+}
+
+function geminiRequest(request: LLMRequest, { model, signal }: ProviderCallOptions, stream: boolean) {
+  const method = stream ? 'streamGenerateContent?alt=sse&' : 'generateContent?'
+  return fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}key=${process.env.GOOGLE_AI_API_KEY}`,
+    {
+      signal,
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...(request.system ? { systemInstruction: { parts: [{ text: request.system }] } } : {}),
+        contents: [{ parts: [{ text: request.prompt }] }],
+        generationConfig: {
+          temperature: request.temperature ?? 0.8,
+          maxOutputTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+          ...(request.jsonObject ? { responseMimeType: 'application/json' } : {}),
+        },
+      }),
+    }
+  )
+}
+
+export const LLM_PROVIDERS: Record<AIProvider, LLMProviderDefinition> = {
+  openai: {
+    id: 'openai',
+    label: 'OpenAI',
+    quotaProvider: 'openai',
+    defaultModel: 'gpt-4o-mini',
+    isConfigured: () => hasValue(process.env.OPENAI_API_KEY),
+    ...createChatCompletionsProvider(
+      'OpenAI',
+      () => 'https://api.openai.com/v1',
+      () => process.env.OPENAI_API_KEY
+    ),
+  },
+
+  claude: {
+    id: 'claude',
+    label: 'Claude',
+    quotaProvider: 'anthropic',
+    defaultModel: 'claude-sonnet-4-20250514',
+    isConfigured: () => hasValue(process.env.ANTHROPIC_API_KEY),
+    call: async (request, options) => {
+      const response = await claudeRequest(request, options, false)
+
+      if (!response.ok) {
+        throw httpError('Claude', response.status, await response.text())
+      }
+
+      const data = await response.json()
+      if (data.error) throw new Error(`Claude API error: ${data.error.message}`)
+
+      return {
+        text: data.content?.[0]?.text || '',
+        usage: {
+          promptTokens: data.usage?.input_tokens || 0,
+          completionTokens: data.usage?.output_tokens || 0,
+        },
+      }
+    },
+    stream: async (request, options) => {
+      const response = await claudeRequest(request, options, true)
+
+      if (!response.ok) {
+        throw httpError('Claude', response.status, await response.text())
+      }
+
+      let text = ''
+      const usage = { promptTokens: 0, completionTokens: 0 }
+
+      await readSSE(response, (data) => {
+        const event = parseSSEData('Claude', data)
+        if (!event) return
+        switch (event.type) {
+          case 'message_start':
+            usage.promptTokens = event.message?.usage?.input_tokens || 0
+            break
+          case 'content_block_delta':
+            if (event.delta?.type === 'text_delta' && event.delta.text) {
+              text += event.delta.text
+              options.onText(event.delta.text)
+            }
+            break
+          case 'message_delta':
+            usage.completionTokens = event.usage?.output_tokens || usage.completionTokens
+            break
+          case 'error':
+            throw new Error(`Claude API error: ${event.error?.message || 'stream error'}`)
+        }
+      })
+
+      return { text, usage }
+    },
+  },
+
+  gemini: {
+    id: 'gemini',
+    label: 'Gemini',
+    quotaProvider: 'google',
+    defaultModel: 'gemini-2.0-flash',
+    isConfigured: () => hasValue(process.env.GOOGLE_AI_API_KEY),
+    call: async (request, options) => {
+      const response = await geminiRequest(request, options, false)
+
+      if (!response.ok) {
+        throw httpError('Gemini', response.status, await response.text())
+      }
+
+      const data = await response.json()
+      if (data.error) throw new Error(`Gemini API error: ${data.error.message}`)
+
+      return {
+        text: data.candidates?.[0]?.content?.parts?.[0]?.text || '',
+        usage: {
+          promptTokens: data.usageMetadata?.promptTokenCount || 0,
+          completionTokens: data.usageMetadata?.candidatesTokenCount || 0,
+        },
+      }
+    },
+    stream: async (request, options) => {
+      const response = await geminiRequest(request, options, true)
+
+      if (!response.ok) {
+        throw httpError('Gemini', response.status, await response.text())
+      }
+
+      let text = ''
+      const usage = { promptTokens: 0, completionTokens: 0 }
+
+      await readSSE(response, (data) => {
+        const chunk = parseSSEData('Gemini', data)
+        if (!chunk) return
+        if (chunk.error) throw new Error(`Gemini API error: ${chunk.error.message}`)
+        const parts: { text?: string }[] = chunk.candidates?.[0]?.content?.parts || []
+        const delta = parts.map((part) => part.text || '').join('')
+        if (delta) {
+          text += delta
+          options.onText(delta)
+        }
+        if (chunk.usageMetadata) {
+          usage.promptTokens = chunk.usageMetadata.promptTokenCount || 0
+          usage.completionTokens = chunk.usageMetadata.candidatesTokenCount || 0
+        }
+      })
+
+      return { text, usage }
+    },
+  },
+
+  'openai-compatible': {
+    id: 'openai-compatible',
+    label: 'Local',
+    quotaProvider: 'openai-compatible',
+    defaultModel: 'llama3.1',
+    // Self-hosted servers usually don't need a key, only a base URL
+    isConfigured: () => hasValue(process.env.OPENAI_COMPATIBLE_BASE_URL),
+    ...createChatCompletionsProvider(
+      'Local',
+      () => process.env.OPENAI_COMPATIBLE_BASE_URL || '',
+      () => process.env.OPENAI_COMPATIBLE_API_KEY
+    ),
+  },
+}
+
+const MODEL_ENV_OVERRIDES: Record<AIProvider, string> = {
+  openai: 'OPENAI_MODEL',
+  claude: 'ANTHROPIC_MODEL',
+  gemini: 'GEMINI_MODEL',
+  'openai-compatible': 'OPENAI_COMPATIBLE_MODEL',
+}
+
+/**
+ * Model used for a provider (env override, else the registry default)
+ */
+export function getProviderModel(provider: AIProvider): string {
+  const override = process.env[MODEL_ENV_OVERRIDES[provider]]
+  return hasValue(override) ? override.trim() : LLM_PROVIDERS[provider].defaultModel
+}
+
+// === PROVIDER SELECTION ===
+
+/**
+ * Whether a provider can serve requests: configured credentials, or
+ * recorded fixtures when replaying
+ */
+export function isProviderAvailable(provider: AIProvider): boolean {
+  if (getFixtureMode() === 'replay') {
+    return getRecordedVariants('llm').includes(provider)
+  }
+  return LLM_PROVIDERS[provider].isConfigured()
+}
+
+/**
+ * Providers with credentials configured, optionally limited to a tier's allowed list
+ */
+export function getConfiguredProviders(allowed?: readonly AIProvider[]): AIProvider[] {
+  return PROVIDER_ORDER.filter(
+    (id) => isProviderAvailable(id) && (!allowed || allowed.includes(id))
+  )
+}
+
+/**
+ * The preferred provider if configured, otherwise the first configured one
+ */
+export function getDefaultProvider(preferred?: AIProvider): AIProvider | null {
+  if (preferred && isProviderAvailable(preferred)) return preferred
+  return getConfiguredProviders()[0] ?? null
+}
+
+// === COMPLETION ===
+
+/**
+ * Run a prompt against a provider with timeout, retries and token accounting.
+ * Recorded/replayed when fixture mode is on (keyed by system + user prompt).
+ */
+export async function completeLLM(provider: AIProvider, request: LLMRequest): Promise<LLMCompletion> {
+  const completion = await withFixture(
+    'llm',
+    { system: request.system, prompt: request.prompt },
+    () => callProvider(provider, request),
+    { variant: provider }
+  )
+  // A replay may come from another provider's recording of the same request
+  return { ...completion, provider }
+}
+
+/**
+ * Like completeLLM, but reports text deltas as the model writes them. Replays
+ * re-emit the recorded text in chunks spread over the recorded latency.
+ */
+export async function streamLLM(
+  provider: AIProvider,
+  request: LLMRequest,
+  onText: (delta: string) => void
+): Promise<LLMCompletion> {
+  const completion = await withFixture(
+    'llm',
+    { system: request.system, prompt: request.prompt },
+    () => callProvider(provider, request, onText),
+    { variant: provider, onReplay: (recorded, delayMs) => replayText(recorded.text, delayMs, onText) }
+  )
+  return { ...completion, provider }
+}
+
+const REPLAY_CHUNK_SIZE = 48
+
+async function replayText(text: string, delayMs: number, onText: (delta: string) => void): Promise<void> {
+  const chunks = Math.max(1, Math.ceil(text.length / REPLAY_CHUNK_SIZE))
+  const chunkDelay = delayMs / chunks
+  for (let i = 0; i < text.length; i += REPLAY_CHUNK_SIZE) {
+    if (chunkDelay > 0) await new Promise((resolve) => setTimeout(resolve, chunkDelay))
+    onText(text.substring(i, i + REPLAY_CHUNK_SIZE))
+  }
+}
+
+async function callProvider(
+  provider: AIProvider,
+  request: LLMRequest,
+  onText?: (delta: string) => void
+): Promise<LLMCompletion> {
+  const definition = LLM_PROVIDERS[provider]
+  const tag = `[${request.logLabel ? `${request.logLabel}-` : ''}${definition.label}]`
+
+  if (!definition.isConfigured()) {
+    throw new Error(`${definition.label} provider not configured`)
+  }
+
+  const model = getProviderModel(provider)
+  const timeoutMs = request.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const retries = request.retries ?? DEFAULT_RETRIES
+
+  // Once text has reached the caller a retry would duplicate it
+  let emitted = false
+  const streamOptions = onText
+    ? { onText: (delta: string) => { emitted = true; onText(delta) } }
+    : null
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      console.log(`${tag} Starting ${streamOptions ? 'streaming ' : ''}request (${model})${attempt > 0 ? ` - retry ${attempt}` : ''}`)
+      const signal = request.signal
+        ? AbortSignal.any([request.signal, AbortSignal.timeout(timeoutMs)])
+        : AbortSignal.timeout(timeoutMs)
+      const result = streamOptions
+        ? await definition.stream(request, { model, signal, ...streamOptions })
+        : await definition.call(request, { model, signal })
+      console.log(`${tag} Response length:`, result.text.length)
+
+      // Don't hold up the response for quota bookkeeping
+      trackAITokens(definition.quotaProvider, result.usage.promptTokens, result.usage.completionTokens)
+
+      return { provider, model, ...result }
+    } catch (error) {
+      if (request.signal?.aborted) {
+        console.log(`${tag} Request cancelled`)
+        throw new Error(`${definition.label} request cancelled`)
+      }
+      if (isTimeoutError(error)) {
+        console.error(`${tag} Request timed out after ${timeoutMs}ms`)
+        throw new Error(`${definition.label} request timed out - try again or reduce track count`)
+      }
+      if (attempt < retries && !emitted && isRetryableError(error)) {
+        const delay = RETRY_BASE_DELAY_MS * Math.pow(2, attempt)
+        console.warn(`${tag} Transient error, retrying in ${delay}ms:`, error instanceof Error ? error.message : error)
+        await new Promise((resolve) => setTimeout(resolve, delay))
+        continue
+      }
+      console.error(`${tag} Request failed:`, error instanceof Error ? error.message : error)
+      throw error
+    }
+  }
+}
+
+/**
+ * Run a prompt and parse JSON (array or object) out of the response
+ */
+export async function completeLLMJSON<T>(
+  provider: AIProvider,
+  request: LLMRequest,
+  shape: 'array' | 'object'
+): Promise<LLMJSONCompletion<T>> {
+  const completion = await completeLLM(provider, request)
+  const label = LLM_PROVIDERS[provider].label
+
+  if (!completion.text) {
+    throw new Error(`${label} returned no valid content`)
+  }
+
+  const extracted = extractJSON(completion.text, shape)
+  if (!extracted) {
+    console.error(`[${label}] Could not parse JSON (first 500 chars):`, completion.text.substring(0, 500))
+    throw new Error(`${label} JSON parse failed`)
+  }
+
+  return { ...completion, data: extracted.value as T, repaired: extracted.repaired }
+}
+
+// === JSON EXTRACTION ===
+
+/**
+ * Attempt to repair common JSON issues from AI responses:
+ * trailing text after the last balanced bracket and trailing commas
+ */
+export function repairJSON(jsonStr: string): string {
+  let repaired = jsonStr
+
+  // Find the last complete object by counting brackets
+  let bracketCount = 0
+  let lastValidEnd = -1
+  let inString = false
+  let escapeNext = false
+
+  for (let i = 0; i < repaired.length; i++) {
+    const char = repaired[i]
+
+    if (escapeNext) {
+      escapeNext = false
+      continue
+    }
+
+    if (char === '\\') {
+      escapeNext = true
+      continue
+    }
+
+    if (char === '"') {
+      inString = !inString
+      continue
+    }
+
+    if (!inString) {
+      if (char === '[' || char === '{') {
+        bracketCount++
+      } else if (char === ']' || char === '}') {
+        bracketCount--
+        if (bracketCount === 0) {
+          lastValidEnd = i
+        }
+      }
+    }
+  }
+
+  // If we found a valid end point and there's trailing garbage, trim it
+  if (lastValidEnd > 0 && lastValidEnd < repaired.length - 1) {
+    repaired = repaired.substring(0, lastValidEnd + 1)
+  }
+
+  // Fix common issues: trailing commas before ] or }
+  repaired = repaired.replace(/,(\s*[}\]])/g, '$1')
+
+  return repaired
+}
+
+/**
+ * Recover the complete elements of a JSON array that was cut off mid-way
+ * (e.g. the model hit its token limit). Returns null if nothing is complete.
+ */
+export function recoverTruncatedArray(text: string): string | null {
+  const start = text.indexOf('[')
+  if (start < 0) return null
+
+  let depth = 0
+  let inString = false
+  let escapeNext = false
+  let lastElementEnd = -1
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]
+
+    if (escapeNext) {
+      escapeNext = false
+      continue
+    }
+    if (char === '\\') {
+      escapeNext = true
+      continue
+    }
+    if (char === '"') {
+      inString = !inString
+      continue
+    }
+    if (inString) continue
+
+    if (char === '[' || char === '{') {
+      depth++
+    } else if (char === ']' || char === '}') {
+      depth--
+      // Back at the top level of the array: an element just finished
+      if (depth === 1) lastElementEnd = i
+      if (depth === 0) return text.substring(start, i + 1)
+    }
+  }
+
+  if (lastElementEnd < 0) return null
+  return text.substring(start, lastElementEnd + 1) + ']'
+}
+
+function tryParse(text: string): unknown | undefined {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Pull a JSON array or object out of model output: strips markdown fences,
+ * then tries a direct parse, a repair pass and (for arrays) truncation recovery
+ */
+export function extractJSON(text: string, shape: 'array' | 'object'): { value: unknown; repaired: boolean } | null {
+  const cleaned = text.replace(/```json\s*/gi, '').replace(/```\s*/g, '').trim()
+  const isShape = (value: unknown) =>
+    shape === 'array' ? Array.isArray(value) : !!value && typeof value === 'object' && !Array.isArray(value)
+
+  const match = cleaned.match(shape === 'array' ? /\[[\s\S]*\]/ : /\{[\s\S]*\}/)
+  const candidate = match ? match[0] : cleaned
+
+  const direct = tryParse(candidate)
+  if (isShape(direct)) return { value: direct, repaired: false }
+
+  const repaired = tryParse(repairJSON(candidate))
+  if (isShape(repaired)) return { value: repaired, repaired: true }
+
+  if (shape === 'array') {
+    const recovered = recoverTruncatedArray(cleaned)
+    const parsed = recovered ? tryParse(repairJSON(recovered)) : undefined
+    if (isShape(parsed)) return { value: parsed, repaired: true }
+  }
+
+  return null
+}
+
+/**
+ * Incremental parser for a streamed JSON array of objects. Feed it text as it
+ * arrives; onItem fires for each top-level object as soon as it closes, so
+ * callers can act on early elements before the model has finished writing.
+ * Anything before the opening bracket (prose, markdown fences) is ignored.
+ */
+export function createArrayItemParser(onItem: (value: unknown, index: number) => void): (delta: string) => void {
+  let started = false
+  let depth = 0
+  let inString = false
+  let escapeNext = false
+  let item = ''
+  let index = 0
+
+  return (delta) => {
+    for (const char of delta) {
+      if (!started) {
+        if (char === '[') {
+          started = true
+          depth = 1
+        }
+        continue
+      }
+      if (depth === 0) return
+
+      if (depth > 1) item += char
+
+      if (escapeNext) {
+        escapeNext = false
+        continue
+      }
+      if (char === '\\') {
+        escapeNext = inString
+        continue
+      }
+      if (char === '"') {
+        inString = !inString
+        continue
+      }
+      if (inString) continue
+
+      if (char === '[' || char === '{') {
+        if (depth === 1) item = char
+        depth++
+      } else if (char === ']' || char === '}') {
+        depth--
+        if (depth === 1) {
+          const value = tryParse(item) ?? tryParse(repairJSON(item))
+          if (value !== undefined) onItem(value, index++)
+          item = ''
+        }
+      }
+    }
+  }
+}
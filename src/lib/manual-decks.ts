@@ -0,0 +1,80 @@
+/**
+ * Manual Decks
+ *
+ * Helpers for the manual two-deck mode in the session view: crossfader
+ * curve, deck volumes and tempo sync. Decks can only run at the fixed
+ * YouTube playback rates (0.25 steps), so "sync" picks the rate that brings
+ * a deck closest to the other deck's tempo rather than matching it exactly.
+ */
+
+import { getNudgePlaybackRate, YOUTUBE_PLAYBACK_RATES } from './beatmatch'
+import { applyGain } from './gain'
+import type { DeckId, ManualDeckState, ManualDecksState } from '@/types'
+
+export const DEFAULT_MANUAL_DECK: ManualDeckState = {
+  nodeId: null,
+  playbackRate: 1,
+  cuePoint: 0,
+}
+
+export const DEFAULT_MANUAL_DECKS_STATE: ManualDecksState = {
+  enabled: false,
+  decks: { A: DEFAULT_MANUAL_DECK, B: DEFAULT_MANUAL_DECK },
+  crossfader: 0.5,
+}
+
+export function getOtherDeck(deck: DeckId): DeckId {
+  return deck === 'A' ? 'B' : 'A'
+}
+
+/**
+ * Equal-power crossfader: both decks at ~71% in the middle, so a blend
+ * doesn't dip in loudness
+ */
+export function getCrossfaderGain(deck: DeckId, crossfader: number): number {
+  const position = Math.min(1, Math.max(0, crossfader))
+  const angle = (deck === 'A' ? 1 - position : position) * (Math.PI / 2)
+  return Math.round(Math.sin(angle) * 1000) / 1000
+}
+
+/**
+ * Player volume (0-100) for a deck: master volume, the node's gain trim and
+ * the crossfader position
+ */
+export function getDeckVolume(
+  deck: DeckId,
+  crossfader: number,
+  masterVolume: number,
+  gainDb?: number
+): number {
+  return Math.round(applyGain(masterVolume, gainDb) * getCrossfaderGain(deck, crossfader))
+}
+
+/**
+ * Closest allowed rate to the requested one
+ */
+export function snapPlaybackRate(rate: number, availableRates: number[] = YOUTUBE_PLAYBACK_RATES): number {
+  const rates = availableRates.length > 0 ? availableRates : [1]
+  return rates.reduce((best, r) => (Math.abs(r - rate) < Math.abs(best - rate) ? r : best))
+}
+
+/**
+ * Tempo the deck is actually playing at (null if the track's BPM is unknown)
+ */
+export function getEffectiveBpm(bpm: number | undefined, playbackRate: number): number | null {
+  return bpm ? Math.round(bpm * playbackRate * 10) / 10 : null
+}
+
+/**
+ * Rate that brings a deck's tempo closest to the other deck's effective tempo.
+ * Null when either BPM is unknown.
+ */
+export function getSyncPlaybackRate(
+  deckBpm: number | undefined,
+  masterBpm: number | undefined,
+  masterRate: number,
+  availableRates: number[] = YOUTUBE_PLAYBACK_RATES
+): number | null {
+  if (!deckBpm || !masterBpm) return null
+  return getNudgePlaybackRate(masterBpm * masterRate, deckBpm, availableRates)
+}
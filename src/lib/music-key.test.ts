@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { ALL_KEYS, keyFromPitchClass, parseKey, toCamelot, toKeyName } from './music-key'
+
+// Camelot, Open Key, canonical name, other spellings of the same key
+const KEYS: [string, string, string, string[]][] = [
+  ['1A', '6m', 'G#m', ['Abm', 'Ab minor', 'G# minor', 'A♭m', 'G♯ min']],
+  ['1B', '6d', 'B', ['B major', 'Bmaj', 'Cb']],
+  ['2A', '7m', 'D#m', ['Ebm', 'E flat minor', 'D sharp minor', 'E♭m']],
+  ['2B', '7d', 'F#', ['Gb', 'F# major', 'G flat major', 'F♯']],
+  ['3A', '8m', 'A#m', ['Bbm', 'B flat minor', 'A#min', 'B♭m']],
+  ['3B', '8d', 'Db', ['C#', 'C# major', 'D flat', 'D♭']],
+  ['4A', '9m', 'Fm', ['F minor', 'Fmin', 'E#m']],
+  ['4B', '9d', 'Ab', ['G#', 'A flat major', 'G# major', 'A♭']],
+  ['5A', '10m', 'Cm', ['C minor', 'B#m', 'cm']],
+  ['5B', '10d', 'Eb', ['D#', 'E flat', 'Eb major', 'E♭']],
+  ['6A', '11m', 'Gm', ['G minor', 'Gmin']],
+  ['6B', '11d', 'Bb', ['A#', 'B flat major', 'Bbmaj', 'B♭']],
+  ['7A', '12m', 'Dm', ['D minor', 'Dmin']],
+  ['7B', '12d', 'F', ['F major', 'Fmaj', 'E#']],
+  ['8A', '1m', 'Am', ['A minor', 'Amin', 'am']],
+  ['8B', '1d', 'C', ['C major', 'Cmaj', 'B#']],
+  ['9A', '2m', 'Em', ['E minor', 'Fbm']],
+  ['9B', '2d', 'G', ['G major', 'Gmaj']],
+  ['10A', '3m', 'Bm', ['B minor', 'Cbm']],
+  ['10B', '3d', 'D', ['D major', 'Dmaj']],
+  ['11A', '4m', 'F#m', ['Gbm', 'F sharp minor', 'G♭m']],
+  ['11B', '4d', 'A', ['A major', 'Amaj']],
+  ['12A', '5m', 'C#m', ['Dbm', 'C# minor', 'D flat minor', 'C♯m']],
+  ['12B', '5d', 'E', ['E major', 'Emaj', 'Fb']],
+]
+
+describe('music-key', () => {
+  it('covers all 24 keys once', () => {
+    expect(KEYS).toHaveLength(24)
+    expect(new Set(KEYS.map(([camelot]) => camelot)).size).toBe(24)
+    expect(ALL_KEYS.map((key) => key.camelot)).toEqual(KEYS.map(([camelot]) => camelot))
+  })
+
+  describe.each(KEYS)('%s', (camelot, openKey, name, spellings) => {
+    it('parses Camelot notation', () => {
+      const key = parseKey(camelot)
+      expect(key).toMatchObject({ camelot, openKey, name })
+      expect(parseKey(camelot.toLowerCase())?.camelot).toBe(camelot)
+    })
+
+    it('parses Open Key notation', () => {
+      expect(parseKey(openKey)).toMatchObject({ camelot, openKey, name })
+      expect(parseKey(openKey.toUpperCase())?.camelot).toBe(camelot)
+    })
+
+    it('parses musical notation in every spelling', () => {
+      for (const input of [name, ...spellings]) {
+        expect(parseKey(input), input).toMatchObject({ camelot, openKey, name })
+      }
+    })
+
+    it('converts between notations', () => {
+      for (const input of [camelot, openKey, name, ...spellings]) {
+        expect(toCamelot(input), input).toBe(camelot)
+        expect(toKeyName(input), input).toBe(name)
+      }
+      // Round trips through each notation land on the same key
+      expect(toCamelot(toKeyName(camelot))).toBe(camelot)
+      expect(toKeyName(toCamelot(name))).toBe(name)
+      expect(toCamelot(parseKey(openKey)!.name)).toBe(camelot)
+    })
+
+    it('matches the key built from its pitch class', () => {
+      const key = parseKey(camelot)!
+      expect(keyFromPitchClass(key.pitchClass, key.mode)).toEqual(key)
+      expect(key.mode).toBe(camelot.endsWith('A') ? 'minor' : 'major')
+    })
+  })
+
+  it.each(['', '   ', 'H', '13A', '0B', '13m', 'C dorian', 'unknown', null, undefined])(
+    'rejects %s',
+    (input) => {
+      expect(parseKey(input)).toBeNull()
+      expect(toCamelot(input)).toBeNull()
+      expect(toKeyName(input)).toBeNull()
+    }
+  )
+})
@@ -0,0 +1,145 @@
+/**
+ * Musical Key Model
+ *
+ * Single source of truth for parsing and converting musical keys.
+ * Every key-aware feature (AutoMix, DJ export/import, AI estimation) goes through here,
+ * so the same track always resolves to the same Camelot code.
+ *
+ * Accepted notations:
+ * - Classical: "Am", "A minor", "A min", "Cmaj", "C major", "F#m", "Bb", "E flat minor"
+ * - Unicode accidentals: "F♯m", "B♭"
+ * - Camelot: "8A", "12B" (A = minor, B = major)
+ * - Open Key: "1m", "6d" (m = minor, d = major, 1d = C major)
+ */
+
+export type KeyMode = 'major' | 'minor'
+
+export interface MusicalKey {
+  pitchClass: number // 0-11, C = 0
+  mode: KeyMode
+  name: string // Canonical classical notation (e.g. "Am", "F#m", "Db")
+  camelot: string // e.g. "8A"
+  camelotNumber: number // 1-12
+  camelotLetter: 'A' | 'B'
+  openKey: string // e.g. "1m"
+}
+
+// Preferred spelling per pitch class (matches common DJ software conventions)
+const MAJOR_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B']
+const MINOR_NAMES = ['Cm', 'C#m', 'Dm', 'D#m', 'Em', 'Fm', 'F#m', 'Gm', 'G#m', 'Am', 'A#m', 'Bm']
+
+const NOTE_PITCH_CLASS: Record<string, number> = {
+  C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11,
+}
+
+// Each step clockwise on the wheel is a perfect fifth (7 semitones)
+// Offsets anchor C major at 8B and A minor at 8A
+const CAMELOT_OFFSET: Record<KeyMode, number> = { major: 8, minor: 5 }
+
+/**
+ * Build a MusicalKey from a pitch class and mode
+ */
+export function keyFromPitchClass(pitchClass: number, mode: KeyMode): MusicalKey {
+  const pc = ((pitchClass % 12) + 12) % 12
+  const camelotNumber = ((pc * 7 + CAMELOT_OFFSET[mode]) % 12) || 12
+  const camelotLetter = mode === 'minor' ? 'A' : 'B'
+  // Open Key is the Camelot wheel rotated so that 1d = C major / 1m = A minor
+  const openKeyNumber = ((camelotNumber + 4) % 12) + 1
+
+  return {
+    pitchClass: pc,
+    mode,
+    name: mode === 'minor' ? MINOR_NAMES[pc] : MAJOR_NAMES[pc],
+    camelot: `${camelotNumber}${camelotLetter}`,
+    camelotNumber,
+    camelotLetter,
+    openKey: `${openKeyNumber}${mode === 'minor' ? 'm' : 'd'}`,
+  }
+}
+
+/**
+ * Build a MusicalKey from a Camelot position
+ */
+export function keyFromCamelot(camelotNumber: number, camelotLetter: 'A' | 'B'): MusicalKey | null {
+  if (camelotNumber < 1 || camelotNumber > 12) return null
+  const mode: KeyMode = camelotLetter === 'A' ? 'minor' : 'major'
+  // Invert camelotNumber = 7 * pc + offset (mod 12); 7 is its own inverse mod 12
+  const pc = (((camelotNumber - CAMELOT_OFFSET[mode]) * 7) % 12 + 12) % 12
+  return keyFromPitchClass(pc, mode)
+}
+
+/**
+ * Parse any supported key notation into a MusicalKey
+ * Returns null if the input is not recognized
+ */
+export function parseKey(input: string | null | undefined): MusicalKey | null {
+  if (!input) return null
+
+  const cleaned = input
+    .trim()
+    .replace(/♯/g, '#')
+    .replace(/♭/g, 'b')
+    .replace(/\s*-?\s*sharp/i, '#')
+    .replace(/\s*-?\s*flat/i, 'b')
+
+  if (!cleaned) return null
+
+  // Camelot: "8A", "12B"
+  const camelotMatch = cleaned.match(/^(\d{1,2})\s*([AB])$/i)
+  if (camelotMatch) {
+    return keyFromCamelot(parseInt(camelotMatch[1], 10), camelotMatch[2].toUpperCase() as 'A' | 'B')
+  }
+
+  // Open Key: "1m", "6d"
+  const openKeyMatch = cleaned.match(/^(\d{1,2})\s*([dm])$/i)
+  if (openKeyMatch) {
+    const openKeyNumber = parseInt(openKeyMatch[1], 10)
+    if (openKeyNumber < 1 || openKeyNumber > 12) return null
+    const camelotNumber = ((openKeyNumber + 6) % 12) + 1
+    return keyFromCamelot(camelotNumber, openKeyMatch[2].toLowerCase() === 'm' ? 'A' : 'B')
+  }
+
+  // Classical: note letter, optional accidental, optional mode suffix
+  const classicalMatch = cleaned.match(/^([A-Ga-g])\s*([#b]?)\s*(.*)$/)
+  if (!classicalMatch) return null
+
+  const [, letter, accidental, rawSuffix] = classicalMatch
+  const suffix = rawSuffix.trim().toLowerCase().replace(/\.$/, '')
+
+  let mode: KeyMode
+  if (suffix === '' || suffix === 'maj' || suffix === 'major' || rawSuffix.trim() === 'M') {
+    mode = 'major'
+  } else if (suffix === 'm' || suffix === 'min' || suffix === 'minor' || suffix === '-') {
+    mode = 'minor'
+  } else {
+    return null
+  }
+
+  let pc = NOTE_PITCH_CLASS[letter.toUpperCase()]
+  if (accidental === '#') pc += 1
+  if (accidental === 'b') pc -= 1
+
+  return keyFromPitchClass(pc, mode)
+}
+
+/**
+ * Convert any key notation to a Camelot code ("8A"), or null if unrecognized
+ */
+export function toCamelot(input: string | null | undefined): string | null {
+  return parseKey(input)?.camelot ?? null
+}
+
+/**
+ * Convert any key notation to canonical classical notation ("Am"), or null if unrecognized
+ */
+export function toKeyName(input: string | null | undefined): string | null {
+  return parseKey(input)?.name ?? null
+}
+
+/**
+ * All 24 keys in Camelot order (1A, 1B, 2A, 2B, ...)
+ */
+export const ALL_KEYS: MusicalKey[] = Array.from({ length: 12 }, (_, i) => [
+  keyFromCamelot(i + 1, 'A')!,
+  keyFromCamelot(i + 1, 'B')!,
+]).flat()
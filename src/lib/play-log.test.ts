@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { getTracklist, toCueSheet, toYouTubeChapters } from './play-log'
+import type { PlayLogEntry, PlaySession } from '@/types'
+
+const START = Date.UTC(2026, 0, 10, 22, 0, 0)
+
+const entry = (title: string, fromSecond: number, toSecond: number): PlayLogEntry => ({
+  nodeId: title,
+  artist: 'Artist',
+  title,
+  startedAt: START + fromSecond * 1000,
+  endedAt: START + toSecond * 1000,
+  startOffset: 0,
+  seeks: [],
+})
+
+// Recording starts with the session; a quick skip and a late first track come first
+const session: PlaySession = {
+  id: 'session',
+  setId: 'set',
+  setName: 'Warm Up',
+  startedAt: START,
+  endedAt: START + 700 * 1000,
+  entries: [
+    entry('Skipped', 5, 8),
+    entry('Opener', 8, 300),
+    entry('Closer', 300, 700),
+  ],
+}
+
+describe('getTracklist', () => {
+  it('times tracks from the start of the session', () => {
+    expect(getTracklist(session).map((item) => [item.title, item.offset])).toEqual([
+      ['Opener', 8],
+      ['Closer', 300],
+    ])
+  })
+
+  it('can time tracks from the first listed track', () => {
+    expect(getTracklist(session, true).map((item) => item.offset)).toEqual([0, 292])
+  })
+})
+
+describe('exports', () => {
+  it('puts CUE indexes where the tracks are in the recording', () => {
+    const cue = toCueSheet(session)
+    expect(cue).toContain('INDEX 01 00:08:00')
+    expect(cue).toContain('INDEX 01 05:00:00')
+  })
+
+  it('starts YouTube chapters at 00:00', () => {
+    expect(toYouTubeChapters(session)).toBe('00:00 Artist - Opener\n04:52 Artist - Closer')
+  })
+})
@@ -0,0 +1,287 @@
+/**
+ * Play Log
+ *
+ * Records what was actually played: a play session per run through a set,
+ * with an entry per track holding wall-clock start and stop times, the
+ * crossfade point, manual seeks and why the track ended. The store feeds the
+ * session from the player actions; this module keeps the bookkeeping pure
+ * and turns a session into timestamped tracklists (YouTube chapters,
+ * 1001tracklists text and a CUE sheet).
+ */
+
+import type { PlayLogEndReason, PlayLogEntry, PlaySession, PlaylistNode, Set } from '@/types'
+
+// Sessions kept locally (newest first)
+export const MAX_PLAY_SESSIONS = 20
+
+// Tracks heard for less than this are left out of tracklists
+// (also the shortest chapter YouTube accepts)
+export const MIN_TRACKLIST_SECONDS = 10
+
+// === RECORDING ===
+
+export function createPlaySession(set: Pick<Set, 'id' | 'name'>, now = Date.now()): PlaySession {
+  return {
+    id: `play-${now}`,
+    setId: set.id,
+    setName: set.name,
+    startedAt: now,
+    entries: [],
+  }
+}
+
+function getOpenEntryIndex(session: PlaySession): number {
+  const last = session.entries.length - 1
+  return last >= 0 && session.entries[last].endedAt === undefined ? last : -1
+}
+
+function closeEntry(entry: PlayLogEntry, reason: PlayLogEndReason, now: number): PlayLogEntry {
+  // Once the mix into the next track has begun, anything but a stop is a crossfade
+  const endReason = entry.crossfadeAt !== undefined && reason !== 'stopped' ? 'crossfade' : reason
+  return { ...entry, endedAt: now, endReason }
+}
+
+/**
+ * Close the open entry (if any) with `reason` and start one for `node`.
+ * After a crossfade the new track has been audible since the mix began.
+ */
+export function beginPlayLogEntry(
+  session: PlaySession,
+  node: PlaylistNode,
+  startOffset: number,
+  reason: PlayLogEndReason,
+  now = Date.now()
+): PlaySession {
+  const entries = [...session.entries]
+  const openIndex = getOpenEntryIndex(session)
+  let startedAt = now
+
+  if (openIndex >= 0) {
+    const closed = closeEntry(entries[openIndex], reason, now)
+    entries[openIndex] = closed
+    if (closed.endReason === 'crossfade' && closed.crossfadeAt !== undefined) {
+      startedAt = closed.crossfadeAt
+    }
+  }
+
+  entries.push({
+    nodeId: node.id,
+    artist: node.track.artist,
+    title: node.track.title,
+    youtubeId: node.track.youtubeId,
+    startedAt,
+    startOffset: Math.round(startOffset),
+    seeks: [],
+  })
+
+  return { ...session, entries }
+}
+
+/**
+ * Close the open entry without starting another (playback ended or stopped)
+ */
+export function endPlayLogEntry(session: PlaySession, reason: PlayLogEndReason, now = Date.now()): PlaySession {
+  const openIndex = getOpenEntryIndex(session)
+  if (openIndex < 0) return session
+  const entries = [...session.entries]
+  entries[openIndex] = closeEntry(entries[openIndex], reason, now)
+  return { ...session, entries }
+}
+
+export function endPlaySession(session: PlaySession, now = Date.now()): PlaySession {
+  const ended = endPlayLogEntry(session, 'stopped', now)
+  return { ...ended, endedAt: now }
+}
+
+/**
+ * Note the moment the mix out of the playing track began
+ */
+export function markPlayLogCrossfade(session: PlaySession, now = Date.now()): PlaySession {
+  const openIndex = getOpenEntryIndex(session)
+  if (openIndex < 0 || session.entries[openIndex].crossfadeAt !== undefined) return session
+  const entries = [...session.entries]
+  entries[openIndex] = { ...entries[openIndex], crossfadeAt: now }
+  return { ...session, entries }
+}
+
+export function addPlayLogSeek(session: PlaySession, from: number, to: number, now = Date.now()): PlaySession {
+  const openIndex = getOpenEntryIndex(session)
+  if (openIndex < 0) return session
+  const entries = [...session.entries]
+  const entry = entries[openIndex]
+  entries[openIndex] = { ...entry, seeks: [...entry.seeks, { at: now, from: Math.round(from), to: Math.round(to) }] }
+  return { ...session, entries }
+}
+
+/**
+ * Insert or replace a session, newest first, capped at MAX_PLAY_SESSIONS
+ */
+export function upsertPlaySession(sessions: PlaySession[], session: PlaySession): PlaySession[] {
+  const others = sessions.filter((s) => s.id !== session.id)
+  return [session, ...others]
+    .sort((a, b) => b.startedAt - a.startedAt)
+    .slice(0, MAX_PLAY_SESSIONS)
+}
+
+// === SUMMARIES ===
+
+/**
+ * Last known moment of the session. Sessions cut off by a reload have no
+ * end time, so fall back to the last thing recorded.
+ */
+export function getPlaySessionEnd(session: PlaySession): number {
+  if (session.endedAt !== undefined) return session.endedAt
+  const last = session.entries[session.entries.length - 1]
+  return last?.endedAt ?? last?.startedAt ?? session.startedAt
+}
+
+/**
+ * Wall-clock seconds the entry was heard for (up to the crossfade, when there was one)
+ */
+export function getPlayedSeconds(entry: PlayLogEntry): number | null {
+  const end = entry.crossfadeAt ?? entry.endedAt
+  if (end === undefined) return null
+  return Math.max(0, Math.round((end - entry.startedAt) / 1000))
+}
+
+export function getPlaySessionSeconds(session: PlaySession): number {
+  return Math.max(0, Math.round((getPlaySessionEnd(session) - session.startedAt) / 1000))
+}
+
+// === TRACKLIST EXPORT ===
+
+export interface TracklistItem {
+  offset: number // Seconds from the start of the session (or the first track)
+  artist: string
+  title: string
+}
+
+export type PlayLogExportFormat = 'youtube' | '1001tracklists' | 'cue'
+
+export const PLAY_LOG_EXPORT_FORMATS: { id: PlayLogExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'youtube', label: 'YouTube chapters', extension: 'txt', mimeType: 'text/plain' },
+  { id: '1001tracklists', label: '1001Tracklists', extension: 'txt', mimeType: 'text/plain' },
+  { id: 'cue', label: 'CUE sheet', extension: 'cue', mimeType: 'application/x-cue' },
+]
+
+/**
+ * Tracks that were actually heard, timed from the start of the session so the
+ * offsets line up with a recording of it. `fromFirstTrack` times them from the
+ * first listed track instead. Quick skips are dropped; the open entry of a
+ * live session is kept.
+ */
+export function getTracklist(session: PlaySession, fromFirstTrack = false): TracklistItem[] {
+  const heard = session.entries.filter((entry) => {
+    const seconds = getPlayedSeconds(entry)
+    return seconds === null || seconds >= MIN_TRACKLIST_SECONDS
+  })
+  if (heard.length === 0) return []
+
+  const origin = fromFirstTrack ? heard[0].startedAt : session.startedAt
+  return heard.map((entry) => ({
+    offset: Math.max(0, Math.round((entry.startedAt - origin) / 1000)),
+    artist: entry.artist,
+    title: entry.title,
+  }))
+}
+
+/**
+ * Format seconds as M:SS, or H:MM:SS when `withHours`
+ */
+export function formatTimestamp(seconds: number, withHours = false): string {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = seconds % 60
+  const ss = s.toString().padStart(2, '0')
+  if (withHours) return `${h}:${m.toString().padStart(2, '0')}:${ss}`
+  return `${Math.floor(seconds / 60)}:${ss}`
+}
+
+function needsHours(items: TracklistItem[]): boolean {
+  return items.some((item) => item.offset >= 3600)
+}
+
+/**
+ * YouTube chapters for a video description (first chapter always at 00:00).
+ * YouTube ignores chapter lists with fewer than three entries.
+ */
+export function toYouTubeChapters(session: PlaySession): string {
+  const items = getTracklist(session, true)
+  const withHours = needsHours(items)
+  return items
+    .map((item) => {
+      const time = withHours ? formatTimestamp(item.offset, true) : formatTimestamp(item.offset).padStart(5, '0')
+      return `${time} ${item.artist} - ${item.title}`
+    })
+    .join('\n')
+}
+
+/**
+ * 1001Tracklists paste format: one "[cue] Artist - Title" line per track
+ */
+export function to1001Tracklists(session: PlaySession): string {
+  const items = getTracklist(session)
+  const withHours = needsHours(items)
+  return items
+    .map((item) => `[${formatTimestamp(item.offset, withHours)}] ${item.artist} - ${item.title}`)
+    .join('\n')
+}
+
+function cueString(value: string): string {
+  return `"${value.replace(/"/g, "'")}"`
+}
+
+/**
+ * INDEX time as MM:SS:FF (75 frames per second, minutes may exceed 99)
+ */
+function cueIndex(seconds: number): string {
+  const m = Math.floor(seconds / 60)
+  const s = seconds % 60
+  return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}:00`
+}
+
+/**
+ * CUE sheet for splitting a recording of the session into tracks
+ */
+export function toCueSheet(session: PlaySession): string {
+  const items = getTracklist(session)
+  const lines = [
+    `TITLE ${cueString(session.setName)}`,
+    `PERFORMER ${cueString('YTDJ.AI')}`,
+    `FILE ${cueString(`${getPlayLogFilename(session)}.mp3`)} MP3`,
+  ]
+
+  items.forEach((item, index) => {
+    lines.push(
+      `  TRACK ${(index + 1).toString().padStart(2, '0')} AUDIO`,
+      `    TITLE ${cueString(item.title)}`,
+      `    PERFORMER ${cueString(item.artist)}`,
+      `    INDEX 01 ${cueIndex(item.offset)}`
+    )
+  })
+
+  return lines.join('\n') + '\n'
+}
+
+export function exportPlaySession(session: PlaySession, format: PlayLogExportFormat): string {
+  switch (format) {
+    case 'youtube':
+      return toYouTubeChapters(session)
+    case '1001tracklists':
+      return to1001Tracklists(session)
+    case 'cue':
+      return toCueSheet(session)
+  }
+}
+
+/**
+ * Filename stem: set name plus the date it was played
+ */
+export function getPlayLogFilename(session: PlaySession): string {
+  const safeName = session.setName
+    .replace(/[^a-z0-9\s-]/gi, '')
+    .replace(/\s+/g, '-')
+    .toLowerCase() || 'set'
+  const date = new Date(session.startedAt).toISOString().slice(0, 10)
+  return `${safeName}-${date}`
+}
@@ -0,0 +1,191 @@
+/**
+ * Provider Record/Replay Fixtures
+ *
+ * Lets the full generation pipeline run without network access. In record
+ * mode every LLM completion and every iTunes/Invidious lookup is saved to a
+ * JSON fixture, together with how long it took. In replay mode the same calls
+ * are answered from those fixtures after the recorded delay, so routes (and
+ * the generate-stream SSE timing) behave like they did live.
+ *
+ * Fixtures are keyed by a hash of the normalized request (for LLM calls: the
+ * system prompt, which carries the constraint instructions, plus the user
+ * prompt). Each provider gets its own file; replay falls back to another
+ * provider's recording of the same request.
+ *
+ * Environment:
+ * - PROVIDER_FIXTURE_MODE: 'record' | 'replay' (unset = off)
+ * - PROVIDER_FIXTURE_DIR: where fixtures live (default: fixtures/providers)
+ * - PROVIDER_FIXTURE_SPEED: replay delay multiplier (default 1, 0 = instant)
+ *
+ * Server-only (uses the filesystem).
+ */
+
+import { createHash } from 'crypto'
+import { promises as fs, readdirSync } from 'fs'
+import path from 'path'
+
+export type FixtureMode = 'off' | 'record' | 'replay'
+
+export type FixtureNamespace = 'llm' | 'itunes' | 'invidious'
+
+interface FixtureFile<T> {
+  namespace: FixtureNamespace
+  variant: string
+  // Normalized request the hash was taken from (kept for reviewing fixtures)
+  request: unknown
+  latencyMs: number
+  recordedAt: string
+  value: T
+}
+
+const DEFAULT_VARIANT = 'default'
+
+export function getFixtureMode(): FixtureMode {
+  const mode = process.env.PROVIDER_FIXTURE_MODE
+  return mode === 'record' || mode === 'replay' ? mode : 'off'
+}
+
+function getFixtureDir(namespace: FixtureNamespace): string {
+  return path.resolve(process.cwd(), process.env.PROVIDER_FIXTURE_DIR || 'fixtures/providers', namespace)
+}
+
+function getReplaySpeed(): number {
+  const speed = parseFloat(process.env.PROVIDER_FIXTURE_SPEED || '1')
+  return Number.isFinite(speed) && speed >= 0 ? speed : 1
+}
+
+// === KEYS ===
+
+/**
+ * Normalize request parts so cosmetic differences (case, whitespace, key
+ * order) don't change the fixture key
+ */
+export function normalizeFixtureRequest(value: unknown): unknown {
+  if (typeof value === 'string') return value.toLowerCase().replace(/\s+/g, ' ').trim()
+  if (Array.isArray(value)) return value.map(normalizeFixtureRequest)
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .reduce<Record<string, unknown>>((result, key) => {
+        result[key] = normalizeFixtureRequest((value as Record<string, unknown>)[key])
+        return result
+      }, {})
+  }
+  return value
+}
+
+export function fixtureKey(request: unknown): string {
+  return createHash('sha256')
+    .update(JSON.stringify(normalizeFixtureRequest(request)))
+    .digest('hex')
+    .slice(0, 16)
+}
+
+const fixturePath = (namespace: FixtureNamespace, key: string, variant: string) =>
+  path.join(getFixtureDir(namespace), `${key}.${variant}.json`)
+
+// === STORAGE ===
+
+async function readFixture<T>(namespace: FixtureNamespace, key: string, variant: string): Promise<FixtureFile<T> | null> {
+  const dir = getFixtureDir(namespace)
+  let files: string[]
+  try {
+    files = await fs.readdir(dir)
+  } catch {
+    return null
+  }
+
+  // Exact variant first, then any other recording of the same request
+  const exact = `${key}.${variant}.json`
+  const candidate = files.includes(exact) ? exact : files.find((file) => file.startsWith(`${key}.`))
+  if (!candidate) return null
+
+  try {
+    return JSON.parse(await fs.readFile(path.join(dir, candidate), 'utf8')) as FixtureFile<T>
+  } catch (error) {
+    console.error(`[Fixtures] Unreadable fixture ${candidate}:`, error)
+    return null
+  }
+}
+
+async function writeFixture<T>(fixture: FixtureFile<T>, key: string): Promise<void> {
+  const file = fixturePath(fixture.namespace, key, fixture.variant)
+  try {
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await fs.writeFile(file, JSON.stringify(fixture, null, 2) + '\n')
+    console.log(`[Fixtures] Recorded ${fixture.namespace}/${key}.${fixture.variant}`)
+  } catch (error) {
+    // Recording must never break the live request
+    console.error('[Fixtures] Failed to write fixture:', error)
+  }
+}
+
+/**
+ * Variants (providers, for the llm namespace) that have at least one recording
+ */
+export function getRecordedVariants(namespace: FixtureNamespace): string[] {
+  try {
+    const variants = readdirSync(getFixtureDir(namespace))
+      .map((file) => file.match(/^[0-9a-f]+\.(.+)\.json$/)?.[1])
+      .filter((variant): variant is string => !!variant)
+    return Array.from(new Set(variants))
+  } catch {
+    return []
+  }
+}
+
+// === RECORD / REPLAY ===
+
+export interface FixtureOptions<T> {
+  // Recordings are kept per variant (e.g. provider)
+  variant?: string
+  // Returned on a replay miss instead of throwing (for lookups that may find nothing)
+  onMiss?: () => T
+  // Spends the recorded latency instead of a plain sleep (e.g. to re-emit a stream)
+  onReplay?: (value: T, delayMs: number) => Promise<void>
+}
+
+/**
+ * Run `live` through the fixture layer: pass-through when off, save the result
+ * when recording, serve the recording (after its original latency) when replaying
+ */
+export async function withFixture<T>(
+  namespace: FixtureNamespace,
+  request: unknown,
+  live: () => Promise<T>,
+  { variant = DEFAULT_VARIANT, onMiss, onReplay }: FixtureOptions<T> = {}
+): Promise<T> {
+  const mode = getFixtureMode()
+  if (mode === 'off') return live()
+
+  const key = fixtureKey(request)
+
+  if (mode === 'replay') {
+    const fixture = await readFixture<T>(namespace, key, variant)
+    if (!fixture) {
+      if (onMiss) return onMiss()
+      throw new Error(`No ${namespace} fixture recorded for this request (key ${key}) - record it with PROVIDER_FIXTURE_MODE=record`)
+    }
+
+    const delay = fixture.latencyMs * getReplaySpeed()
+    if (onReplay) {
+      await onReplay(fixture.value, delay)
+    } else if (delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delay))
+    }
+    return fixture.value
+  }
+
+  const startedAt = Date.now()
+  const value = await live()
+  await writeFixture({
+    namespace,
+    variant,
+    request: normalizeFixtureRequest(request),
+    latencyMs: Date.now() - startedAt,
+    recordedAt: new Date().toISOString(),
+    value,
+  }, key)
+  return value
+}
@@ -15,13 +15,14 @@ const redis = process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_RE
     })
   : null
 
+export type AIQuotaProvider = 'openai' | 'anthropic' | 'google' | 'openai-compatible'
+
 type QuotaCategory =
-  | 'ai:openai'
-  | 'ai:anthropic'
-  | 'ai:google'
+  | `ai:${AIQuotaProvider}`
   | 'youtube:search'
   | 'youtube:enrich'
   | 'credits:consumed'
+  | 'credits:refunded'
   | 'generation:success'
   | 'generation:failure'
 
@@ -92,7 +93,7 @@ export async function trackApiCall(
  * Track AI provider token usage
  */
 export async function trackAITokens(
-  provider: 'openai' | 'anthropic' | 'google',
+  provider: AIQuotaProvider,
   promptTokens: number,
   completionTokens: number
 ): Promise<void> {
@@ -115,9 +116,11 @@ export async function getDailyQuotaReport(date?: Date): Promise<DailyQuotaReport
     'ai:openai',
     'ai:anthropic',
     'ai:google',
+    'ai:openai-compatible',
     'youtube:search',
     'youtube:enrich',
     'credits:consumed',
+    'credits:refunded',
     'generation:success',
     'generation:failure',
   ]
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { getRadioExcludedTracks } from './radio'
+import type { PlayLogEntry, PlaylistNode, PlaySession, Track } from '@/types'
+
+const node = (title: string): PlaylistNode => ({
+  id: title,
+  track: { id: title, artist: 'Artist', title, duration: 240 } as Track,
+  position: 0,
+})
+
+const entry = (title: string, startedAt: number): PlayLogEntry => ({
+  nodeId: title,
+  artist: 'Artist',
+  title,
+  startedAt,
+  startOffset: 0,
+  seeks: [],
+})
+
+const session = (startedAt: number, ...titles: string[]): PlaySession => ({
+  id: `session-${startedAt}`,
+  setId: 'set',
+  setName: 'Set',
+  startedAt,
+  entries: titles.map((title, index) => entry(title, startedAt + index)),
+})
+
+const titles = (tracks: { title: string }[]) => tracks.map((track) => track.title)
+
+describe('getRadioExcludedTracks', () => {
+  it('lists the queue, then the play history newest first', () => {
+    const playlist = ['a', 'b', 'c', 'd'].map(node)
+    // Sessions are stored newest first
+    const sessions = [session(200, 'b', 'c'), session(100, 'x', 'y')]
+    expect(titles(getRadioExcludedTracks(playlist, 2, sessions))).toEqual(['d', 'c', 'b', 'y', 'x'])
+  })
+
+  it('keeps tracks played long ago that are no longer near the end of the set', () => {
+    const playlist = Array.from({ length: 60 }, (_, index) => node(`t${index}`))
+    const sessions = [session(100, 't0', 't58')]
+    const excluded = titles(getRadioExcludedTracks(playlist, 58, sessions))
+    expect(excluded).toEqual(['t59', 't58', 't0'])
+  })
+
+  it('lists each track once and stops at the limit', () => {
+    const playlist = ['a', 'b'].map(node)
+    const sessions = [session(200, 'a', 'b', 'c', 'b', 'd')]
+    expect(titles(getRadioExcludedTracks(playlist, null, sessions, 3))).toEqual(['a', 'b', 'd'])
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * Infinite Radio
+ *
+ * Keeps a set going past its last track: once playback gets within a few
+ * tracks of the end, the set is extended with a continuation generated from
+ * the last tracks played, the next stretch of the arc and the original prompt.
+ * Each extension is appended as its own "radio" segment so it shows up in the
+ * segment bar. This module holds the planning; the store runs the extensions.
+ */
+
+import type { PlaylistNode, PlaySession, RadioState, SegmentContext, SetSegment } from '@/types'
+import { getTargetEnergy } from './harmonic-optimizer'
+
+export const DEFAULT_RADIO_STATE: RadioState = {
+  enabled: false,
+  lookahead: 2,
+  batchSize: 5,
+  maxExtensions: 5,
+  extensionsUsed: 0,
+}
+
+export const RADIO_COLOR = '#F59E0B'
+
+// Played tracks the continuation is conditioned on
+export const RADIO_CONTEXT_TRACKS = 3
+
+// Cap on tracks listed as "already played" in the prompt
+export const MAX_EXCLUDED_TRACKS = 40
+
+type TrackIdentity = { artist: string; title: string }
+
+// Wait this long before trying again after a failed extension
+export const RADIO_RETRY_COOLDOWN_MS = 60_000
+
+/**
+ * Whether playback is close enough to the end of the set to extend it
+ */
+export function shouldExtendRadio(playingIndex: number | null, playlistLength: number, lookahead: number): boolean {
+  if (playingIndex === null || playlistLength === 0) return false
+  return playlistLength - 1 - playingIndex < lookahead
+}
+
+/**
+ * Number of tracks covered by radio segments (they always sit at the end)
+ */
+export function getRadioTrackCount(segments: SetSegment[]): number {
+  return segments
+    .filter((segment) => segment.isRadio)
+    .reduce((total, segment) => total + (segment.duration.type === 'tracks' ? segment.duration.count : 0), 0)
+}
+
+/**
+ * Energy targets for the next `count` tracks. The arc repeats over the
+ * length of the original set, so the radio keeps cycling through its shape.
+ */
+export function planRadioEnergy(profile: number[], startIndex: number, count: number, cycleLength: number): number[] {
+  const cycle = Math.max(cycleLength, 2)
+  return Array.from({ length: count }, (_, offset) =>
+    Math.round(getTargetEnergy(profile, (startIndex + offset) % cycle, cycle))
+  )
+}
+
+function trackIdentity(artist: string, title: string): string {
+  return `${artist}:${title}`.toLowerCase().replace(/[^\w:]/g, '')
+}
+
+/**
+ * Drop generated tracks that are already in the set
+ */
+export function filterRepeatedTracks(playlist: PlaylistNode[], nodes: PlaylistNode[]): PlaylistNode[] {
+  const seen = new Set(playlist.map((node) => trackIdentity(node.track.artist, node.track.title)))
+  return nodes.filter((node) => {
+    const identity = trackIdentity(node.track.artist, node.track.title)
+    if (seen.has(identity)) return false
+    seen.add(identity)
+    return true
+  })
+}
+
+/**
+ * Tracks the continuation must not repeat: what is still queued after the
+ * playing track, then the play history newest first. The history covers
+ * everything the listener heard, however long the radio has been running.
+ */
+export function getRadioExcludedTracks(
+  playlist: PlaylistNode[],
+  playingIndex: number | null,
+  sessions: PlaySession[],
+  limit: number = MAX_EXCLUDED_TRACKS
+): TrackIdentity[] {
+  const queued = playlist.slice(playingIndex === null ? 0 : playingIndex + 1).map((node) => node.track)
+  const played = sessions.flatMap((session) => session.entries.slice().reverse())
+
+  const seen = new Set<string>()
+  const result: TrackIdentity[] = []
+  for (const { artist, title } of [...queued, ...played]) {
+    const identity = trackIdentity(artist, title)
+    if (seen.has(identity)) continue
+    seen.add(identity)
+    result.push({ artist, title })
+    if (result.length >= limit) break
+  }
+  return result
+}
+
+/**
+ * Segment context for the next extension
+ */
+export function buildRadioContext(
+  playlist: PlaylistNode[],
+  segments: SetSegment[],
+  settings: RadioState,
+  energyProfile: number[],
+  excludeTracks: TrackIdentity[]
+): SegmentContext {
+  const extensionNumber = segments.filter((segment) => segment.isRadio).length + 1
+  const setLength = Math.max(playlist.length - getRadioTrackCount(segments), 1)
+  const energyTargets = planRadioEnergy(energyProfile, playlist.length, settings.batchSize, setLength)
+  const lastTrack = playlist[playlist.length - 1]?.track
+
+  return {
+    id: `segment-${Date.now()}-radio`,
+    name: `Radio ${extensionNumber}`,
+    targetTrackCount: settings.batchSize,
+    constraints: {
+      energyRange: {
+        min: Math.max(1, Math.min(...energyTargets) - 10),
+        max: Math.min(100, Math.max(...energyTargets) + 10),
+      },
+    },
+    prompt: `Continue the set seamlessly from where it left off${lastTrack?.genre ? ` (currently ${lastTrack.genre})` : ''}, keeping the same overall vibe`,
+    contextTracks: {
+      before: playlist.slice(-RADIO_CONTEXT_TRACKS),
+      after: [],
+    },
+    energyTargets,
+    excludeTracks,
+  }
+}
+
+/**
+ * Segment that marks an extension in the segment bar
+ */
+export function createRadioSegment(context: SegmentContext, trackCount: number, order: number): SetSegment {
+  return {
+    id: context.id,
+    name: context.name,
+    color: RADIO_COLOR,
+    duration: { type: 'tracks', count: trackCount },
+    order,
+    constraints: context.constraints,
+    prompt: context.prompt,
+    isRadio: true,
+  }
+}
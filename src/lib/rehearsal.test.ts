@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { getRehearsalIncomingSeconds, getRehearsalSeekTime } from './rehearsal'
+
+describe('getRehearsalSeekTime', () => {
+  it('lands the lead time before the mix-out point', () => {
+    expect(getRehearsalSeekTime(300, 30, 15)).toBe(255)
+  })
+
+  it('never seeks before the start', () => {
+    expect(getRehearsalSeekTime(40, 30, 15)).toBe(0)
+  })
+})
+
+describe('getRehearsalIncomingSeconds', () => {
+  it('counts the window from the cue, not from the end of the crossfade', () => {
+    // Cue at 32s, 8s already heard under the crossfade
+    expect(getRehearsalIncomingSeconds(32, 40, 15)).toBe(7)
+  })
+
+  it('is over when the crossfade outlasted the window', () => {
+    expect(getRehearsalIncomingSeconds(0, 20, 15)).toBe(0)
+  })
+})
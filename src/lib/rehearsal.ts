@@ -0,0 +1,96 @@
+/**
+ * Transition Rehearsal
+ *
+ * Checking a set before a gig shouldn't mean playing it end to end. A
+ * rehearsal auditions each transition in turn - the last seconds before the
+ * mix-out point, the crossfade, then the next track up to the same number of
+ * seconds past its cue - and collects a thumbs up or down per transition. The
+ * verdicts live on the Transition, so the rework report can be rebuilt at any
+ * time.
+ */
+
+import type { PlaylistNode, Transition } from '@/types'
+import { analyzeKeyTransition, ENERGY_JUMP_THRESHOLD } from './camelot'
+
+export const DEFAULT_REHEARSAL_LEAD_SECONDS = 15
+
+export const REHEARSAL_LEAD_OPTIONS = [5, 10, 15, 20, 30]
+
+// BPM gap that's worth calling out in the report
+const BPM_GAP_WARNING = 6
+
+export interface RehearsalReportItem {
+  index: number // Outgoing node index
+  from: PlaylistNode
+  to: PlaylistNode
+  transition?: Transition
+  issues: string[]
+}
+
+export interface RehearsalReport {
+  total: number
+  approved: number
+  flagged: RehearsalReportItem[]
+  unrated: number
+}
+
+/**
+ * Where to seek so the mix-out point is `leadSeconds` away
+ * (mixOutPoint is seconds from the end, as on Transition)
+ */
+export function getRehearsalSeekTime(duration: number, mixOutPoint: number, leadSeconds: number): number {
+  return Math.max(0, duration - mixOutPoint - leadSeconds)
+}
+
+/**
+ * Seconds of the incoming track still to play before asking for a verdict.
+ * The window runs `leadSeconds` from its cue (mix-in point), so the part
+ * already heard under the crossfade counts towards it.
+ */
+export function getRehearsalIncomingSeconds(mixInTime: number, currentTime: number, leadSeconds: number): number {
+  return Math.max(0, mixInTime + leadSeconds - currentTime)
+}
+
+/**
+ * Likely reasons a transition sounds off, for the rework report
+ */
+export function describeTransitionIssues(from: PlaylistNode, to: PlaylistNode): string[] {
+  const issues: string[] = []
+  const { compatibility } = analyzeKeyTransition(from.track.key, to.track.key, from.track.energy, to.track.energy)
+  if (compatibility === 'clash') issues.push(`Key clash (${from.track.key} → ${to.track.key})`)
+  else if (compatibility === 'warning') issues.push(`Loose key match (${from.track.key} → ${to.track.key})`)
+
+  if (from.track.bpm && to.track.bpm && Math.abs(from.track.bpm - to.track.bpm) >= BPM_GAP_WARNING) {
+    issues.push(`BPM gap ${from.track.bpm} → ${to.track.bpm}`)
+  }
+
+  if (from.track.energy !== undefined && to.track.energy !== undefined &&
+      Math.abs(from.track.energy - to.track.energy) > ENERGY_JUMP_THRESHOLD) {
+    issues.push(`Energy jump ${from.track.energy} → ${to.track.energy}`)
+  }
+
+  return issues
+}
+
+/**
+ * Summarise the verdicts on every transition in the set
+ */
+export function getRehearsalReport(playlist: PlaylistNode[]): RehearsalReport {
+  const report: RehearsalReport = { total: Math.max(0, playlist.length - 1), approved: 0, flagged: [], unrated: 0 }
+
+  for (let index = 0; index < playlist.length - 1; index++) {
+    const from = playlist[index]
+    const to = playlist[index + 1]
+    const rating = from.transitionToNext?.rehearsalRating
+
+    if (rating === 'up') {
+      report.approved++
+    } else if (rating === 'down') {
+      report.flagged.push({ index, from, to, transition: from.transitionToNext, issues: describeTransitionIssues(from, to) })
+    } else {
+      report.unrated++
+    }
+  }
+
+  return report
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { applyEditPlan, diffEditPlan } from './set-edit-plan'
+import type { PlaylistNode, SetEditOperation, Track } from '@/types'
+
+const track = (title: string): Track => ({ id: title, title, artist: 'Artist', duration: 240 } as Track)
+
+const node = (title: string, isLocked = false): PlaylistNode => ({
+  id: title,
+  track: track(title),
+  position: 0,
+  isLocked,
+})
+
+const titles = (playlist: PlaylistNode[]) => playlist.map((n) => n.track.title)
+const plan = (...operations: SetEditOperation[]) => ({ operations })
+
+describe('applyEditPlan', () => {
+  it('applies moves, inserts and removals when nothing is locked', () => {
+    const playlist = ['a', 'b', 'c', 'd'].map((t) => node(t))
+    const result = applyEditPlan(playlist, plan(
+      { type: 'move', from: 0, to: 2 },
+      { type: 'insert', index: 3, track: track('x') },
+      { type: 'remove', index: 1 },
+    ))
+    expect(titles(result)).toEqual(['c', 'a', 'x', 'd'])
+    expect(result.map((n) => n.position)).toEqual([0, 1, 2, 3])
+  })
+
+  it('keeps a locked node in place when an earlier node is removed', () => {
+    const playlist = [node('a'), node('b'), node('c', true), node('d')]
+    expect(titles(applyEditPlan(playlist, plan({ type: 'remove', index: 0 })))).toEqual(['b', 'd', 'c'])
+  })
+
+  it('keeps a locked node in place when a track is inserted before it', () => {
+    const playlist = [node('a'), node('b', true), node('c')]
+    expect(titles(applyEditPlan(playlist, plan({ type: 'insert', index: 0, track: track('x') }))))
+      .toEqual(['x', 'b', 'a', 'c'])
+  })
+
+  it('lays a moved node out around locked ones', () => {
+    const playlist = [node('a'), node('b', true), node('c'), node('d')]
+    expect(titles(applyEditPlan(playlist, plan({ type: 'move', from: 3, to: 0 }))))
+      .toEqual(['d', 'b', 'a', 'c'])
+  })
+
+  it('keeps locked nodes last when the set gets shorter than their index', () => {
+    const playlist = [node('a'), node('b'), node('c', true)]
+    expect(titles(applyEditPlan(playlist, plan(
+      { type: 'remove', index: 0 },
+      { type: 'remove', index: 1 },
+    )))).toEqual(['c'])
+  })
+})
+
+describe('diffEditPlan', () => {
+  it('keeps removed rows next to their neighbours', () => {
+    const playlist = [node('a'), node('b'), node('c', true)]
+    const rows = diffEditPlan(playlist, plan({ type: 'remove', index: 1 }))
+    expect(rows.map((row) => [row.kind, row.before?.track.title])).toEqual([
+      ['kept', 'a'],
+      ['removed', 'b'],
+      ['kept', 'c'],
+    ])
+  })
+})
@@ -0,0 +1,275 @@
+/**
+ * Set Edit Plans
+ *
+ * Conversational editing turns an instruction ("make tracks 5-8 darker and
+ * drop the vocals") into a structured plan of replace / insert / remove /
+ * move / energy operations. Every index in a plan refers to the playlist the
+ * plan was made against, so operations don't shift each other: the result is
+ * laid out in one pass. Inserts land before the node they point at (wherever
+ * that node ends up after moves); moves follow array-move semantics.
+ *
+ * Locked nodes can't be replaced, removed or moved, and energy-locked nodes
+ * keep their target energy. Locked nodes also keep their index when edits to
+ * other nodes would shift them; the rest of the set is laid out around them.
+ * Both the edit-set route and the preview apply the same checks.
+ */
+
+import type { PlaylistNode, SetEditOperation, SetEditPlan, Track } from '@/types'
+
+export type SetEditDiffKind = 'kept' | 'replaced' | 'inserted' | 'removed' | 'moved' | 'energy'
+
+export interface SetEditDiffRow {
+  kind: SetEditDiffKind
+  // Node before the edit (absent for inserts)
+  before?: PlaylistNode
+  // Node after the edit (absent for removals)
+  after?: PlaylistNode
+  // Original index of `before`
+  originalIndex?: number
+  // Also changed position (kind may be 'replaced' or 'energy' too)
+  moved: boolean
+  reason?: string
+}
+
+// === VALIDATION ===
+
+function operationIndices(operation: SetEditOperation): number[] {
+  return operation.type === 'move' ? [operation.from] : [operation.index]
+}
+
+/**
+ * Drop operations that point outside the playlist, touch locked nodes, or
+ * conflict with an earlier operation on the same node
+ */
+export function checkEditOperations(
+  playlist: PlaylistNode[],
+  operations: SetEditOperation[]
+): Pick<SetEditPlan, 'operations' | 'skipped'> {
+  const accepted: SetEditOperation[] = []
+  const skipped: SetEditPlan['skipped'] = []
+  // Nodes already claimed by a replace/remove/energy/move
+  const claimed = new Map<number, SetEditOperation['type'][]>()
+
+  for (const operation of operations) {
+    const skip = (reason: string) => skipped.push({ operation, reason })
+
+    if (operation.type === 'insert') {
+      if (operation.index < 0 || operation.index > playlist.length) {
+        skip(`Insert position ${operation.index + 1} is outside the set`)
+      } else {
+        accepted.push(operation)
+      }
+      continue
+    }
+
+    if (operation.type === 'move' && (operation.to < 0 || operation.to >= playlist.length)) {
+      skip(`Move target ${operation.to + 1} is outside the set`)
+      continue
+    }
+
+    const [index] = operationIndices(operation)
+    const node = playlist[index]
+    if (!node) {
+      skip(`Track ${index + 1} doesn't exist`)
+      continue
+    }
+
+    if (operation.type === 'energy') {
+      if (node.isEnergyLocked) {
+        skip(`Track ${index + 1} has its energy locked`)
+        continue
+      }
+    } else if (node.isLocked) {
+      skip(`Track ${index + 1} is locked`)
+      continue
+    }
+
+    if (operation.type === 'move' && operation.to === operation.from) {
+      skip(`Track ${index + 1} is already at that position`)
+      continue
+    }
+
+    const previous = claimed.get(index) || []
+    // A removed node can't be edited further, and each kind applies once per node
+    if (previous.includes('remove') || previous.includes(operation.type) ||
+      (operation.type === 'remove' && previous.length > 0)) {
+      skip(`Conflicting edits for track ${index + 1}`)
+      continue
+    }
+    claimed.set(index, [...previous, operation.type])
+    accepted.push(operation)
+  }
+
+  return { operations: accepted, skipped }
+}
+
+// === LAYOUT ===
+
+function replacementNode(node: PlaylistNode, track: Track): PlaylistNode {
+  return {
+    ...node,
+    track,
+    targetEnergy: track.energy ?? node.targetEnergy,
+    state: 'ai-selected',
+    // Cues, grid and alternatives belonged to the old track
+    cues: undefined,
+    beatGrid: undefined,
+    alternatives: undefined,
+  }
+}
+
+function insertedNode(track: Track, index: number): PlaylistNode {
+  return {
+    id: `node-edit-${Date.now()}-${index}`,
+    track,
+    position: 0,
+    targetEnergy: track.energy,
+    state: 'ai-selected',
+  }
+}
+
+/**
+ * Put locked rows back at their original index, filling the positions around
+ * them with the other rows in order. Removed rows take no position. Locked
+ * nodes past the end of a set that got shorter stay last, in order.
+ */
+function anchorLockedRows(rows: SetEditDiffRow[]): SetEditDiffRow[] {
+  const anchored = new Map<number, SetEditDiffRow>()
+  const flowing: SetEditDiffRow[] = []
+  rows.forEach((row) => {
+    if (row.after?.isLocked && row.originalIndex !== undefined) {
+      anchored.set(row.originalIndex, row)
+    } else {
+      flowing.push(row)
+    }
+  })
+
+  const result: SetEditDiffRow[] = []
+  let position = 0
+  const placeAnchored = () => {
+    for (let row = anchored.get(position); row; row = anchored.get(position)) {
+      result.push(row)
+      anchored.delete(position++)
+    }
+  }
+
+  placeAnchored()
+  for (const row of flowing) {
+    result.push(row)
+    if (row.after) {
+      position++
+      placeAnchored()
+    }
+  }
+  Array.from(anchored.keys())
+    .sort((a, b) => a - b)
+    .forEach((index) => result.push(anchored.get(index)!))
+
+  return result
+}
+
+/**
+ * Lay the plan out against the playlist: one row per resulting or removed node
+ */
+export function diffEditPlan(playlist: PlaylistNode[], plan: Pick<SetEditPlan, 'operations'>): SetEditDiffRow[] {
+  const removals = new Map<number, SetEditOperation>()
+  const replacements = new Map<number, Extract<SetEditOperation, { type: 'replace' }>>()
+  const energies = new Map<number, Extract<SetEditOperation, { type: 'energy' }>>()
+  const moves = new Map<number, Extract<SetEditOperation, { type: 'move' }>>()
+  const inserts = new Map<number, Extract<SetEditOperation, { type: 'insert' }>[]>()
+
+  let order = playlist.map((_, index) => index)
+
+  plan.operations.forEach((operation) => {
+    switch (operation.type) {
+      case 'remove':
+        removals.set(operation.index, operation)
+        break
+      case 'replace':
+        replacements.set(operation.index, operation)
+        break
+      case 'energy':
+        energies.set(operation.index, operation)
+        break
+      case 'insert':
+        inserts.set(operation.index, [...(inserts.get(operation.index) || []), operation])
+        break
+      case 'move': {
+        moves.set(operation.from, operation)
+        order = order.filter((index) => index !== operation.from)
+        const anchor = order.indexOf(operation.to)
+        if (anchor === -1) {
+          order.push(operation.from)
+        } else {
+          order.splice(operation.to > operation.from ? anchor + 1 : anchor, 0, operation.from)
+        }
+        break
+      }
+    }
+  })
+
+  const rows: SetEditDiffRow[] = []
+  let insertCount = 0
+  const pushInserts = (index: number) => {
+    for (const insert of inserts.get(index) || []) {
+      rows.push({ kind: 'inserted', after: insertedNode(insert.track, insertCount++), moved: false, reason: insert.reason })
+    }
+  }
+
+  for (const index of order) {
+    pushInserts(index)
+    const node = playlist[index]
+    const moved = moves.has(index)
+    const base = { before: node, originalIndex: index, moved }
+
+    const removal = removals.get(index)
+    const replacement = replacements.get(index)
+    const energy = energies.get(index)
+
+    if (removal) {
+      rows.push({ ...base, kind: 'removed', moved: false, reason: removal.reason })
+    } else if (replacement) {
+      const after = replacementNode(node, replacement.track)
+      rows.push({
+        ...base,
+        kind: 'replaced',
+        after: energy ? { ...after, targetEnergy: energy.energy } : after,
+        reason: replacement.reason,
+      })
+    } else if (energy) {
+      rows.push({ ...base, kind: 'energy', after: { ...node, targetEnergy: energy.energy }, reason: energy.reason })
+    } else {
+      rows.push({ ...base, kind: moved ? 'moved' : 'kept', after: node, reason: moves.get(index)?.reason })
+    }
+  }
+  pushInserts(playlist.length)
+
+  return anchorLockedRows(rows)
+}
+
+/**
+ * The playlist with the plan applied (positions renumbered)
+ */
+export function applyEditPlan(playlist: PlaylistNode[], plan: Pick<SetEditPlan, 'operations'>): PlaylistNode[] {
+  return diffEditPlan(playlist, plan)
+    .flatMap((row) => (row.after ? [row.after] : []))
+    .map((node, position) => ({ ...node, position }))
+}
+
+/**
+ * Short human description of an operation (1-based track numbers)
+ */
+export function describeEditOperation(operation: SetEditOperation): string {
+  switch (operation.type) {
+    case 'replace':
+      return `Replace #${operation.index + 1} with ${operation.track.artist} - ${operation.track.title}`
+    case 'insert':
+      return `Insert ${operation.track.artist} - ${operation.track.title} at #${operation.index + 1}`
+    case 'remove':
+      return `Remove #${operation.index + 1}`
+    case 'move':
+      return `Move #${operation.from + 1} to #${operation.to + 1}`
+    case 'energy':
+      return `Set #${operation.index + 1} energy to ${operation.energy}`
+  }
+}
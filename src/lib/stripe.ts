@@ -44,14 +44,14 @@ export const TIER_CONFIG = {
   free: {
     monthlyCredits: 5,
     maxCloudSaves: 3,
-    allowedProviders: ['openai'] as const,
+    allowedProviders: ['openai', 'openai-compatible'] as const,
     hasWizardPro: false,
     hasSegmentedSets: false,
   },
   pro: {
     monthlyCredits: 50,
     maxCloudSaves: Infinity,
-    allowedProviders: ['openai', 'claude', 'gemini'] as const,
+    allowedProviders: ['openai', 'claude', 'gemini', 'openai-compatible'] as const,
     hasWizardPro: true,
     hasSegmentedSets: true,
   },
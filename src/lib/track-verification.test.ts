@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { searchiTunes } from './itunes-search'
+import { searchAlternativeSources } from './invidious-search'
+import { verifyAndReplaceTracks, verifyTrack, REASK_MIN_REMAINING_MS } from './track-verification'
+import type { AITrack } from './ai-schemas'
+
+vi.mock('./itunes-search', () => ({ searchiTunes: vi.fn() }))
+vi.mock('./invidious-search', () => ({ searchAlternativeSources: vi.fn() }))
+vi.mock('./video-cache', () => ({
+  getCachedVideos: vi.fn(async () => new Map()),
+  cacheVideos: vi.fn(async () => undefined),
+}))
+
+const track = (artist: string, title: string): AITrack => ({
+  artist,
+  title,
+  energy: 5,
+  aiReasoning: '',
+  alternatives: [],
+} as unknown as AITrack)
+
+beforeEach(() => {
+  vi.mocked(searchiTunes).mockReset().mockResolvedValue(null)
+  vi.mocked(searchAlternativeSources).mockReset().mockResolvedValue(null)
+})
+
+describe('verifyTrack', () => {
+  it('keeps the video of a matching result as enrichment', async () => {
+    vi.mocked(searchAlternativeSources).mockResolvedValue({
+      videoId: 'abc', title: 'Daft Punk - One More Time (Official Video)', thumbnail: 'v.jpg', duration: 320,
+    })
+    const verification = await verifyTrack('Daft Punk', 'One More Time')
+    expect(verification.verified).toBe(true)
+    expect(verification.enrichment).toMatchObject({ videoId: 'abc', thumbnail: 'v.jpg' })
+  })
+
+  it('drops enrichment from results below the threshold', async () => {
+    vi.mocked(searchiTunes).mockResolvedValue({
+      thumbnail: 'art.jpg', thumbnailSmall: 'art-s.jpg', artist: 'Someone Else', title: 'Another Song',
+    })
+    vi.mocked(searchAlternativeSources).mockResolvedValue({
+      videoId: 'xyz', title: 'Completely Unrelated Upload', thumbnail: 'v.jpg', duration: 200,
+    })
+    const verification = await verifyTrack('Made Up Artist', 'Imaginary Tune')
+    expect(verification.verified).toBe(false)
+    expect(verification.enrichment).toBeNull()
+  })
+})
+
+describe('verifyAndReplaceTracks', () => {
+  it('re-asks the provider for unverified tracks', async () => {
+    const reask = vi.fn(async () => [track('Daft Punk', 'One More Time')])
+    vi.mocked(searchAlternativeSources).mockImplementation(async (query) => (
+      query.startsWith('Daft Punk')
+        ? { videoId: 'abc', title: 'Daft Punk - One More Time', thumbnail: 'v.jpg', duration: 320 }
+        : null
+    ))
+
+    const result = await verifyAndReplaceTracks([track('Made Up Artist', 'Imaginary Tune')], reask)
+    expect(reask).toHaveBeenCalledOnce()
+    expect(result.tracks[0].title).toBe('One More Time')
+    expect(result.replaced.has(0)).toBe(true)
+  })
+
+  it('skips the re-ask when the deadline is close', async () => {
+    const reask = vi.fn(async () => [track('Daft Punk', 'One More Time')])
+    const deadline = Date.now() + REASK_MIN_REMAINING_MS / 2
+
+    const result = await verifyAndReplaceTracks([track('Made Up Artist', 'Imaginary Tune')], reask, {}, undefined, deadline)
+    expect(reask).not.toHaveBeenCalled()
+    expect(result.tracks[0].title).toBe('Imaginary Tune')
+    expect(result.verifications[0].verified).toBe(false)
+  })
+})
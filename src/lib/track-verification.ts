@@ -0,0 +1,403 @@
+/**
+ * Track Verification
+ *
+ * LLMs regularly invent songs. Before generated tracks are enriched, each one
+ * is looked up on iTunes and Invidious/Piped and fuzzy-matched on artist and
+ * title to get a confidence that it really exists. Tracks below the threshold
+ * are swapped for their best verified alternative, or re-asked from the
+ * provider.
+ *
+ * Matching search results are kept as enrichment data so verified tracks aren't looked
+ * up a second time by batchSearchVideoData. Lookups started early (e.g. while
+ * a track list is still streaming in) can be handed over as prefetched results.
+ */
+
+import { searchiTunes } from './itunes-search'
+import { searchAlternativeSources } from './invidious-search'
+import { getCachedVideos, cacheVideos, type CachedVideoData } from './video-cache'
+import type { EnrichedTrackData } from './video-search'
+import type { AITrack } from './ai-schemas'
+
+// Confidence needed to treat a track as real
+export const VERIFICATION_THRESHOLD = 0.6
+
+// Time a provider re-ask plus verifying its picks needs before the deadline
+export const REASK_MIN_REMAINING_MS = 8000
+
+export interface TrackVerification {
+  confidence: number // 0-1
+  verified: boolean
+  matchedBy: 'cache' | 'itunes' | 'video' | 'both' | 'none'
+  // Video/artwork found while verifying (null if nothing turned up)
+  enrichment: EnrichedTrackData | null
+  videoTitle?: string
+  // Catalog facts, only set when the iTunes match is good enough to trust
+  releaseYear?: number
+  isExplicit?: boolean
+}
+
+interface TrackIdentity {
+  artist: string
+  title: string
+}
+
+// Lookups already in flight, keyed `${artist}:${title}`
+export type PrefetchedVerifications = Map<string, Promise<TrackVerification>>
+
+// === FUZZY MATCHING ===
+
+/**
+ * Normalize a title/artist for comparison: lowercase, no accents, no
+ * featured artists or "(Official Video)"-style decorations, no punctuation
+ */
+export function normalizeForMatch(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[([][^)\]]*\b(official|lyrics?|audio|video|visuali[sz]er|hd|hq|4k|feat|ft)\b[^)\]]*[)\]]/g, ' ')
+    .replace(/\s(feat|ft|featuring)\.?\s.*$/, ' ')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function bigrams(text: string): string[] {
+  const compact = text.replace(/\s/g, '')
+  const result: string[] = []
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2))
+  }
+  return result
+}
+
+/**
+ * Sørensen–Dice coefficient over character bigrams (0-1)
+ */
+export function diceSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0
+  if (a === b) return 1
+
+  const aBigrams = bigrams(a)
+  const bBigrams = bigrams(b)
+  if (aBigrams.length === 0 || bBigrams.length === 0) return 0
+
+  const counts = new Map<string, number>()
+  aBigrams.forEach((bigram) => counts.set(bigram, (counts.get(bigram) || 0) + 1))
+
+  let overlap = 0
+  for (const bigram of bBigrams) {
+    const count = counts.get(bigram) || 0
+    if (count > 0) {
+      overlap++
+      counts.set(bigram, count - 1)
+    }
+  }
+
+  return (2 * overlap) / (aBigrams.length + bBigrams.length)
+}
+
+/**
+ * Fraction of the needle's words that appear in the haystack (0-1)
+ */
+export function tokenCoverage(needle: string, haystack: string): number {
+  const needleTokens = needle.split(' ').filter(Boolean)
+  if (needleTokens.length === 0) return 0
+  const haystackTokens = new Set(haystack.split(' '))
+  return needleTokens.filter((token) => haystackTokens.has(token)).length / needleTokens.length
+}
+
+const fieldSimilarity = (expected: string, candidate: string) => {
+  const a = normalizeForMatch(expected)
+  const b = normalizeForMatch(candidate)
+  return Math.max(diceSimilarity(a, b), tokenCoverage(a, b))
+}
+
+/**
+ * Score a catalog (iTunes) result against the expected artist/title
+ */
+export function scoreCatalogMatch(expected: TrackIdentity, candidate: TrackIdentity): number {
+  return 0.4 * fieldSimilarity(expected.artist, candidate.artist) +
+    0.6 * fieldSimilarity(expected.title, candidate.title)
+}
+
+/**
+ * Score a video result: video titles are usually "Artist - Title (Official ...)",
+ * and topic/official channels carry the artist name
+ */
+export function scoreVideoMatch(
+  expected: TrackIdentity,
+  video: { title: string; channelName?: string }
+): number {
+  const videoTitle = normalizeForMatch(video.title)
+  const withChannel = `${normalizeForMatch(video.channelName || '')} ${videoTitle}`
+  return 0.4 * tokenCoverage(normalizeForMatch(expected.artist), withChannel) +
+    0.6 * tokenCoverage(normalizeForMatch(expected.title), videoTitle)
+}
+
+/**
+ * Combine catalog and video scores. iTunes is the stronger signal (plenty of
+ * covers and fan uploads exist on video sites); agreement adds a bonus.
+ */
+export function combineVerificationScores(catalogScore: number, videoScore: number): number {
+  const best = Math.max(catalogScore, videoScore * 0.85)
+  const agreement = catalogScore >= VERIFICATION_THRESHOLD && videoScore >= VERIFICATION_THRESHOLD ? 0.1 : 0
+  return Math.round(Math.min(1, best + agreement) * 100) / 100
+}
+
+// === VERIFICATION ===
+
+function verificationFromCache(track: TrackIdentity, cached: CachedVideoData): TrackVerification | null {
+  const confidence = Math.round(scoreVideoMatch(track, { title: cached.title }) * 100) / 100
+  if (confidence < VERIFICATION_THRESHOLD) return null
+  return {
+    confidence,
+    verified: true,
+    matchedBy: 'cache',
+    enrichment: {
+      videoId: cached.videoId,
+      thumbnail: cached.thumbnail,
+      duration: cached.duration,
+      source: 'cache',
+    },
+  }
+}
+
+/**
+ * Look a track up on iTunes and Invidious/Piped and score the matches
+ */
+export async function verifyTrack(artist: string, title: string): Promise<TrackVerification> {
+  const [catalog, video] = await Promise.all([
+    searchiTunes(artist, title),
+    searchAlternativeSources(`${artist} - ${title} official audio`),
+  ])
+
+  const catalogScore = catalog?.artist && catalog.title
+    ? scoreCatalogMatch({ artist, title }, { artist: catalog.artist, title: catalog.title })
+    : 0
+  const videoScore = video ? scoreVideoMatch({ artist, title }, video) : 0
+  const confidence = combineVerificationScores(catalogScore, videoScore)
+
+  const catalogOk = catalogScore >= VERIFICATION_THRESHOLD
+  const videoOk = videoScore >= VERIFICATION_THRESHOLD
+  const matchedBy: TrackVerification['matchedBy'] =
+    catalogOk && videoOk ? 'both' : catalogOk ? 'itunes' : videoOk ? 'video' : 'none'
+
+  // Results that don't match the track aren't used as enrichment either
+  const catalogThumbnail = catalogOk ? catalog?.thumbnail : undefined
+  let enrichment: EnrichedTrackData | null = null
+  if (video && videoOk) {
+    enrichment = {
+      videoId: video.videoId,
+      thumbnail: catalogThumbnail || video.thumbnail,
+      duration: video.duration,
+      source: catalogThumbnail ? 'itunes' : 'invidious',
+    }
+  } else if (catalog && catalogThumbnail) {
+    enrichment = {
+      videoId: '',
+      thumbnail: catalogThumbnail,
+      duration: catalog.duration || 240,
+      source: 'itunes',
+    }
+  }
+
+  console.log(`[Verify] ${artist} - ${title}: ${confidence} (${matchedBy})`)
+  return {
+    confidence,
+    verified: confidence >= VERIFICATION_THRESHOLD,
+    matchedBy,
+    enrichment,
+    videoTitle: video?.title,
+    ...(catalogOk && { releaseYear: catalog?.releaseYear, isExplicit: catalog?.isExplicit }),
+  }
+}
+
+/**
+ * Verify a batch of tracks (same order as input). Cached videos whose titles
+ * still match are trusted without searching again, and prefetched lookups are
+ * awaited instead of repeated.
+ */
+export async function verifyTracks(
+  tracks: TrackIdentity[],
+  onVerified?: (index: number, verification: TrackVerification) => void,
+  concurrency: number = 3,
+  prefetched?: PrefetchedVerifications
+): Promise<TrackVerification[]> {
+  const results: TrackVerification[] = new Array(tracks.length)
+  const cached = await getCachedVideos(tracks)
+  const toSearch: number[] = []
+
+  tracks.forEach((track, index) => {
+    const hit = cached.get(`${track.artist}:${track.title}`)
+    const fromCache = hit ? verificationFromCache(track, hit) : null
+    if (fromCache) {
+      results[index] = fromCache
+      onVerified?.(index, fromCache)
+    } else {
+      toSearch.push(index)
+    }
+  })
+
+  const toCache: { artist: string; title: string; data: Omit<CachedVideoData, 'cachedAt'> }[] = []
+
+  for (let i = 0; i < toSearch.length; i += concurrency) {
+    const batch = toSearch.slice(i, i + concurrency)
+    await Promise.all(batch.map(async (index) => {
+      const { artist, title } = tracks[index]
+      const verification = await (prefetched?.get(`${artist}:${title}`) ?? verifyTrack(artist, title))
+      results[index] = verification
+      onVerified?.(index, verification)
+
+      // Only cache videos we believe are the right track
+      if (verification.verified && verification.enrichment?.videoId) {
+        toCache.push({
+          artist,
+          title,
+          data: {
+            videoId: verification.enrichment.videoId,
+            thumbnail: verification.enrichment.thumbnail,
+            duration: verification.enrichment.duration,
+            title: verification.videoTitle || `${artist} - ${title}`,
+            source: 'invidious',
+          },
+        })
+      }
+    }))
+  }
+
+  if (toCache.length > 0) {
+    await cacheVideos(toCache)
+  }
+
+  const verifiedCount = results.filter((result) => result.verified).length
+  console.log(`[Verify] ${verifiedCount}/${tracks.length} tracks verified`)
+  return results
+}
+
+// === REPLACEMENT ===
+
+export interface VerificationCallbacks {
+  onVerified?: (index: number, verification: TrackVerification) => void
+  onReplaced?: (
+    index: number,
+    original: AITrack,
+    replacement: AITrack,
+    verification: TrackVerification,
+    source: 'alternative' | 'provider'
+  ) => void
+}
+
+export interface VerifiedTrackList {
+  tracks: AITrack[]
+  verifications: TrackVerification[]
+  replaced: Set<number>
+}
+
+/**
+ * Prompt asking the provider for real replacements of tracks that couldn't be found
+ */
+export function buildReplacementPrompt(originalPrompt: string, rejected: AITrack[], kept: AITrack[]): string {
+  return `${originalPrompt}
+
+These tracks could not be found in any music catalog and probably don't exist:
+${rejected.map((track) => `- ${track.artist} - ${track.title} (energy ${track.energy})`).join('\n')}
+
+Suggest exactly ${rejected.length} REAL, released replacement track(s), one per rejected track and in the same order, with a similar energy and style.
+Only suggest songs you are certain exist. Do not repeat any of these tracks:
+${kept.map((track) => `- ${track.artist} - ${track.title}`).join('\n') || '- (none)'}
+
+Return ONLY a JSON array.`
+}
+
+/**
+ * Promote a verified alternative to a main track, keeping the slot's energy
+ * if the alternative didn't specify one
+ */
+function alternativeToTrack(original: AITrack, alternativeIndex: number): AITrack {
+  const alternative = original.alternatives[alternativeIndex]
+  return {
+    title: alternative.title,
+    artist: alternative.artist,
+    bpm: alternative.bpm,
+    key: alternative.key,
+    genre: alternative.genre ?? original.genre,
+    energy: alternative.energy ?? original.energy,
+    duration: alternative.duration,
+    year: alternative.year,
+    explicit: alternative.explicit,
+    aiReasoning: alternative.whyNotChosen || original.aiReasoning,
+    alternatives: original.alternatives.filter((_, index) => index !== alternativeIndex),
+  }
+}
+
+/**
+ * Verify generated tracks and replace the ones that fail: first with their best
+ * verified alternative, then (if `reask` is given) with fresh picks from the
+ * provider. Tracks that can't be replaced are kept, marked unverified.
+ *
+ * `deadline` (epoch ms) is when the caller has to be done: alternatives stop
+ * being tried once it has passed, and the provider isn't re-asked when less
+ * than REASK_MIN_REMAINING_MS is left.
+ */
+export async function verifyAndReplaceTracks(
+  tracks: AITrack[],
+  reask?: (rejected: AITrack[], kept: AITrack[]) => Promise<AITrack[]>,
+  callbacks: VerificationCallbacks = {},
+  prefetched?: PrefetchedVerifications,
+  deadline?: number
+): Promise<VerifiedTrackList> {
+  const remainingMs = () => (deadline === undefined ? Infinity : deadline - Date.now())
+
+  const result = tracks.slice()
+  const verifications = await verifyTracks(tracks, callbacks.onVerified, undefined, prefetched)
+  const replaced = new Set<number>()
+
+  const replace = (index: number, track: AITrack, verification: TrackVerification, source: 'alternative' | 'provider') => {
+    callbacks.onReplaced?.(index, result[index], track, verification, source)
+    result[index] = track
+    verifications[index] = verification
+    replaced.add(index)
+  }
+
+  // Step 1: best verified alternative
+  const failed = verifications.map((v, index) => (v.verified ? -1 : index)).filter((index) => index >= 0)
+  for (const index of failed) {
+    if (remainingMs() <= 0) break
+    const alternatives = result[index].alternatives
+    if (alternatives.length === 0) continue
+
+    const altVerifications = await verifyTracks(alternatives)
+    const best = altVerifications
+      .map((verification, altIndex) => ({ verification, altIndex }))
+      .filter(({ verification }) => verification.verified)
+      .sort((a, b) => b.verification.confidence - a.verification.confidence)[0]
+
+    if (best) {
+      replace(index, alternativeToTrack(result[index], best.altIndex), best.verification, 'alternative')
+    }
+  }
+
+  // Step 2: ask the provider again for whatever is still unverified
+  const stillFailed = verifications.map((v, index) => (v.verified ? -1 : index)).filter((index) => index >= 0)
+  if (stillFailed.length > 0 && reask && remainingMs() < REASK_MIN_REMAINING_MS) {
+    console.warn(`[Verify] Skipping re-ask for ${stillFailed.length} track(s): too close to the deadline`)
+  } else if (stillFailed.length > 0 && reask) {
+    try {
+      const kept = result.filter((_, index) => !stillFailed.includes(index))
+      const replacements = await reask(stillFailed.map((index) => result[index]), kept)
+      const replacementVerifications = await verifyTracks(replacements)
+
+      replacements.slice(0, stillFailed.length).forEach((track, i) => {
+        if (replacementVerifications[i].verified) {
+          replace(stillFailed[i], track, replacementVerifications[i], 'provider')
+        }
+      })
+    } catch (error) {
+      console.warn('[Verify] Re-asking provider failed:', error instanceof Error ? error.message : error)
+    }
+  }
+
+  return { tracks: result, verifications, replaced }
+}
@@ -0,0 +1,237 @@
+/**
+ * Transition Style Engine
+ *
+ * Each style describes how the outgoing and incoming decks are mixed:
+ * how long the transition lasts, the gain envelope for each deck, when the
+ * incoming deck starts, and whether the outgoing deck's tempo is bent.
+ *
+ * DualYouTubePlayer asks the engine for a plan and steps through it; adding a
+ * style only requires a new entry in TRANSITION_STYLES.
+ */
+
+import type { AutoMixState, Transition, TransitionStyle } from '@/types'
+import { getBarSeconds, type CrossfadePlan } from './beatmatch'
+
+export interface TransitionGains {
+  outgoing: number // 0-1
+  incoming: number // 0-1
+}
+
+export interface TransitionStyleContext {
+  // Planned crossfade length (bar-aligned when beatmatched)
+  baseSeconds: number
+  // Outgoing BPM, if known
+  bpm?: number
+  // Silence between tracks for gapped transitions
+  gapSeconds: number
+}
+
+export interface TransitionStyleDefinition {
+  id: TransitionStyle
+  label: string
+  description: string
+  // Both decks audible at the same time (tempo nudging only applies then)
+  overlaps: boolean
+  // Wait for the next bar line before starting
+  alignToBar: boolean
+  getDuration: (context: TransitionStyleContext) => number
+  // Progress (0-1) at which the incoming deck starts playing
+  getIncomingStart: (context: TransitionStyleContext) => number
+  getGains: (progress: number, context: Pick<TransitionStyleContext, 'gapSeconds'>) => TransitionGains
+  // Optional tempo bend for the outgoing deck (1 = unchanged)
+  getOutgoingRate?: (progress: number) => number
+}
+
+export interface StyledTransitionPlan {
+  style: TransitionStyle
+  durationSeconds: number
+  steps: number
+  stepMs: number
+  incomingStart: number
+  incomingPlaybackRate: number
+  alignToBar: boolean
+}
+
+export const DEFAULT_GAP_SECONDS = 2
+
+// Volume updates per second for styles that don't use the beatmatch grid
+const STEPS_PER_SECOND = 20
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value))
+
+// === STYLES ===
+
+export const TRANSITION_STYLES: Record<TransitionStyle, TransitionStyleDefinition> = {
+  crossfade: {
+    id: 'crossfade',
+    label: 'Crossfade',
+    description: 'Equal-power fade between both tracks',
+    overlaps: true,
+    alignToBar: true,
+    getDuration: ({ baseSeconds }) => baseSeconds,
+    getIncomingStart: () => 0,
+    getGains: (progress) => ({
+      outgoing: Math.cos((progress * Math.PI) / 2),
+      incoming: Math.sin((progress * Math.PI) / 2),
+    }),
+  },
+
+  'echo-out': {
+    id: 'echo-out',
+    label: 'Echo Out',
+    description: 'Outgoing track decays in steps like a delay tail',
+    overlaps: true,
+    alignToBar: true,
+    getDuration: ({ baseSeconds }) => baseSeconds,
+    getIncomingStart: () => 0.5,
+    getGains: (progress) => {
+      // 8 repeats, each quieter than the last, with a short decay inside each repeat
+      const repeats = 8
+      const repeat = Math.floor(progress * repeats)
+      const withinRepeat = progress * repeats - repeat
+      const outgoing = progress >= 1 ? 0 : Math.pow(0.6, repeat) * (1 - withinRepeat * 0.5)
+      const incoming = progress < 0.5 ? 0 : Math.sin(((progress - 0.5) * 2 * Math.PI) / 2)
+      return { outgoing, incoming }
+    },
+  },
+
+  cut: {
+    id: 'cut',
+    label: 'Hard Cut',
+    description: 'Instant switch on the next bar',
+    overlaps: false,
+    alignToBar: true,
+    getDuration: () => 0,
+    getIncomingStart: () => 0,
+    getGains: () => ({ outgoing: 0, incoming: 1 }),
+  },
+
+  blend: {
+    id: 'blend',
+    label: 'Slow Blend',
+    description: 'Long mix with both tracks at full volume in the middle',
+    overlaps: true,
+    alignToBar: true,
+    getDuration: ({ baseSeconds, bpm }) => {
+      // Twice the normal length, kept on whole bars when the tempo is known
+      if (!bpm) return baseSeconds * 2
+      const barSeconds = getBarSeconds(bpm)
+      return Math.max(1, Math.round((baseSeconds * 2) / barSeconds)) * barSeconds
+    },
+    getIncomingStart: () => 0,
+    getGains: (progress) => ({
+      incoming: Math.sin((clamp01(progress * 2) * Math.PI) / 2),
+      outgoing: Math.cos((clamp01(progress * 2 - 1) * Math.PI) / 2),
+    }),
+  },
+
+  spinback: {
+    id: 'spinback',
+    label: 'Spinback',
+    description: 'Outgoing track slows and drops out, next track slams in',
+    overlaps: false,
+    alignToBar: true,
+    getDuration: ({ bpm }) => (bpm ? Math.min(2, (60 / bpm) * 2) : 1),
+    getIncomingStart: () => 1,
+    getGains: (progress) => ({
+      outgoing: progress >= 1 ? 0 : Math.pow(1 - progress, 2),
+      incoming: progress >= 1 ? 1 : 0,
+    }),
+    getOutgoingRate: (progress) => (progress < 0.33 ? 1 : progress < 0.66 ? 0.5 : 0.25),
+  },
+
+  gapped: {
+    id: 'gapped',
+    label: 'Gapped',
+    description: 'Short fade out, silence, then the next track',
+    overlaps: false,
+    alignToBar: false,
+    getDuration: ({ gapSeconds }) => 1 + gapSeconds,
+    getIncomingStart: () => 1,
+    getGains: (progress, { gapSeconds }) => {
+      const fadeFraction = 1 / (1 + gapSeconds)
+      return {
+        outgoing: progress < fadeFraction ? 1 - progress / fadeFraction : 0,
+        incoming: progress >= 1 ? 1 : 0,
+      }
+    },
+  },
+}
+
+export const TRANSITION_STYLE_ORDER: TransitionStyle[] = [
+  'crossfade',
+  'blend',
+  'echo-out',
+  'cut',
+  'spinback',
+  'gapped',
+]
+
+// === RESOLUTION ===
+
+/**
+ * Style for a transition: the node's saved style, or the AutoMix mode default
+ */
+export function resolveTransitionStyle(
+  transition: Transition | undefined,
+  mode: AutoMixState['mode']
+): TransitionStyle {
+  if (transition?.style && TRANSITION_STYLES[transition.style]) return transition.style
+  return mode === 'gapped' ? 'gapped' : 'crossfade'
+}
+
+/**
+ * Turn a style and the beatmatch plan into a concrete step schedule
+ */
+export function planStyledTransition(
+  style: TransitionStyle,
+  crossfade: CrossfadePlan,
+  options: { bpm?: number; gapSeconds?: number } = {}
+): StyledTransitionPlan {
+  const definition = TRANSITION_STYLES[style]
+  const context: TransitionStyleContext = {
+    baseSeconds: crossfade.durationSeconds,
+    bpm: options.bpm,
+    gapSeconds: options.gapSeconds ?? DEFAULT_GAP_SECONDS,
+  }
+
+  const durationSeconds = definition.getDuration(context)
+  // Reuse the beat-grid step size when the duration is the planned one
+  const steps = durationSeconds <= 0
+    ? 1
+    : durationSeconds === crossfade.durationSeconds
+    ? crossfade.steps
+    : Math.max(1, Math.round(durationSeconds * STEPS_PER_SECOND))
+
+  return {
+    style,
+    durationSeconds,
+    steps,
+    stepMs: (durationSeconds * 1000) / steps,
+    incomingStart: definition.getIncomingStart(context),
+    incomingPlaybackRate: definition.overlaps ? crossfade.incomingPlaybackRate : 1,
+    // Overlapping styles only sound right on the grid when the tempos match
+    alignToBar:
+      definition.alignToBar &&
+      !!options.bpm &&
+      (crossfade.mode === 'beatmatched' || !definition.overlaps),
+  }
+}
+
+/**
+ * Deck volumes (0-maxVolume) for a style at a given progress. The incoming
+ * deck can have its own ceiling (e.g. a different gain trim).
+ */
+export function getStyleVolumes(
+  style: TransitionStyle,
+  progress: number,
+  maxVolume: number,
+  gapSeconds: number = DEFAULT_GAP_SECONDS,
+  incomingMaxVolume: number = maxVolume
+): { outgoing: number; incoming: number } {
+  const gains = TRANSITION_STYLES[style].getGains(clamp01(progress), { gapSeconds })
+  return {
+    outgoing: Math.round(clamp01(gains.outgoing) * maxVolume),
+    incoming: Math.round(clamp01(gains.incoming) * incomingMaxVolume),
+  }
+}
@@ -6,6 +6,10 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+// IFrame player errors that mean a video will never play in the embed
+// (100: removed or private, 101/150: embedding disabled by the owner)
+export const UNPLAYABLE_VIDEO_ERRORS = [100, 101, 150]
+
 export function formatDuration(seconds: number): string {
   const minutes = Math.floor(seconds / 60)
   const remainingSeconds = seconds % 60
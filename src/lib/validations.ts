@@ -1,7 +1,7 @@
 import { z } from 'zod'
 
 // AI Provider enum
-export const aiProviderSchema = z.enum(['openai', 'claude', 'gemini'])
+export const aiProviderSchema = z.enum(['openai', 'claude', 'gemini', 'openai-compatible'])
 
 // Track schema for swap requests
 export const trackSchema = z.object({
@@ -13,6 +13,7 @@ export const trackSchema = z.object({
   key: z.string().max(20).optional(),
   genre: z.string().max(100).optional(),
   energy: z.number().min(1).max(100).optional(),
+  bpm: z.number().min(40).max(250).optional(),
   thumbnail: z.string().url().optional(),
   aiReasoning: z.string().max(2000).optional(),
 })
@@ -76,6 +77,14 @@ export const swapTrackSchema = z.object({
   styleHint: z.string().max(500).optional(),
 })
 
+// Bridge-track request schema
+export const bridgeTracksSchema = z.object({
+  previousTrack: trackSchema,
+  nextTrack: trackSchema,
+  constraints: aiConstraintsSchema,
+  provider: aiProviderSchema.default('openai'),
+})
+
 // YouTube enrichment request schema
 export const youtubeEnrichSchema = z.object({
   artist: z.string().min(1, 'Artist is required').max(500),
@@ -87,6 +96,53 @@ export const youtubeSearchSchema = z.object({
   q: z.string().min(1, 'Query is required').max(500),
 })
 
+// BPM/key correction request schema
+export const bpmKeyCorrectionSchema = z.object({
+  artist: z.string().min(1, 'Artist is required').max(500),
+  title: z.string().min(1, 'Title is required').max(500),
+  bpm: z.number().min(40).max(250).optional(),
+  key: z.string().min(1).max(20).optional(),
+}).refine(data => data.bpm !== undefined || data.key !== undefined, {
+  message: 'bpm or key is required',
+})
+
+// Conversational set edit request schema
+export const editSetSchema = z.object({
+  instruction: z.string().min(1, 'Instruction is required').max(1000, 'Instruction too long'),
+  playlist: z.array(z.object({
+    title: z.string().min(1).max(500),
+    artist: z.string().min(1).max(500),
+    energy: z.number().min(1).max(100).optional(),
+    targetEnergy: z.number().min(1).max(100).optional(),
+    bpm: z.number().min(40).max(250).optional(),
+    key: z.string().max(20).optional(),
+    genre: z.string().max(100).optional(),
+    isLocked: z.boolean().optional(),
+    isEnergyLocked: z.boolean().optional(),
+  })).min(1, 'Set is empty').max(100),
+  history: z.array(z.object({
+    role: z.enum(['user', 'assistant']),
+    content: z.string().max(2000),
+  })).max(20).optional(),
+  prompt: z.string().max(2000).optional(),
+  provider: aiProviderSchema.default('openai'),
+})
+
+// Unplayable video fallback request schemas
+export const videoFallbackSchema = z.object({
+  artist: z.string().min(1, 'Artist is required').max(500),
+  title: z.string().min(1, 'Title is required').max(500),
+  failedVideoId: z.string().min(1).max(20),
+  exclude: z.array(z.string().max(20)).max(20).optional(),
+})
+
+export const confirmVideoFallbackSchema = z.object({
+  artist: z.string().min(1, 'Artist is required').max(500),
+  title: z.string().min(1, 'Title is required').max(500),
+  videoId: z.string().min(1).max(20),
+  exclude: z.array(z.string().max(20)).max(20).optional(),
+})
+
 // Save set request schema
 export const saveSetSchema = z.object({
   id: z.string().min(1).max(100),
@@ -96,12 +152,44 @@ export const saveSetSchema = z.object({
   updatedAt: z.string().datetime().optional(),
 })
 
+// Play session sync request schema
+export const playSessionSchema = z.object({
+  session: z.object({
+    id: z.string().min(1).max(100),
+    setId: z.string().min(1).max(100),
+    setName: z.string().max(200),
+    startedAt: z.number(),
+    endedAt: z.number().optional(),
+    entries: z.array(z.object({
+      nodeId: z.string().max(100),
+      artist: z.string().max(500),
+      title: z.string().max(500),
+      youtubeId: z.string().max(20).optional(),
+      startedAt: z.number(),
+      endedAt: z.number().optional(),
+      startOffset: z.number(),
+      crossfadeAt: z.number().optional(),
+      endReason: z.enum(['finished', 'crossfade', 'skipped', 'jumped', 'stopped']).optional(),
+      seeks: z.array(z.object({
+        at: z.number(),
+        from: z.number(),
+        to: z.number(),
+      })).max(200),
+    })).max(500),
+  }),
+})
+
 // Type exports for use in API routes
 export type GeneratePlaylistInput = z.infer<typeof generatePlaylistSchema>
 export type SwapTrackInput = z.infer<typeof swapTrackSchema>
 export type YouTubeEnrichInput = z.infer<typeof youtubeEnrichSchema>
 export type YouTubeSearchInput = z.infer<typeof youtubeSearchSchema>
 export type SaveSetInput = z.infer<typeof saveSetSchema>
+export type PlaySessionInput = z.infer<typeof playSessionSchema>
+export type BpmKeyCorrectionInput = z.infer<typeof bpmKeyCorrectionSchema>
+export type EditSetInput = z.infer<typeof editSetSchema>
+export type BridgeTracksInput = z.infer<typeof bridgeTracksSchema>
+export type VideoFallbackInput = z.infer<typeof videoFallbackSchema>
 
 /**
  * Validate request body against a Zod schema
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { reportUnplayableVideo, getBlockedVideos } from './video-cache'
+
+// The Redis client is created when the module loads
+vi.hoisted(() => {
+  process.env.UPSTASH_REDIS_REST_URL = 'https://redis.test'
+  process.env.UPSTASH_REDIS_REST_TOKEN = 'token'
+})
+
+// In-memory stand-in for the blocklist keys
+const sets = new Map<string, Set<string>>()
+const values = new Map<string, unknown>()
+
+vi.mock('@upstash/redis', () => ({
+  Redis: class {
+    multi() {
+      const results: unknown[] = []
+      const tx = {
+        sadd: (key: string, member: string) => {
+          const set = sets.get(key) ?? new Set<string>()
+          results.push(set.has(member) ? 0 : 1)
+          sets.set(key, set.add(member))
+          return tx
+        },
+        expire: () => {
+          results.push(1)
+          return tx
+        },
+        scard: (key: string) => {
+          results.push(sets.get(key)?.size ?? 0)
+          return tx
+        },
+        exec: async () => results,
+      }
+      return tx
+    }
+    async set(key: string, value: unknown) {
+      values.set(key, value)
+      return 'OK'
+    }
+    async mget(...keys: string[]) {
+      return keys.map((key) => values.get(key) ?? null)
+    }
+  },
+}))
+
+describe('video blocklist', () => {
+  beforeEach(() => {
+    sets.clear()
+    values.clear()
+  })
+
+  it('blocks a video once three different users reported it', async () => {
+    expect(await reportUnplayableVideo('vid00000001', 'a@example.com')).toBe(false)
+    expect(await reportUnplayableVideo('vid00000001', 'b@example.com')).toBe(false)
+    expect(await getBlockedVideos(['vid00000001'])).toEqual(new Set())
+
+    expect(await reportUnplayableVideo('vid00000001', 'c@example.com')).toBe(true)
+    expect(await getBlockedVideos(['vid00000001', 'vid00000002'])).toEqual(new Set(['vid00000001']))
+  })
+
+  it('counts repeated reports from one user once', async () => {
+    for (let i = 0; i < 5; i++) {
+      await reportUnplayableVideo('vid00000001', 'DJ@example.com ')
+      await reportUnplayableVideo('vid00000001', 'dj@example.com')
+    }
+    expect(await getBlockedVideos(['vid00000001'])).toEqual(new Set())
+  })
+})
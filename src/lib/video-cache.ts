@@ -5,6 +5,7 @@
  * Uses Upstash Redis for persistent cross-request caching.
  */
 
+import { createHash } from 'crypto'
 import { Redis } from '@upstash/redis'
 
 export interface CachedVideoData {
@@ -36,13 +37,20 @@ try {
 }
 
 /**
- * Generate a cache key for a track
+ * Normalized artist/title identity shared by the per-track Redis stores
  */
-function getCacheKey(artist: string, title: string): string {
+export function normalizeTrackIdentity(artist: string, title: string): string {
   // Normalize: lowercase, remove special chars, trim
   const normalizedArtist = artist.toLowerCase().trim().replace(/[^\w\s]/g, '')
   const normalizedTitle = title.toLowerCase().trim().replace(/[^\w\s]/g, '')
-  return `video:${normalizedArtist}:${normalizedTitle}`
+  return `${normalizedArtist}:${normalizedTitle}`
+}
+
+/**
+ * Generate a cache key for a track
+ */
+function getCacheKey(artist: string, title: string): string {
+  return `video:${normalizeTrackIdentity(artist, title)}`
 }
 
 /**
@@ -161,6 +169,80 @@ export async function cacheVideos(
   }
 }
 
+// === BLOCKLIST ===
+
+// Embed errors are often regional (150 in particular), so a video is only
+// blocked for everyone once this many different users reported it
+const BLOCK_REPORT_THRESHOLD = 3
+
+// Reports older than this stop counting
+const REPORT_TTL_SECONDS = 7 * 24 * 60 * 60
+
+// Blocks lapse too: uploaders re-enable embedding, regional limits change
+const BLOCK_TTL_SECONDS = 30 * 24 * 60 * 60
+
+const reportsKey = (videoId: string) => `video:reports:${videoId}`
+const blockedKey = (videoId: string) => `video:blocked:${videoId}`
+
+function getReporterId(email: string): string {
+  return createHash('sha256').update(email.trim().toLowerCase()).digest('hex').slice(0, 16)
+}
+
+/**
+ * Record a user's report that the embedded player refused a video. Returns
+ * true once enough different users reported it and it is blocked.
+ */
+export async function reportUnplayableVideo(videoId: string, reporterEmail: string): Promise<boolean> {
+  if (!cacheEnabled || !redis) {
+    return false
+  }
+
+  try {
+    const key = reportsKey(videoId)
+    const [, , reports] = await redis
+      .multi()
+      .sadd(key, getReporterId(reporterEmail))
+      .expire(key, REPORT_TTL_SECONDS)
+      .scard(key)
+      .exec<[number, number, number]>()
+
+    if (reports < BLOCK_REPORT_THRESHOLD) {
+      console.log(`[VideoCache] Report for ${videoId} (${reports}/${BLOCK_REPORT_THRESHOLD})`)
+      return false
+    }
+
+    await redis.set(blockedKey(videoId), reports, { ex: BLOCK_TTL_SECONDS })
+    console.log(`[VideoCache] BLOCKED: ${videoId} (${reports} reports)`)
+    return true
+  } catch (error) {
+    console.error('[VideoCache] Error reporting video:', error)
+    return false
+  }
+}
+
+/**
+ * Which of these videos are currently blocked
+ */
+export async function getBlockedVideos(videoIds: string[]): Promise<Set<string>> {
+  const blocked = new Set<string>()
+  const ids = videoIds.filter(Boolean)
+
+  if (!cacheEnabled || !redis || ids.length === 0) {
+    return blocked
+  }
+
+  try {
+    const flags = await redis.mget<(number | null)[]>(...ids.map(blockedKey))
+    flags.forEach((flag, index) => {
+      if (flag) blocked.add(ids[index])
+    })
+  } catch (error) {
+    console.error('[VideoCache] Error reading blocklist:', error)
+  }
+
+  return blocked
+}
+
 /**
  * Get cache statistics
  */
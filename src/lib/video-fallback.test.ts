@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { searchAlternativeSources } from './invidious-search'
+import { cacheVideo, getBlockedVideos, reportUnplayableVideo } from './video-cache'
+import { confirmFallbackVideo, replaceUnplayableVideo } from './video-fallback'
+
+vi.mock('./invidious-search', () => ({ searchAlternativeSources: vi.fn() }))
+vi.mock('./video-cache', () => ({
+  cacheVideo: vi.fn(async () => undefined),
+  getBlockedVideos: vi.fn(async () => new Set<string>()),
+  reportUnplayableVideo: vi.fn(async () => false),
+}))
+
+const topicUpload = {
+  videoId: 'topic123456',
+  title: 'One More Time',
+  thumbnail: 'https://i.ytimg.com/topic.jpg',
+  duration: 320,
+  channelName: 'Daft Punk - Topic',
+}
+
+beforeEach(() => {
+  vi.mocked(searchAlternativeSources).mockReset().mockResolvedValue(topicUpload)
+  vi.mocked(cacheVideo).mockClear()
+  vi.mocked(getBlockedVideos).mockClear()
+  vi.mocked(reportUnplayableVideo).mockClear()
+})
+
+describe('replaceUnplayableVideo', () => {
+  it('reports the failed video for the user and skips it', async () => {
+    const candidates = await replaceUnplayableVideo('Daft Punk', 'One More Time', 'dead0000000', 'dj@example.com')
+    expect(reportUnplayableVideo).toHaveBeenCalledWith('dead0000000', 'dj@example.com')
+    expect(candidates.map((candidate) => candidate.videoId)).toEqual(['topic123456'])
+  })
+})
+
+describe('confirmFallbackVideo', () => {
+  it('caches an upload the search finds, with the search metadata', async () => {
+    expect(await confirmFallbackVideo('Daft Punk', 'One More Time', 'topic123456')).toBe(true)
+    expect(cacheVideo).toHaveBeenCalledWith('Daft Punk', 'One More Time', {
+      videoId: 'topic123456',
+      title: 'One More Time',
+      thumbnail: 'https://i.ytimg.com/topic.jpg',
+      duration: 320,
+      source: 'invidious',
+    })
+  })
+
+  it('rejects a video the search does not return for the track', async () => {
+    expect(await confirmFallbackVideo('Daft Punk', 'One More Time', 'rickroll000')).toBe(false)
+    expect(cacheVideo).not.toHaveBeenCalled()
+  })
+
+  it('rejects a blocked video', async () => {
+    vi.mocked(getBlockedVideos).mockResolvedValue(new Set(['topic123456']))
+    expect(await confirmFallbackVideo('Daft Punk', 'One More Time', 'topic123456')).toBe(false)
+  })
+})
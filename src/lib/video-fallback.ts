@@ -0,0 +1,120 @@
+/**
+ * Video Fallback
+ *
+ * Some videos won't play in the embedded player: removed (error 100) or with
+ * embedding disabled by the uploader (101/150). The player then asks for
+ * other uploads of the same track. Candidates come from Invidious/Piped and
+ * are ranked so "official audio" and auto-generated "- Topic" uploads (which
+ * nearly always allow embedding) come first. Failed videos are reported, and
+ * once several users reported one it is blocked for a while so later
+ * searches skip it.
+ */
+
+import { searchAlternativeSources, type VideoSearchResult } from './invidious-search'
+import { reportUnplayableVideo, getBlockedVideos, cacheVideo } from './video-cache'
+import { scoreVideoMatch, VERIFICATION_THRESHOLD } from './track-verification'
+
+// Candidates returned to the player per lookup
+export const MAX_FALLBACK_CANDIDATES = 3
+
+// Queries tried in order; the search returns one video each
+const FALLBACK_QUERY_SUFFIXES = ['official audio', 'topic', 'audio', '']
+
+export interface FallbackCandidate extends VideoSearchResult {
+  score: number
+}
+
+/**
+ * Rank an upload of the track: match quality first, then a bonus for
+ * official audio / topic uploads and a penalty for live, cover and remix uploads
+ */
+export function scoreFallbackCandidate(
+  track: { artist: string; title: string },
+  video: Pick<VideoSearchResult, 'title' | 'channelName'>
+): number {
+  let score = scoreVideoMatch(track, video)
+  const title = video.title.toLowerCase()
+  const channel = (video.channelName || '').toLowerCase()
+  const expected = track.title.toLowerCase()
+
+  if (channel.endsWith('- topic')) score += 0.3
+  if (title.includes('official audio')) score += 0.2
+  else if (title.includes('audio')) score += 0.1
+  if (channel.includes('vevo')) score -= 0.1 // Music videos from VEVO are often embed-restricted
+
+  for (const word of ['live', 'cover', 'remix', 'karaoke', 'reaction']) {
+    if (title.includes(word) && !expected.includes(word)) score -= 0.3
+  }
+
+  return Math.round(score * 100) / 100
+}
+
+/**
+ * Find other uploads of a track, best first, skipping blocked and excluded videos
+ */
+export async function findFallbackVideos(
+  artist: string,
+  title: string,
+  exclude: string[] = []
+): Promise<FallbackCandidate[]> {
+  const searches = await Promise.all(
+    FALLBACK_QUERY_SUFFIXES.map((suffix) => searchAlternativeSources(`${artist} - ${title} ${suffix}`.trim()))
+  )
+
+  const seen = new Set(exclude)
+  const unique: VideoSearchResult[] = []
+  for (const result of searches) {
+    if (result && !seen.has(result.videoId)) {
+      seen.add(result.videoId)
+      unique.push(result)
+    }
+  }
+
+  const blocked = await getBlockedVideos(unique.map((video) => video.videoId))
+
+  return unique
+    .filter((video) => !blocked.has(video.videoId))
+    .map((video) => ({ ...video, score: scoreFallbackCandidate({ artist, title }, video) }))
+    .filter((video) => video.score >= VERIFICATION_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_FALLBACK_CANDIDATES)
+}
+
+/**
+ * Report a video the player couldn't use and look for replacements
+ */
+export async function replaceUnplayableVideo(
+  artist: string,
+  title: string,
+  failedVideoId: string,
+  reporterEmail: string,
+  exclude: string[] = []
+): Promise<FallbackCandidate[]> {
+  await reportUnplayableVideo(failedVideoId, reporterEmail)
+  return findFallbackVideos(artist, title, [failedVideoId, ...exclude])
+}
+
+/**
+ * A replacement played: make it the cached video for the track. Only an
+ * upload the fallback search finds for this track is accepted, cached with
+ * the search's own metadata. Returns false for anything else.
+ */
+export async function confirmFallbackVideo(
+  artist: string,
+  title: string,
+  videoId: string,
+  exclude: string[] = []
+): Promise<boolean> {
+  const candidates = await findFallbackVideos(artist, title, exclude.filter((id) => id !== videoId))
+  const video = candidates.find((candidate) => candidate.videoId === videoId)
+  if (!video) return false
+
+  await cacheVideo(artist, title, {
+    videoId: video.videoId,
+    title: video.title,
+    thumbnail: video.thumbnail,
+    duration: video.duration,
+    source: 'invidious',
+  })
+  return true
+}
@@ -10,8 +10,9 @@
  * This dramatically reduces YouTube API quota usage.
  */
 
-import { getCachedVideo, cacheVideo, getCachedVideos, cacheVideos, type CachedVideoData } from './video-cache'
+import { getCachedVideo, cacheVideo, getCachedVideos, cacheVideos, getBlockedVideos, type CachedVideoData } from './video-cache'
 import { searchAlternativeSources, type VideoSearchResult } from './invidious-search'
+import { findFallbackVideos } from './video-fallback'
 import { searchiTunes, type AlbumArtResult } from './itunes-search'
 
 export interface EnrichedTrackData {
@@ -30,6 +31,21 @@ interface SearchOptions {
   timeout?: number
 }
 
+/**
+ * Search Invidious/Piped, stepping past videos on the blocklist
+ */
+async function searchPlayableVideo(artist: string, title: string): Promise<VideoSearchResult | null> {
+  const result = await searchAlternativeSources(`${artist} - ${title} official audio`)
+  if (!result) return null
+
+  const blocked = await getBlockedVideos([result.videoId])
+  if (!blocked.has(result.videoId)) return result
+
+  console.log(`[VideoSearch] ${result.videoId} is blocked, looking for another upload`)
+  const [fallback] = await findFallbackVideos(artist, title, [result.videoId])
+  return fallback ?? null
+}
+
 /**
  * Search for video data with tiered fallback
  */
@@ -39,13 +55,13 @@ export async function searchVideoData(
   options: SearchOptions = {}
 ): Promise<EnrichedTrackData | null> {
   const { skipYouTube = false, preferAlbumArt = true } = options
-  const query = `${artist} - ${title} official audio`
 
   console.log(`[VideoSearch] Searching: ${artist} - ${title}`)
 
-  // Step 1: Check cache
+  // Step 1: Check cache (a blocked video means the entry is stale)
   const cached = await getCachedVideo(artist, title)
-  if (cached) {
+  const blocked = await getBlockedVideos(cached ? [cached.videoId] : [])
+  if (cached && !blocked.has(cached.videoId)) {
     return {
       videoId: cached.videoId,
       thumbnail: cached.thumbnail,
@@ -55,7 +71,7 @@ export async function searchVideoData(
   }
 
   // Step 2: Try Invidious/Piped (free, no quota)
-  const altResult = await searchAlternativeSources(query)
+  const altResult = await searchPlayableVideo(artist, title)
 
   if (altResult) {
     // Get album art from iTunes if preferred (higher quality)
@@ -130,8 +146,14 @@ export async function batchSearchVideoData(
 
   console.log(`[VideoSearch] Batch searching ${tracks.length} tracks`)
 
-  // Step 1: Bulk cache lookup
+  // Step 1: Bulk cache lookup (entries pointing at blocked videos are stale)
   const cachedResults = await getCachedVideos(tracks)
+  const blockedCached = await getBlockedVideos(Array.from(cachedResults.values()).map(c => c.videoId))
+  blockedCached.forEach((videoId) => {
+    cachedResults.forEach((cached, key) => {
+      if (cached.videoId === videoId) cachedResults.delete(key)
+    })
+  })
 
   const uncachedTracks: { artist: string; title: string }[] = []
 
@@ -167,8 +189,7 @@ export async function batchSearchVideoData(
 
     const batchResults = await Promise.allSettled(
       batch.map(async (track) => {
-        const query = `${track.artist} - ${track.title} official audio`
-        const altResult = await searchAlternativeSources(query)
+        const altResult = await searchPlayableVideo(track.artist, track.title)
 
         if (altResult) {
           // Get album art if preferred
@@ -21,17 +21,79 @@ import type {
   SimilarPlaylistRef,
   PromptTemplate,
   GenerationProgress,
+  ActiveGenerationJob,
   ProviderPlaylist,
   SetSegment,
   SegmentConstraints,
   SegmentPreset,
   AutoMixState,
+  RadioState,
+  RehearsalSession,
+  RehearsalPhase,
+  RehearsalRating,
+  PlaySession,
+  PlayLogEndReason,
   DualPlayerState,
+  DeckId,
+  ManualDecksState,
   PublishMixtapeRequest,
   CoverTemplateId,
   CoverColors,
+  Transition,
+  Cue,
+  BeatGrid,
+  GainSource,
+  BpmKeySource,
+  SetEditPlan,
 } from '@/types'
 import { SEGMENT_PRESETS } from '@/types'
+import { getNodeMixInTime } from '@/lib/cues'
+import { submitBpmKeyCorrection } from '@/lib/bpm-key-estimation'
+import { fixFromAlternatives } from '@/lib/constraint-compliance'
+import { applyEditPlan, checkEditOperations } from '@/lib/set-edit-plan'
+import { toCamelot } from '@/lib/music-key'
+import { resumeGenerationJob, cancelGenerationJob, streamGenerateSegment } from '@/lib/ai-stream-service'
+import {
+  DEFAULT_RADIO_STATE,
+  RADIO_RETRY_COOLDOWN_MS,
+  shouldExtendRadio,
+  buildRadioContext,
+  getRadioExcludedTracks,
+  createRadioSegment,
+  filterRepeatedTracks,
+  getRadioTrackCount,
+} from '@/lib/radio'
+import { DEFAULT_REHEARSAL_LEAD_SECONDS } from '@/lib/rehearsal'
+import {
+  createPlaySession,
+  beginPlayLogEntry,
+  endPlayLogEntry,
+  endPlaySession,
+  markPlayLogCrossfade,
+  addPlayLogSeek,
+  upsertPlaySession,
+  getTracklist,
+} from '@/lib/play-log'
+import { clampGainDb, matchLoudness as applyLoudnessTable, rememberLoudness } from '@/lib/gain'
+import type { LoudnessTable } from '@/lib/gain'
+import {
+  DEFAULT_MANUAL_DECK,
+  DEFAULT_MANUAL_DECKS_STATE,
+  getOtherDeck,
+  getSyncPlaybackRate,
+  snapPlaybackRate,
+} from '@/lib/manual-decks'
+
+// BPM/key enrichment for a single node (key omitted = keep the current key)
+interface BpmKeyUpdate {
+  nodeIndex: number
+  bpm: number
+  key?: string
+  camelotCode?: string
+  source?: BpmKeySource
+  confidence?: number
+  verified?: boolean
+}
 
 // Player State
 interface PlayerState {
@@ -43,6 +105,36 @@ interface PlayerState {
   playingNodeIndex: number | null
   startTime: number // Start time for current track (for skipping intros)
   enrichingNodeIndex: number | null // Track currently being enriched for playback
+  seekRequest: number | null // Pending seek (seconds) for the active player to pick up
+}
+
+// Infinite radio progress (not persisted)
+interface RadioStatus {
+  isExtending: boolean
+  error: string | null
+  lastFailedAt: number | null
+  resumeOnExtend: boolean // Playback hit the end while extending; play on when tracks land
+}
+
+// Other uploads tried before a track is given up on
+const MAX_VIDEO_FALLBACKS = 3
+
+// Lookups in flight by node ID, so repeated player errors share one search
+const videoFallbackRequests = new Map<string, Promise<string | null>>()
+
+// Another upload of a track, from /api/video/alternatives
+interface FallbackVideo {
+  videoId: string
+  title: string
+  thumbnail: string
+  duration: number
+}
+
+// Replacing a video the embed refused, per node
+interface VideoFallbackAttempt {
+  failedIds: string[] // Uploads of this track that wouldn't play
+  isSearching: boolean
+  pending: FallbackVideo | null // Swapped in, not yet seen playing
 }
 
 // UI State
@@ -143,12 +235,23 @@ interface YTDJState {
   updateSetWithPrompt: (playlist: PlaylistNode[], prompt: string) => void
   updatePrompt: (prompt: string) => void
   updateNodeStartTime: (nodeIndex: number, startTime: number) => void
+  updateNodeTransition: (nodeIndex: number, updates: Partial<Transition>) => void
+  setNodeCues: (nodeIndex: number, cues: Cue[]) => void
+  setNodeBeatGrid: (nodeIndex: number, beatGrid: BeatGrid | undefined) => void
+  // Gain trim (dB); null clears it. Manual trims and nudges are also remembered in the loudness table.
+  loudnessTable: LoudnessTable
+  setNodeGain: (nodeIndex: number, gainDb: number | null, source?: GainSource) => void
+  nudgeNodeGain: (nodeIndex: number, deltaDb: number) => void
+  // Fill untrimmed nodes from the loudness table; returns how many were matched
+  matchLoudness: () => number
   updateCoverArt: (coverArt: string | undefined) => void
+  importSet: (name: string, playlist: PlaylistNode[]) => Set
 
   // Player State
   player: PlayerState
   setPlayerState: (state: Partial<PlayerState>) => void
-  playTrack: (nodeIndex: number) => void
+  playTrack: (nodeIndex: number, startAt?: number) => void
+  seekTo: (time: number) => void
   pauseTrack: () => void
   stopTrack: () => void
   skipNext: () => void
@@ -156,6 +259,10 @@ interface YTDJState {
   enrichAndPlayTrack: (nodeIndex: number) => Promise<void>
   updateTrackYouTubeData: (nodeIndex: number, data: { youtubeId: string; thumbnail?: string; duration?: number }) => void
   setTrackState: (nodeIndex: number, state: NodeState) => void
+  videoFallbacks: Record<string, VideoFallbackAttempt>
+  // Swap in another upload of a track whose video won't play; resolves to the new video ID (null = gave up)
+  replaceUnplayableVideo: (nodeIndex: number, failedVideoId: string) => Promise<string | null>
+  confirmVideoFallback: (videoId: string) => void
 
   // UI State
   ui: UIState
@@ -168,6 +275,12 @@ interface YTDJState {
   addToBlacklist: (item: string) => void
   removeFromBlacklist: (index: number) => void
   toggleDecade: (decade: string) => void
+  // Swap constraint-breaking tracks for compliant alternatives; returns how many were fixed
+  fixConstraintViolations: (constraints: AIConstraints) => number
+  // Apply a conversational edit plan as one undo step; returns how many operations applied
+  applySetEditPlan: (plan: SetEditPlan) => number
+  // Insert bridge tracks after a node (one undo step)
+  insertBridgeTracks: (afterIndex: number, tracks: Track[]) => void
 
   // Loading States
   isGenerating: boolean
@@ -219,6 +332,7 @@ interface YTDJState {
   generationProgress: GenerationProgress
   startParallelGeneration: (trackCount: number) => void
   setProviderStarted: (provider: AIProvider) => void
+  receiveGeneratedTrack: (provider: AIProvider, index: number, node: PlaylistNode) => void
   receivePrimaryResult: (provider: AIProvider, tracks: PlaylistNode[]) => void
   receiveAlternativeResult: (provider: AIProvider, tracks: PlaylistNode[]) => void
   setProviderFailed: (provider: AIProvider, error: string) => void
@@ -226,6 +340,11 @@ interface YTDJState {
   completeGeneration: (summary: { primary: AIProvider | null; alternatives: AIProvider[]; failed: AIProvider[] }) => void
   failAllGeneration: (errors: { provider: AIProvider; error: string }[]) => void
   resetGenerationProgress: () => void
+  // Server-side job behind the current generation (survives reloads)
+  activeGenerationJob: ActiveGenerationJob | null
+  setActiveGenerationJob: (job: ActiveGenerationJob | null) => void
+  reattachGenerationJob: () => (() => void) | null
+  cancelActiveGeneration: () => Promise<void>
   swapWithProviderAlternative: (provider: AIProvider) => void
   combineAllProviders: () => void
 
@@ -262,14 +381,48 @@ interface YTDJState {
   setAutoMixMode: (mode: 'seamless' | 'gapped') => void
   setAutoMixCrossfadeDuration: (seconds: number) => void
 
+  // Infinite Radio
+  radio: RadioState
+  radioStatus: RadioStatus
+  setRadioSettings: (updates: Partial<Omit<RadioState, 'extensionsUsed'>>) => void
+  checkRadioExtension: () => void
+  extendRadio: () => Promise<void>
+
+  // Transition Rehearsal (not persisted; verdicts are saved on each Transition)
+  rehearsal: RehearsalSession | null
+  startRehearsal: (leadSeconds?: number) => void
+  setRehearsalPhase: (phase: RehearsalPhase) => void
+  rateRehearsalTransition: (rating: RehearsalRating | null) => void
+  stopRehearsal: () => void
+
+  // Play Log (what was actually played, for tracklists and history)
+  playSessions: PlaySession[]
+  activePlaySessionId: string | null
+  logTrackStart: (nodeIndex: number, startOffset: number, reason: PlayLogEndReason) => void
+  markPlayLog: (mark: 'crossfade' | 'finished') => void
+  endActivePlaySession: () => void
+  syncPlaySession: (sessionId: string) => Promise<{ success: boolean; error?: string }>
+  fetchPlaySessions: () => Promise<{ success: boolean; error?: string }>
+
   // Dual Player State (for AutoMix crossfade)
   dualPlayer: DualPlayerState
   setDualPlayerState: (state: Partial<DualPlayerState>) => void
   resetDualPlayer: () => void
 
+  // Manual Decks (two decks driven by hand in the session view; not persisted)
+  manualDecks: ManualDecksState
+  setManualDecksEnabled: (enabled: boolean) => void
+  loadDeck: (deck: DeckId, nodeId: string | null) => void
+  setDeckPlaybackRate: (deck: DeckId, rate: number) => void
+  setDeckCuePoint: (deck: DeckId, time: number) => void
+  // Match the other deck's tempo; false if either BPM is unknown
+  syncDeck: (deck: DeckId, availableRates?: number[]) => boolean
+  setCrossfader: (position: number) => void
+
   // Track BPM/Key enrichment
   enrichTrackBpmKey: (nodeIndex: number, bpm: number, key: string, camelotCode?: string) => void
-  batchEnrichBpmKey: (updates: Array<{ nodeIndex: number; bpm: number; key: string; camelotCode?: string }>) => void
+  batchEnrichBpmKey: (updates: BpmKeyUpdate[]) => void
+  correctTrackBpmKey: (nodeIndex: number, correction: { bpm?: number; key?: string }) => void
 
   // Mixtape Publishing
   likedMixtapes: string[]
@@ -443,12 +596,104 @@ export const useYTDJStore = create<YTDJState>()(
           currentSet: { ...currentSet, prompt, updatedAt: new Date() }
         }
       }),
+      updateNodeTransition: (nodeIndex, updates) => set((state) => {
+        if (!state.currentSet) return state
+        const playlist = [...state.currentSet.playlist]
+        if (nodeIndex < 0 || nodeIndex >= playlist.length - 1) return state
+        const transition: Transition = playlist[nodeIndex].transitionToNext || {
+          quality: 'good',
+          type: 'blend',
+          duration: 16,
+        }
+        playlist[nodeIndex] = {
+          ...playlist[nodeIndex],
+          transitionToNext: { ...transition, ...updates },
+        }
+        return {
+          currentSet: { ...state.currentSet, playlist, updatedAt: new Date() }
+        }
+      }),
+      setNodeCues: (nodeIndex, cues) => set((state) => {
+        if (!state.currentSet) return state
+        const playlist = [...state.currentSet.playlist]
+        if (nodeIndex < 0 || nodeIndex >= playlist.length) return state
+        playlist[nodeIndex] = { ...playlist[nodeIndex], cues }
+        return {
+          currentSet: { ...state.currentSet, playlist, updatedAt: new Date() }
+        }
+      }),
+      setNodeBeatGrid: (nodeIndex, beatGrid) => set((state) => {
+        if (!state.currentSet) return state
+        const playlist = [...state.currentSet.playlist]
+        if (nodeIndex < 0 || nodeIndex >= playlist.length) return state
+        playlist[nodeIndex] = { ...playlist[nodeIndex], beatGrid }
+        return {
+          currentSet: { ...state.currentSet, playlist, updatedAt: new Date() }
+        }
+      }),
+      loudnessTable: {},
+      setNodeGain: (nodeIndex, gainDb, source = 'manual') => {
+        if (!get().currentSet?.playlist[nodeIndex]) return
+        get().pushHistory()
+        set((state) => {
+          if (!state.currentSet) return state
+          const playlist = [...state.currentSet.playlist]
+          const node = playlist[nodeIndex]
+          const youtubeId = node.track.youtubeId
+          let loudnessTable = state.loudnessTable
+
+          if (gainDb === null) {
+            playlist[nodeIndex] = { ...node, gainDb: undefined, gainSource: undefined }
+            if (youtubeId) loudnessTable = rememberLoudness(loudnessTable, youtubeId, null)
+          } else {
+            const clamped = clampGainDb(gainDb)
+            playlist[nodeIndex] = { ...node, gainDb: clamped, gainSource: source }
+            if (youtubeId && source !== 'matched') loudnessTable = rememberLoudness(loudnessTable, youtubeId, clamped)
+          }
+
+          return {
+            currentSet: { ...state.currentSet, playlist, updatedAt: new Date() },
+            loudnessTable,
+          }
+        })
+      },
+      nudgeNodeGain: (nodeIndex, deltaDb) => {
+        const node = get().currentSet?.playlist[nodeIndex]
+        if (!node) return
+        get().setNodeGain(nodeIndex, (node.gainDb ?? 0) + deltaDb, 'nudge')
+      },
+      matchLoudness: () => {
+        const { currentSet, loudnessTable } = get()
+        if (!currentSet) return 0
+        const { playlist, matched } = applyLoudnessTable(currentSet.playlist, loudnessTable)
+        if (matched > 0) {
+          get().pushHistory()
+          set({ currentSet: { ...currentSet, playlist, updatedAt: new Date() } })
+        }
+        return matched
+      },
       updateCoverArt: (coverArt) => set((state) => {
         if (!state.currentSet) return state
         return {
           currentSet: { ...state.currentSet, coverArt, updatedAt: new Date() }
         }
       }),
+      importSet: (name, playlist) => {
+        const importedSet: Set = {
+          id: `set-${Date.now()}`,
+          name,
+          playlist: playlist.map((node, index) => ({ ...node, position: index })),
+          createdAt: new Date(),
+          updatedAt: new Date()
+        }
+        set((state) => ({
+          sets: [...state.sets, importedSet],
+          currentSet: importedSet,
+          history: [JSON.parse(JSON.stringify(importedSet))],
+          historyIndex: 0,
+        }))
+        return importedSet
+      },
       updateNodeStartTime: (nodeIndex, startTime) => set((state) => {
         if (!state.currentSet) return state
         const playlist = [...state.currentSet.playlist]
@@ -468,12 +713,13 @@ export const useYTDJStore = create<YTDJState>()(
         volume: 80,
         playingNodeIndex: null,
         startTime: 0,
-        enrichingNodeIndex: null
+        enrichingNodeIndex: null,
+        seekRequest: null
       },
       setPlayerState: (playerUpdates) => set((state) => ({
         player: { ...state.player, ...playerUpdates }
       })),
-      playTrack: (nodeIndex) => {
+      playTrack: (nodeIndex, startAt) => {
         const state = get()
         const playlist = state.currentSet?.playlist || []
         const node = playlist[nodeIndex]
@@ -485,8 +731,10 @@ export const useYTDJStore = create<YTDJState>()(
           return
         }
 
-        const startTime = node.startTime || 0
+        const startTime = startAt ?? getNodeMixInTime(node)
         set({
+          // Playing through the set hands the audio back from the manual decks
+          manualDecks: { ...state.manualDecks, enabled: false },
           player: {
             ...state.player,
             currentVideoId: node.track.youtubeId,
@@ -496,26 +744,54 @@ export const useYTDJStore = create<YTDJState>()(
             startTime
           }
         })
+        get().logTrackStart(nodeIndex, startTime, 'jumped')
+        get().checkRadioExtension()
+      },
+      seekTo: (time) => {
+        const state = get()
+        const session = state.playSessions.find(s => s.id === state.activePlaySessionId)
+        if (session && !state.rehearsal) {
+          set({ playSessions: upsertPlaySession(state.playSessions, addPlayLogSeek(session, state.player.currentTime, time)) })
+        }
+        set((state) => ({
+          player: { ...state.player, currentTime: time, seekRequest: time }
+        }))
       },
       pauseTrack: () => set((state) => ({
         player: { ...state.player, isPlaying: false }
       })),
-      stopTrack: () => set((state) => ({
-        player: {
-          ...state.player,
-          isPlaying: false,
-          currentTime: 0,
-          currentVideoId: null,
-          playingNodeIndex: null
-        }
-      })),
+      stopTrack: () => {
+        get().endActivePlaySession()
+        set((state) => ({
+          player: {
+            ...state.player,
+            isPlaying: false,
+            currentTime: 0,
+            currentVideoId: null,
+            playingNodeIndex: null
+          }
+        }))
+      },
       skipNext: () => {
         const state = get()
         const playlist = state.currentSet?.playlist || []
         const currentIndex = state.player.playingNodeIndex
-        if (currentIndex === null || currentIndex >= playlist.length - 1) return
+        if (currentIndex === null) return
+        if (currentIndex >= playlist.length - 1) {
+          // Radio: play on as soon as the extension lands
+          if (state.radio.enabled && state.radioStatus.isExtending) {
+            set({ radioStatus: { ...state.radioStatus, resumeOnExtend: true } })
+          }
+          return
+        }
 
-        const nextIndex = currentIndex + 1
+        // Step over tracks already known not to play
+        let nextIndex = currentIndex + 1
+        while (
+          nextIndex < playlist.length - 1 &&
+          playlist[nextIndex].state === 'unavailable' &&
+          !playlist[nextIndex].track.youtubeId
+        ) nextIndex++
         const nextNode = playlist[nextIndex]
         if (!nextNode?.track) return
 
@@ -525,7 +801,7 @@ export const useYTDJStore = create<YTDJState>()(
           return
         }
 
-        const startTime = nextNode.startTime || 0
+        const startTime = getNodeMixInTime(nextNode)
         set({
           player: {
             ...state.player,
@@ -536,6 +812,8 @@ export const useYTDJStore = create<YTDJState>()(
             startTime
           }
         })
+        get().logTrackStart(nextIndex, startTime, 'skipped')
+        get().checkRadioExtension()
       },
       skipPrevious: () => {
         const state = get()
@@ -553,7 +831,7 @@ export const useYTDJStore = create<YTDJState>()(
           return
         }
 
-        const startTime = prevNode.startTime || 0
+        const startTime = getNodeMixInTime(prevNode)
         set({
           player: {
             ...state.player,
@@ -564,6 +842,7 @@ export const useYTDJStore = create<YTDJState>()(
             startTime
           }
         })
+        get().logTrackStart(prevIndex, startTime, 'skipped')
       },
 
       // On-demand enrichment for playback
@@ -666,6 +945,107 @@ export const useYTDJStore = create<YTDJState>()(
         })
       },
 
+      // Unplayable video fallback
+      videoFallbacks: {},
+      replaceUnplayableVideo: async (nodeIndex, failedVideoId) => {
+        const node = get().currentSet?.playlist[nodeIndex]
+        if (!node?.track) return null
+
+        // The player can report the same failure more than once
+        const inFlight = videoFallbackRequests.get(node.id)
+        if (inFlight) return inFlight
+        const attempt = get().videoFallbacks[node.id] ?? { failedIds: [], isSearching: false, pending: null }
+        if (attempt.failedIds.includes(failedVideoId)) return attempt.pending?.videoId ?? null
+
+        const failedIds = [...attempt.failedIds, failedVideoId]
+        const setAttempt = (next: VideoFallbackAttempt | null) => set((state) => {
+          const videoFallbacks = { ...state.videoFallbacks }
+          if (next) videoFallbacks[node.id] = next
+          else delete videoFallbacks[node.id]
+          return { videoFallbacks }
+        })
+
+        const search = async (): Promise<FallbackVideo | null> => {
+          if (failedIds.length > MAX_VIDEO_FALLBACKS) return null
+          setAttempt({ failedIds, isSearching: true, pending: null })
+          try {
+            const response = await fetch('/api/video/alternatives', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({
+                artist: node.track.artist,
+                title: node.track.title,
+                failedVideoId,
+                exclude: failedIds
+              })
+            })
+            const data = await response.json()
+            return response.ok ? data.alternatives?.[0] ?? null : null
+          } catch (error) {
+            console.error('[replaceUnplayableVideo] Error:', error)
+            return null
+          }
+        }
+
+        const request = search()
+        videoFallbackRequests.set(node.id, request.then((video) => video?.videoId ?? null))
+        const replacement = await request
+        videoFallbackRequests.delete(node.id)
+
+        // The set may have been edited while searching
+        const index = get().currentSet?.playlist.findIndex(n => n.id === node.id) ?? -1
+        if (index < 0) {
+          setAttempt(null)
+          return null
+        }
+
+        if (!replacement) {
+          // Out of uploads: drop the dead video so nothing tries to play it again
+          console.warn(`[replaceUnplayableVideo] No playable upload for: ${node.track.artist} - ${node.track.title}`)
+          setAttempt(null)
+          get().updateTrackYouTubeData(index, { youtubeId: '' })
+          get().setTrackState(index, 'unavailable')
+          return null
+        }
+
+        console.log(`[replaceUnplayableVideo] ${failedVideoId} → ${replacement.videoId}`)
+        setAttempt({ failedIds, isSearching: false, pending: replacement })
+        get().updateTrackYouTubeData(index, {
+          youtubeId: replacement.videoId,
+          duration: replacement.duration
+        })
+        if (get().player.playingNodeIndex === index) {
+          get().setPlayerState({ currentVideoId: replacement.videoId })
+        }
+        return replacement.videoId
+      },
+      confirmVideoFallback: (videoId) => {
+        const { currentSet, videoFallbacks } = get()
+        const nodeId = Object.keys(videoFallbacks).find(id => videoFallbacks[id].pending?.videoId === videoId)
+        if (!nodeId) return
+
+        const node = currentSet?.playlist.find(n => n.id === nodeId)
+        const { failedIds } = videoFallbacks[nodeId]
+        set((state) => {
+          const next = { ...state.videoFallbacks }
+          delete next[nodeId]
+          return { videoFallbacks: next }
+        })
+        if (!node) return
+
+        // Make it the cached video for the track (best effort)
+        fetch('/api/video/alternatives', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            artist: node.track.artist,
+            title: node.track.title,
+            videoId,
+            exclude: failedIds
+          })
+        }).catch((error) => console.error('[confirmVideoFallback] Error:', error))
+      },
+
       // UI State
       ui: {
         leftSidebarPanel: 'arrangement',
@@ -716,6 +1096,62 @@ export const useYTDJStore = create<YTDJState>()(
         }
       }),
 
+      fixConstraintViolations: (constraints) => {
+        const playlist = get().currentSet?.playlist
+        if (!playlist || playlist.length === 0) return 0
+
+        const { nodes, fixed } = fixFromAlternatives(playlist, constraints)
+        if (fixed.length === 0) return 0
+
+        get().pushHistory()
+        set((state) => state.currentSet
+          ? { currentSet: { ...state.currentSet, playlist: nodes, updatedAt: new Date() } }
+          : state
+        )
+        return fixed.length
+      },
+
+      applySetEditPlan: (plan) => {
+        const playlist = get().currentSet?.playlist
+        if (!playlist || playlist.length === 0) return 0
+
+        // Locks may have changed since the plan was made
+        const { operations } = checkEditOperations(playlist, plan.operations)
+        if (operations.length === 0) return 0
+
+        get().pushHistory()
+        set((state) => state.currentSet
+          ? { currentSet: { ...state.currentSet, playlist: applyEditPlan(playlist, { operations }), updatedAt: new Date() } }
+          : state
+        )
+        return operations.length
+      },
+
+      insertBridgeTracks: (afterIndex, tracks) => {
+        const playlist = get().currentSet?.playlist
+        if (!playlist || afterIndex < 0 || afterIndex >= playlist.length || tracks.length === 0) return
+
+        get().pushHistory()
+        const timestamp = Date.now()
+        const bridgeNodes: PlaylistNode[] = tracks.map((track, index) => ({
+          id: `node-bridge-${timestamp}-${index}`,
+          track,
+          position: 0,
+          targetEnergy: track.energy,
+          state: 'ai-selected',
+        }))
+        const updated = [
+          ...playlist.slice(0, afterIndex + 1),
+          ...bridgeNodes,
+          ...playlist.slice(afterIndex + 1),
+        ].map((node, position) => ({ ...node, position }))
+
+        set((state) => state.currentSet
+          ? { currentSet: { ...state.currentSet, playlist: updated, updatedAt: new Date() } }
+          : state
+        )
+      },
+
       // Loading States
       isGenerating: false,
       setIsGenerating: (loading) => set({ isGenerating: loading }),
@@ -903,20 +1339,24 @@ export const useYTDJStore = create<YTDJState>()(
         skeletonCount: 0,
         enrichedCount: 0,
         primaryProvider: null,
-        providerPlaylists: []
+        providerPlaylists: [],
+        streamingProvider: null,
+        streamedTracks: []
       },
 
       startParallelGeneration: (trackCount) => set((state) => ({
         generationProgress: {
           ...state.generationProgress,
           isGenerating: true,
-          activeProviders: ['openai', 'claude', 'gemini'],
+          activeProviders: ['openai', 'claude', 'gemini', 'openai-compatible'],
           completedProviders: [],
           failedProviders: [],
           skeletonCount: trackCount,
           enrichedCount: 0,
           primaryProvider: null,
-          providerPlaylists: []
+          providerPlaylists: [],
+          streamingProvider: null,
+          streamedTracks: []
         },
         isGenerating: true
       })),
@@ -930,6 +1370,25 @@ export const useYTDJStore = create<YTDJState>()(
         }
       })),
 
+      // Fill a ghost slot as soon as a track is written (first provider to stream owns the slots)
+      receiveGeneratedTrack: (provider, index, node) => set((state) => {
+        const progress = state.generationProgress
+        if (progress.primaryProvider) return state
+        if (progress.streamingProvider && progress.streamingProvider !== provider) return state
+
+        const streamedTracks = [...progress.streamedTracks]
+        while (streamedTracks.length < index) streamedTracks.push(null)
+        streamedTracks[index] = node
+
+        return {
+          generationProgress: {
+            ...progress,
+            streamingProvider: provider,
+            streamedTracks
+          }
+        }
+      }),
+
       receivePrimaryResult: (provider, tracks) => set((state) => {
         // Update playlist with primary result
         const currentSet = state.currentSet || {
@@ -949,7 +1408,10 @@ export const useYTDJStore = create<YTDJState>()(
             providerPlaylists: [
               ...state.generationProgress.providerPlaylists,
               { provider, tracks, receivedAt: new Date() }
-            ]
+            ],
+            // The full result replaces the streamed slots
+            streamingProvider: null,
+            streamedTracks: []
           },
           currentSet: {
             ...currentSet,
@@ -980,8 +1442,25 @@ export const useYTDJStore = create<YTDJState>()(
       })),
 
       enrichTrack: (provider, index, trackUpdate) => set((state) => {
+        const progress = state.generationProgress
+
+        // Before a primary result, enrichment lands on the streamed ghost slots
+        if (!progress.primaryProvider) {
+          const streamed = progress.streamedTracks[index]
+          if (progress.streamingProvider !== provider || !streamed) return state
+          const streamedTracks = [...progress.streamedTracks]
+          streamedTracks[index] = { ...streamed, track: { ...streamed.track, ...trackUpdate } }
+          return {
+            generationProgress: {
+              ...progress,
+              streamedTracks,
+              enrichedCount: progress.enrichedCount + 1
+            }
+          }
+        }
+
         // Only update if this is the primary provider
-        if (state.generationProgress.primaryProvider !== provider) return state
+        if (progress.primaryProvider !== provider) return state
         if (!state.currentSet) return state
 
         const playlist = [...state.currentSet.playlist]
@@ -1011,9 +1490,12 @@ export const useYTDJStore = create<YTDJState>()(
         generationProgress: {
           ...state.generationProgress,
           isGenerating: false,
-          activeProviders: []
+          activeProviders: [],
+          streamingProvider: null,
+          streamedTracks: []
         },
-        isGenerating: false
+        isGenerating: false,
+        activeGenerationJob: null
       })),
 
       failAllGeneration: (errors) => set((state) => ({
@@ -1021,9 +1503,12 @@ export const useYTDJStore = create<YTDJState>()(
           ...state.generationProgress,
           isGenerating: false,
           activeProviders: [],
-          failedProviders: errors.map(e => e.provider)
+          failedProviders: errors.map(e => e.provider),
+          streamingProvider: null,
+          streamedTracks: []
         },
-        isGenerating: false
+        isGenerating: false,
+        activeGenerationJob: null
       })),
 
       resetGenerationProgress: () => set((state) => ({
@@ -1035,10 +1520,59 @@ export const useYTDJStore = create<YTDJState>()(
           skeletonCount: 0,
           enrichedCount: 0,
           primaryProvider: null,
-          providerPlaylists: []
+          providerPlaylists: [],
+          streamingProvider: null,
+          streamedTracks: []
         }
       })),
 
+      activeGenerationJob: null,
+
+      setActiveGenerationJob: (job) => set({ activeGenerationJob: job }),
+
+      // Replay a job that was still running when the page went away
+      reattachGenerationJob: () => {
+        const state = get()
+        const job = state.activeGenerationJob
+        if (!job || state.generationProgress.isGenerating) return null
+
+        console.log('[Store] Reattaching to generation job', job.id)
+        state.startParallelGeneration(job.trackCount)
+
+        return resumeGenerationJob(job.id, {
+          onStarted: () => {},
+          onProviderStarted: (provider) => get().setProviderStarted(provider),
+          onTrackGenerated: (provider, index, node) => get().receiveGeneratedTrack(provider, index, node),
+          onPrimaryResult: (provider, tracks) => get().receivePrimaryResult(provider, tracks),
+          onAlternativeResult: (provider, tracks) => get().receiveAlternativeResult(provider, tracks),
+          onProviderFailed: (provider, error) => get().setProviderFailed(provider, error),
+          onTrackEnriched: (provider, index, track) => get().enrichTrack(provider, index, track),
+          onComplete: (summary) => get().completeGeneration(summary),
+          onAllFailed: (errors) => get().failAllGeneration(errors),
+          onCancelled: () => {
+            get().resetGenerationProgress()
+            set({ isGenerating: false, activeGenerationJob: null })
+          },
+          onError: (error) => {
+            console.error('[Store] Could not reattach to generation job:', error)
+            get().resetGenerationProgress()
+            set({ isGenerating: false, activeGenerationJob: null })
+          },
+        })
+      },
+
+      cancelActiveGeneration: async () => {
+        const job = get().activeGenerationJob
+        if (!job) return
+
+        const { success, refunded } = await cancelGenerationJob(job.id)
+        console.log('[Store] Cancelled generation job', job.id, { success, refunded })
+        if (refunded) get().fetchSubscription()
+
+        get().resetGenerationProgress()
+        set({ isGenerating: false, activeGenerationJob: null })
+      },
+
       // Swap entire playlist with an alternative provider's result
       swapWithProviderAlternative: (provider) => set((state) => {
         const alternativePlaylist = state.generationProgress.providerPlaylists.find(p => p.provider === provider)
@@ -1069,7 +1603,7 @@ export const useYTDJStore = create<YTDJState>()(
 
         // Collect all tracks from all providers
         const allTracks: PlaylistNode[] = []
-        const providerOrder: AIProvider[] = ['openai', 'claude', 'gemini']
+        const providerOrder: AIProvider[] = ['openai', 'claude', 'gemini', 'openai-compatible']
 
         // Sort playlists by provider order for consistency
         const sortedPlaylists = [...providerPlaylists].sort((a, b) => {
@@ -1186,12 +1720,19 @@ export const useYTDJStore = create<YTDJState>()(
 
       setSegments: (segments) => set({ segments }),
 
-      addSegment: (segment) => set((state) => ({
-        segments: [...state.segments, segment].map((s, i) => ({ ...s, order: i })),
-        currentSet: state.currentSet
-          ? { ...state.currentSet, segments: [...state.segments, segment].map((s, i) => ({ ...s, order: i })), isSegmented: true }
-          : state.currentSet
-      })),
+      addSegment: (segment) => set((state) => {
+        // Radio segments stay at the tail
+        const firstRadio = state.segments.findIndex((s) => s.isRadio)
+        const insertAt = segment.isRadio || firstRadio === -1 ? state.segments.length : firstRadio
+        const segments = [...state.segments.slice(0, insertAt), segment, ...state.segments.slice(insertAt)]
+          .map((s, i) => ({ ...s, order: i }))
+        return {
+          segments,
+          currentSet: state.currentSet
+            ? { ...state.currentSet, segments, isSegmented: true }
+            : state.currentSet
+        }
+      }),
 
       updateSegment: (id, updates) => set((state) => ({
         segments: state.segments.map((s) => s.id === id ? { ...s, ...updates } : s),
@@ -1234,21 +1775,25 @@ export const useYTDJStore = create<YTDJState>()(
 
         const playlist = state.currentSet.playlist
         const totalTracks = playlist.length
+        // Radio segments hold the tail of the playlist; the set's own segments share the rest
+        const setTracks = totalTracks - getRadioTrackCount(state.segments)
 
         let currentIndex = 0
         const updatedSegments = state.segments.map((segment) => {
+          if (segment.isRadio) currentIndex = Math.max(currentIndex, setTracks)
           const startIndex = currentIndex
+          const lastIndex = (segment.isRadio ? totalTracks : setTracks) - 1
           let endIndex: number
 
           if (segment.duration.type === 'tracks') {
-            endIndex = Math.min(startIndex + segment.duration.count - 1, totalTracks - 1)
+            endIndex = Math.min(startIndex + segment.duration.count - 1, lastIndex)
           } else {
             // Duration in minutes - find tracks that fit within the time
             let segmentDuration = 0
             const targetDuration = segment.duration.duration * 60 // convert to seconds
             endIndex = startIndex
 
-            while (endIndex < totalTracks && segmentDuration < targetDuration) {
+            while (endIndex <= lastIndex && segmentDuration < targetDuration) {
               segmentDuration += playlist[endIndex].track.duration
               if (segmentDuration <= targetDuration || endIndex === startIndex) {
                 endIndex++
@@ -1484,6 +2029,18 @@ export const useYTDJStore = create<YTDJState>()(
                   newTracks = data.tracks
                   console.log('[regenerateSegment] Received', newTracks.length, 'new tracks')
                 }
+                if (data.event === 'track-generated') {
+                  console.log('[regenerateSegment] Track', data.index + 1, 'written:', data.track.track.title)
+                }
+                if (data.event === 'validation-repaired') {
+                  console.log('[regenerateSegment] AI output repaired:', data.report)
+                }
+                if (data.event === 'compliance-checked') {
+                  console.log('[regenerateSegment] Compliance:', data.report.score, data.report.autoFixed)
+                }
+                if (data.event === 'track-replaced') {
+                  console.log('[regenerateSegment] Replaced unverified track:', data.original, '->', data.replacement)
+                }
                 if (data.event === 'all-failed') {
                   console.error('[regenerateSegment] Generation failed:', data.errors)
                 }
@@ -1691,6 +2248,345 @@ export const useYTDJStore = create<YTDJState>()(
           autoMix: { ...state.autoMix, crossfadeDuration: Math.max(5, Math.min(30, seconds)) },
         })),
 
+      // Infinite Radio
+      radio: DEFAULT_RADIO_STATE,
+      radioStatus: {
+        isExtending: false,
+        error: null,
+        lastFailedAt: null,
+        resumeOnExtend: false,
+      },
+      setRadioSettings: (updates) => {
+        set((state) => ({
+          radio: {
+            ...state.radio,
+            ...updates,
+            // Turning radio on starts a fresh session against the cap
+            ...(updates.enabled && !state.radio.enabled && { extensionsUsed: 0 }),
+          },
+          radioStatus: updates.enabled !== undefined
+            ? { ...state.radioStatus, error: null, lastFailedAt: null, resumeOnExtend: false }
+            : state.radioStatus,
+        }))
+        get().checkRadioExtension()
+      },
+      checkRadioExtension: () => {
+        const { radio, radioStatus, player, currentSet } = get()
+        if (!radio.enabled || radioStatus.isExtending) return
+        if (radio.extensionsUsed >= radio.maxExtensions) return
+        if (radioStatus.lastFailedAt && Date.now() - radioStatus.lastFailedAt < RADIO_RETRY_COOLDOWN_MS) return
+        if (!shouldExtendRadio(player.playingNodeIndex, currentSet?.playlist.length || 0, radio.lookahead)) return
+
+        get().extendRadio()
+      },
+      extendRadio: async () => {
+        const state = get()
+        const { radio, currentSet } = state
+        if (!radio.enabled || state.radioStatus.isExtending || !currentSet?.playlist.length) return
+        if (radio.extensionsUsed >= radio.maxExtensions) return
+
+        // Each extension costs a credit; don't start one the server will refuse
+        if (state.subscription.creditsRemaining < 1) {
+          set((s) => ({
+            radioStatus: { ...s.radioStatus, error: 'Out of credits', lastFailedAt: Date.now() },
+          }))
+          return
+        }
+
+        const arc = arcTemplates.find((template) => template.id === state.activeArcTemplate)
+        const excludeTracks = getRadioExcludedTracks(currentSet.playlist, state.player.playingNodeIndex, state.playSessions)
+        const context = buildRadioContext(currentSet.playlist, state.segments, radio, arc?.energyProfile || [], excludeTracks)
+        const setId = currentSet.id
+
+        console.log('[Radio] Extending', currentSet.name, 'with', context.name, context.energyTargets)
+        set((s) => ({ radioStatus: { ...s.radioStatus, isExtending: true, error: null } }))
+
+        const result = await new Promise<{ tracks?: PlaylistNode[]; error?: string; code?: string }>((resolve) => {
+          let jobId: string | null = null
+          const cleanup = streamGenerateSegment(
+            {
+              prompt: currentSet.prompt || 'Generate DJ tracks',
+              constraints: {
+                trackCount: radio.batchSize,
+                energyTolerance: state.constraints.energyTolerance,
+                syncopation: state.constraints.syncopation,
+                keyMatch: state.constraints.keyMatch,
+                artistDiversity: state.constraints.diversity,
+                discovery: state.constraints.discovery,
+                activeDecades: state.constraints.activeDecades,
+                blacklist: state.constraints.blacklist,
+              } as AIConstraints,
+              segment: context,
+            },
+            {
+              onJobCreated: (id) => { jobId = id },
+              onStarted: () => {},
+              onProviderStarted: () => {},
+              onPrimaryResult: (_provider, tracks) => {
+                resolve({ tracks })
+                // Alternatives aren't used for radio: stop reading and stop the
+                // other providers (no refund, the result was delivered)
+                cleanup()
+                if (jobId) cancelGenerationJob(jobId)
+              },
+              onAlternativeResult: () => {},
+              onProviderFailed: (provider, error) => console.warn('[Radio] Provider failed:', provider, error),
+              onTrackEnriched: () => {},
+              onComplete: () => resolve({ error: 'No tracks generated' }),
+              onAllFailed: (errors) => resolve({ error: errors[0]?.error || 'Generation failed' }),
+              onCancelled: () => resolve({ error: 'Cancelled' }),
+              onError: (error, details) => resolve({ error, code: details?.code }),
+            }
+          )
+        })
+
+        const latest = get()
+        if (!latest.currentSet || latest.currentSet.id !== setId) {
+          // The set was switched while generating; drop the continuation
+          set((s) => ({ radioStatus: { ...s.radioStatus, isExtending: false } }))
+          return
+        }
+
+        const playlist = latest.currentSet.playlist
+        const fresh = result.tracks ? filterRepeatedTracks(playlist, result.tracks) : []
+        if (fresh.length === 0) {
+          const error = result.error || 'Only repeats came back'
+          console.error('[Radio] Extension failed:', error)
+          set((s) => ({
+            radio: result.code === 'no_credits' ? { ...s.radio, enabled: false } : s.radio,
+            radioStatus: { ...s.radioStatus, isExtending: false, error, lastFailedAt: Date.now() },
+          }))
+          return
+        }
+
+        const appended = fresh.map((node, index) => ({
+          ...node,
+          segmentId: context.id,
+          position: playlist.length + index,
+        }))
+
+        // A set without segments gets one for its own tracks so the radio shows after it
+        const baseSegments: SetSegment[] = latest.segments.length > 0
+          ? latest.segments
+          : [{
+              id: `segment-${Date.now()}-set`,
+              name: 'Set',
+              color: '#6B7280',
+              duration: { type: 'tracks', count: playlist.length },
+              order: 0,
+              constraints: {},
+            }]
+        const segments = [...baseSegments, createRadioSegment(context, appended.length, baseSegments.length)]
+        const resume = latest.radioStatus.resumeOnExtend && latest.player.playingNodeIndex === playlist.length - 1
+
+        set((s) => ({
+          currentSet: s.currentSet
+            ? { ...s.currentSet, playlist: [...playlist, ...appended], segments, isSegmented: true, updatedAt: new Date() }
+            : s.currentSet,
+          segments,
+          radio: { ...s.radio, extensionsUsed: s.radio.extensionsUsed + 1 },
+          radioStatus: { ...s.radioStatus, isExtending: false, error: null, lastFailedAt: null, resumeOnExtend: false },
+        }))
+        get().calculateSegmentBoundaries()
+        get().refreshCredits()
+
+        console.log('[Radio] Appended', appended.length, 'tracks as', context.name)
+
+        if (resume) {
+          get().skipNext()
+        } else {
+          get().checkRadioExtension()
+        }
+      },
+
+      // Transition Rehearsal
+      rehearsal: null,
+      startRehearsal: (leadSeconds = DEFAULT_REHEARSAL_LEAD_SECONDS) => {
+        const state = get()
+        const playlist = state.currentSet?.playlist || []
+        if (playlist.length < 2) return
+
+        // Rehearsal rides on the AutoMix crossfade; keep going from the playing
+        // track if AutoMix already has it, otherwise start the set from the top
+        const playingIndex = state.player.playingNodeIndex
+        const resume = state.autoMix.enabled && playingIndex !== null && playingIndex < playlist.length - 1
+
+        // Auditioning mix points isn't a performance - close the play log first
+        get().endActivePlaySession()
+        set({
+          rehearsal: {
+            transitionIndex: resume ? playingIndex : 0,
+            leadSeconds,
+            phase: 'outgoing',
+          },
+        })
+
+        if (resume) {
+          if (!state.player.isPlaying) get().setPlayerState({ isPlaying: true })
+        } else {
+          get().stopTrack()
+          get().resetDualPlayer()
+          get().setAutoMixEnabled(true)
+          get().playTrack(0)
+        }
+      },
+      setRehearsalPhase: (phase) => set((state) => ({
+        rehearsal: state.rehearsal ? { ...state.rehearsal, phase } : null,
+      })),
+      rateRehearsalTransition: (rating) => {
+        const { rehearsal, currentSet } = get()
+        // Verdicts come once the crossfade has been heard
+        if (rehearsal?.phase !== 'incoming' && rehearsal?.phase !== 'rating') return
+
+        // null skips the transition without a verdict
+        if (rating) {
+          get().updateNodeTransition(rehearsal.transitionIndex, {
+            rehearsalRating: rating,
+            rehearsedAt: new Date().toISOString(),
+          })
+        }
+
+        const nextIndex = rehearsal.transitionIndex + 1
+        if (nextIndex >= (currentSet?.playlist.length || 0) - 1) {
+          set({ rehearsal: { ...rehearsal, phase: 'done' } })
+          get().pauseTrack()
+          return
+        }
+
+        // The incoming track of this transition is the outgoing one of the next
+        set({ rehearsal: { ...rehearsal, transitionIndex: nextIndex, phase: 'outgoing' } })
+        if (get().player.playingNodeIndex === nextIndex) {
+          get().setPlayerState({ isPlaying: true })
+        } else {
+          // The crossfade never happened; load the next track directly
+          get().resetDualPlayer()
+          get().playTrack(nextIndex)
+        }
+      },
+      stopRehearsal: () => {
+        if (get().rehearsal?.phase !== 'done') get().pauseTrack()
+        set({ rehearsal: null })
+      },
+
+      // Play Log
+      playSessions: [],
+      activePlaySessionId: null,
+      logTrackStart: (nodeIndex, startOffset, reason) => {
+        const state = get()
+        const currentSet = state.currentSet
+        const node = currentSet?.playlist[nodeIndex]
+        if (!currentSet || !node?.track || state.rehearsal) return
+
+        let session = state.playSessions.find(s => s.id === state.activePlaySessionId)
+        if (session && session.setId !== currentSet.id) {
+          get().endActivePlaySession()
+          session = undefined
+        }
+
+        if (!session) {
+          session = createPlaySession(currentSet)
+        } else {
+          // Resuming the track that's already playing isn't a new entry
+          const last = session.entries[session.entries.length - 1]
+          if (last && last.endedAt === undefined && last.nodeId === node.id) return
+        }
+
+        const updated = beginPlayLogEntry(session, node, startOffset, reason)
+        set((state) => ({
+          playSessions: upsertPlaySession(state.playSessions, updated),
+          activePlaySessionId: updated.id,
+        }))
+      },
+      markPlayLog: (mark) => {
+        const state = get()
+        const session = state.playSessions.find(s => s.id === state.activePlaySessionId)
+        if (!session || state.rehearsal) return
+
+        const updated = mark === 'crossfade'
+          ? markPlayLogCrossfade(session)
+          : endPlayLogEntry(session, 'finished')
+        set({ playSessions: upsertPlaySession(state.playSessions, updated) })
+      },
+      endActivePlaySession: () => {
+        const state = get()
+        const session = state.playSessions.find(s => s.id === state.activePlaySessionId)
+        if (!session) return
+
+        const ended = endPlaySession(session)
+        // Nothing heard for long enough - don't keep an empty session around
+        if (getTracklist(ended).length === 0) {
+          set({
+            playSessions: state.playSessions.filter(s => s.id !== session.id),
+            activePlaySessionId: null,
+          })
+          return
+        }
+
+        set({
+          playSessions: upsertPlaySession(state.playSessions, ended),
+          activePlaySessionId: null,
+        })
+        get().syncPlaySession(ended.id)
+      },
+      syncPlaySession: async (sessionId) => {
+        const session = get().playSessions.find(s => s.id === sessionId)
+        if (!session) return { success: false, error: 'Play session not found' }
+
+        try {
+          const response = await fetch('/api/sets/play-sessions', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ session })
+          })
+          const data = await response.json()
+
+          if (!response.ok) {
+            return { success: false, error: data.error || 'Failed to sync play session' }
+          }
+
+          const syncedAt = Date.now()
+          set((state) => ({
+            playSessions: state.playSessions.map(s => s.id === sessionId ? { ...s, syncedAt } : s)
+          }))
+          return { success: true }
+        } catch (error) {
+          return { success: false, error: 'Network error' }
+        }
+      },
+      fetchPlaySessions: async () => {
+        try {
+          const response = await fetch('/api/sets/play-sessions')
+          const data = await response.json()
+
+          if (!response.ok) {
+            return { success: false, error: data.error || 'Failed to load play sessions' }
+          }
+
+          // Merge in sessions recorded on other devices
+          const syncedAt = Date.now()
+          set((state) => ({
+            playSessions: (data.sessions as PlaySession[]).reduce(
+              (sessions, remote) => sessions.some(s => s.id === remote.id)
+                ? sessions
+                : upsertPlaySession(sessions, { ...remote, syncedAt }),
+              state.playSessions
+            )
+          }))
+
+          // Push finished sessions that never made it up (offline, signed out, closed tab)
+          const { playSessions, activePlaySessionId } = get()
+          for (const session of playSessions) {
+            if (!session.syncedAt && session.id !== activePlaySessionId) {
+              await get().syncPlaySession(session.id)
+            }
+          }
+
+          return { success: true }
+        } catch (error) {
+          return { success: false, error: 'Network error' }
+        }
+      },
+
       // Dual Player State
       dualPlayer: {
         activePlayer: 'A',
@@ -1720,6 +2616,84 @@ export const useYTDJStore = create<YTDJState>()(
           },
         }),
 
+      // Manual Decks
+      manualDecks: DEFAULT_MANUAL_DECKS_STATE,
+      setManualDecksEnabled: (enabled) => {
+        if (!enabled) {
+          set((state) => ({ manualDecks: { ...state.manualDecks, enabled: false } }))
+          return
+        }
+
+        // The decks take over from the automatic player
+        const state = get()
+        if (state.rehearsal) state.stopRehearsal()
+        const playingNode = state.player.playingNodeIndex !== null
+          ? state.currentSet?.playlist[state.player.playingNodeIndex]
+          : undefined
+        get().stopTrack()
+        get().resetDualPlayer()
+        set((state) => ({ manualDecks: { ...state.manualDecks, enabled: true } }))
+
+        // Start with the playing (or first) track on A and the one after it on B
+        const { manualDecks, currentSet } = get()
+        if (manualDecks.decks.A.nodeId || manualDecks.decks.B.nodeId) return
+        const playable = (currentSet?.playlist || []).filter((node) => node.track.youtubeId)
+        const first = playingNode?.track.youtubeId ? playingNode : playable[0]
+        if (!first) return
+        get().loadDeck('A', first.id)
+        const next = playable[playable.findIndex((node) => node.id === first.id) + 1]
+        if (next) get().loadDeck('B', next.id)
+      },
+      loadDeck: (deck, nodeId) => set((state) => {
+        const node = nodeId ? state.currentSet?.playlist.find((n) => n.id === nodeId) : undefined
+        return {
+          manualDecks: {
+            ...state.manualDecks,
+            decks: {
+              ...state.manualDecks.decks,
+              [deck]: {
+                ...DEFAULT_MANUAL_DECK,
+                nodeId: node ? node.id : null,
+                cuePoint: node ? getNodeMixInTime(node) : 0,
+              },
+            },
+          },
+        }
+      }),
+      setDeckPlaybackRate: (deck, rate) => set((state) => ({
+        manualDecks: {
+          ...state.manualDecks,
+          decks: {
+            ...state.manualDecks.decks,
+            [deck]: { ...state.manualDecks.decks[deck], playbackRate: snapPlaybackRate(rate) },
+          },
+        },
+      })),
+      setDeckCuePoint: (deck, time) => set((state) => ({
+        manualDecks: {
+          ...state.manualDecks,
+          decks: {
+            ...state.manualDecks.decks,
+            [deck]: { ...state.manualDecks.decks[deck], cuePoint: Math.max(0, time) },
+          },
+        },
+      })),
+      syncDeck: (deck, availableRates) => {
+        const { manualDecks, currentSet } = get()
+        const playlist = currentSet?.playlist || []
+        const master = manualDecks.decks[getOtherDeck(deck)]
+        const node = playlist.find((n) => n.id === manualDecks.decks[deck].nodeId)
+        const masterNode = playlist.find((n) => n.id === master.nodeId)
+
+        const rate = getSyncPlaybackRate(node?.track.bpm, masterNode?.track.bpm, master.playbackRate, availableRates)
+        if (rate === null) return false
+        get().setDeckPlaybackRate(deck, rate)
+        return true
+      },
+      setCrossfader: (position) => set((state) => ({
+        manualDecks: { ...state.manualDecks, crossfader: Math.min(1, Math.max(0, position)) },
+      })),
+
       // Track BPM/Key enrichment
       enrichTrackBpmKey: (nodeIndex, bpm, key, camelotCode) => {
         set((state) => {
@@ -1744,15 +2718,19 @@ export const useYTDJStore = create<YTDJState>()(
         set((state) => {
           if (!state.currentSet) return state
           const playlist = [...state.currentSet.playlist]
-          for (const { nodeIndex, bpm, key, camelotCode } of updates) {
-            if (playlist[nodeIndex]) {
+          for (const { nodeIndex, bpm, key, camelotCode, source, confidence, verified } of updates) {
+            const node = playlist[nodeIndex]
+            // Never overwrite values a user has confirmed
+            if (node && !node.track.bpmKeyVerified) {
               playlist[nodeIndex] = {
-                ...playlist[nodeIndex],
+                ...node,
                 track: {
-                  ...playlist[nodeIndex].track,
+                  ...node.track,
                   bpm,
-                  key,
-                  camelotCode,
+                  ...(key ? { key, camelotCode } : {}),
+                  bpmKeySource: source,
+                  bpmKeyConfidence: confidence,
+                  bpmKeyVerified: verified,
                 },
               }
             }
@@ -1762,6 +2740,36 @@ export const useYTDJStore = create<YTDJState>()(
           }
         })
       },
+      correctTrackBpmKey: (nodeIndex, correction) => {
+        const node = get().currentSet?.playlist[nodeIndex]
+        if (!node || (!correction.bpm && !correction.key)) return
+
+        get().pushHistory()
+        set((state) => {
+          if (!state.currentSet) return state
+          const playlist = [...state.currentSet.playlist]
+          const track = playlist[nodeIndex].track
+          playlist[nodeIndex] = {
+            ...playlist[nodeIndex],
+            track: {
+              ...track,
+              ...(correction.bpm ? { bpm: correction.bpm } : {}),
+              ...(correction.key
+                ? { key: correction.key, camelotCode: toCamelot(correction.key) || undefined }
+                : {}),
+              bpmKeySource: 'user',
+              bpmKeyConfidence: 1,
+              bpmKeyVerified: true,
+            },
+          }
+          return {
+            currentSet: { ...state.currentSet, playlist, updatedAt: new Date() },
+          }
+        })
+
+        // Share the correction so future estimations for this track skip the AI
+        submitBpmKeyCorrection(node.track.title, node.track.artist, correction)
+      },
 
       // Mixtape Publishing
       likedMixtapes: [],
@@ -1833,8 +2841,12 @@ export const useYTDJStore = create<YTDJState>()(
         activeArcTemplate: state.activeArcTemplate,
         generationControls: state.generationControls,
         autoMix: state.autoMix,
+        radio: state.radio,
         segments: state.segments,
         likedMixtapes: state.likedMixtapes,
+        activeGenerationJob: state.activeGenerationJob,
+        playSessions: state.playSessions,
+        loudnessTable: state.loudnessTable,
       }),
     }
   )
@@ -1,6 +1,6 @@
 // YTDJ.AI Type Definitions
 
-export type AIProvider = 'openai' | 'claude' | 'gemini'
+export type AIProvider = 'openai' | 'claude' | 'gemini' | 'openai-compatible'
 
 export type Mood =
   | 'energetic'
@@ -14,6 +14,9 @@ export type Mood =
 
 export type TransitionQuality = 'excellent' | 'good' | 'fair' | 'poor'
 
+// Where a track's BPM/key came from
+export type BpmKeySource = 'ai' | 'genre-fallback' | 'user' | 'imported'
+
 export interface Track {
   id: string
   youtubeId: string
@@ -26,22 +29,40 @@ export interface Track {
   energy?: number // 1-100 subjective intensity (NOT tempo)
   key?: string
   isExplicit?: boolean
+  releaseYear?: number
   aiReasoning?: string
   // AutoMix fields
   bpm?: number // Estimated BPM (60-200)
   camelotCode?: string // Camelot notation (e.g., "8A", "5B")
+  bpmKeySource?: BpmKeySource // Unset means an AI guess from generation
+  bpmKeyConfidence?: number // 0-1
+  bpmKeyVerified?: boolean // Confirmed by a user (or imported from DJ software); skipped by re-estimation
+  // Existence check against iTunes/Invidious (see lib/track-verification.ts)
+  verificationConfidence?: number // 0-1 fuzzy match score
+  verificationStatus?: TrackVerificationStatus
 }
 
+// 'replaced' means the AI's original pick failed verification and was swapped out
+export type TrackVerificationStatus = 'verified' | 'unverified' | 'replaced'
+
+// How AutoMix plays a transition (see lib/transition-styles.ts)
+export type TransitionStyle = 'crossfade' | 'echo-out' | 'cut' | 'blend' | 'spinback' | 'gapped'
+
 export interface Transition {
   quality: TransitionQuality
   type: 'cut' | 'blend' | 'fade' | 'crossfade'
   duration: number // in beats
   // AutoMix fields
+  style?: TransitionStyle // User-chosen playback style (defaults to the AutoMix mode)
+  gapSeconds?: number // Silence length for the 'gapped' style
   crossfadeDuration?: number // Duration in seconds (5-30)
   mixOutPoint?: number // Seconds from end to start crossfade
   mixInPoint?: number // Seconds from start to end crossfade
   keyCompatibility?: KeyCompatibility
   bpmDifference?: number
+  // Rehearsal verdict (thumbs up/down) and when it was given
+  rehearsalRating?: RehearsalRating
+  rehearsedAt?: string
 }
 
 export interface AlternativeTrack extends Track {
@@ -49,6 +70,22 @@ export interface AlternativeTrack extends Track {
   matchScore?: number // 0-100 compatibility score
 }
 
+export type CueType = 'hot' | 'loop' | 'mix-in' | 'mix-out'
+
+export interface Cue {
+  id: string
+  type: CueType
+  time: number // Seconds from track start (loop in for 'loop')
+  endTime?: number // Loop out (seconds from track start)
+  label?: string // Hot cue letter (A-H) or custom name
+}
+
+// Rough beat grid from tap tempo
+export interface BeatGrid {
+  bpm: number
+  firstBeat: number // Seconds from track start of the first downbeat
+}
+
 export interface PlaylistNode {
   id: string
   track: Track
@@ -59,12 +96,21 @@ export interface PlaylistNode {
   state?: NodeState
   transitionToNext?: Transition
   startTime?: number // Start playback at this time (in seconds) - useful for skipping intros
+  cues?: Cue[] // Hot cues, loop and mix markers
+  beatGrid?: BeatGrid
+  gainDb?: number // Loudness trim on top of the master volume (dB, negative = quieter)
+  gainSource?: GainSource
   alternatives?: AlternativeTrack[] // Alternative tracks that could work in this slot
   sourceProvider?: AIProvider // Which AI provider generated this track
   // Segmented Set Designer
   segmentId?: string // Which segment this track belongs to
 }
 
+export type GainSource =
+  | 'manual' // Set in the inspector
+  | 'nudge' // Nudged during playback
+  | 'matched' // Filled from the loudness table
+
 export type NodeState =
   | 'ai-selected'
   | 'user-locked'
@@ -147,6 +193,9 @@ export interface SetSegment {
   // Locked anchor tracks that MUST appear in this segment
   anchorTracks?: AnchorTrack[]
 
+  // Auto-segment appended by infinite radio; always placed after the set's own segments
+  isRadio?: boolean
+
   // Calculated at runtime - indices into playlist array
   startIndex?: number
   endIndex?: number
@@ -239,6 +288,10 @@ export interface SegmentContext {
     before: PlaylistNode[] // Last 2 tracks from previous segment
     after: PlaylistNode[] // First 2 tracks from next segment
   }
+  // Track-by-track energy targets (1-100), e.g. the next stretch of the arc
+  energyTargets?: number[]
+  // Tracks that must not be repeated (already in the set)
+  excludeTracks?: { artist: string; title: string }[]
 }
 
 // Weighted prompt phrase for multi-phrase blending
@@ -376,6 +429,62 @@ export interface SwapTrackRequest {
   styleHint?: string // e.g., "more upbeat", "more underground", "more guitars"
 }
 
+// Conversational set editing (see lib/set-edit-plan.ts)
+// Indices are 0-based positions in the playlist the plan was made against
+export type SetEditOperation =
+  | { type: 'replace'; index: number; track: Track; reason?: string }
+  | { type: 'insert'; index: number; track: Track; reason?: string } // before index (length = append)
+  | { type: 'remove'; index: number; reason?: string }
+  | { type: 'move'; from: number; to: number; reason?: string }
+  | { type: 'energy'; index: number; energy: number; reason?: string }
+
+export interface SetEditPlan {
+  summary: string
+  operations: SetEditOperation[]
+  // Operations dropped because they touched locked nodes or bad indices
+  skipped: { operation: SetEditOperation; reason: string }[]
+}
+
+export interface SetEditMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+// What the edit-set route needs to know about each node
+export interface EditSetTrack {
+  title: string
+  artist: string
+  energy?: number
+  targetEnergy?: number
+  bpm?: number
+  key?: string
+  genre?: string
+  isLocked?: boolean
+  isEnergyLocked?: boolean
+}
+
+export interface EditSetRequest {
+  instruction: string
+  playlist: EditSetTrack[]
+  history?: SetEditMessage[]
+  prompt?: string
+  provider: AIProvider
+}
+
+// Bridge-track finder (see lib/bridge-tracks.ts)
+export interface BridgeTracksRequest {
+  previousTrack: Track
+  nextTrack: Track
+  constraints?: AIConstraints
+  provider: AIProvider
+}
+
+export interface BridgeProposal {
+  tracks: Track[] // One or two tracks to insert between the neighbours
+  score: number // Mean transition score over every hop (0-100)
+  hopScores: number[]
+}
+
 export interface AIResponse<T> {
   data: T
   provider: AIProvider
@@ -416,18 +525,96 @@ export interface GenerationProgress {
   enrichedCount: number // tracks with YouTube data
   primaryProvider: AIProvider | null
   providerPlaylists: ProviderPlaylist[] // all playlists from all providers
+  streamingProvider: AIProvider | null // provider whose tracks fill the ghost slots before a primary result
+  streamedTracks: (PlaylistNode | null)[] // tracks received so far, by slot
+}
+
+// What schema validation fixed in one provider's AI response
+export interface ValidationRepairReport {
+  expected: number // track slots requested
+  received: number // tracks the AI returned
+  coerced: number // field values clamped or normalized (energy, BPM, key, duration)
+  invalid: number // records that failed validation
+  missing: number // slots the AI left out
+  repaired: number // invalid/missing slots filled by a re-prompt
+  unresolved: number // slots still empty after re-prompting (dropped)
+  attempts: number // re-prompts sent
+}
+
+// Constraint compliance (see lib/constraint-compliance.ts)
+export type ConstraintRule =
+  | 'excluded-artist'
+  | 'excluded-genre'
+  | 'energy-range'
+  | 'energy-preset'
+  | 'decade'
+  | 'explicit'
+  | 'artist-diversity'
+
+export interface ConstraintViolation {
+  rule: ConstraintRule
+  nodeIndex: number
+  severity: 'error' | 'warning' // errors break hard exclusions, warnings miss soft targets
+  message: string
+}
+
+export interface ComplianceReport {
+  score: number // 0-100, share of tracks with no violations
+  totalTracks: number
+  compliantTracks: number
+  checkedRules: ConstraintRule[] // rules the constraints actually enable
+  violations: ConstraintViolation[]
+  // Set when violations were repaired after generation
+  autoFixed?: { fromAlternatives: number; fromProvider: number }
+}
+
+// Server-side generation job (see lib/generation-jobs.ts)
+export type GenerationJobStatus = 'running' | 'completed' | 'failed' | 'cancelled'
+
+export interface GenerationJobSummary {
+  id: string
+  status: GenerationJobStatus
+  prompt: string
+  trackCount: number
+  createdAt: string
+  updatedAt: string
+  eventCount: number // events in the log (the last SSE event id)
+  resultDelivered: boolean // a primary result was sent
+  creditRefunded: boolean
+}
+
+// Job the client is following, kept across reloads so it can reattach
+export interface ActiveGenerationJob {
+  id: string
+  trackCount: number
+  startedAt: number
 }
 
 // Stream event types (matching backend)
 export type StreamEvent =
+  | { event: 'job-created'; jobId: string }
   | { event: 'started'; providers: AIProvider[] }
   | { event: 'provider-started'; provider: AIProvider }
+  | { event: 'track-generated'; provider: AIProvider; index: number; track: PlaylistNode }
   | { event: 'primary-result'; provider: AIProvider; tracks: PlaylistNode[] }
   | { event: 'alternative-result'; provider: AIProvider; tracks: PlaylistNode[] }
   | { event: 'provider-failed'; provider: AIProvider; error: string }
   | { event: 'track-enriched'; provider: AIProvider; index: number; track: Partial<Track> }
+  | { event: 'validation-repaired'; provider: AIProvider; report: ValidationRepairReport }
+  | { event: 'track-verified'; provider: AIProvider; index: number; confidence: number; verified: boolean }
+  | {
+      event: 'track-replaced'
+      provider: AIProvider
+      index: number
+      original: { artist: string; title: string }
+      replacement: { artist: string; title: string }
+      confidence: number
+      source: 'alternative' | 'provider'
+    }
+  | { event: 'compliance-checked'; provider: AIProvider; report: ComplianceReport }
   | { event: 'complete'; summary: { primary: AIProvider | null; alternatives: AIProvider[]; failed: AIProvider[] } }
   | { event: 'all-failed'; errors: { provider: AIProvider; error: string }[] }
+  | { event: 'cancelled'; refunded: boolean }
 
 // ============================================================================
 // AutoMix Types
@@ -435,12 +622,83 @@ export type StreamEvent =
 
 export type KeyCompatibility = 'perfect' | 'compatible' | 'warning' | 'clash'
 
+// Named harmonic mixing technique behind a key change
+export type KeyTechnique =
+  | 'same-key'
+  | 'adjacent' // ±1 on the wheel
+  | 'mood-shift' // A↔B at the same position (relative major/minor)
+  | 'energy-boost' // +2 on the wheel
+  | 'semitone-up' // +7 on the wheel (key up one semitone)
+  | 'none'
+
 export interface AutoMixState {
   enabled: boolean
   mode: 'seamless' | 'gapped' // seamless = crossfade, gapped = 2s silence
   crossfadeDuration: number // Default crossfade duration in seconds (5-30)
 }
 
+// Transition rehearsal: audition only the mix points of a set
+export type RehearsalRating = 'up' | 'down'
+
+export type RehearsalPhase =
+  | 'outgoing' // Last seconds before the mix-out point
+  | 'crossfade'
+  | 'incoming' // First seconds of the next track
+  | 'rating' // Paused, waiting for a verdict
+  | 'done'
+
+export interface RehearsalSession {
+  transitionIndex: number // Outgoing node of the transition being auditioned
+  leadSeconds: number // Seconds played either side of the crossfade
+  phase: RehearsalPhase
+}
+
+// Infinite radio: keep extending the set while it plays
+export interface RadioState {
+  enabled: boolean
+  lookahead: number // Extend once playback is this many tracks from the end
+  batchSize: number // Tracks per extension
+  maxExtensions: number // User cap on extensions (one credit each) per radio session
+  extensionsUsed: number
+}
+
+// Play log: what was actually played, when and for how long
+export type PlayLogEndReason =
+  | 'finished' // Played out to the end
+  | 'crossfade' // Mixed into the next track
+  | 'skipped' // Next/previous pressed
+  | 'jumped' // Another node picked directly
+  | 'stopped'
+
+export interface PlayLogSeek {
+  at: number // Wall-clock ms
+  from: number // Track position (seconds)
+  to: number
+}
+
+export interface PlayLogEntry {
+  nodeId: string
+  artist: string
+  title: string
+  youtubeId?: string
+  startedAt: number // Wall-clock ms the track became audible
+  endedAt?: number
+  startOffset: number // Track position (seconds) playback started from
+  crossfadeAt?: number // Wall-clock ms the mix into the next track began
+  endReason?: PlayLogEndReason
+  seeks: PlayLogSeek[]
+}
+
+export interface PlaySession {
+  id: string
+  setId: string
+  setName: string
+  startedAt: number // Wall-clock ms
+  endedAt?: number
+  entries: PlayLogEntry[]
+  syncedAt?: number // Last successful cloud sync
+}
+
 export interface DualPlayerState {
   activePlayer: 'A' | 'B'
   playerAVideoId: string | null
@@ -453,10 +711,26 @@ export interface DualPlayerState {
   transitionScheduledAt: number | null // timestamp when crossfade should start
 }
 
+// Manual two-deck mode: the DJ loads, plays and blends the decks by hand
+export type DeckId = 'A' | 'B'
+
+export interface ManualDeckState {
+  nodeId: string | null // Loaded playlist node
+  playbackRate: number // One of the YouTube playback rates
+  cuePoint: number // Seconds from track start
+}
+
+export interface ManualDecksState {
+  enabled: boolean
+  decks: Record<DeckId, ManualDeckState>
+  crossfader: number // 0 = all deck A, 1 = all deck B
+}
+
 export interface TransitionAnalysis {
   fromTrack: Track
   toTrack: Track
   keyCompatibility: KeyCompatibility
+  keyTechnique: KeyTechnique
   bpmDifference: number
   overallScore: number // 0-100
   recommendedCrossfadeDuration: number
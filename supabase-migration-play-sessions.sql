@@ -0,0 +1,30 @@
+-- ============================================
+-- MIGRATION: Play Sessions (performance history)
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+-- One row per run through a set; data holds the full PlaySession with its entries
+CREATE TABLE IF NOT EXISTS play_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_email TEXT NOT NULL,
+  session_id TEXT NOT NULL, -- The client-side generated ID (e.g., "play-1705123456789")
+  set_id TEXT NOT NULL,
+  set_name TEXT NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ,
+  data JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_email, session_id)
+);
+
+-- Recently played lookups
+CREATE INDEX IF NOT EXISTS idx_play_sessions_user_started ON play_sessions(user_email, started_at DESC);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE play_sessions ENABLE ROW LEVEL SECURITY;
+
+-- user_email is checked in the API layer, as for dj_sets
+DROP POLICY IF EXISTS "Service role access for play_sessions" ON play_sessions;
+CREATE POLICY "Service role access for play_sessions"
+  ON play_sessions FOR ALL USING (true);